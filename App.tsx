@@ -1,175 +1,546 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { MemoryViewer } from './components/MemoryViewer';
 import { LibraryPanel } from './components/LibraryPanel';
 import { AgentPanel } from './components/AgentPanel';
-import { ingestRecall, runAgenticCommand } from './services/geminiService';
-import { RecallFile, RecallType, ChatMessage } from './types';
-import mammoth from 'mammoth';
-import { read, utils } from 'xlsx';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SpatialCanvas } from './components/SpatialCanvas';
+import { ImportDialog } from './components/ImportDialog';
+import { LedgerPanel } from './components/LedgerPanel';
+import { DeadlinesPanel } from './components/DeadlinesPanel';
+import { IngestTray } from './components/IngestTray';
+import { AgentHost, runAgent } from './services/agent';
+import { getAIProvider, getAISettings, updateAISettings } from './services/aiProvider';
+import { listMemories, migrateLegacyStorage, syncMemories } from './services/memoryStore';
+import { describeStorageError } from './services/database';
+import { collectGarbage, resolvePayload } from './services/blobStore';
+import { analyzePdf, isPdfContent, mayNeedPdfAnalysis } from './services/pdfDocument';
+import { analyzeFile, applyAnalysis, createMemory, fileFromMemory } from './services/ingestion';
+import { ImportedItem, importFile } from './services/importers';
+import { IngestItem, PENDING_STATES, createIngestQueue } from './services/ingestQueue';
+import { commitVersion, compactHistory, needsCompaction } from './services/textHistory';
+import { parseQuery, matchesQuery, getHighlightTerms } from './services/queryLanguage';
+import { RecallBundle, ImportConflictPolicy, applyRecallBundle, createRecallBundle, findConflicts, isRecallFileName, parseRecallBundle, serializeRecallBundle } from './services/recallBundle';
+import { downloadBlob, toFileName } from './services/download';
+import { Point, hasPosition, placeNearRelated, placeUnpositioned } from './services/canvasLayout';
+import { LayoutMode, animatePositions, currentPositions, runLayout } from './services/layoutEngine';
+import { SavedQuery, loadSavedQueries, storeSavedQueries } from './services/savedQueries';
+import { collectDeadlines, dueForReminder, isActionable, markNotified, notificationsSupported, requestNotificationPermission, showDeadlineNotification } from './services/deadlines';
+import { indexMemory, isIndexCurrent, loadVectorIndex, removeFromIndex, searchIndex } from './services/vectorIndex';
+import { RecallFile, RecallType, ChatMessage, AgentAction, AgentStep, Citation } from './types';
+
+// How many layout applications can be undone
+const LAYOUT_UNDO_LIMIT = 10;
+
+// How often deadline reminders are checked while the app is open
+const REMINDER_CHECK_MS = 60000;
+
+// Persistence is debounced so bursts of updates (e.g. canvas drags) become one write per record
+const PERSIST_DEBOUNCE_MS = 250;
+
+const withPlacement = (memory: RecallFile, others: RecallFile[]): RecallFile =>
+  hasPosition(memory) ? memory : { ...memory, ...placeNearRelated(memory, others) };
+
+// What the ingest queue works on: a dropped file, one more file from an archive or email, or an existing memory being re-analyzed
+type IngestSource =
+  | { kind: 'file'; file: File; open: boolean }
+  | { kind: 'imported'; item: ImportedItem; attachedTo?: string }
+  | { kind: 'memory'; memoryId: string };
+
+const countSnapshots = (memory: RecallFile) => memory.history.filter(d => !!d.content).length;
 
 export default function App() {
   // --- Global State ---
   const [memories, setMemories] = useState<RecallFile[]>([]);
-  const [activeMemory, setActiveMemory] = useState<RecallFile | null>(null);
+  const [activeMemoryId, setActiveMemoryId] = useState<string | null>(null);
+  const [view, setView] = useState<'library' | 'canvas' | 'ledger'>('library');
   const [searchQuery, setSearchQuery] = useState('');
   const [status, setStatus] = useState("System Ready");
   const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Last version of each memory known to be in IndexedDB, used to diff out per-record writes
+  const persistedRef = useRef<Map<string, RecallFile>>(new Map());
+  const latestMemoriesRef = useRef<RecallFile[]>([]);
+  latestMemoriesRef.current = memories;
+  // Snapshot of what the vector index last saw, and a serial queue so embeddings run one at a time
+  const indexedRef = useRef<Map<string, RecallFile> | null>(null);
+  const indexQueueRef = useRef<Promise<void>>(Promise.resolve());
   
   // UI States
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
-  const [filterTag, setFilterTag] = useState<string | null>(null);
+  // Steps of the command the agent is working on, shown live in the agent panel
+  const [agentTrace, setAgentTrace] = useState<AgentStep[] | null>(null);
+  // Agent changes waiting for the user, and the resolvers of the tool calls waiting on them
+  const [pendingActions, setPendingActions] = useState<AgentAction[]>([]);
+  const approvalsRef = useRef<Map<string, (approved: boolean) => void>>(new Map());
+  const agentRunRef = useRef<AbortController | null>(null);
+  // Passage of a cited memory to scroll to when it opens
+  const [passageFocus, setPassageFocus] = useState<{ memoryId: string; passage: string; at: number } | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ bundle: RecallBundle; conflicts: number } | null>(null);
+  const [importedAt, setImportedAt] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'type'>('date');
+  const [searchMode, setSearchMode] = useState<'text' | 'semantic'>('text');
+  const [semanticScores, setSemanticScores] = useState<Map<string, number> | null>(null);
+  // In-flight layout animation frames; committed to memories only when the layout finishes
+  const [layoutPreview, setLayoutPreview] = useState<Map<string, Point> | null>(null);
+  const [layoutUndoStack, setLayoutUndoStack] = useState<Map<string, Point>[]>([]);
+  const layoutAbortRef = useRef<AbortController | null>(null);
+  const layoutPreviewRef = useRef<Map<string, Point> | null>(null);
+  const [isDeadlinesOpen, setIsDeadlinesOpen] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => (notificationsSupported() ? Notification.permission : 'unsupported')
+  );
+  // Content each memory had when last checked for missing PDF text, so each version is analyzed once
+  const pdfCheckedRef = useRef<Map<string, string>>(new Map());
+  const [ingestItems, setIngestItems] = useState<IngestItem[]>([]);
+  const [ingestQueue] = useState(() => createIngestQueue<IngestSource, ImportedItem, Partial<RecallFile>>({
+    read: async (source) => {
+      if (source.kind === 'imported') return source.item;
+      if (source.kind === 'memory') {
+        const memory = latestMemoriesRef.current.find(m => m.id === source.memoryId);
+        if (!memory) throw new Error('Memory no longer exists');
+        return fileFromMemory(memory, await resolvePayload(memory.content));
+      }
+      const [first, ...rest] = await importFile(source.file);
+      if (!first) throw new Error('Nothing to import');
+      // Archives fan out into one queue item per file
+      rest.forEach(item => ingestQueue.enqueue(item.fileName, 0, { kind: 'imported', item }));
+      return first;
+    },
+    analyze: analyzeFile,
+    store: (item, source, file, analysis, error) => {
+      // Retries of an item that was kept unanalyzed update that memory instead of adding another
+      if (item.memoryId) {
+        const id = item.memoryId;
+        setMemories(p => p.map(m => m.id !== id ? m : analysis ? applyAnalysis(m, analysis) : { ...m, metadata: { ...m.metadata, analysisError: error } }));
+        return id;
+      }
+      const created = createMemory(file, analysis, error);
+      const memory = source.kind === 'imported' && source.attachedTo ? { ...created, attachedTo: source.attachedTo } : created;
+      setMemories(p => [withPlacement(memory, p), ...p]);
+      if (source.kind === 'file' && source.open) setActiveMemoryId(memory.id);
+      // Email attachments are queued once the message they belong to has an id
+      file.children?.forEach(child => ingestQueue.enqueue(child.fileName, 0, { kind: 'imported', item: child, attachedTo: memory.id }));
+      return memory.id;
+    }
+  }, { concurrency: getAISettings().ingestConcurrency }));
+  // Ticks every REMINDER_CHECK_MS so snoozes expire and reminders fire without other activity
+  const [clock, setClock] = useState(Date.now());
 
   // --- Persistence ---
   useEffect(() => {
-    const saved = localStorage.getItem('recall_memories');
-    if (saved) {
+    let cancelled = false;
+    (async () => {
       try {
-        setMemories(JSON.parse(saved));
+        await migrateLegacyStorage();
+        const stored = await listMemories();
+        if (cancelled) return;
+        persistedRef.current = new Map<string, RecallFile>(stored.map(m => [m.id, m]));
+        setMemories(placeUnpositioned(stored));
+        collectGarbage().catch(e => console.error("Blob cleanup failed", e));
       } catch (e) {
-        localStorage.removeItem('recall_memories');
+        if (!cancelled) setStorageError(describeStorageError(e));
+      } finally {
+        if (!cancelled) setIsHydrated(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // Converts pre-patch snapshot histories in the background, one memory at a time; again after
+  // a bundle import, which can bring in snapshot histories of its own
+  useEffect(() => {
+    if (!isHydrated) return;
+    let cancelled = false;
+    (async () => {
+      for (const memory of latestMemoriesRef.current.filter(needsCompaction)) {
+        if (cancelled) return;
+        try {
+          const compacted = await compactHistory(memory);
+          setMemories(p => p.map(m => m.id === memory.id && m.history === memory.history ? { ...m, history: compacted.history } : m));
+        } catch (e) {
+          console.error(`History migration failed for ${memory.id}`, e);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [isHydrated, importedAt]);
+
+  const flushPersistence = (current: RecallFile[]) => {
+    const previous = persistedRef.current;
+    const next = new Map<string, RecallFile>(current.map(m => [m.id, m]));
+    const writes = current.filter(m => previous.get(m.id) !== m);
+    const deletions = [...previous.keys()].filter(id => !next.has(id));
+    persistedRef.current = next;
+    if (writes.length === 0 && deletions.length === 0) return;
+
+    // Deleting a memory, pruning its history or compacting snapshots into patches can orphan blobs
+    const releasesBlobs = deletions.length > 0 || writes.some(m => {
+      const prev = previous.get(m.id);
+      return !!prev && (m.history.length < prev.history.length || countSnapshots(m) < countSnapshots(prev));
+    });
+
+    syncMemories(writes, deletions)
+      .then(() => {
+        setStorageError(null);
+        if (releasesBlobs) return collectGarbage().then(() => undefined);
+      })
+      .catch(e => {
+        // Forget the failed writes and track the failed deletions again, so the next flush retries both
+        writes.forEach(m => persistedRef.current.delete(m.id));
+        deletions.forEach(id => persistedRef.current.set(id, previous.get(id) as RecallFile));
+        setStorageError(describeStorageError(e));
+      });
+  };
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setTimeout(() => flushPersistence(latestMemoriesRef.current), PERSIST_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [memories, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const flushOnHide = () => {
+      if (document.visibilityState === 'hidden') flushPersistence(latestMemoriesRef.current);
+    };
+    document.addEventListener('visibilitychange', flushOnHide);
+    return () => document.removeEventListener('visibilitychange', flushOnHide);
+  }, [isHydrated]);
+
+  // --- Semantic Index ---
+  useEffect(() => {
+    if (!isHydrated) return;
+    const isFirstPass = indexedRef.current === null;
+    const previous = indexedRef.current || new Map<string, RecallFile>();
+    const next = new Map<string, RecallFile>(memories.map(m => [m.id, m]));
+    indexedRef.current = next;
+
+    previous.forEach((_, id) => {
+      if (!next.has(id)) removeFromIndex(id).catch(e => console.error("Index removal failed", e));
+    });
+
+    const stale = memories.filter(m => {
+      const prev = previous.get(m.id);
+      return !prev || prev.title !== m.title || prev.description !== m.description ||
+        prev.content !== m.content || prev.pages !== m.pages || prev.transcript !== m.transcript || prev.metadata.tags !== m.metadata.tags;
+    });
+    if (stale.length === 0) return;
+
+    indexQueueRef.current = indexQueueRef.current.then(async () => {
+      if (isFirstPass) await loadVectorIndex();
+      for (const memory of stale) {
+        if (isFirstPass && isIndexCurrent(memory)) continue;
+        try {
+          const vectorId = await indexMemory(memory);
+          if (vectorId !== memory.vectorId) {
+            setMemories(p => p.map(m => m.id === memory.id ? { ...m, vectorId } : m));
+          }
+        } catch (e) {
+          console.error("Indexing failed", e);
+        }
       }
+    });
+  }, [memories, isHydrated]);
+
+  // PDFs without page text (ingested before extraction, or restored from history) are analyzed in the background
+  useEffect(() => {
+    if (!isHydrated) return;
+    const candidates = memories.filter(m => mayNeedPdfAnalysis(m) && pdfCheckedRef.current.get(m.id) !== m.content);
+    if (candidates.length === 0) return;
+    candidates.forEach(m => pdfCheckedRef.current.set(m.id, m.content));
+    (async () => {
+      for (const memory of candidates) {
+        try {
+          const content = await resolvePayload(memory.content);
+          if (!isPdfContent(content)) continue;
+          const { pages, thumbnail } = await analyzePdf(content);
+          setMemories(p => p.map(m => m.id === memory.id && m.content === memory.content ? { ...m, pages, thumbnail: thumbnail || m.thumbnail } : m));
+        } catch (e) {
+          console.error("PDF analysis failed", e);
+        }
+      }
+    })();
+  }, [memories, isHydrated]);
+
+  useEffect(() => {
+    if (searchMode !== 'semantic' || !searchQuery.trim()) {
+      setSemanticScores(null);
+      return;
     }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchIndex(searchQuery)
+        .then(hits => { if (!cancelled) setSemanticScores(new Map(hits.map(h => [h.memoryId, h.score]))); })
+        .catch(e => console.error("Semantic search failed", e));
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchQuery, searchMode]);
+
+  useEffect(() => ingestQueue.subscribe(setIngestItems), [ingestQueue]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setClock(Date.now()), REMINDER_CHECK_MS);
+    return () => clearInterval(timer);
   }, []);
 
+  // Fire browser notifications for deadlines entering the reminder window
   useEffect(() => {
-    localStorage.setItem('recall_memories', JSON.stringify(memories));
-  }, [memories]);
+    if (!isHydrated) return;
+    const due = dueForReminder(latestMemoriesRef.current, clock);
+    const notified = due.filter(item => showDeadlineNotification(item, () => setActiveMemoryId(item.memoryId)));
+    if (notified.length === 0) return;
+    const ids = notified.map(item => item.deadline.id);
+    setMemories(p => p.map(m => notified.some(item => item.memoryId === m.id) ? markNotified(m, ids, clock) : m));
+  }, [clock, isHydrated, notificationPermission]);
 
   // --- Logic ---
-  const filteredMemories = useMemo(() => {
-      let filtered = memories.filter(m => 
-        m.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        m.metadata.tags.some(t => t.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
+  const activeMemory = useMemo(
+    () => memories.find(m => m.id === activeMemoryId) || null,
+    [memories, activeMemoryId]
+  );
+
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
 
-      if (filterTag) {
-          filtered = filtered.filter(m => m.metadata.tags.includes(filterTag));
+  const actionableDeadlines = useMemo(
+    () => collectDeadlines(memories, clock).filter(item => isActionable(item, clock)).length,
+    [memories, clock]
+  );
+
+  const filteredMemories = useMemo(() => {
+      const isSemantic = searchMode === 'semantic' && !!searchQuery.trim();
+      if (isSemantic) {
+          return memories
+            .filter(m => semanticScores?.has(m.id))
+            .sort((a, b) => (semanticScores?.get(b.id) || 0) - (semanticScores?.get(a.id) || 0));
       }
 
+      // A malformed query still narrows by plain substring while the error is shown
+      const filtered = parsedQuery.ok
+        ? memories.filter(m => matchesQuery(parsedQuery.query, m))
+        : memories.filter(m => 
+            m.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+            m.metadata.tags.some(t => t.toLowerCase().includes(searchQuery.toLowerCase()))
+          );
+
       return [...filtered].sort((a, b) => {
           if (sortBy === 'name') return a.title.localeCompare(b.title);
           if (sortBy === 'type') return a.type.localeCompare(b.type);
           return b.updatedAt - a.updatedAt;
       });
-  }, [memories, searchQuery, filterTag, sortBy]);
+  }, [memories, searchQuery, parsedQuery, sortBy, searchMode, semanticScores]);
+
+  const highlightTerms = useMemo(() => {
+      if (searchMode === 'semantic') return [];
+      return parsedQuery.ok ? getHighlightTerms(parsedQuery.query) : [searchQuery.trim()].filter(Boolean);
+  }, [parsedQuery, searchMode, searchQuery]);
+
+  const updateSavedQueries = (next: SavedQuery[]) => {
+      setSavedQueries(next);
+      storeSavedQueries(next);
+  };
+
+  // --- .recall Bundles ---
+  const handleExport = async (toExport: RecallFile[], name: string) => {
+    if (toExport.length === 0) return;
+    try {
+      setStatus("Packing Bundle...");
+      const bundle = await createRecallBundle(toExport);
+      downloadBlob(serializeRecallBundle(bundle), toFileName(name, 'recall'));
+      setStatus(`Exported ${toExport.length} Memor${toExport.length === 1 ? 'y' : 'ies'}`);
+    } catch (e) {
+      console.error("Export failed", e);
+      setStatus("Export Failed");
+    }
+  };
+
+  const applyImport = (bundle: RecallBundle, policy: ImportConflictPolicy) => {
+    // The counts come from the merge that is stored; setting the status again on a replayed update is harmless
+    setMemories(prev => {
+      const outcome = applyRecallBundle(bundle, prev, policy);
+      setStatus(`Imported ${outcome.added + outcome.replaced} // Skipped ${outcome.skipped}`);
+      return placeUnpositioned(outcome.memories);
+    });
+    setImportedAt(Date.now());
+    setPendingImport(null);
+  };
+
+  const importBundleFile = async (file: File) => {
+    const result = parseRecallBundle(await file.text());
+    if (result.ok === false) {
+      console.error("Invalid .recall bundle", result.errors);
+      setStatus(`Import Failed // ${result.errors[0]}`);
+      return;
+    }
+    const conflicts = findConflicts(result.bundle, memories).length;
+    if (conflicts > 0) setPendingImport({ bundle: result.bundle, conflicts });
+    else applyImport(result.bundle, 'skip');
+  };
 
   const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDraggingFile(false);
-    const files = Array.from(e.dataTransfer.files) as File[];
+    const dropped = Array.from(e.dataTransfer.files) as File[];
+    if (dropped.length === 0) return;
+
+    for (const bundleFile of dropped.filter(f => isRecallFileName(f.name))) {
+        await importBundleFile(bundleFile);
+    }
+    const files = dropped.filter(f => !isRecallFileName(f.name));
     if (files.length === 0) return;
 
-    setStatus("Ingesting Material...");
-    for (const file of files) {
-        try {
-          let content = '';
-          const fileName = file.name.toLowerCase();
-          const isDocx = fileName.endsWith('.docx');
-          const isExcel = fileName.endsWith('.xlsx') || fileName.endsWith('.xls') || fileName.endsWith('.csv');
-          const isImage = file.type.startsWith('image/');
-          const isPdf = fileName.endsWith('.pdf') || file.type === 'application/pdf';
-          
-          if (isDocx) {
-             const buf = await file.arrayBuffer();
-             const res = await mammoth.convertToHtml({ arrayBuffer: buf });
-             content = res.value;
-          } else if (isExcel) {
-             const buf = await file.arrayBuffer();
-             const workbook = read(buf, { type: 'array' });
-             
-             const sheetsData = workbook.SheetNames.map(name => ({
-                 name: name,
-                 html: utils.sheet_to_html(workbook.Sheets[name])
-             }));
-
-             content = JSON.stringify({ 
-                 appType: 'spreadsheet', 
-                 sheets: sheetsData 
-             });
-          } else if (isImage || isPdf || file.type.startsWith('video/') || file.type.startsWith('audio/')) {
-             const reader = new FileReader();
-             content = await new Promise((resolve) => {
-                 reader.onload = () => {
-                     const res = reader.result as string;
-                     resolve(res.split(',')[1]); // Extract Base64
-                 };
-                 reader.readAsDataURL(file);
-             });
-          } else {
-             const reader = new FileReader();
-             content = await new Promise((resolve) => {
-                 reader.onload = () => resolve(reader.result as string);
-                 reader.readAsText(file);
-             });
-          }
-          
-          const analysis = await ingestRecall(content, file.type || 'text/plain', file.name);
-          
-          let finalType = RecallType.DOCUMENT;
-          if (isImage) finalType = RecallType.IMAGE;
-          else if (file.type.startsWith('video/')) finalType = RecallType.VIDEO;
-          else if (file.type.startsWith('audio/')) finalType = RecallType.AUDIO;
-          else if (!isPdf && !isExcel && analysis.type) finalType = analysis.type as RecallType;
-
-          const newMemory: RecallFile = {
-            id: crypto.randomUUID(),
-            title: analysis.title || file.name,
-            description: analysis.description || '',
-            type: finalType,
-            content: content,
-            thumbnail: (finalType === RecallType.IMAGE) ? content : '',
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            metadata: analysis.metadata as any,
-            history: [{
-                id: crypto.randomUUID(),
-                timestamp: Date.now(),
-                description: 'Initial Recall State',
-                author: 'user',
-                content: content
-            }]
-          };
-          setMemories(prev => [newMemory, ...prev]);
-          setActiveMemory(newMemory);
-        } catch (err) { 
-          console.error("Ingestion error:", err);
-        }
+    files.forEach(file => ingestQueue.enqueue(file.name, file.size, { kind: 'file', file, open: files.length === 1 }));
+    setStatus(`Queued ${files.length} File${files.length === 1 ? '' : 's'}`);
+  };
+
+  const handleReanalyze = (memory: RecallFile) => {
+    const pending = ingestItems.some(item => item.memoryId === memory.id && PENDING_STATES.includes(item.state));
+    if (!pending) ingestQueue.enqueue(memory.title, 0, { kind: 'memory', memoryId: memory.id }, memory.id);
+  };
+
+  // State the agent reads and the changes it makes once approved
+  const agentHost: AgentHost = {
+    memories: () => latestMemoriesRef.current,
+    approve: (action) => new Promise<boolean>(resolve => {
+      approvalsRef.current.set(action.id, resolve);
+      setPendingActions(p => [...p, action]);
+    }),
+    addMemory: (memory) => {
+      setMemories(p => [withPlacement(memory, p), ...p]);
+      setActiveMemoryId(memory.id);
+    },
+    updateMemories: (updated) => {
+      const byId = new Map<string, RecallFile>(updated.map(m => [m.id, m]));
+      setMemories(p => p.map(m => byId.get(m.id) || m));
+    },
+    deleteMemories: (ids) => {
+      setMemories(p => p.filter(m => !ids.includes(m.id)));
+      setSelectedIds(p => p.filter(x => !ids.includes(x)));
+      setActiveMemoryId(current => (current && ids.includes(current) ? null : current));
     }
-    setStatus("System Ready");
+  };
+
+  const handleOpenCitation = (citation: Citation) => {
+    setActiveMemoryId(citation.memoryId);
+    setPassageFocus({ memoryId: citation.memoryId, passage: citation.passage, at: Date.now() });
+  };
+
+  const resolveAction = (id: string, approved: boolean) => {
+    approvalsRef.current.get(id)?.(approved);
+    approvalsRef.current.delete(id);
+    setPendingActions(p => p.filter(a => a.id !== id));
+  };
+
+  // Ends the running command; actions still waiting for approval count as rejected
+  const handleStopAgent = () => {
+    agentRunRef.current?.abort();
+    approvalsRef.current.forEach(resolve => resolve(false));
+    approvalsRef.current.clear();
+    setPendingActions([]);
   };
 
   const handleAgentCommand = async (input: string) => {
-    if (!input.trim()) return;
+    if (!input.trim() || isProcessing) return;
     setIsProcessing(true);
+    setAgentTrace([]);
+    const history = chatHistory;
     setChatHistory(prev => [...prev, { role: 'user', text: input, timestamp: Date.now() }]);
-    
-    const result = await runAgenticCommand(input, memories);
-    
-    if (result.type === 'chat') {
-        setChatHistory(prev => [...prev, { role: 'model', text: result.message, timestamp: Date.now() }]);
-    } else if (result.type === 'create') {
-        setChatHistory(prev => [...prev, { role: 'model', text: `Memory Generated: ${result.title}`, timestamp: Date.now() }]);
-        const newMem: RecallFile = {
-            id: crypto.randomUUID(),
-            title: result.title,
-            description: result.reasoning,
-            type: result.memoryType as RecallType,
-            content: result.content,
-            thumbnail: (result.memoryType === 'IMAGE') ? result.content : '',
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            metadata: { tags: result.tags || ['agent-created'], mood: 'neutral', sourceApp: 'Agent Core' },
-            history: [{ id: crypto.randomUUID(), timestamp: Date.now(), description: 'Generated by Agent', author: 'gemini', content: result.content }]
-        };
-        setMemories(p => [newMem, ...p]);
-        setActiveMemory(newMem);
-    }
+    const run = new AbortController();
+    agentRunRef.current = run;
+
+    const reply = await runAgent(input, history, agentHost, setAgentTrace, run.signal);
+    agentRunRef.current = null;
+    setChatHistory(prev => [...prev, {
+        role: 'model',
+        text: reply.text,
+        timestamp: Date.now(),
+        trace: reply.trace.length ? reply.trace : undefined,
+        citations: reply.citations.length ? reply.citations : undefined
+    }]);
+    setAgentTrace(null);
     setIsProcessing(false);
   };
 
+  // --- Canvas ---
+  const handleUpdatePosition = (id: string, x: number, y: number) => {
+    setMemories(p => p.map(m => m.id === id ? { ...m, x, y } : m));
+  };
+
+  const handleDeleteMemory = (id: string) => {
+    setMemories(p => p.filter(m => m.id !== id));
+    setSelectedIds(p => p.filter(x => x !== id));
+    if (activeMemoryId === id) setActiveMemoryId(null);
+  };
+
+  const commitPositions = (positions: Map<string, Point>) => {
+    setMemories(p => p.map(m => {
+      const pos = positions.get(m.id);
+      return pos && (pos.x !== m.x || pos.y !== m.y) ? { ...m, x: pos.x, y: pos.y } : m;
+    }));
+  };
+
+  /**
+   * Animates the canvas to new positions, starting from whatever is on screen (including a
+   * layout that is still running, which is cancelled), and commits the result once it lands.
+   */
+  const animateLayout = async (
+    targets: RecallFile[],
+    run: (from: Map<string, Point>, options: { onFrame: (p: Map<string, Point>) => void; signal: AbortSignal }) => Promise<Map<string, Point> | null>
+  ) => {
+    layoutAbortRef.current?.abort();
+    const controller = new AbortController();
+    layoutAbortRef.current = controller;
+
+    const from = currentPositions(targets);
+    layoutPreviewRef.current?.forEach((p, id) => { if (from.has(id)) from.set(id, p); });
+
+    const onFrame = (frame: Map<string, Point>) => {
+      layoutPreviewRef.current = frame;
+      setLayoutPreview(frame);
+    };
+    const result = await run(from, { onFrame, signal: controller.signal });
+    if (controller.signal.aborted) return null;
+
+    layoutAbortRef.current = null;
+    layoutPreviewRef.current = null;
+    if (result) commitPositions(result);
+    setLayoutPreview(null);
+    return result;
+  };
+
+  const handleApplyLayout = async (mode: LayoutMode, targets: RecallFile[] = filteredMemories) => {
+    if (targets.length === 0) return;
+    // A layout interrupting another keeps the first one's undo snapshot, which is still the committed state
+    if (!layoutAbortRef.current) {
+      const snapshot = currentPositions(targets);
+      setLayoutUndoStack(s => [...s, snapshot].slice(-LAYOUT_UNDO_LIMIT));
+    }
+    setStatus(`Arranging ${targets.length} memories...`);
+    const result = await animateLayout(targets, (from, options) => runLayout(targets, mode, from, options));
+    if (result) setStatus(`Layout Applied: ${mode}`);
+  };
+
+  const handleUndoLayout = async () => {
+    const snapshot = layoutUndoStack[layoutUndoStack.length - 1];
+    if (!snapshot) return;
+    setLayoutUndoStack(s => s.slice(0, -1));
+    const targets = latestMemoriesRef.current.filter(m => snapshot.has(m.id));
+    const result = await animateLayout(targets, (from, options) => animatePositions(from, snapshot, options));
+    if (result) setStatus("Layout Undone");
+  };
+
+  const handleSortCanvas = () => {
+    setActiveMemoryId(null);
+    setView('canvas');
+    handleApplyLayout('cluster', memories);
+    setChatHistory(prev => [...prev, { role: 'model', text: `Canvas sorted: ${memories.length} memories grouped by shared tags.`, timestamp: Date.now(), notice: true }]);
+  };
+
   return (
     <div 
         className="w-screen h-screen bg-[#050505] text-white overflow-hidden flex"
@@ -179,14 +550,24 @@ export default function App() {
     >
         <LibraryPanel 
             memories={filteredMemories}
-            onSelect={(m) => setActiveMemory(m)}
+            onSelect={(m) => setActiveMemoryId(m.id)}
             sortBy={sortBy}
             onSortChange={setSortBy}
             searchQuery={searchQuery}
             onSearchChange={setSearchQuery}
+            searchMode={searchMode}
+            onSearchModeChange={setSearchMode}
             activeId={activeMemory?.id}
-            onFilterTag={setFilterTag}
-            activeFilterTag={filterTag}
+            queryError={searchMode === 'text' && !parsedQuery.ok ? parsedQuery.error : null}
+            highlightTerms={highlightTerms}
+            selectedIds={selectedIds}
+            onToggleSelect={(id) => setSelectedIds(p => p.includes(id) ? p.filter(x => x !== id) : [...p, id])}
+            onClearSelection={() => setSelectedIds([])}
+            onExportSelection={() => handleExport(memories.filter(m => selectedIds.includes(m.id)), `recall-selection-${selectedIds.length}`)}
+            onExportLibrary={() => handleExport(memories, `recall-library-${new Date().toISOString().slice(0, 10)}`)}
+            savedQueries={savedQueries}
+            onSaveQuery={(name) => updateSavedQueries([...savedQueries, { id: crypto.randomUUID(), name, query: searchQuery.trim() }])}
+            onDeleteSavedQuery={(id) => updateSavedQueries(savedQueries.filter(q => q.id !== id))}
         />
 
         <main className="flex-grow flex flex-col border-x border-white/5 bg-[#080808] overflow-hidden h-full min-h-0">
@@ -194,8 +575,38 @@ export default function App() {
                 <div className="flex items-center gap-3">
                     <div className="w-2 h-2 rounded-full bg-cyan-500 shadow-[0_0_8px_rgba(6,182,212,0.5)]" />
                     <span className="text-[10px] font-mono tracking-widest text-gray-400 uppercase">Recall OS v1.2 // STABLE</span>
+                    <div className="ml-4 flex bg-white/5 border border-white/10 rounded-lg p-0.5">
+                        {(['library', 'canvas', 'ledger'] as const).map(v => (
+                            <button 
+                                key={v}
+                                onClick={() => { setView(v); setActiveMemoryId(null); }}
+                                className={`px-3 py-1 rounded-md text-[9px] font-mono uppercase tracking-widest transition-all ${view === v && !activeMemory ? 'bg-cyan-500 text-black font-bold' : 'text-gray-500 hover:text-white'}`}
+                            >
+                                {v}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-center gap-4">
+                    <div className={`text-[10px] font-mono tracking-widest uppercase ${storageError ? 'text-red-400' : 'text-gray-600'}`}>{storageError || status}</div>
+                    <button 
+                        onClick={() => setIsDeadlinesOpen(o => !o)}
+                        title={actionableDeadlines ? `${actionableDeadlines} deadlines need attention` : 'Deadlines'}
+                        className={`relative transition-colors ${isDeadlinesOpen ? 'text-cyan-400' : 'text-gray-600 hover:text-cyan-400'}`}
+                    >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>
+                        {actionableDeadlines > 0 && (
+                            <span className="absolute -top-1.5 -right-2 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-black text-[8px] font-bold flex items-center justify-center">{actionableDeadlines}</span>
+                        )}
+                    </button>
+                    <button 
+                        onClick={() => setIsSettingsOpen(true)}
+                        title={`Model provider: ${getAIProvider().label}`}
+                        className="text-gray-600 hover:text-cyan-400 transition-colors"
+                    >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                    </button>
                 </div>
-                <div className="text-[10px] font-mono text-gray-600 tracking-widest uppercase">{status}</div>
             </header>
 
             <div className="flex-grow relative overflow-hidden min-h-0 h-full">
@@ -203,15 +614,41 @@ export default function App() {
                     <MemoryViewer 
                         memory={activeMemory}
                         isEmbedded={true}
-                        onClose={() => setActiveMemory(null)}
+                        onClose={() => setActiveMemoryId(null)}
                         onUpdate={(updated) => {
                             setMemories(p => p.map(m => m.id === updated.id ? updated : m));
-                            setActiveMemory(updated);
                         }}
-                        onDelete={(id) => { 
-                            setMemories(p => p.filter(m => m.id !== id)); 
-                            setActiveMemory(null);
+                        onDelete={handleDeleteMemory}
+                        onExport={() => handleExport([activeMemory], activeMemory.title)}
+                        onFork={(fork) => {
+                            setMemories(p => [withPlacement(fork, p), ...p]);
+                            setActiveMemoryId(fork.id);
                         }}
+                        onReanalyze={() => handleReanalyze(activeMemory)}
+                        isReanalyzing={ingestItems.some(item => item.memoryId === activeMemory.id && PENDING_STATES.includes(item.state))}
+                        attachments={memories.filter(m => m.attachedTo === activeMemory.id)}
+                        attachedTo={activeMemory.attachedTo ? memories.find(m => m.id === activeMemory.attachedTo) : undefined}
+                        sources={memories.filter(m => activeMemory.sourceIds?.includes(m.id))}
+                        focusPassage={passageFocus?.memoryId === activeMemory.id ? passageFocus : undefined}
+                        onOpenMemory={setActiveMemoryId}
+                    />
+                ) : view === 'canvas' ? (
+                    <SpatialCanvas 
+                        memories={filteredMemories}
+                        onUpdateMemoryPosition={handleUpdatePosition}
+                        onMemoryClick={(m) => setActiveMemoryId(m.id)}
+                        onDeleteMemory={handleDeleteMemory}
+                        positionOverrides={layoutPreview}
+                        isLayingOut={!!layoutPreview}
+                        onApplyLayout={(mode) => handleApplyLayout(mode)}
+                        onUndoLayout={handleUndoLayout}
+                        canUndoLayout={layoutUndoStack.length > 0}
+                    />
+                ) : view === 'ledger' ? (
+                    <LedgerPanel 
+                        memories={filteredMemories}
+                        onOpenMemory={setActiveMemoryId}
+                        onUpdateMemory={(updated) => setMemories(p => p.map(m => m.id === updated.id ? updated : m))}
                     />
                 ) : (
                     <div className="w-full h-full flex flex-col items-center justify-center p-12 text-center animate-in fade-in duration-700">
@@ -235,15 +672,64 @@ export default function App() {
                         </div>
                     </div>
                 )}
+
+                <IngestTray 
+                    items={ingestItems}
+                    onCancel={ingestQueue.cancel}
+                    onRetry={ingestQueue.retry}
+                    onClear={ingestQueue.clearFinished}
+                    onOpenMemory={setActiveMemoryId}
+                />
             </div>
         </main>
 
         <AgentPanel 
             history={chatHistory}
             onCommand={handleAgentCommand}
+            onStop={handleStopAgent}
+            onSortCanvas={handleSortCanvas}
             isProcessing={isProcessing}
+            liveTrace={agentTrace}
+            pendingActions={pendingActions}
+            onResolveAction={resolveAction}
+            onOpenCitation={handleOpenCitation}
+            onOpenMemory={setActiveMemoryId}
         />
 
+        {isDeadlinesOpen && (
+            <DeadlinesPanel 
+                memories={memories}
+                now={clock}
+                notificationPermission={notificationPermission}
+                onEnableNotifications={async () => setNotificationPermission(await requestNotificationPermission())}
+                onOpenMemory={(id) => { setActiveMemoryId(id); setIsDeadlinesOpen(false); }}
+                onUpdateMemory={(updated) => setMemories(p => p.map(m => m.id === updated.id ? updated : m))}
+                onClose={() => setIsDeadlinesOpen(false)}
+            />
+        )}
+
+        {isSettingsOpen && (
+            <SettingsPanel 
+                settings={getAISettings()}
+                onClose={() => setIsSettingsOpen(false)}
+                onSave={(next) => {
+                    updateAISettings(next);
+                    ingestQueue.setConcurrency(next.ingestConcurrency);
+                    setIsSettingsOpen(false);
+                    setStatus(`Neural Core: ${getAIProvider().label}`);
+                }}
+            />
+        )}
+
+        {pendingImport && (
+            <ImportDialog 
+                total={pendingImport.bundle.memories.length}
+                conflicts={pendingImport.conflicts}
+                onResolve={(policy) => applyImport(pendingImport.bundle, policy)}
+                onCancel={() => { setPendingImport(null); setStatus("Import Cancelled"); }}
+            />
+        )}
+
         {isDraggingFile && (
             <div className="absolute inset-0 z-[100] bg-cyan-500/10 backdrop-blur-sm flex items-center justify-center border-4 border-cyan-500/30 m-4 rounded-3xl pointer-events-none">
                 <h1 className="text-4xl font-black text-cyan-400 tracking-widest animate-pulse">DROP TO RECALL</h1>
@@ -1,20 +1,132 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage } from '../types';
+import { AgentAction, AgentStep, ChatMessage, Citation } from '../types';
+import { splitCitations } from '../services/citations';
 
 interface AgentPanelProps {
   history: ChatMessage[];
   onCommand: (q: string) => void;
+  onStop: () => void; // ends the running command, rejecting pending actions
+  onSortCanvas: () => void;
   isProcessing: boolean;
+  liveTrace: AgentStep[] | null; // steps of the running command
+  pendingActions: AgentAction[];
+  onResolveAction: (id: string, approved: boolean) => void;
+  onOpenCitation: (citation: Citation) => void;
+  onOpenMemory: (id: string) => void;
 }
 
-export const AgentPanel: React.FC<AgentPanelProps> = ({ history, onCommand, isProcessing }) => {
+const preview = (value: unknown) => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text && text.length > 160 ? `${text.substring(0, 160)}…` : text;
+};
+
+// The memory a tool call touched, if any, so the trace can link to it
+const touchedMemory = (result: unknown): string | undefined => {
+  const r = result as { created?: unknown; updated?: unknown } | undefined;
+  const id = r && (r.created ?? r.updated);
+  return typeof id === 'string' ? id : undefined;
+};
+
+const TraceView: React.FC<{ steps: AgentStep[]; onOpenMemory: (id: string) => void }> = ({ steps, onOpenMemory }) => (
+    <ol className="mt-2 space-y-2 w-full">
+        {steps.map((step, i) => (
+            <li key={i} className="border-l border-cyan-500/30 pl-3">
+                <span className="text-[9px] font-mono text-gray-600 uppercase tracking-widest">Step {i + 1}</span>
+                {step.thought && <p className="text-[11px] text-gray-400 italic mt-1">{step.thought}</p>}
+                {step.calls.map((call, j) => {
+                    const memoryId = touchedMemory(call.result);
+                    return (
+                        <div key={j} className="mt-1 text-[10px] font-mono">
+                            <span className="text-purple-400">{call.name}</span>
+                            {call.approval && (
+                                <span className={`ml-1 uppercase ${call.approval === 'approved' ? 'text-green-500' : 'text-amber-500'}`}>[{call.approval}]</span>
+                            )}
+                            <span className="text-gray-600 break-all"> {preview(call.args)}</span>
+                            {call.error
+                                ? <div className="text-red-400 break-all">✕ {call.error}</div>
+                                : <div className="text-gray-500 break-all">→ {preview(call.result)}</div>}
+                            {memoryId && (
+                                <button onClick={() => onOpenMemory(memoryId)} className="text-cyan-500 hover:text-cyan-400 uppercase tracking-widest">Open</button>
+                            )}
+                        </div>
+                    );
+                })}
+            </li>
+        ))}
+    </ol>
+);
+
+const ActionCard: React.FC<{ action: AgentAction; onResolve: (approved: boolean) => void; onOpenMemory: (id: string) => void }> = ({ action, onResolve, onOpenMemory }) => (
+    <div className={`rounded-xl border p-3 ${action.destructive ? 'border-red-500/40 bg-red-500/5' : 'border-amber-500/40 bg-amber-500/5'}`}>
+        <span className={`text-[9px] font-mono uppercase tracking-widest ${action.destructive ? 'text-red-400' : 'text-amber-400'}`}>Approval Needed // {action.tool}</span>
+        <p className="text-sm text-gray-200 mt-1">{action.summary}</p>
+        {action.reasoning && <p className="text-[11px] text-gray-500 italic mt-1">{action.reasoning}</p>}
+        <ul className="mt-2 space-y-2 max-h-48 overflow-y-auto custom-scrollbar">
+            {action.changes.map((change, i) => (
+                <li key={i} className="text-[10px] font-mono">
+                    {change.memoryId
+                        ? <button onClick={() => onOpenMemory(change.memoryId as string)} className="text-cyan-400 hover:text-cyan-300 text-left">{change.title}</button>
+                        : <span className="text-cyan-400">{change.title} <span className="text-gray-600">(new)</span></span>}
+                    {change.before && <div className="text-red-400/80 break-words">− {change.before}</div>}
+                    {change.after && <div className="text-green-400/80 break-words">+ {change.after}</div>}
+                </li>
+            ))}
+        </ul>
+        <div className="mt-3 flex gap-2">
+            <button
+                onClick={() => onResolve(true)}
+                className={`flex-1 py-1.5 rounded-lg text-[10px] font-mono font-bold uppercase tracking-widest text-black ${action.destructive ? 'bg-red-500 hover:bg-red-400' : 'bg-cyan-500 hover:bg-cyan-400'}`}
+            >
+                Approve
+            </button>
+            <button
+                onClick={() => onResolve(false)}
+                className="flex-1 py-1.5 rounded-lg text-[10px] font-mono uppercase tracking-widest text-gray-400 border border-white/10 hover:text-white"
+            >
+                Reject
+            </button>
+        </div>
+    </div>
+);
+
+// A reply line with its citation markers as links to the cited passage
+const ReplyLine: React.FC<{ line: string; citations?: Citation[]; onOpenCitation: (citation: Citation) => void }> = ({ line, citations, onOpenCitation }) => (
+    <>
+        {splitCitations(line, citations).map((segment, i) => 'citation' in segment ? (
+            <button
+                key={i}
+                onClick={() => onOpenCitation(segment.citation)}
+                title={`${segment.citation.title}\n${segment.citation.passage.substring(0, 200)}`}
+                className="mx-0.5 px-1 rounded bg-cyan-500/15 border border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/30 text-[9px] font-mono align-super leading-none"
+            >
+                {segment.citation.label}
+            </button>
+        ) : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+    </>
+);
+
+export const AgentPanel: React.FC<AgentPanelProps> = ({ history, onCommand, onStop, onSortCanvas, isProcessing, liveTrace, pendingActions, onResolveAction, onOpenCitation, onOpenMemory }) => {
   const [input, setInput] = useState('');
+  const [openTraces, setOpenTraces] = useState<Set<number>>(new Set<number>());
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-  }, [history]);
+  }, [history, liveTrace, pendingActions]);
+
+  // The typed command is kept until it can actually be sent
+  const send = () => {
+    if (isProcessing || !input.trim()) return;
+    onCommand(input);
+    setInput('');
+  };
+
+  const toggleTrace = (index: number) => setOpenTraces(prev => {
+    const next = new Set<number>(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
 
   return (
     <aside className="w-96 flex-shrink-0 flex flex-col bg-black/40 h-full overflow-hidden">
@@ -38,18 +150,38 @@ export const AgentPanel: React.FC<AgentPanelProps> = ({ history, onCommand, isPr
             {history.map((msg, i) => (
                 <div key={i} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                     <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${msg.role === 'user' ? 'bg-cyan-600 text-white rounded-tr-none' : 'bg-white/5 border border-white/10 text-gray-200 rounded-tl-none'}`}>
-                        {msg.text.split('\n').map((line, j) => <p key={j} className={j > 0 ? 'mt-2' : ''}>{line}</p>)}
+                        {msg.text.split('\n').map((line, j) => (
+                            <p key={j} className={j > 0 ? 'mt-2' : ''}><ReplyLine line={line} citations={msg.citations} onOpenCitation={onOpenCitation} /></p>
+                        ))}
                     </div>
                     <span className="text-[8px] text-gray-600 mt-1 uppercase font-mono">{msg.role === 'user' ? 'User' : 'Recall Agent'} • {new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                    {msg.trace && (
+                        <>
+                            <button
+                                onClick={() => toggleTrace(i)}
+                                className="mt-1 text-[9px] font-mono text-gray-500 hover:text-cyan-400 uppercase tracking-widest"
+                            >
+                                {openTraces.has(i) ? '▾' : '▸'} {msg.trace.length} step{msg.trace.length === 1 ? '' : 's'}
+                            </button>
+                            {openTraces.has(i) && <TraceView steps={msg.trace} onOpenMemory={onOpenMemory} />}
+                        </>
+                    )}
                 </div>
             ))}
             
             {isProcessing && (
-                <div className="flex items-center gap-2 text-cyan-500 font-mono text-[10px] animate-pulse">
-                    <div className="w-2 h-2 bg-cyan-500 rounded-full" />
-                    THINKING...
+                <div>
+                    <div className="flex items-center gap-2 text-cyan-500 font-mono text-[10px] animate-pulse">
+                        <div className="w-2 h-2 bg-cyan-500 rounded-full" />
+                        {pendingActions.length ? 'AWAITING APPROVAL' : liveTrace && liveTrace.length ? `THINKING... STEP ${liveTrace.length + 1}` : 'THINKING...'}
+                    </div>
+                    {liveTrace && liveTrace.length > 0 && <TraceView steps={liveTrace} onOpenMemory={onOpenMemory} />}
                 </div>
             )}
+
+            {pendingActions.map(action => (
+                <ActionCard key={action.id} action={action} onResolve={(approved) => onResolveAction(action.id, approved)} onOpenMemory={onOpenMemory} />
+            ))}
         </div>
 
         <div className="p-6 border-t border-white/5 bg-black/20">
@@ -59,28 +191,37 @@ export const AgentPanel: React.FC<AgentPanelProps> = ({ history, onCommand, isPr
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                            onCommand(input);
-                            setInput('');
-                        }
+                        if (e.key === 'Enter') send();
                     }}
                     placeholder="Message system..." 
                     className="w-full bg-white/5 border border-white/10 rounded-xl py-3 px-4 pr-12 text-sm focus:outline-none focus:border-cyan-500/50 focus:ring-1 focus:ring-cyan-500/20 transition-all"
                 />
+                {isProcessing ? (
+                <button 
+                    onClick={onStop}
+                    title="Stop the running command"
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-red-400 hover:text-red-300 transition-colors"
+                >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                </button>
+                ) : (
                 <button 
-                    onClick={() => { onCommand(input); setInput(''); }}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-cyan-500 hover:text-cyan-400 transition-colors"
+                    onClick={send}
+                    disabled={!input.trim()}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-cyan-500 hover:text-cyan-400 disabled:opacity-30 transition-colors"
                 >
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                 </button>
+                )}
             </div>
             <div className="mt-4 flex flex-wrap gap-2">
                 {['Summarize Project', 'List High Risk', 'Sort Canvas'].map(prompt => (
                     <button 
                         key={prompt}
-                        // Use onCommand from props instead of the missing handleAgentCommand
-                        onClick={() => onCommand(prompt)}
-                        className="text-[9px] text-gray-500 hover:text-cyan-400 font-mono border border-white/5 px-2 py-1 rounded-md transition-colors"
+                        // "Sort Canvas" is a local layout action, the rest go to the agent
+                        onClick={() => prompt === 'Sort Canvas' ? onSortCanvas() : onCommand(prompt)}
+                        disabled={isProcessing && prompt !== 'Sort Canvas'}
+                        className="text-[9px] text-gray-500 hover:text-cyan-400 font-mono border border-white/5 px-2 py-1 rounded-md disabled:opacity-30 transition-colors"
                     >
                         {prompt}
                     </button>
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RecallFile } from '../types';
+import { resolveVersion } from '../services/textHistory';
+import {
+  CellChange, DiffSegment, Granularity, compareKindOf, diffSpreadsheets,
+  diffVersions, isBlockBreak, isTag, mergeSegments, mergeSpreadsheet
+} from '../services/versionCompare';
+import { columnLabel } from '../services/formulas';
+
+interface CompareViewProps {
+  memory: RecallFile;
+  baseIndex: number;
+  targetIndex: number;
+  onApply: (content: string, description: string) => void;
+  onClose: () => void;
+}
+
+// Unchanged runs longer than this are folded in line view
+const CONTEXT_LINES = 3;
+
+const decodeEntities = (text: string) =>
+  text.replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+const displayToken = (token: string, html: boolean) => (html ? decodeEntities(token.replace(/<[^>]*>/g, '')) : token);
+
+const tagBadge = (token: string) => {
+  const name = token.match(/^<\/?\s*([a-z0-9]+)/i)?.[1];
+  return name ? <span className="mx-0.5 px-1 rounded bg-white/10 text-[9px] font-mono text-gray-400 align-middle">{token.startsWith('</') ? '/' : ''}{name}</span> : null;
+};
+
+const HunkToggle: React.FC<{ rejected: boolean; onToggle: () => void }> = ({ rejected, onToggle }) => (
+  <button
+      onClick={onToggle}
+      title={rejected ? 'Reverted to the older version. Click to keep the change.' : 'Change kept. Click to revert it.'}
+      className={`ml-1 px-1.5 py-0.5 rounded text-[8px] font-mono uppercase align-middle border transition-colors ${rejected ? 'border-amber-500/50 text-amber-400 bg-amber-500/10' : 'border-white/10 text-gray-500 hover:text-white'}`}
+  >
+      {rejected ? 'Reverted' : 'Keep'}
+  </button>
+);
+
+export const CompareView: React.FC<CompareViewProps> = ({ memory, baseIndex, targetIndex, onApply, onClose }) => {
+  const [versions, setVersions] = useState<{ before: string; after: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [granularity, setGranularity] = useState<Granularity>('word');
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [imageMode, setImageMode] = useState<'swipe' | 'onion'>('swipe');
+  const [mix, setMix] = useState(50);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVersions(null);
+    setError(null);
+    setRejected(new Set());
+    Promise.all([resolveVersion(memory, baseIndex), resolveVersion(memory, targetIndex)])
+      .then(([before, after]) => { if (!cancelled) setVersions({ before, after }); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'Versions could not be loaded'); });
+    return () => { cancelled = true; };
+  }, [memory.id, memory.history.length, baseIndex, targetIndex]);
+
+  const kind = versions ? compareKindOf(memory, versions.before, versions.after) : null;
+  const isHtml = kind === 'html';
+
+  const segments = useMemo<DiffSegment[]>(() =>
+    versions && (kind === 'text' || kind === 'html') ? diffVersions(versions.before, versions.after, granularity, isHtml) : [],
+  [versions, kind, granularity]);
+
+  const cellChanges = useMemo<CellChange[]>(() =>
+    versions && kind === 'spreadsheet' ? diffSpreadsheets(versions.before, versions.after) : [],
+  [versions, kind]);
+
+  useEffect(() => { setRejected(new Set()); }, [granularity]);
+
+  const hunkIds = kind === 'spreadsheet'
+    ? cellChanges.map(c => c.id)
+    : segments.flatMap(s => (s.type === 'change' ? [String(s.hunkId)] : []));
+
+  const toggle = (id: string) => setRejected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const base = memory.history[baseIndex];
+  const target = memory.history[targetIndex];
+
+  const handleApply = () => {
+    if (!versions || rejected.size === 0) return;
+    const merged = kind === 'spreadsheet'
+      ? mergeSpreadsheet(versions.before, versions.after, cellChanges, rejected)
+      : mergeSegments(segments, new Set([...rejected].map(Number)));
+    onApply(merged, `Partially Reverted: "${target.description}" (${rejected.size} of ${hunkIds.length} changes)`);
+  };
+
+  const renderWordDiff = () => (
+    <div className="whitespace-pre-wrap leading-relaxed text-sm text-gray-300">
+        {segments.map((s, i) => {
+            if (s.type === 'equal') {
+                return <React.Fragment key={i}>{s.tokens.map((t, j) => isHtml && isTag(t) ? (isBlockBreak(t) ? <br key={j} /> : null) : displayToken(t, isHtml))}</React.Fragment>;
+            }
+            const isRejected = rejected.has(String(s.hunkId));
+            const render = (tokens: string[]) => tokens.map((t, j) => isHtml && isTag(t) ? <React.Fragment key={j}>{tagBadge(t)}</React.Fragment> : displayToken(t, isHtml));
+            return (
+                <span key={i} className="rounded-sm">
+                    {s.removed.length > 0 && <del className={`px-0.5 rounded-sm ${isRejected ? 'bg-white/5 text-gray-200 no-underline' : 'bg-red-500/20 text-red-300'}`}>{render(s.removed)}</del>}
+                    {s.added.length > 0 && <ins className={`px-0.5 rounded-sm no-underline ${isRejected ? 'bg-white/5 text-gray-600 line-through' : 'bg-emerald-500/20 text-emerald-300'}`}>{render(s.added)}</ins>}
+                    <HunkToggle rejected={isRejected} onToggle={() => toggle(String(s.hunkId))} />
+                </span>
+            );
+        })}
+    </div>
+  );
+
+  const renderLineDiff = () => (
+    <div className="font-mono text-[11px] leading-relaxed">
+        {segments.map((s, i) => {
+            if (s.type === 'equal') {
+                const lines = s.tokens;
+                const head = i === 0 ? 0 : CONTEXT_LINES;
+                const tail = i === segments.length - 1 ? 0 : CONTEXT_LINES;
+                const hidden = lines.length - head - tail;
+                const shown = hidden > 1 ? [...lines.slice(0, head), null, ...lines.slice(lines.length - tail)] : lines;
+                return (
+                    <div key={i}>
+                        {shown.map((line, j) => line === null ? (
+                            <div key={j} className="py-1 pl-8 text-[9px] text-gray-600 uppercase tracking-widest">··· {hidden} unchanged lines</div>
+                        ) : (
+                            <div key={j} className="flex text-gray-500"><span className="w-6 flex-shrink-0 text-center opacity-40"> </span><span className="whitespace-pre-wrap break-all">{displayToken(line, isHtml)}</span></div>
+                        ))}
+                    </div>
+                );
+            }
+            const isRejected = rejected.has(String(s.hunkId));
+            return (
+                <div key={i} className={`my-1 rounded-lg border ${isRejected ? 'border-amber-500/30' : 'border-white/5'}`}>
+                    <div className="flex justify-end px-2 pt-1"><HunkToggle rejected={isRejected} onToggle={() => toggle(String(s.hunkId))} /></div>
+                    {s.removed.map((line, j) => (
+                        <div key={`r${j}`} className={`flex ${isRejected ? 'text-gray-200' : 'bg-red-500/10 text-red-300'}`}><span className="w-6 flex-shrink-0 text-center">-</span><span className="whitespace-pre-wrap break-all">{displayToken(line, isHtml)}</span></div>
+                    ))}
+                    {s.added.map((line, j) => (
+                        <div key={`a${j}`} className={`flex ${isRejected ? 'text-gray-600 line-through' : 'bg-emerald-500/10 text-emerald-300'}`}><span className="w-6 flex-shrink-0 text-center">+</span><span className="whitespace-pre-wrap break-all">{displayToken(line, isHtml)}</span></div>
+                    ))}
+                </div>
+            );
+        })}
+    </div>
+  );
+
+  const renderCellDiff = () => (
+    <table className="w-full text-xs font-mono">
+        <thead>
+            <tr className="text-[9px] text-gray-600 uppercase tracking-widest text-left">
+                <th className="py-2 pr-4 font-normal">Sheet</th>
+                <th className="py-2 pr-4 font-normal">Cell</th>
+                <th className="py-2 pr-4 font-normal">Before</th>
+                <th className="py-2 pr-4 font-normal">After</th>
+                <th />
+            </tr>
+        </thead>
+        <tbody>
+            {cellChanges.map(c => {
+                const isRejected = rejected.has(c.id);
+                return (
+                    <tr key={c.id} className="border-t border-white/5">
+                        <td className="py-2 pr-4 text-gray-500">{c.sheetName}</td>
+                        <td className="py-2 pr-4 text-cyan-500">{columnLabel(c.col)}{c.row + 1}</td>
+                        <td className={`py-2 pr-4 ${isRejected ? 'text-gray-200' : 'text-red-300 line-through'}`}>{c.before ?? <span className="text-gray-600 italic no-underline">empty</span>}</td>
+                        <td className={`py-2 pr-4 ${isRejected ? 'text-gray-600 line-through' : 'text-emerald-300'}`}>{c.after ?? <span className="text-gray-600 italic">removed</span>}</td>
+                        <td className="py-2 text-right"><HunkToggle rejected={isRejected} onToggle={() => toggle(c.id)} /></td>
+                    </tr>
+                );
+            })}
+        </tbody>
+    </table>
+  );
+
+  const renderImageDiff = () => {
+    const src = (b64: string) => `data:image/jpeg;base64,${b64}`;
+    return (
+        <div className="w-full h-full flex flex-col items-center gap-4">
+            <div className="relative flex-grow w-full min-h-0 flex items-center justify-center">
+                <div className="relative max-h-full max-w-full">
+                    <img src={src(versions!.before)} className="max-h-[60vh] max-w-full object-contain rounded-xl border border-white/10" alt="Version A" />
+                    <img
+                        src={src(versions!.after)}
+                        className="absolute inset-0 w-full h-full object-contain rounded-xl"
+                        style={imageMode === 'swipe' ? { clipPath: `inset(0 0 0 ${mix}%)` } : { opacity: mix / 100 }}
+                        alt="Version B"
+                    />
+                    {imageMode === 'swipe' && <div className="absolute top-0 bottom-0 w-px bg-cyan-400 shadow-[0_0_10px_cyan] pointer-events-none" style={{ left: `${mix}%` }} />}
+                </div>
+            </div>
+            <div className="flex items-center gap-4">
+                {(['swipe', 'onion'] as const).map(mode => (
+                    <button key={mode} onClick={() => setImageMode(mode)} className={`px-3 py-1 rounded-full text-[10px] font-mono uppercase border transition-all ${imageMode === mode ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500 hover:text-white'}`}>
+                        {mode === 'swipe' ? 'Swipe' : 'Onion Skin'}
+                    </button>
+                ))}
+                <input type="range" min={0} max={100} value={mix} onChange={(e) => setMix(Number(e.target.value))} className="w-64 accent-cyan-500" />
+            </div>
+        </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (error) return <div className="text-[10px] font-mono text-red-400 uppercase tracking-widest">{error}</div>;
+    if (!versions) return <div className="text-[10px] font-mono text-gray-600 uppercase tracking-widest animate-pulse">Reconstructing Versions...</div>;
+    if (kind === 'unsupported') return <div className="text-[10px] font-mono text-gray-600 uppercase tracking-widest">Compare is not available for this content type</div>;
+    if (kind === 'image') return renderImageDiff();
+    if (hunkIds.length === 0) return <div className="text-[10px] font-mono text-gray-600 uppercase tracking-widest">No differences between these versions</div>;
+    if (kind === 'spreadsheet') return renderCellDiff();
+    return granularity === 'word' ? renderWordDiff() : renderLineDiff();
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0a0a0a] rounded-2xl border border-white/10 overflow-hidden shadow-2xl">
+        <div className="flex-shrink-0 flex items-center gap-4 px-6 py-3 border-b border-white/5 bg-black/40">
+            <div className="flex-grow min-w-0 text-[10px] font-mono uppercase tracking-widest truncate">
+                <span className="text-red-400">A · v{baseIndex + 1}</span>
+                <span className="text-gray-600 mx-2">→</span>
+                <span className="text-emerald-400">B · v{targetIndex + 1}</span>
+                <span className="text-gray-500 normal-case tracking-normal ml-3">{base?.description} → {target?.description}</span>
+            </div>
+            {(kind === 'text' || kind === 'html') && (
+                <div className="flex bg-white/5 rounded-full p-0.5">
+                    {(['word', 'line'] as Granularity[]).map(g => (
+                        <button key={g} onClick={() => setGranularity(g)} className={`px-3 py-1 rounded-full text-[9px] font-mono uppercase transition-all ${granularity === g ? 'bg-cyan-500 text-black font-bold' : 'text-gray-500 hover:text-white'}`}>{g}</button>
+                    ))}
+                </div>
+            )}
+            <button onClick={onClose} className="text-[10px] font-mono uppercase text-gray-500 hover:text-white transition-colors">Exit Compare</button>
+        </div>
+
+        <div className="flex-grow overflow-auto p-8 custom-scrollbar min-h-0">
+            {renderBody()}
+        </div>
+
+        {versions && kind === 'image' && (
+            <div className="flex-shrink-0 flex items-center justify-end gap-3 px-6 py-3 border-t border-white/5 bg-black/40">
+                <button onClick={() => onApply(versions.before, `Reverted to Version ${baseIndex + 1}`)} className="bg-amber-500 text-black font-black px-4 py-1.5 rounded-md text-[9px] uppercase hover:scale-105 transition-transform">Revert To A</button>
+            </div>
+        )}
+
+        {versions && hunkIds.length > 0 && kind !== 'image' && (
+            <div className="flex-shrink-0 flex items-center gap-3 px-6 py-3 border-t border-white/5 bg-black/40">
+                <span className="flex-grow text-[10px] font-mono text-gray-500 uppercase tracking-widest">{hunkIds.length} changes · {rejected.size} reverted</span>
+                <button onClick={() => setRejected(new Set())} className="text-[9px] font-mono uppercase text-gray-500 hover:text-white transition-colors">Keep All</button>
+                <button onClick={() => setRejected(new Set(hunkIds))} className="text-[9px] font-mono uppercase text-gray-500 hover:text-white transition-colors">Revert All</button>
+                <button onClick={handleApply} disabled={rejected.size === 0} className="bg-amber-500 text-black font-black px-4 py-1.5 rounded-md text-[9px] uppercase hover:scale-105 disabled:opacity-20 disabled:hover:scale-100 transition-all">Save As New Version</button>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ContentFormat } from '../types';
+import { displayHtml } from '../services/contentFormat';
+import { sanitizeHtml } from '../services/sanitizeHtml';
+
+export interface SelectionParts {
+  before: string;
+  selection: string;
+  after: string;
+}
+
+interface ContentEditorProps {
+  content: string;
+  format: ContentFormat;
+  onChange: (content: string) => void;
+  // Rewrites the selected part with the AI; resolves to the new content, or null if it failed
+  onEditSelection: (parts: SelectionParts, instruction: string) => Promise<string | null>;
+}
+
+// Marks the selection inside the HTML editor while its markup is read out
+const SELECTION_START = '⁣sel-start⁣';
+const SELECTION_END = '⁣sel-end⁣';
+
+const HTML_COMMANDS: { label: string; title: string; command: string; value?: string }[] = [
+  { label: 'B', title: 'Bold', command: 'bold' },
+  { label: 'I', title: 'Italic', command: 'italic' },
+  { label: 'U', title: 'Underline', command: 'underline' },
+  { label: 'H2', title: 'Heading', command: 'formatBlock', value: 'h2' },
+  { label: 'H3', title: 'Subheading', command: 'formatBlock', value: 'h3' },
+  { label: '¶', title: 'Paragraph', command: 'formatBlock', value: 'p' },
+  { label: '•', title: 'Bulleted list', command: 'insertUnorderedList' },
+  { label: '1.', title: 'Numbered list', command: 'insertOrderedList' },
+  { label: '❝', title: 'Quote', command: 'formatBlock', value: 'blockquote' },
+  { label: '⨯', title: 'Clear formatting', command: 'removeFormat' }
+];
+
+// Markdown syntax wrapped around the selection, or put in front of each selected line
+const MARKDOWN_COMMANDS: { label: string; title: string; wrap?: string; prefix?: string }[] = [
+  { label: 'B', title: 'Bold', wrap: '**' },
+  { label: 'I', title: 'Italic', wrap: '_' },
+  { label: '`', title: 'Code', wrap: '`' },
+  { label: 'H2', title: 'Heading', prefix: '## ' },
+  { label: 'H3', title: 'Subheading', prefix: '### ' },
+  { label: '•', title: 'Bulleted list', prefix: '- ' },
+  { label: '1.', title: 'Numbered list', prefix: '1. ' },
+  { label: '❝', title: 'Quote', prefix: '> ' }
+];
+
+const toolButton = "min-w-[26px] px-1.5 py-1 rounded text-[10px] font-mono text-gray-500 hover:text-white hover:bg-white/10 transition-colors";
+
+/**
+ * Manual editing of text memories: a rich-text editor for HTML, and a source editor with
+ * formatting shortcuts and a preview for Markdown and plain text. A selected passage can be
+ * handed to the AI with an instruction, leaving the rest of the document alone.
+ */
+export const ContentEditor: React.FC<ContentEditorProps> = ({ content, format, onChange, onEditSelection }) => {
+  const [preview, setPreview] = useState(false);
+  const [hasSelection, setHasSelection] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const richRef = useRef<HTMLDivElement>(null);
+  // The HTML editor's selection, kept while focus is in the instruction field
+  const savedRange = useRef<Range | null>(null);
+  // Last content this editor reported, to tell its own changes from new content coming in
+  const emitted = useRef<string | null>(null);
+
+  const isRich = format === 'html';
+
+  useEffect(() => {
+    if (content === emitted.current) return;
+    emitted.current = content;
+    if (isRich && richRef.current) richRef.current.innerHTML = sanitizeHtml(content);
+    setHasSelection(false);
+    savedRange.current = null;
+  }, [content, isRich]);
+
+  const emit = (next: string) => {
+    emitted.current = next;
+    onChange(next);
+  };
+
+  const trackSelection = () => {
+    if (!isRich) {
+      const area = textRef.current;
+      setHasSelection(!!area && area.selectionStart !== area.selectionEnd);
+      return;
+    }
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    const inside = !!range && !!richRef.current && richRef.current.contains(range.commonAncestorContainer);
+    if (!inside) return; // e.g. focus moved to the instruction field; keep the last selection
+    savedRange.current = range!.collapsed ? null : range!.cloneRange();
+    setHasSelection(!range!.collapsed);
+  };
+
+  const runHtmlCommand = (command: string, value?: string) => {
+    document.execCommand(command, false, value);
+    if (richRef.current) emit(richRef.current.innerHTML);
+  };
+
+  const runLink = () => {
+    const url = window.prompt('Link address', 'https://');
+    if (url) runHtmlCommand('createLink', url);
+  };
+
+  const runMarkdownCommand = (wrap?: string, prefix?: string) => {
+    const area = textRef.current;
+    if (!area) return;
+    const { selectionStart: start, selectionEnd: end, value } = area;
+    let next: string;
+    let cursor: [number, number];
+    if (wrap) {
+      next = value.slice(0, start) + wrap + value.slice(start, end) + wrap + value.slice(end);
+      cursor = [start + wrap.length, end + wrap.length];
+    } else {
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      const lines = value.slice(lineStart, end).split('\n');
+      const block = lines.map(line => prefix + line).join('\n');
+      next = value.slice(0, lineStart) + block + value.slice(end);
+      cursor = [lineStart, lineStart + block.length];
+    }
+    emit(next);
+    requestAnimationFrame(() => { area.focus(); area.setSelectionRange(...cursor); });
+  };
+
+  // The document split around the selection, in the editor's own format
+  const selectionParts = (): SelectionParts | null => {
+    if (!isRich) {
+      const area = textRef.current;
+      if (!area || area.selectionStart === area.selectionEnd) return null;
+      const { selectionStart: start, selectionEnd: end, value } = area;
+      return { before: value.slice(0, start), selection: value.slice(start, end), after: value.slice(end) };
+    }
+    const range = savedRange.current;
+    const root = richRef.current;
+    if (!range || !root || !root.contains(range.commonAncestorContainer)) return null;
+    // Sentinel text at both ends of the range, read out with the markup, then removed again
+    const start = document.createTextNode(SELECTION_START);
+    const end = document.createTextNode(SELECTION_END);
+    const endRange = range.cloneRange();
+    endRange.collapse(false);
+    endRange.insertNode(end);
+    range.insertNode(start);
+    const html = root.innerHTML;
+    start.remove();
+    end.remove();
+    root.normalize();
+    const from = html.indexOf(SELECTION_START);
+    const to = html.indexOf(SELECTION_END);
+    if (from < 0 || to < from) return null;
+    return { before: html.slice(0, from), selection: html.slice(from + SELECTION_START.length, to), after: html.slice(to + SELECTION_END.length) };
+  };
+
+  const handleEditSelection = async () => {
+    const parts = selectionParts();
+    if (!parts || !instruction.trim()) return;
+    setIsRewriting(true);
+    try {
+      const next = await onEditSelection(parts, instruction.trim());
+      if (next !== null) setInstruction('');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0a0a0a] rounded-2xl border border-white/10 overflow-hidden shadow-inner">
+        <div className="flex-shrink-0 flex items-center gap-1 px-4 py-2 border-b border-white/5 bg-black/40">
+            {isRich && HTML_COMMANDS.map(c => (
+                <button key={c.title} title={c.title} onMouseDown={(e) => e.preventDefault()} onClick={() => runHtmlCommand(c.command, c.value)} className={toolButton}>{c.label}</button>
+            ))}
+            {isRich && <button title="Link" onMouseDown={(e) => e.preventDefault()} onClick={runLink} className={toolButton}>🔗</button>}
+            {format === 'markdown' && !preview && MARKDOWN_COMMANDS.map(c => (
+                <button key={c.title} title={c.title} onMouseDown={(e) => e.preventDefault()} onClick={() => runMarkdownCommand(c.wrap, c.prefix)} className={toolButton}>{c.label}</button>
+            ))}
+            {format === 'markdown' && (
+                <button onClick={() => setPreview(p => !p)} className={`ml-2 text-[9px] font-mono uppercase tracking-widest transition-colors ${preview ? 'text-cyan-400' : 'text-gray-600 hover:text-cyan-400'}`}>{preview ? 'Write' : 'Preview'}</button>
+            )}
+            <span className="ml-auto text-[9px] font-mono text-gray-600 uppercase tracking-widest">{format === 'html' ? 'Rich Text' : format}</span>
+        </div>
+
+        <div className="flex-grow min-h-0 overflow-auto custom-scrollbar">
+            {isRich ? (
+                <div
+                    ref={richRef}
+                    contentEditable={!isRewriting}
+                    suppressContentEditableWarning
+                    onInput={(e) => emit(e.currentTarget.innerHTML)}
+                    onMouseUp={trackSelection}
+                    onKeyUp={trackSelection}
+                    className="prose prose-invert max-w-none min-h-full p-12 text-gray-200 focus:outline-none selection:bg-cyan-500/40"
+                />
+            ) : preview ? (
+                <div className="prose prose-invert max-w-none p-12 text-gray-200" dangerouslySetInnerHTML={{ __html: displayHtml(content, format) }} />
+            ) : (
+                <textarea
+                    ref={textRef}
+                    value={content}
+                    onChange={(e) => emit(e.target.value)}
+                    onSelect={trackSelection}
+                    readOnly={isRewriting}
+                    spellCheck
+                    className="w-full h-full min-h-full resize-none bg-transparent p-12 text-sm leading-relaxed text-gray-200 font-mono focus:outline-none selection:bg-cyan-500/40"
+                />
+            )}
+        </div>
+
+        <div className="flex-shrink-0 flex items-center gap-3 px-4 py-2 border-t border-white/5 bg-black/40">
+            <div className={`w-1.5 h-1.5 rounded-full ${hasSelection ? 'bg-purple-400 animate-pulse' : 'bg-gray-700'}`} />
+            <input
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleEditSelection()}
+                disabled={!hasSelection || isRewriting}
+                placeholder={hasSelection ? 'Instruction for the selected passage...' : 'Select a passage to rewrite it with AI'}
+                className="flex-grow bg-transparent border-none outline-none text-xs text-white py-1 placeholder-white/20 disabled:opacity-60"
+            />
+            <button onClick={handleEditSelection} disabled={!hasSelection || !instruction.trim() || isRewriting} className="bg-purple-500 text-black px-4 py-1 rounded-md text-[9px] font-black uppercase hover:scale-105 disabled:opacity-20 transition-all">
+                {isRewriting ? 'Rewriting...' : 'Apply To Selection'}
+            </button>
+        </div>
+    </div>
+  );
+};
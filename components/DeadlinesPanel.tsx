@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { RecallFile } from '../types';
+import {
+  REMINDER_LEAD_DAYS, SNOOZE_OPTIONS, UpcomingDeadline, collectDeadlines, completeDeadline, describeDaysLeft,
+  isSnoozed, notificationsSupported, reopenDeadline, snoozeDeadline
+} from '../services/deadlines';
+
+interface DeadlinesPanelProps {
+  memories: RecallFile[];
+  now: number;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onEnableNotifications: () => void;
+  onOpenMemory: (id: string) => void;
+  onUpdateMemory: (memory: RecallFile) => void;
+  onClose: () => void;
+}
+
+// Completed deadlines shown, most recent first
+const DONE_LIMIT = 10;
+
+const KIND_STYLES: Record<string, string> = {
+  due: 'text-amber-400 border-amber-500/30',
+  renewal: 'text-cyan-400 border-cyan-500/30',
+  expiry: 'text-red-400 border-red-500/30',
+  other: 'text-gray-400 border-white/10'
+};
+
+export const DeadlinesPanel: React.FC<DeadlinesPanelProps> = ({ memories, now, notificationPermission, onEnableNotifications, onOpenMemory, onUpdateMemory, onClose }) => {
+  const [snoozeMenu, setSnoozeMenu] = useState<string | null>(null);
+  const all = collectDeadlines(memories, now);
+  const open = all.filter(i => i.deadline.status === 'open');
+  const overdue = open.filter(i => i.daysLeft < 0 && !isSnoozed(i.deadline, now));
+  const upcoming = open.filter(i => i.daysLeft >= 0 && !isSnoozed(i.deadline, now));
+  const snoozed = open.filter(i => isSnoozed(i.deadline, now));
+  const done = all.filter(i => i.deadline.status === 'done').reverse().slice(0, DONE_LIMIT);
+
+  const apply = (item: UpcomingDeadline, change: (memory: RecallFile, id: string) => RecallFile) => {
+    const memory = memories.find(m => m.id === item.memoryId);
+    if (memory) onUpdateMemory(change(memory, item.deadline.id));
+    setSnoozeMenu(null);
+  };
+
+  const renderItem = (item: UpcomingDeadline) => {
+    const { deadline } = item;
+    const isDone = deadline.status === 'done';
+    return (
+      <div key={deadline.id} className={`p-3 rounded-xl border border-white/5 bg-white/[0.02] ${isDone ? 'opacity-50' : ''}`}>
+          <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                  <div className={`text-xs font-medium text-gray-100 ${isDone ? 'line-through' : ''}`}>{deadline.title}</div>
+                  <button onClick={() => onOpenMemory(item.memoryId)} className="text-[10px] text-gray-500 hover:text-cyan-400 truncate max-w-full text-left transition-colors" title="Open source document">↳ {item.memoryTitle}</button>
+              </div>
+              <span className={`flex-shrink-0 text-[8px] font-mono uppercase px-1.5 py-0.5 rounded border ${KIND_STYLES[deadline.kind] || KIND_STYLES.other}`}>{deadline.kind}</span>
+          </div>
+          <div className="flex items-center justify-between mt-2">
+              <div className="text-[9px] font-mono uppercase tracking-widest">
+                  <span className="text-gray-500">{deadline.date}</span>
+                  {!isDone && <span className={`ml-2 ${item.daysLeft < 0 ? 'text-red-400' : item.daysLeft <= REMINDER_LEAD_DAYS ? 'text-amber-400' : 'text-gray-600'}`}>{describeDaysLeft(item.daysLeft)}</span>}
+                  {typeof deadline.amount === 'number' && <span className="ml-2 text-gray-400">{deadline.amount.toFixed(2)} {deadline.currency || ''}</span>}
+              </div>
+              <div className="relative flex items-center gap-2">
+                  {isDone ? (
+                      <button onClick={() => apply(item, reopenDeadline)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-white">Reopen</button>
+                  ) : (
+                      <>
+                          <button onClick={() => setSnoozeMenu(m => (m === deadline.id ? null : deadline.id))} className="text-[9px] font-mono uppercase text-gray-500 hover:text-purple-400">Snooze</button>
+                          <button onClick={() => apply(item, completeDeadline)} className="text-[9px] font-mono uppercase text-cyan-500 hover:text-cyan-300">Done</button>
+                      </>
+                  )}
+                  {snoozeMenu === deadline.id && (
+                      <div className="absolute right-0 top-5 z-10 bg-[#111] border border-white/10 rounded-lg shadow-2xl py-1 w-28">
+                          {SNOOZE_OPTIONS.map(option => (
+                              <button
+                                  key={option.label}
+                                  onClick={() => apply(item, (memory, id) => snoozeDeadline(memory, id, option.ms))}
+                                  className="block w-full text-left px-3 py-1.5 text-[10px] font-mono text-gray-400 hover:bg-white/5 hover:text-white"
+                              >
+                                  {option.label}
+                              </button>
+                          ))}
+                      </div>
+                  )}
+              </div>
+          </div>
+          {isSnoozed(deadline, now) && (
+              <div className="text-[9px] font-mono text-purple-400 mt-1">Snoozed until {new Date(deadline.snoozedUntil as number).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</div>
+          )}
+      </div>
+    );
+  };
+
+  const section = (label: string, items: UpcomingDeadline[], accent = 'text-gray-600') => items.length > 0 && (
+    <div>
+        <div className={`text-[9px] font-mono uppercase tracking-widest mb-2 ${accent}`}>{label} ({items.length})</div>
+        <div className="space-y-2">{items.map(renderItem)}</div>
+    </div>
+  );
+
+  return (
+    <div className="absolute right-4 top-16 z-[80] w-96 max-h-[75vh] flex flex-col bg-[#0c0c0c] border border-white/10 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+            <h2 className="text-xs font-mono font-bold text-cyan-500 uppercase tracking-[0.2em]">Deadlines</h2>
+            <button onClick={onClose} className="text-gray-600 hover:text-white text-sm">×</button>
+        </div>
+        {notificationsSupported() && notificationPermission === 'default' && (
+            <button onClick={onEnableNotifications} className="mx-5 mt-4 px-3 py-2 rounded-lg border border-cyan-500/30 text-[10px] font-mono uppercase tracking-widest text-cyan-400 hover:bg-cyan-500/10 transition-all">
+                Enable Browser Reminders
+            </button>
+        )}
+        {notificationPermission === 'denied' && (
+            <p className="mx-5 mt-4 text-[10px] text-gray-600 font-mono">Browser notifications are blocked; reminders only show here.</p>
+        )}
+        <div className="flex-grow overflow-y-auto custom-scrollbar p-5 space-y-5">
+            {all.length === 0 ? (
+                <p className="text-[11px] text-gray-500 font-mono leading-relaxed">No deadlines yet. Due dates, renewals and expiries found in ingested documents appear here.</p>
+            ) : (
+                <>
+                    {section('Overdue', overdue, 'text-red-400')}
+                    {section('Upcoming', upcoming, 'text-amber-400')}
+                    {section('Snoozed', snoozed, 'text-purple-400')}
+                    {section('Done', done)}
+                </>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { RecallFile } from '../types';
+import { downloadBlob } from '../services/download';
+import { ExportOption, exportContent, exportOptions } from '../services/exporter';
+import { resolveVersion } from '../services/textHistory';
+import { headIndexOf } from '../services/versionTree';
+
+interface ExportMenuProps {
+  memory: RecallFile;
+  versionIndex: number; // version shown in the viewer, preselected here
+}
+
+/**
+ * Downloads a version of the memory as a file. The version can be any entry of the history;
+ * the formats offered follow from that version's content.
+ */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ memory, versionIndex }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState(versionIndex);
+  const [content, setContent] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const headIndex = headIndexOf(memory);
+
+  useEffect(() => {
+    setSelected(versionIndex);
+  }, [versionIndex, memory.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setContent(null);
+    setError(null);
+    resolveVersion(memory, selected)
+      .then(text => { if (!cancelled) setContent(text); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [isOpen, selected, memory.id, memory.updatedAt]);
+
+  const handleExport = async (option: ExportOption) => {
+    if (content === null) return;
+    setBusy(option.format);
+    setError(null);
+    try {
+      const title = selected === headIndex ? memory.title : `${memory.title} (version ${selected + 1})`;
+      const { blob, filename } = await exportContent(memory, content, option, title);
+      downloadBlob(blob, filename);
+    } catch (e) {
+      console.error("Export failed", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!isOpen) {
+    return (
+        <button onClick={() => setIsOpen(true)} className="w-full py-3 rounded-2xl border border-purple-500/20 hover:bg-purple-500/10 transition-all text-[10px] font-mono uppercase tracking-[0.2em] text-purple-400/70 hover:text-purple-300 font-bold">Export As...</button>
+    );
+  }
+
+  const options = content === null ? [] : exportOptions(memory, content);
+
+  return (
+    <div className="rounded-2xl border border-purple-500/20 bg-purple-500/5 p-4 space-y-3">
+        <div className="flex items-center justify-between">
+            <span className="text-[10px] font-mono text-purple-300 uppercase tracking-widest">Export</span>
+            <button onClick={() => setIsOpen(false)} className="text-gray-600 hover:text-white text-xs">×</button>
+        </div>
+        <select
+            value={selected}
+            onChange={(e) => setSelected(Number(e.target.value))}
+            className="w-full bg-black/60 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-gray-300 outline-none focus:border-purple-500/50"
+        >
+            {memory.history.map((diff, idx) => (
+                <option key={diff.id} value={idx}>
+                    {`V${idx + 1}${idx === headIndex ? ' (current)' : ''} · ${diff.description.slice(0, 40)}`}
+                </option>
+            ))}
+        </select>
+        <div className="grid grid-cols-2 gap-1.5">
+            {content === null && !error && (
+                <div className="col-span-2 text-[9px] font-mono text-gray-600 uppercase tracking-widest animate-pulse">Loading Version...</div>
+            )}
+            {options.map(option => (
+                <button
+                    key={option.format}
+                    onClick={() => handleExport(option)}
+                    disabled={!!busy}
+                    className="py-2 rounded-lg border border-white/10 text-[10px] font-mono uppercase tracking-wider text-gray-400 hover:text-white hover:border-purple-500/40 disabled:opacity-40 transition-colors"
+                >
+                    {busy === option.format ? 'Exporting...' : option.label}
+                </button>
+            ))}
+        </div>
+        {error && <p className="text-[10px] text-red-400 break-words">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { RecallFile } from '../types';
+import { getBranches, layoutVersionGraph } from '../services/versionTree';
+
+interface HistoryGraphProps {
+  memory: RecallFile;
+  selectedIndex: number;
+  headIndex: number;
+  activeBranch?: string;
+  // Compare mode labels entries A/B instead of highlighting the selection
+  markers?: Record<number, 'A' | 'B'>;
+  onSelect: (index: number) => void;
+}
+
+const LANE_WIDTH = 14;
+const DOT_Y = 8;
+const laneX = (lane: number) => lane * LANE_WIDTH + 6;
+
+export const HistoryGraph: React.FC<HistoryGraphProps> = ({ memory, selectedIndex, headIndex, activeBranch, markers, onSelect }) => {
+  const graph = useMemo(() => layoutVersionGraph(memory.history), [memory.history]);
+  const branchesByHead = useMemo(() => {
+    const map = new Map<string, string[]>();
+    getBranches(memory).forEach(b => map.set(b.headId, [...(map.get(b.headId) || []), b.name]));
+    return map;
+  }, [memory.branches, memory.history]);
+
+  const line = 'absolute w-px bg-white/10';
+  const gutterWidth = graph.laneCount * LANE_WIDTH + 8;
+
+  return (
+    <div className="pb-10">
+        {memory.history.map((diff, idx) => {
+            const lane = graph.lanes[idx];
+            const side = markers?.[idx];
+            const isHighlighted = markers ? !!side : idx === selectedIndex;
+            const heads = branchesByHead.get(diff.id) || [];
+            return (
+            <div key={diff.id} onClick={() => onSelect(idx)} className="relative flex cursor-pointer group">
+                <div className="relative flex-shrink-0" style={{ width: gutterWidth }}>
+                    {graph.passing[idx].map(l => (
+                        <div key={`p${l}`} className={`${line} top-0 bottom-0`} style={{ left: laneX(l) }} />
+                    ))}
+                    {graph.parents[idx] >= 0 && (
+                        <div className={`${line} top-0`} style={{ left: laneX(lane), height: DOT_Y }} />
+                    )}
+                    {graph.children[idx].map(c => (
+                        <React.Fragment key={`c${c}`}>
+                            {graph.lanes[c] !== lane && (
+                                <div className="absolute h-px bg-white/10" style={{ top: DOT_Y, left: laneX(Math.min(lane, graph.lanes[c])), width: Math.abs(laneX(graph.lanes[c]) - laneX(lane)) }} />
+                            )}
+                            <div className={`${line} bottom-0`} style={{ left: laneX(graph.lanes[c]), top: DOT_Y }} />
+                        </React.Fragment>
+                    ))}
+                    {side ? (
+                        <div className={`absolute w-4 h-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-[#080808] flex items-center justify-center text-[8px] font-black text-black ${side === 'A' ? 'bg-red-400' : 'bg-emerald-400'}`} style={{ left: laneX(lane) + 0.5, top: DOT_Y }}>{side}</div>
+                    ) : (
+                        <div className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-[#080808] transition-all duration-500 ${isHighlighted ? 'bg-cyan-500 shadow-[0_0_15px_cyan]' : idx === headIndex ? 'bg-purple-500' : 'bg-gray-800'}`} style={{ left: laneX(lane) + 0.5, top: DOT_Y }} />
+                    )}
+                </div>
+                <div className={`flex-grow min-w-0 pl-3 pb-10 transition-all ${isHighlighted ? 'opacity-100' : 'opacity-25 group-hover:opacity-75'}`}>
+                    <div className="text-[9px] text-gray-600 mb-1 font-mono uppercase tracking-widest">{new Date(diff.timestamp).toLocaleDateString()} • {new Date(diff.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</div>
+                    <div className="text-xs font-medium text-gray-100 leading-relaxed">{diff.description}</div>
+                    {heads.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {heads.map(name => (
+                                <span key={name} className={`text-[8px] font-mono uppercase px-1.5 py-0.5 rounded border ${name === activeBranch ? 'border-purple-500/50 text-purple-300 bg-purple-500/10' : 'border-white/10 text-gray-500'}`}>⎇ {name}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+            );
+        })}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ImportConflictPolicy } from '../services/recallBundle';
+
+interface ImportDialogProps {
+  total: number;
+  conflicts: number;
+  onResolve: (policy: ImportConflictPolicy) => void;
+  onCancel: () => void;
+}
+
+const OPTIONS: { policy: ImportConflictPolicy; label: string; hint: string }[] = [
+  { policy: 'skip', label: 'Skip', hint: 'Keep the existing memories, import only new ones.' },
+  { policy: 'replace', label: 'Replace', hint: 'Overwrite existing memories with the bundle versions.' },
+  { policy: 'duplicate', label: 'Duplicate', hint: 'Import colliding memories as separate copies.' }
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ total, conflicts, onResolve, onCancel }) => (
+  <div className="absolute inset-0 z-[90] bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onCancel}>
+      <div className="w-[420px] bg-[#0c0c0c] border border-white/10 rounded-2xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+          <h2 className="text-xs font-mono font-bold text-cyan-500 uppercase tracking-[0.2em] mb-1">Import .recall Bundle</h2>
+          <p className="text-[11px] text-gray-400 mb-6">
+              {conflicts} of {total} {total === 1 ? 'memory already exists' : 'memories already exist'} in this library.
+          </p>
+          <div className="space-y-2">
+              {OPTIONS.map(o => (
+                  <button
+                      key={o.policy}
+                      onClick={() => onResolve(o.policy)}
+                      className="w-full text-left p-4 rounded-xl border border-white/10 hover:border-cyan-500/50 hover:bg-cyan-500/5 transition-all"
+                  >
+                      <div className="text-xs font-bold text-gray-200 uppercase font-mono">{o.label}</div>
+                      <div className="text-[10px] text-gray-500 mt-1">{o.hint}</div>
+                  </button>
+              ))}
+          </div>
+          <button onClick={onCancel} className="mt-6 w-full py-2 text-[10px] font-mono uppercase text-gray-500 hover:text-white transition-colors">Cancel Import</button>
+      </div>
+  </div>
+);
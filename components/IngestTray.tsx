@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { IngestItem, IngestState, PENDING_STATES, isClearable } from '../services/ingestQueue';
+
+interface IngestTrayProps {
+  items: IngestItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClear: () => void;
+  onOpenMemory: (id: string) => void;
+}
+
+const STATE_STYLES: Record<IngestState, string> = {
+  queued: 'text-gray-500',
+  reading: 'text-cyan-400 animate-pulse',
+  analyzing: 'text-purple-400 animate-pulse',
+  waiting: 'text-amber-400',
+  stored: 'text-cyan-500',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-600'
+};
+
+const formatSize = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)}MB` : bytes > 0 ? `${Math.max(1, Math.round(bytes / 1024))}KB` : '';
+
+export const IngestTray: React.FC<IngestTrayProps> = ({ items, onCancel, onRetry, onClear, onOpenMemory }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const isWaiting = items.some(i => i.state === 'waiting');
+
+  // Only ticks while a backoff countdown is on screen
+  useEffect(() => {
+    if (!isWaiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isWaiting]);
+
+  if (items.length === 0) return null;
+
+  const pending = items.filter(i => PENDING_STATES.includes(i.state)).length;
+  const stored = items.filter(i => i.state === 'stored').length;
+  const failed = items.filter(i => i.state === 'failed').length;
+  const done = items.length - pending;
+
+  const describe = (item: IngestItem) => {
+    if (item.state === 'waiting' && item.retryAt) return `retry in ${Math.max(0, Math.ceil((item.retryAt - now) / 1000))}s`;
+    if (item.state === 'analyzing' && item.attempts > 1) return `analyzing · try ${item.attempts}`;
+    if (item.state === 'failed' && item.memoryId) return 'kept unanalyzed';
+    return item.state;
+  };
+
+  return (
+    <div className="absolute bottom-4 right-4 z-40 w-80 bg-[#0c0c0c]/95 backdrop-blur-md border border-white/10 rounded-2xl shadow-2xl overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-white/5">
+            <button onClick={() => setIsCollapsed(c => !c)} className="text-[10px] font-mono text-cyan-500 uppercase tracking-widest hover:text-cyan-300 transition-colors">
+                {isCollapsed ? '▸' : '▾'} Ingest {done}/{items.length}
+            </button>
+            <div className="flex items-center gap-3 text-[9px] font-mono uppercase tracking-widest">
+                <span className="text-gray-600">{stored} Stored{failed > 0 && <span className="text-red-400"> · {failed} Failed</span>}</span>
+                <button onClick={onClear} disabled={!items.some(isClearable)} className="text-gray-500 hover:text-white disabled:opacity-30 transition-colors">Clear</button>
+            </div>
+        </div>
+        <div className="h-0.5 bg-white/5">
+            <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(done / items.length) * 100}%` }} />
+        </div>
+        {!isCollapsed && (
+            <div className="max-h-72 overflow-y-auto custom-scrollbar p-2 space-y-1">
+                {items.map(item => (
+                    <div key={item.id} className="group px-2 py-1.5 rounded-lg hover:bg-white/[0.03]">
+                        <div className="flex items-center justify-between gap-2">
+                            <button
+                                onClick={() => item.memoryId && onOpenMemory(item.memoryId)}
+                                disabled={!item.memoryId}
+                                className="min-w-0 text-left text-xs text-gray-200 truncate enabled:hover:text-cyan-400 transition-colors"
+                                title={item.name}
+                            >
+                                {item.name}
+                            </button>
+                            <div className="flex-shrink-0 flex items-center gap-2">
+                                <span className="text-[9px] font-mono text-gray-600">{formatSize(item.size)}</span>
+                                {PENDING_STATES.includes(item.state) && (
+                                    <button onClick={() => onCancel(item.id)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-red-400 transition-colors">Cancel</button>
+                                )}
+                                {(item.state === 'failed' || item.state === 'cancelled') && (
+                                    <button onClick={() => onRetry(item.id)} className="text-[9px] font-mono uppercase text-cyan-500 hover:text-cyan-300 transition-colors">Retry</button>
+                                )}
+                            </div>
+                        </div>
+                        <div className={`text-[9px] font-mono uppercase tracking-widest ${STATE_STYLES[item.state]}`}>{describe(item)}</div>
+                        {item.error && item.state !== 'stored' && (
+                            <div className="text-[9px] text-gray-600 truncate" title={item.error}>{item.error}</div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { FinancialData, RecallFile } from '../types';
+import {
+  LedgerGrouping, LedgerRow, LedgerSettings, UNCATEGORIZED, UNKNOWN_ENTITY,
+  buildLedger, correctFinancial, foreignCurrencies, groupKeyOf, ledgerToCsv, ledgerToXlsx,
+  loadLedgerSettings, normalizeCurrency, rebaseSettings, storeLedgerSettings, totalsBy
+} from '../services/ledger';
+import { downloadBlob } from '../services/download';
+
+interface LedgerPanelProps {
+  memories: RecallFile[];
+  onOpenMemory: (id: string) => void;
+  onUpdateMemory: (memory: RecallFile) => void;
+}
+
+interface RowDraft {
+  date: string;
+  entity: string;
+  category: string;
+  amount: string;
+  currency: string;
+}
+
+const GROUPINGS: { id: LedgerGrouping; label: string }[] = [
+  { id: 'category', label: 'Category' },
+  { id: 'entity', label: 'Entity' },
+  { id: 'month', label: 'Month' }
+];
+
+const formatMoney = (value: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  } catch (e) {
+    // Not an ISO code the browser knows
+    return `${value.toFixed(2)} ${currency}`;
+  }
+};
+
+const cellInput = "w-full bg-white/5 border border-white/10 rounded px-1.5 py-1 text-[11px] focus:outline-none focus:border-cyan-500/50";
+
+export const LedgerPanel: React.FC<LedgerPanelProps> = ({ memories, onOpenMemory, onUpdateMemory }) => {
+  const [settings, setSettings] = useState<LedgerSettings>(loadLedgerSettings);
+  const [grouping, setGrouping] = useState<LedgerGrouping>('category');
+  // Group key the table is narrowed to, from clicking a total
+  const [focus, setFocus] = useState<string | null>(null);
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
+  const [showRates, setShowRates] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; draft: RowDraft } | null>(null);
+
+  const rows = useMemo(() => buildLedger(memories, settings), [memories, settings]);
+  const totals = useMemo(() => totalsBy(rows, grouping), [rows, grouping]);
+  const currencies = useMemo(() => foreignCurrencies(rows, settings), [rows, settings]);
+  const titles = useMemo(() => new Map<string, string>(rows.map(r => [r.memoryId, r.title])), [rows]);
+
+  const visibleRows = rows.filter(r => (!focus || groupKeyOf(r, grouping) === focus) && (!duplicatesOnly || r.duplicateOf.length > 0));
+  const grandTotal = rows.reduce((sum, r) => sum + (r.converted ?? 0), 0);
+  const unconverted = rows.filter(r => r.converted === null).length;
+  const duplicateCount = rows.filter(r => r.duplicateOf.length > 0).length;
+  const maxTotal = Math.max(1, ...totals.map(t => Math.abs(t.total)));
+
+  const updateSettings = (next: LedgerSettings) => {
+    setSettings(next);
+    storeLedgerSettings(next);
+  };
+
+  const setRate = (code: string, value: string) => {
+    const rate = parseFloat(value);
+    const rates = { ...settings.rates };
+    if (rate > 0) rates[code] = rate;
+    else delete rates[code];
+    updateSettings({ ...settings, rates });
+  };
+
+  const startEdit = (row: LedgerRow) => setEditing({
+    id: row.memoryId,
+    draft: {
+      date: row.date,
+      entity: row.entity === UNKNOWN_ENTITY ? '' : row.entity,
+      category: row.category === UNCATEGORIZED ? '' : row.category,
+      amount: String(row.amount),
+      currency: row.currency
+    }
+  });
+
+  const setDraft = (patch: Partial<RowDraft>) => setEditing(e => (e ? { ...e, draft: { ...e.draft, ...patch } } : e));
+
+  const saveEdit = () => {
+    if (!editing) return;
+    const memory = memories.find(m => m.id === editing.id);
+    if (!memory) return setEditing(null);
+    const { draft } = editing;
+    const amount = parseFloat(draft.amount);
+    const patch: Partial<FinancialData> = {
+      // Clearing the amount takes the memory out of the ledger
+      amount: isFinite(amount) ? amount : undefined,
+      currency: normalizeCurrency(draft.currency) || undefined,
+      date: draft.date || undefined,
+      entity: draft.entity.trim() || undefined,
+      category: draft.category.trim() || undefined
+    };
+    onUpdateMemory(correctFinancial(memory, patch));
+    setEditing(null);
+  };
+
+  const dismissDuplicate = (row: LedgerRow) => {
+    const memory = memories.find(m => m.id === row.memoryId);
+    if (!memory) return;
+    // Only the pairs flagged now are dismissed, so a later copy of this bill is still caught
+    const notDuplicateOf = [...new Set<string>([...(memory.metadata.financial?.notDuplicateOf || []), ...row.duplicateOf])];
+    onUpdateMemory(correctFinancial(memory, { notDuplicateOf }));
+  };
+
+  const exportLedger = (format: 'csv' | 'xlsx') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const blob = format === 'csv' ? ledgerToCsv(visibleRows, settings) : ledgerToXlsx(visibleRows, settings);
+    downloadBlob(blob, `recall-ledger-${stamp}.${format}`);
+  };
+
+  if (rows.length === 0) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center p-12 text-center">
+        <h2 className="text-xl font-bold text-gray-300 mb-2 font-mono uppercase tracking-tighter">Ledger Empty</h2>
+        <p className="text-sm text-gray-500 max-w-xs mx-auto font-mono leading-relaxed opacity-60">No memories in view carry an extracted amount. Ingest bills, receipts or statements to fill the ledger.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col min-h-0">
+        <div className="flex-shrink-0 px-6 py-4 border-b border-white/5 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+                <h2 className="text-xs font-mono font-bold text-cyan-500 uppercase tracking-[0.2em]">Ledger</h2>
+                <label className="flex items-center gap-2 text-[9px] font-mono text-gray-500 uppercase tracking-widest">
+                    Base
+                    <input
+                        defaultValue={settings.baseCurrency}
+                        onBlur={(e) => { const next = rebaseSettings(settings, e.target.value); e.target.value = next.baseCurrency; updateSettings(next); }}
+                        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                        className="w-14 bg-white/5 border border-white/10 rounded px-2 py-1 text-[10px] text-white uppercase focus:outline-none focus:border-cyan-500/50"
+                    />
+                </label>
+                <button
+                    onClick={() => setShowRates(s => !s)}
+                    className={`px-2 py-1 rounded text-[9px] font-mono uppercase tracking-widest border transition-all ${showRates ? 'border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                >
+                    Rates{currencies.length > 0 ? ` (${currencies.filter(c => settings.rates[c]).length}/${currencies.length})` : ''}
+                </button>
+            </div>
+            <div className="flex items-center gap-2">
+                <button onClick={() => exportLedger('csv')} className="px-3 py-1 rounded text-[9px] font-mono uppercase tracking-widest border border-white/10 text-gray-400 hover:text-cyan-400 hover:border-cyan-500/50 transition-all">Export CSV</button>
+                <button onClick={() => exportLedger('xlsx')} className="px-3 py-1 rounded text-[9px] font-mono uppercase tracking-widest border border-white/10 text-gray-400 hover:text-cyan-400 hover:border-cyan-500/50 transition-all">Export XLSX</button>
+            </div>
+        </div>
+
+        {showRates && (
+            <div className="flex-shrink-0 px-6 py-3 border-b border-white/5 bg-white/[0.02]">
+                {currencies.length === 0 ? (
+                    <p className="text-[10px] text-gray-600 font-mono">Every row is already in {settings.baseCurrency}.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-4">
+                        {currencies.map(code => (
+                            <label key={`${settings.baseCurrency}:${code}`} className="flex items-center gap-2 text-[10px] font-mono text-gray-400">
+                                1 {code} =
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="any"
+                                    defaultValue={settings.rates[code] ?? ''}
+                                    placeholder="rate"
+                                    onBlur={(e) => setRate(code, e.target.value)}
+                                    className="w-20 bg-white/5 border border-white/10 rounded px-2 py-1 text-[10px] text-white focus:outline-none focus:border-cyan-500/50"
+                                />
+                                {settings.baseCurrency}
+                            </label>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto custom-scrollbar min-h-0 p-6 space-y-6">
+            <div className="grid grid-cols-4 gap-4">
+                <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+                    <div className="text-lg font-bold text-cyan-500">{formatMoney(grandTotal, settings.baseCurrency)}</div>
+                    <div className="text-[9px] font-mono text-gray-600 uppercase">Total</div>
+                </div>
+                <div className="p-4 rounded-2xl bg-white/5 border border-white/10">
+                    <div className="text-lg font-bold text-purple-500">{rows.length}</div>
+                    <div className="text-[9px] font-mono text-gray-600 uppercase">Entries</div>
+                </div>
+                <button
+                    onClick={() => setDuplicatesOnly(d => !d)}
+                    disabled={duplicateCount === 0}
+                    className={`p-4 rounded-2xl border text-left transition-all ${duplicatesOnly ? 'bg-amber-500/10 border-amber-500/50' : 'bg-white/5 border-white/10 hover:border-amber-500/30'}`}
+                >
+                    <div className={`text-lg font-bold ${duplicateCount ? 'text-amber-400' : 'text-gray-600'}`}>{duplicateCount}</div>
+                    <div className="text-[9px] font-mono text-gray-600 uppercase">{duplicatesOnly ? 'Showing Suspected Duplicates' : 'Suspected Duplicates'}</div>
+                </button>
+                <button
+                    onClick={() => setShowRates(true)}
+                    className="p-4 rounded-2xl bg-white/5 border border-white/10 text-left hover:border-cyan-500/30 transition-all"
+                >
+                    <div className={`text-lg font-bold ${unconverted ? 'text-red-400' : 'text-gray-600'}`}>{unconverted}</div>
+                    <div className="text-[9px] font-mono text-gray-600 uppercase">Missing A Rate</div>
+                </button>
+            </div>
+
+            <div>
+                <div className="flex items-center gap-2 mb-3">
+                    <span className="text-[9px] font-mono text-gray-600 uppercase tracking-widest mr-2">Totals By</span>
+                    {GROUPINGS.map(g => (
+                        <button
+                            key={g.id}
+                            onClick={() => { setGrouping(g.id); setFocus(null); }}
+                            className={`px-2 py-1 rounded text-[9px] font-mono uppercase tracking-widest transition-all ${grouping === g.id ? 'bg-cyan-500 text-black font-bold' : 'text-gray-500 hover:text-white'}`}
+                        >
+                            {g.label}
+                        </button>
+                    ))}
+                    {focus && (
+                        <button onClick={() => setFocus(null)} className="ml-auto text-[9px] font-mono uppercase tracking-widest text-cyan-400 hover:text-white">Clear Filter: {totals.find(t => t.key === focus)?.label} ×</button>
+                    )}
+                </div>
+                <div className="space-y-1 max-h-56 overflow-y-auto custom-scrollbar pr-2">
+                    {totals.map(t => (
+                        <button
+                            key={t.key}
+                            onClick={() => setFocus(f => (f === t.key ? null : t.key))}
+                            className={`w-full flex items-center gap-3 px-2 py-1.5 rounded-lg text-left transition-all ${focus === t.key ? 'bg-cyan-500/10' : 'hover:bg-white/5'}`}
+                        >
+                            <span className="w-40 truncate text-[11px] text-gray-300">{t.label}</span>
+                            <div className="flex-grow h-1.5 bg-white/5 rounded-full overflow-hidden">
+                                <div className="h-full bg-cyan-500/60" style={{ width: `${(Math.abs(t.total) / maxTotal) * 100}%` }} />
+                            </div>
+                            <span className="w-28 text-right text-[11px] font-mono text-gray-200">{formatMoney(t.total, settings.baseCurrency)}</span>
+                            <span className="w-16 text-right text-[9px] font-mono text-gray-600">{t.count} rows</span>
+                            {t.unconverted > 0 && <span className="text-[9px] font-mono text-red-400" title="Rows without a conversion rate are left out of this total">+{t.unconverted}?</span>}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <table className="w-full text-left border-collapse">
+                <thead>
+                    <tr className="text-[9px] font-mono text-gray-600 uppercase tracking-widest border-b border-white/10">
+                        <th className="py-2 pr-3 font-normal">Date</th>
+                        <th className="py-2 pr-3 font-normal">Memory</th>
+                        <th className="py-2 pr-3 font-normal">Entity</th>
+                        <th className="py-2 pr-3 font-normal">Category</th>
+                        <th className="py-2 pr-3 font-normal text-right">Amount</th>
+                        <th className="py-2 pr-3 font-normal text-right">{settings.baseCurrency}</th>
+                        <th className="py-2 font-normal" />
+                    </tr>
+                </thead>
+                <tbody>
+                    {visibleRows.map(row => {
+                        const draft = editing?.id === row.memoryId ? editing.draft : null;
+                        const isDuplicate = row.duplicateOf.length > 0;
+                        return (
+                        <tr key={row.memoryId} className={`border-b border-white/5 text-[11px] align-middle ${isDuplicate ? 'bg-amber-500/5' : ''}`}>
+                            {draft ? (
+                                <>
+                                    <td className="py-1.5 pr-2"><input type="date" value={draft.date} onChange={(e) => setDraft({ date: e.target.value })} className={cellInput} /></td>
+                                    <td className="py-1.5 pr-2 text-gray-400 truncate max-w-[200px]">{row.title}</td>
+                                    <td className="py-1.5 pr-2"><input value={draft.entity} placeholder={UNKNOWN_ENTITY} onChange={(e) => setDraft({ entity: e.target.value })} className={cellInput} /></td>
+                                    <td className="py-1.5 pr-2"><input value={draft.category} placeholder={UNCATEGORIZED} onChange={(e) => setDraft({ category: e.target.value })} className={cellInput} /></td>
+                                    <td className="py-1.5 pr-2">
+                                        <div className="flex gap-1">
+                                            <input type="number" step="any" value={draft.amount} onChange={(e) => setDraft({ amount: e.target.value })} className={`${cellInput} text-right`} />
+                                            <input value={draft.currency} placeholder={settings.baseCurrency} onChange={(e) => setDraft({ currency: e.target.value })} className={`${cellInput} w-14 uppercase`} />
+                                        </div>
+                                    </td>
+                                    <td className="py-1.5 pr-2" />
+                                    <td className="py-1.5 whitespace-nowrap text-right">
+                                        <button onClick={saveEdit} className="text-[9px] font-mono uppercase text-cyan-400 hover:text-white mr-2">Save</button>
+                                        <button onClick={() => setEditing(null)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-white">Cancel</button>
+                                    </td>
+                                </>
+                            ) : (
+                                <>
+                                    <td className="py-2 pr-3 font-mono text-gray-500 whitespace-nowrap">{row.date}</td>
+                                    <td className="py-2 pr-3 max-w-[240px]">
+                                        <button onClick={() => onOpenMemory(row.memoryId)} className="truncate max-w-full text-left text-gray-200 hover:text-cyan-400 transition-colors" title="Open source memory">{row.title}</button>
+                                        {isDuplicate && (
+                                            <div className="flex items-center gap-2 mt-0.5">
+                                                <span className="text-[8px] font-mono uppercase text-amber-400" title={`Same amount and entity within a few days of: ${row.duplicateOf.map(id => titles.get(id)).join(', ')}`}>Possible Duplicate</span>
+                                                {row.duplicateOf.map(id => (
+                                                    <button key={id} onClick={() => onOpenMemory(id)} className="text-[8px] font-mono text-gray-500 hover:text-amber-300 truncate max-w-[120px]">↔ {titles.get(id)}</button>
+                                                ))}
+                                                <button onClick={() => dismissDuplicate(row)} className="text-[8px] font-mono uppercase text-gray-600 hover:text-white">Not A Duplicate</button>
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="py-2 pr-3 text-gray-400 truncate max-w-[160px]">{row.entity}</td>
+                                    <td className="py-2 pr-3 text-gray-400 truncate max-w-[140px]">{row.category}</td>
+                                    <td className="py-2 pr-3 text-right font-mono text-gray-200 whitespace-nowrap">{formatMoney(row.amount, row.currency || settings.baseCurrency)}</td>
+                                    <td className="py-2 pr-3 text-right font-mono whitespace-nowrap">
+                                        {row.converted === null
+                                            ? <button onClick={() => setShowRates(true)} className="text-[9px] uppercase text-red-400 hover:text-white">No Rate</button>
+                                            : <span className="text-gray-400">{formatMoney(row.converted, settings.baseCurrency)}</span>}
+                                    </td>
+                                    <td className="py-2 whitespace-nowrap text-right">
+                                        {row.corrected && <span className="text-[8px] font-mono uppercase text-purple-400 mr-2" title="Edited by hand">Corrected</span>}
+                                        <button onClick={() => startEdit(row)} className="text-[9px] font-mono uppercase text-gray-500 hover:text-cyan-400">Edit</button>
+                                    </td>
+                                </>
+                            )}
+                        </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
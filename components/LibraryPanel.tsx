@@ -1,5 +1,7 @@
 import React from 'react';
 import { RecallFile } from '../types';
+import { QueryError, hasTagTerm, toggleTagTerm } from '../services/queryLanguage';
+import { SavedQuery } from '../services/savedQueries';
 
 interface LibraryPanelProps {
   memories: RecallFile[];
@@ -8,42 +10,109 @@ interface LibraryPanelProps {
   onSortChange: (s: 'date' | 'name' | 'type') => void;
   searchQuery: string;
   onSearchChange: (q: string) => void;
+  searchMode: 'text' | 'semantic';
+  onSearchModeChange: (mode: 'text' | 'semantic') => void;
   activeId?: string;
-  onFilterTag: (tag: string | null) => void;
-  activeFilterTag: string | null;
+  selectedIds: string[];
+  onToggleSelect: (id: string) => void;
+  onClearSelection: () => void;
+  onExportSelection: () => void;
+  onExportLibrary: () => void;
+  queryError: QueryError | null;
+  highlightTerms: string[];
+  savedQueries: SavedQuery[];
+  onSaveQuery: (name: string) => void;
+  onDeleteSavedQuery: (id: string) => void;
 }
 
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-cyan-500/30 text-cyan-200 rounded-sm">{part}</mark> : part
+      )}
+    </>
+  );
+};
+
 export const LibraryPanel: React.FC<LibraryPanelProps> = ({
-  memories, onSelect, sortBy, onSortChange, searchQuery, onSearchChange, activeId, onFilterTag, activeFilterTag
+  memories, onSelect, sortBy, onSortChange, searchQuery, onSearchChange, searchMode, onSearchModeChange, activeId,
+  selectedIds, onToggleSelect, onClearSelection, onExportSelection, onExportLibrary,
+  queryError, highlightTerms, savedQueries, onSaveQuery, onDeleteSavedQuery
 }) => {
-  const allTags = Array.from(new Set(memories.flatMap(m => m.metadata.tags))).slice(0, 10);
+  const allTags = Array.from(new Set<string>(memories.flatMap(m => m.metadata.tags))).slice(0, 10);
+  const trimmedQuery = searchQuery.trim();
+  const canSave = searchMode === 'text' && !!trimmedQuery && !queryError && !savedQueries.some(q => q.query === trimmedQuery);
+
+  const handleSave = () => {
+    const name = window.prompt('Name this query', trimmedQuery);
+    if (name?.trim()) onSaveQuery(name.trim());
+  };
 
   return (
     <aside className="w-80 flex-shrink-0 flex flex-col bg-black/40 border-r border-white/5 h-full overflow-hidden">
         <div className="p-4 border-b border-white/5">
-            <h2 className="text-xs font-mono font-bold text-gray-500 uppercase tracking-widest mb-4">Memory Library</h2>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xs font-mono font-bold text-gray-500 uppercase tracking-widest">Memory Library</h2>
+                <button onClick={onExportLibrary} title="Export whole library as .recall" className="text-[9px] font-mono text-gray-600 hover:text-cyan-400 uppercase tracking-widest transition-colors">Export</button>
+            </div>
             <div className="relative mb-4">
                 <input 
                     type="text" 
                     value={searchQuery}
                     onChange={(e) => onSearchChange(e.target.value)}
-                    placeholder="Search memories..." 
-                    className="w-full bg-white/5 border border-white/10 rounded-lg py-2 px-3 text-sm focus:outline-none focus:border-cyan-500/50 transition-colors"
+                    placeholder={searchMode === 'semantic' ? "Describe what you're looking for..." : 'Search or query, e.g. tag:tax amount>500'} 
+                    className="w-full bg-white/5 border border-white/10 rounded-lg py-2 pl-3 pr-20 text-sm focus:outline-none focus:border-cyan-500/50 transition-colors"
                 />
+                <button 
+                    onClick={() => onSearchModeChange(searchMode === 'text' ? 'semantic' : 'text')}
+                    title="Toggle semantic search"
+                    className={`absolute right-2 top-1/2 -translate-y-1/2 px-2 py-0.5 rounded text-[9px] font-mono uppercase border transition-all ${searchMode === 'semantic' ? 'bg-purple-500/20 border-purple-500/50 text-purple-300' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                >
+                    {searchMode === 'semantic' ? 'Semantic' : 'Text'}
+                </button>
             </div>
             
+            {queryError && (
+                <div className="-mt-2 mb-3 text-[10px] font-mono text-red-400 leading-relaxed">
+                    {queryError.message} <span className="text-red-400/50">(col {queryError.position + 1})</span>
+                </div>
+            )}
+            
             <div className="flex gap-2 mb-4 overflow-x-auto pb-2 scrollbar-hide">
                 <button 
-                    onClick={() => onFilterTag(null)}
-                    className={`px-3 py-1 rounded-full text-[10px] whitespace-nowrap border transition-all ${!activeFilterTag ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500'}`}
+                    onClick={() => onSearchChange('')}
+                    className={`px-3 py-1 rounded-full text-[10px] whitespace-nowrap border transition-all ${!trimmedQuery ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500'}`}
                 >
                     All
                 </button>
-                {allTags.map(tag => (
+                {savedQueries.map(saved => (
+                    <span 
+                        key={saved.id}
+                        title={saved.query}
+                        className={`group flex items-center gap-1 px-3 py-1 rounded-full text-[10px] whitespace-nowrap border transition-all ${trimmedQuery === saved.query ? 'bg-purple-500/20 border-purple-500/50 text-purple-300' : 'border-white/10 text-gray-400'}`}
+                    >
+                        <button onClick={() => { onSearchModeChange('text'); onSearchChange(saved.query); }}>{saved.name}</button>
+                        <button onClick={() => onDeleteSavedQuery(saved.id)} className="hidden group-hover:inline text-gray-600 hover:text-red-400" title="Remove saved query">×</button>
+                    </span>
+                ))}
+                {canSave && (
+                    <button 
+                        onClick={handleSave}
+                        className="px-3 py-1 rounded-full text-[10px] whitespace-nowrap border border-dashed border-white/20 text-gray-500 hover:text-white transition-all"
+                    >
+                        + Save
+                    </button>
+                )}
+                {searchMode === 'text' && allTags.map(tag => (
                     <button 
                         key={tag}
-                        onClick={() => onFilterTag(tag)}
-                        className={`px-3 py-1 rounded-full text-[10px] whitespace-nowrap border transition-all ${activeFilterTag === tag ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500'}`}
+                        onClick={() => onSearchChange(toggleTagTerm(searchQuery, tag))}
+                        className={`px-3 py-1 rounded-full text-[10px] whitespace-nowrap border transition-all ${hasTagTerm(searchQuery, tag) ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500'}`}
                     >
                         #{tag}
                     </button>
@@ -70,12 +139,12 @@ export const LibraryPanel: React.FC<LibraryPanelProps> = ({
             {memories.map(m => (
                 <div 
                     key={m.id}
-                    onClick={() => onSelect(m)}
-                    className={`p-4 border-b border-white/5 cursor-pointer transition-all hover:bg-white/5 ${activeId === m.id ? 'bg-cyan-500/10 border-r-2 border-r-cyan-500' : ''}`}
+                    onClick={(e) => (e.metaKey || e.ctrlKey) ? onToggleSelect(m.id) : onSelect(m)}
+                    className={`p-4 border-b border-white/5 cursor-pointer transition-all hover:bg-white/5 ${activeId === m.id ? 'bg-cyan-500/10 border-r-2 border-r-cyan-500' : ''} ${selectedIds.includes(m.id) ? 'bg-purple-500/10 border-l-2 border-l-purple-500' : ''}`}
                 >
                     <div className="flex items-center gap-3 mb-1">
                         <div className={`w-2 h-2 rounded-full ${m.type === 'IMAGE' ? 'bg-purple-500' : m.type === 'DOCUMENT' ? 'bg-cyan-500' : 'bg-amber-500'}`} />
-                        <h3 className={`text-xs font-bold truncate ${activeId === m.id ? 'text-cyan-400' : 'text-gray-300'}`}>{m.title}</h3>
+                        <h3 className={`text-xs font-bold truncate ${activeId === m.id ? 'text-cyan-400' : 'text-gray-300'}`}><Highlighted text={m.title} terms={highlightTerms} /></h3>
                     </div>
                     <div className="text-[10px] text-gray-500 flex justify-between">
                         <span>{m.type}</span>
@@ -87,6 +156,16 @@ export const LibraryPanel: React.FC<LibraryPanelProps> = ({
                 <div className="p-8 text-center text-xs text-gray-600 italic">No memories found</div>
             )}
         </div>
+
+        {selectedIds.length > 0 && (
+            <div className="flex-shrink-0 p-3 border-t border-white/5 bg-purple-500/5 flex items-center justify-between text-[10px] font-mono">
+                <span className="text-purple-300 uppercase">{selectedIds.length} Selected</span>
+                <div className="flex gap-3">
+                    <button onClick={onExportSelection} className="text-cyan-400 hover:text-cyan-300 uppercase">Export .recall</button>
+                    <button onClick={onClearSelection} className="text-gray-500 hover:text-white uppercase">Clear</button>
+                </div>
+            </div>
+        )}
     </aside>
   );
 };
\ No newline at end of file
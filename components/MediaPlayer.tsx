@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { base64ToBlob } from '../services/blobStore';
+import { formatTimestamp, segmentIndexAt } from '../services/mediaTranscript';
+
+interface MediaPlayerProps {
+  data: string; // base64 audio or video
+  mimeType: string;
+  isVideo: boolean;
+  transcript?: TranscriptSegment[]; // transcript of this exact recording, if known
+  focus?: { segment: number; at: number }; // segment to seek to on open, e.g. for a cited passage
+  onTranscribe?: (onProgress: (done: number, total: number) => void) => Promise<void>; // makes the missing transcript
+}
+
+const SPEAKER_COLORS = ['text-cyan-400', 'text-purple-400', 'text-amber-400', 'text-emerald-400', 'text-pink-400', 'text-sky-400'];
+
+/**
+ * Native player for audio and video with its transcript beside it. The line being spoken is
+ * highlighted and kept in view; clicking a line plays from there.
+ */
+export const MediaPlayer: React.FC<MediaPlayerProps> = ({ data, mimeType, isVideo, transcript, focus, onTranscribe }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [time, setTime] = useState(0);
+  const [filter, setFilter] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const lineRefs = useRef(new Map<number, HTMLButtonElement>());
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(base64ToBlob(data, mimeType));
+    setUrl(objectUrl);
+    setTime(0);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [data, mimeType]);
+
+  const activeIndex = transcript ? segmentIndexAt(transcript, time) : -1;
+
+  const speakerColors = useMemo(() => {
+    const speakers = [...new Set((transcript || []).map(s => s.speaker).filter((s): s is string => !!s))];
+    return new Map(speakers.map((s, i) => [s, SPEAKER_COLORS[i % SPEAKER_COLORS.length]]));
+  }, [transcript]);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return (transcript || [])
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment }) => !needle || segment.text.toLowerCase().includes(needle) || segment.speaker?.toLowerCase().includes(needle));
+  }, [transcript, filter]);
+
+  useEffect(() => {
+    lineRefs.current.get(activeIndex)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const seek = (seconds: number, play: boolean) => {
+    const media = mediaRef.current;
+    if (!media) return;
+    media.currentTime = seconds;
+    setTime(seconds);
+    if (play) media.play().catch(() => {});
+  };
+
+  useEffect(() => {
+    const segment = focus && transcript?.[focus.segment];
+    if (!segment || !url) return;
+    seek(segment.start, false);
+    lineRefs.current.get(focus.segment)?.scrollIntoView({ block: 'center' });
+  }, [focus?.at, url]);
+
+  const handleTranscribe = async () => {
+    if (!onTranscribe) return;
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      await onTranscribe((done, total) => setProgress({ done, total }));
+    } catch (e) {
+      console.error("Transcription failed", e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const mediaProps = {
+    src: url || undefined,
+    controls: true,
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setTime(e.currentTarget.currentTime),
+    onSeeked: (e: React.SyntheticEvent<HTMLMediaElement>) => setTime(e.currentTarget.currentTime)
+  };
+
+  const renderTranscript = () => {
+    if (!transcript) {
+      return (
+          <div className="flex-grow flex flex-col items-center justify-center gap-4 text-center p-8">
+              <span className="text-[10px] font-mono text-gray-600 uppercase tracking-widest">
+                  {progress ? (progress.total ? `Transcribing part ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...` : 'Preparing Audio...') : 'No Transcript Yet'}
+              </span>
+              {onTranscribe && (
+                  <button onClick={handleTranscribe} disabled={!!progress} className="border border-cyan-500/30 text-cyan-400 px-6 py-2 rounded-full text-[10px] font-mono uppercase tracking-widest hover:bg-cyan-500/10 disabled:opacity-40 transition-all">
+                      {progress ? 'Working...' : 'Transcribe'}
+                  </button>
+              )}
+              {error && <p className="text-[10px] text-red-400 max-w-md break-words">{error}</p>}
+          </div>
+      );
+    }
+    if (transcript.length === 0) {
+      return <div className="flex-grow flex items-center justify-center text-[10px] font-mono text-gray-600 uppercase tracking-widest">No Speech Found</div>;
+    }
+    return (
+        <div className="flex-grow overflow-auto custom-scrollbar p-4 space-y-1">
+            {visible.map(({ segment, index }) => (
+                <button
+                    key={index}
+                    ref={el => { if (el) lineRefs.current.set(index, el); else lineRefs.current.delete(index); }}
+                    onClick={() => seek(segment.start, true)}
+                    className={`w-full flex gap-4 text-left px-3 py-2 rounded-lg transition-colors ${index === activeIndex ? 'bg-cyan-500/10 border border-cyan-500/30' : 'border border-transparent hover:bg-white/5'}`}
+                >
+                    <span className="flex-shrink-0 w-14 pt-0.5 text-[10px] font-mono text-gray-600">{formatTimestamp(segment.start)}</span>
+                    <span className="flex-grow text-sm leading-relaxed text-gray-300">
+                        {segment.speaker && (
+                            <span className={`mr-2 text-[10px] font-mono uppercase tracking-wider ${speakerColors.get(segment.speaker)}`}>{segment.speaker}</span>
+                        )}
+                        {segment.text}
+                    </span>
+                </button>
+            ))}
+            {visible.length === 0 && (
+                <div className="py-8 text-center text-[10px] font-mono text-gray-600 uppercase tracking-widest">No Matching Lines</div>
+            )}
+        </div>
+    );
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4 overflow-hidden">
+        <div className={`flex-shrink-0 rounded-2xl border border-white/10 bg-[#0a0a0a] overflow-hidden ${isVideo ? 'flex justify-center bg-black' : 'p-6'}`}>
+            {isVideo ? (
+                <video ref={el => { mediaRef.current = el; }} {...mediaProps} className="max-h-[45vh] max-w-full" />
+            ) : (
+                <audio ref={el => { mediaRef.current = el; }} {...mediaProps} className="w-full" />
+            )}
+        </div>
+        <div className="flex-grow min-h-0 flex flex-col rounded-2xl border border-white/10 bg-[#0a0a0a] overflow-hidden">
+            <div className="flex-shrink-0 flex items-center gap-4 px-5 py-3 border-b border-white/5">
+                <span className="text-[10px] font-mono text-cyan-500 uppercase tracking-widest">Transcript</span>
+                {transcript && transcript.length > 0 && (
+                    <input
+                        type="text"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Filter lines..."
+                        className="ml-auto w-48 bg-black/60 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-gray-300 outline-none focus:border-cyan-500/50"
+                    />
+                )}
+            </div>
+            {renderTranscript()}
+        </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { RecallFile, RecallType } from '../types';
+import { useResolvedPayload } from '../hooks/useResolvedPayload';
 
 interface MemoryCardProps {
   memory: RecallFile;
@@ -11,17 +12,22 @@ interface MemoryCardProps {
 }
 
 export const MemoryCard: React.FC<MemoryCardProps> = ({ memory, onClick, className = '', style, onMouseDown }) => {
-  
+  const thumbnail = useResolvedPayload(memory.thumbnail);
+
   const renderIcon = () => {
     switch (memory.type) {
       case RecallType.IMAGE:
         return (
           <div className="w-full h-full overflow-hidden rounded-lg border border-white/10 bg-black/40">
-            <img 
-              src={`data:image/jpeg;base64,${memory.thumbnail}`} 
-              className="w-full h-full object-cover"
-              alt="thumbnail"
-            />
+            {thumbnail ? (
+              <img 
+                src={`data:image/jpeg;base64,${thumbnail}`} 
+                className="w-full h-full object-cover"
+                alt="thumbnail"
+              />
+            ) : (
+              <div className="w-full h-full animate-pulse bg-white/5" />
+            )}
           </div>
         );
       case RecallType.AUDIO:
@@ -35,6 +41,14 @@ export const MemoryCard: React.FC<MemoryCardProps> = ({ memory, onClick, classNa
           </div>
         );
       default:
+        // PDFs carry a rendering of their first page
+        if (thumbnail) {
+          return (
+            <div className="w-full h-full overflow-hidden rounded-lg border border-white/10 bg-white">
+              <img src={`data:image/jpeg;base64,${thumbnail}`} className="w-full h-full object-cover object-top" alt="first page" />
+            </div>
+          );
+        }
         return (
           <div className="w-full h-full flex flex-col items-center justify-center bg-cyan-500/10 rounded-lg border border-cyan-500/30">
             <span className="font-mono text-xl font-bold text-cyan-400 opacity-60">Aa</span>
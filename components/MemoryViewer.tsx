@@ -1,45 +1,143 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { RecallFile, RecallType, SemanticDiff } from '../types';
-import { remixMemory, editMemoryContent } from '../services/geminiService';
-import { jsPDF } from 'jspdf';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ContentFormat, RecallFile, RecallType } from '../types';
+import { remixMemory, editMemoryContent, editSelection, editSpreadsheet } from '../services/geminiService';
+import { isBlobRef, sniffFileType } from '../services/blobStore';
+import { findProbe, highlightPassage, passageProbes } from '../services/citations';
+import { cleanContent, formatOf, displayHtml } from '../services/contentFormat';
+import { useResolvedPayload } from '../hooks/useResolvedPayload';
+import { amendVersion, commitVersion, resolveVersion, usesTextHistory } from '../services/textHistory';
+import { CompareView } from './CompareView';
+import { ContentEditor, SelectionParts } from './ContentEditor';
+import { ExportMenu } from './ExportMenu';
+import { HistoryGraph } from './HistoryGraph';
+import { MediaPlayer } from './MediaPlayer';
+import { PdfReader } from './PdfReader';
+import { SpreadsheetGrid } from './SpreadsheetGrid';
+import { transcribeMedia, transcriptText } from '../services/mediaTranscript';
+import { extractPdfText, formatPages, isPdfContent } from '../services/pdfDocument';
+import { Workbook, applyCellEdits, parseWorkbook, serializeWorkbook, workbookToText } from '../services/spreadsheet';
+import { activeBranchOf, checkoutVersion, deleteBranch, forkBranch, getBranches, headIndexOf, renameBranch, switchBranch } from '../services/versionTree';
 
 interface MemoryViewerProps {
   memory: RecallFile;
   onClose: () => void;
   onUpdate: (updatedMemory: RecallFile) => void;
   onDelete: (id: string) => void;
+  onExport?: () => void;
+  onFork?: (fork: RecallFile) => void;
+  onReanalyze?: () => void; // queues AI analysis for a memory kept unanalyzed
+  isReanalyzing?: boolean;
+  attachments?: RecallFile[]; // memories imported with this one, e.g. an email's attachments
+  attachedTo?: RecallFile; // the memory this one was imported with
+  sources?: RecallFile[]; // memories this one was built from
+  focusPassage?: { passage: string; at: number }; // cited passage to scroll to; `at` changes on every request
+  onOpenMemory?: (id: string) => void;
   isEmbedded?: boolean;
 }
 
-interface SpreadsheetData {
-    appType: 'spreadsheet';
-    sheets: { name: string; html: string }[];
+// Quiet time after the last keystroke before the draft is saved
+const AUTOSAVE_DELAY = 1200;
+
+// One stretch of manual editing; its autosaves all amend the same version
+interface EditSession {
+  memory: RecallFile;
+  format: ContentFormat;
+  versionId: string | null;
+  saved: string;
 }
 
-export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onUpdate, onDelete, isEmbedded }) => {
-  const [activeContent, setActiveContent] = useState(memory.content); 
+export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onUpdate, onDelete, onExport, onFork, onReanalyze, isReanalyzing, attachments, attachedTo, sources, focusPassage, onOpenMemory, isEmbedded }) => {
+  const resolvedContent = useResolvedPayload(memory.content);
+  const [activeContent, setActiveContent] = useState(resolvedContent ?? ''); 
   const [agentPrompt, setAgentPrompt] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [historyIndex, setHistoryIndex] = useState(memory.history.length - 1);
+  const [historyIndex, setHistoryIndex] = useState(() => headIndexOf(memory));
   const [activeSheetIndex, setActiveSheetIndex] = useState(0);
-  const [parsedSpreadsheet, setParsedSpreadsheet] = useState<SpreadsheetData | null>(null);
+  // Compare mode: A is the older side, B the newer; clicks in the timeline alternate between them
+  const [compare, setCompare] = useState<{ base: number; target: number; next: 'base' | 'target' } | null>(null);
+  // Manual editing: the text being edited, or null when the memory is only viewed
+  const [draft, setDraft] = useState<string | null>(null);
+  const [saveState, setSaveState] = useState<'saved' | 'unsaved' | 'saving' | 'failed'>('saved');
+  const draftRef = useRef<string | null>(null);
+  const editSession = useRef<EditSession | null>(null);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
   
   const contentRef = useRef<HTMLDivElement>(null);
+  const sheetRef = useRef<HTMLDivElement>(null);
+  // The memory as last rendered, for updates that finish after it may have changed
+  const latestMemory = useRef(memory);
+  latestMemory.current = memory;
+
+  const headIndex = headIndexOf(memory);
+  const activeBranch = activeBranchOf(memory);
+  const branches = getBranches(memory);
+
+  useEffect(() => {
+    setHistoryIndex(headIndexOf(memory));
+  }, [memory.id, memory.updatedAt]);
+
+  useEffect(() => {
+    setCompare(null);
+    return () => finishEditing();
+  }, [memory.id]);
+
+  useEffect(() => {
+    if (editSession.current?.memory.id === memory.id) editSession.current.memory = memory;
+  }, [memory]);
+
+  useEffect(() => {
+    if (draft === null || draft === editSession.current?.saved) return;
+    setSaveState('unsaved');
+    const timer = setTimeout(() => saveDraft(draft), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  useEffect(() => {
+    if (resolvedContent === null) return;
+    setActiveContent(resolvedContent);
+  }, [memory.id, memory.updatedAt, resolvedContent]);
 
   useEffect(() => {
-    setActiveContent(memory.content);
-    setHistoryIndex(memory.history.length - 1);
-    
-    if (memory.content.startsWith('{"appType":"spreadsheet"')) {
-        try {
-            const data = JSON.parse(memory.content);
-            if (data.appType === 'spreadsheet') { 
-                setParsedSpreadsheet(data); 
-                setActiveSheetIndex(0); 
-            }
-        } catch (e) { setParsedSpreadsheet(null); }
-    } else { setParsedSpreadsheet(null); }
-  }, [memory.id, memory.updatedAt, memory.content]);
+    setActiveSheetIndex(0);
+  }, [memory.id]);
+
+  const workbook = useMemo(() => parseWorkbook(activeContent), [activeContent]);
+
+  // Everything shown as markup goes through the sanitizer, whatever was stored
+  const contentFormat = formatOf(memory, activeContent);
+  const renderedContent = useMemo(
+    () => (workbook || isPdfContent(activeContent) || !usesTextHistory(memory) ? '' : displayHtml(activeContent, contentFormat)),
+    [activeContent, contentFormat, workbook, memory.type]
+  );
+
+  // A citation was opened: bring its passage into view
+  const focusProbes = useMemo(() => (focusPassage ? passageProbes(focusPassage.passage) : []), [focusPassage?.at]);
+  const pdfFocus = useMemo(() => {
+    const query = memory.pages && findProbe(memory.pages.join('\n'), focusProbes);
+    return query && focusPassage ? { query, at: focusPassage.at } : undefined;
+  }, [focusProbes, memory.pages]);
+  // Passages are indexed as transcript lines; a few lines at a time catch probes that span segments
+  const mediaFocus = useMemo(() => {
+    const transcript = memory.transcript;
+    if (!transcript || !focusPassage) return undefined;
+    const segment = transcript.findIndex((_, i) => findProbe(transcriptText(transcript.slice(i, i + 3)), focusProbes));
+    return segment >= 0 ? { segment, at: focusPassage.at } : undefined;
+  }, [focusProbes, memory.transcript]);
+
+  useEffect(() => {
+    if (!focusPassage || !workbook) return;
+    const sheet = workbook.sheets.findIndex(s => findProbe(workbookToText({ ...workbook, sheets: [s] }), focusProbes));
+    if (sheet >= 0) setActiveSheetIndex(sheet);
+  }, [focusProbes, workbook]);
+
+  useEffect(() => {
+    if (!focusPassage) return;
+    const timer = setTimeout(() => {
+      const root = workbook ? sheetRef.current : contentRef.current;
+      if (root) highlightPassage(root, focusProbes);
+    });
+    return () => clearTimeout(timer);
+  }, [focusProbes, activeContent, activeSheetIndex]);
 
   const handleAgentAction = async () => {
     if (!agentPrompt.trim()) return;
@@ -47,37 +145,32 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
     try {
       let newContent = activeContent;
       let description = `Refinement: "${agentPrompt}"`;
-      const promptLower = agentPrompt.toLowerCase();
-
-      // Path A: PDF Conversion
-      if (promptLower.includes("pdf") && !activeContent.startsWith('JVBER')) {
-         const doc = new jsPDF();
-         const cleanText = activeContent.replace(/(<([^>]+)>)/gi, "");
-         const lines = doc.splitTextToSize(cleanText, 180);
-         doc.text(lines, 10, 10);
-         newContent = doc.output('datauristring').split(',')[1];
-         description = "Converted to PDF Format";
-      } 
-      // Path B: Image Remixing
-      else if (memory.type === RecallType.IMAGE) {
+
+      // Path A: Image Remixing
+      if (memory.type === RecallType.IMAGE) {
         newContent = await remixMemory(activeContent, agentPrompt);
       } 
-      // Path C: Global Content Transformation
+      // Path B: PDFs are edited through their page text and become a text version
+      else if (isPdfContent(activeContent)) {
+        const pages = historyIndex === headIndex && memory.pages ? memory.pages : await extractPdfText(activeContent);
+        const result = await editMemoryContent(formatPages(pages), agentPrompt);
+        newContent = result.content;
+        description = result.reasoning;
+      }
+      // Path C: Spreadsheets are changed cell by cell and recalculated
+      else if (workbook) {
+        const result = await editSpreadsheet(workbook, agentPrompt);
+        newContent = serializeWorkbook(applyCellEdits(workbook, result.edits));
+        description = result.reasoning;
+      }
+      // Path D: Global Content Transformation
       else {
         const result = await editMemoryContent(activeContent, agentPrompt);
-        newContent = result.content;
+        newContent = cleanContent(result.content, contentFormat);
         description = result.reasoning;
       }
       
-      const newDiff: SemanticDiff = {
-        id: crypto.randomUUID(), 
-        timestamp: Date.now(),
-        description, 
-        content: newContent, 
-        author: 'gemini'
-      };
-      
-      onUpdate({ ...memory, content: newContent, updatedAt: Date.now(), history: [...memory.history, newDiff] });
+      onUpdate(await commitVersion(memory, newContent, { description, author: 'gemini' }));
       setAgentPrompt('');
     } catch (e) { 
         console.error("Action failed", e);
@@ -86,31 +179,234 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
     }
   };
 
-  const handleRestore = (idx: number) => {
-      const item = memory.history[idx];
-      if (!item.content) return;
+  const updateDraft = (text: string | null) => {
+    draftRef.current = text;
+    setDraft(text);
+  };
+
+  const startEditing = () => {
+    editSession.current = { memory, format: contentFormat, versionId: null, saved: activeContent };
+    setSaveState('saved');
+    updateDraft(activeContent);
+  };
+
+  // Saves run one after another, each on the memory the previous one produced
+  const enqueueSave = (job: (session: EditSession) => Promise<RecallFile | null>) => {
+    const session = editSession.current;
+    if (!session) return Promise.resolve();
+    setSaveState('saving');
+    saveQueue.current = saveQueue.current
+      .then(async () => {
+        const updated = await job(session);
+        if (updated) {
+          session.memory = updated;
+          onUpdate(updated);
+        }
+        setSaveState(draftRef.current === session.saved ? 'saved' : 'unsaved');
+      })
+      .catch(e => {
+        console.error("Save failed", e);
+        setSaveState('failed');
+      });
+    return saveQueue.current;
+  };
+
+  // The first save of a session commits a version by the user, later ones amend it
+  const saveDraft = (text: string) => enqueueSave(async session => {
+      if (text === session.saved) return null;
+      const content = cleanContent(text, session.format);
+      let updated = session.versionId ? await amendVersion(session.memory, session.versionId, content) : null;
+      if (!updated) {
+          session.versionId = crypto.randomUUID();
+          updated = await commitVersion(session.memory, content, { id: session.versionId, description: 'Manual edit', author: 'user' });
+      }
+      session.saved = text;
+      return updated;
+  });
+
+  const finishEditing = () => {
+      const text = draftRef.current;
+      if (text !== null && editSession.current && text !== editSession.current.saved) saveDraft(text);
+      editSession.current = null;
+      updateDraft(null);
+  };
+
+  // The AI rewrites only the selection; pending typing is saved first so the rewrite is a version of its own
+  const handleEditSelection = async (parts: SelectionParts, instruction: string) => {
+      const session = editSession.current;
+      if (!session) return null;
+      try {
+          if (draftRef.current !== null && draftRef.current !== session.saved) await saveDraft(draftRef.current);
+          const result = await editSelection(parts.before, parts.selection, parts.after, instruction, session.format);
+          const next = cleanContent(parts.before + result.content + parts.after, session.format);
+          await enqueueSave(async s => {
+              const updated = await commitVersion(s.memory, next, { description: result.reasoning, author: 'gemini' });
+              s.versionId = null;
+              s.saved = next;
+              updateDraft(next);
+              return updated;
+          });
+          return next;
+      } catch (e) {
+          console.error("Selection edit failed", e);
+          return null;
+      }
+  };
+
+  // Audio and video without a transcript (restored versions, older memories) are transcribed on request
+  const handleTranscribe = async (onProgress: (done: number, total: number) => void) => {
+      const content = memory.content;
+      const transcript = await transcribeMedia(activeContent, sniffFileType(memory, activeContent).mime, onProgress);
+      const current = latestMemory.current;
+      if (current.id === memory.id && current.content === content) onUpdate({ ...current, transcript });
+  };
+
+  const handleSpreadsheetSave = async (edited: Workbook, description: string) => {
+      try {
+          onUpdate(await commitVersion(memory, serializeWorkbook(edited), { description, author: 'user' }));
+      } catch (e) {
+          console.error("Spreadsheet save failed", e);
+      }
+  };
+
+  // Restoring moves the head to the old version on its own branch instead of copying it forward
+  const handleRestore = async (idx: number) => {
+      try {
+          onUpdate(checkoutVersion(memory, idx, await resolveVersion(memory, idx)));
+      } catch (e) {
+          console.error("Restore failed", e);
+      }
+  };
+
+  const handleSwitchBranch = async (name: string) => {
+      const branch = branches.find(b => b.name === name);
+      const idx = branch ? memory.history.findIndex(d => d.id === branch.headId) : -1;
+      if (idx < 0 || name === activeBranch?.name) return;
+      try {
+          onUpdate(switchBranch(memory, name, await resolveVersion(memory, idx)));
+      } catch (e) {
+          console.error("Branch switch failed", e);
+      }
+  };
+
+  const handleRenameBranch = (name: string) => {
+      const next = window.prompt('Rename branch', name);
+      if (next === null || next.trim() === name) return;
+      const renamed = renameBranch(memory, name, next);
+      if (renamed) onUpdate(renamed);
+      else window.alert(`A branch named "${next.trim()}" already exists.`);
+  };
+
+  const handleForkBranch = async (name: string) => {
+      if (!onFork) return;
+      const branch = branches.find(b => b.name === name);
+      const idx = branch ? memory.history.findIndex(d => d.id === branch.headId) : headIndex;
+      try {
+          const content = await resolveVersion(memory, idx);
+          const fork = forkBranch(memory, name, content);
+          onFork(await commitVersion(fork, content, { description: `Forked from "${memory.title}" @ ${name}`, author: 'user' }));
+      } catch (e) {
+          console.error("Fork failed", e);
+      }
+  };
+
+  const handleViewVersion = async (idx: number) => {
+      setHistoryIndex(idx);
+      try {
+          setActiveContent(await resolveVersion(memory, idx));
+      } catch (e) {
+          console.error("Version load failed", e);
+      }
+  };
+
+  const toggleCompare = () => {
+      if (compare) { setCompare(null); return; }
+      const target = historyIndex > 0 ? historyIndex : headIndex;
+      setCompare({ base: Math.max(0, target - 1), target, next: 'base' });
+  };
+
+  const handleTimelineClick = (idx: number) => {
+      if (!compare) { handleViewVersion(idx); return; }
+      setCompare(c => {
+          if (!c) return c;
+          const base = c.next === 'base' ? idx : c.base;
+          const target = c.next === 'target' ? idx : c.target;
+          // Keep A older than B whichever side was clicked
+          return { base: Math.min(base, target), target: Math.max(base, target), next: c.next === 'base' ? 'target' : 'base' };
+      });
+  };
+
+  const handleCompareApply = async (content: string, description: string) => {
+      try {
+          onUpdate(await commitVersion(memory, content, { description, author: 'user' }));
+          setCompare(null);
+      } catch (e) {
+          console.error("Merge failed", e);
+      }
+  };
+
+  const handlePruneHistory = () => {
+      if (memory.history.length <= 1) return;
+      if (!window.confirm('Discard all previous versions of this memory?')) return;
       onUpdate({
           ...memory,
-          content: item.content,
           updatedAt: Date.now(),
-          history: [...memory.history, {
+          history: [{
               id: crypto.randomUUID(),
               timestamp: Date.now(),
-              description: `Restored Version: ${new Date(item.timestamp).toLocaleTimeString()}`,
+              description: `History Pruned (${memory.history.length - 1} versions removed)`,
               author: 'user',
-              content: item.content
-          }]
+              content: memory.content
+          }],
+          branches: undefined,
+          activeBranch: undefined
       });
   };
 
   const renderContent = () => {
-    const isPdf = activeContent.startsWith('JVBER') || (memory.title.toLowerCase().endsWith('.pdf'));
+    if (compare) {
+      return (
+        <CompareView 
+            memory={memory}
+            baseIndex={compare.base}
+            targetIndex={compare.target}
+            onApply={handleCompareApply}
+            onClose={() => setCompare(null)}
+        />
+      );
+    }
 
-    if (isPdf) {
+    if (draft !== null && editSession.current) {
       return (
-        <div className="w-full h-full bg-[#111] rounded-2xl overflow-hidden border border-white/10 shadow-2xl">
-          <iframe src={`data:application/pdf;base64,${activeContent}#toolbar=0&view=FitH`} className="w-full h-full" title="PDF Reader" />
-        </div>
+        <ContentEditor
+            content={draft}
+            format={editSession.current.format}
+            onChange={updateDraft}
+            onEditSelection={handleEditSelection}
+        />
+      );
+    }
+
+    if (resolvedContent === null && isBlobRef(memory.content)) {
+      return (
+        <div className="w-full h-full flex items-center justify-center text-[10px] font-mono text-gray-600 uppercase tracking-widest animate-pulse">Loading Payload...</div>
+      );
+    }
+
+    if (isPdfContent(activeContent)) {
+      return <PdfReader data={activeContent} pages={historyIndex === headIndex ? memory.pages : undefined} focus={historyIndex === headIndex ? pdfFocus : undefined} />;
+    }
+
+    if (memory.type === RecallType.AUDIO || memory.type === RecallType.VIDEO) {
+      return (
+          <MediaPlayer
+              data={activeContent}
+              mimeType={sniffFileType(memory, activeContent).mime}
+              isVideo={memory.type === RecallType.VIDEO}
+              transcript={historyIndex === headIndex ? memory.transcript : undefined}
+              focus={historyIndex === headIndex ? mediaFocus : undefined}
+              onTranscribe={historyIndex === headIndex ? handleTranscribe : undefined}
+          />
       );
     }
 
@@ -122,18 +418,16 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
       );
     } 
 
-    if (parsedSpreadsheet) {
+    if (workbook) {
         return (
-            <div className="w-full h-full flex flex-col bg-[#0a0a0a] rounded-2xl border border-white/10 overflow-hidden shadow-2xl">
-                <div className="flex-grow overflow-auto p-8 custom-scrollbar">
-                    <div className="min-w-max prose prose-invert max-w-none spreadsheet-viewer" dangerouslySetInnerHTML={{ __html: parsedSpreadsheet.sheets[activeSheetIndex]?.html || "" }} />
-                </div>
-                <div className="flex-shrink-0 h-12 bg-black/40 border-t border-white/5 flex items-center px-4 overflow-x-auto gap-2">
-                    {parsedSpreadsheet.sheets.map((sheet, idx) => (
-                        <button key={idx} onClick={() => setActiveSheetIndex(idx)} className={`px-4 py-1.5 text-[10px] font-mono whitespace-nowrap transition-all rounded-md ${activeSheetIndex === idx ? 'bg-cyan-500 text-black font-bold' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}>{sheet.name}</button>
-                    ))}
-                </div>
-            </div>
+            <SpreadsheetGrid
+                workbook={workbook}
+                title={memory.title}
+                sheetIndex={activeSheetIndex}
+                onSheetChange={setActiveSheetIndex}
+                onSave={historyIndex === headIndex ? handleSpreadsheetSave : undefined}
+                scrollRef={sheetRef}
+            />
         );
     }
 
@@ -142,24 +436,41 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
             ref={contentRef}
             className="w-full h-full bg-[#0a0a0a] text-gray-200 rounded-2xl border border-white/10 p-12 overflow-auto shadow-inner custom-scrollbar selection:bg-cyan-500/40 selection:text-white"
         >
-            <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: activeContent }} />
+            <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: renderedContent }} />
         </div>
     );
   };
 
-  const isCurrent = historyIndex === memory.history.length - 1;
+  const renderLinkedMemories = (label: string, linked: RecallFile[]) => (
+    <div className="mt-4">
+        <div className="text-[9px] font-mono text-gray-600 uppercase tracking-widest mb-2">{label} ({linked.length})</div>
+        <div className="space-y-1">
+            {linked.map(a => (
+                <button key={a.id} onClick={() => onOpenMemory?.(a.id)} className="flex items-center gap-2 w-full text-left text-[11px] text-gray-400 hover:text-cyan-400 transition-colors">
+                    <span className="flex-shrink-0 text-[8px] font-mono uppercase px-1.5 py-0.5 rounded border border-white/10 text-gray-600">{a.type}</span>
+                    <span className="truncate">{a.title}</span>
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+
+  const isCurrent = historyIndex === headIndex;
+  const isEditing = draft !== null;
+  const canEdit = isCurrent && !compare && usesTextHistory(memory) && !workbook && !isPdfContent(activeContent)
+    && !(resolvedContent === null && isBlobRef(memory.content));
 
   return (
     <div className="flex h-full w-full overflow-hidden bg-[#080808]">
         <div className="flex-grow flex flex-col p-6 overflow-hidden relative border-r border-white/5">
-            {!isCurrent && (
+            {!isCurrent && !compare && (
                 <div className="absolute top-10 left-0 right-0 z-30 flex justify-center pointer-events-none">
                     <div className="bg-amber-500/20 backdrop-blur-xl border border-amber-500/40 text-amber-200 px-6 py-2.5 rounded-full text-[10px] font-mono flex items-center gap-6 pointer-events-auto shadow-[0_10px_40px_rgba(0,0,0,0.5)]">
                         <span className="flex items-center gap-2">
                            <div className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
                            HISTORICAL STATE (VERSION {historyIndex + 1})
                         </span>
-                        <button onClick={() => handleRestore(historyIndex)} className="bg-amber-500 text-black font-black px-4 py-1 rounded-md text-[9px] hover:scale-105 transition-transform">RESTORE</button>
+                        <button onClick={() => handleRestore(historyIndex)} title="Continue from this version on its own branch" className="bg-amber-500 text-black font-black px-4 py-1 rounded-md text-[9px] hover:scale-105 transition-transform">RESTORE</button>
                     </div>
                 </div>
             )}
@@ -169,19 +480,35 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
             </div>
             
             <div className="mt-6 flex-shrink-0 flex items-center gap-4 p-3 rounded-full border bg-black/40 border-white/5 shadow-xl">
+                {isEditing ? (
+                <div className="flex-grow flex items-center gap-4 pl-4">
+                    <div className={`w-2.5 h-2.5 rounded-full ${saveState === 'failed' ? 'bg-red-500' : saveState === 'saved' ? 'bg-cyan-500' : 'bg-amber-500 animate-pulse'}`} />
+                    <span className="flex-grow text-[10px] font-mono uppercase tracking-widest text-gray-500">
+                        {saveState === 'saving' ? 'Saving...' : saveState === 'unsaved' ? 'Unsaved changes' : saveState === 'failed' ? 'Save failed, retrying on next change' : 'All changes saved'}
+                    </span>
+                </div>
+                ) : (
                 <div className="flex-grow flex items-center gap-4 pl-4">
                     <div className="w-2.5 h-2.5 rounded-full bg-cyan-500 animate-pulse shadow-[0_0_10px_rgba(6,182,212,0.4)]" />
                     <input 
                         type="text" value={agentPrompt} onChange={(e) => setAgentPrompt(e.target.value)}
-                        placeholder="Issue a command to rewrite, summarize, or convert..." 
+                        placeholder="Issue a command to rewrite, summarize, or restructure..." 
                         className="flex-grow bg-transparent border-none outline-none text-sm text-white py-2 placeholder-white/20"
                         onKeyDown={(e) => e.key === 'Enter' && handleAgentAction()}
                     />
                 </div>
+                )}
                 <div className="flex items-center gap-2">
+                    {(isEditing || canEdit) && (
+                        <button onClick={isEditing ? finishEditing : startEditing} className="border border-white/10 text-gray-400 px-6 py-2.5 rounded-full text-xs font-black uppercase hover:text-white hover:bg-white/5 transition-all">
+                            {isEditing ? 'Done' : 'Edit'}
+                        </button>
+                    )}
+                    {!isEditing && (
                     <button onClick={handleAgentAction} disabled={isProcessing || !agentPrompt.trim()} className="bg-cyan-500 text-black px-8 py-2.5 rounded-full text-xs font-black uppercase hover:scale-105 active:scale-95 disabled:opacity-20 transition-all shadow-lg shadow-cyan-500/10">
                         {isProcessing ? 'Thinking...' : 'Modify'}
                     </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -195,26 +522,80 @@ export const MemoryViewer: React.FC<MemoryViewerProps> = ({ memory, onClose, onU
                         <span key={tag} className="text-[10px] bg-white/5 border border-white/10 px-3 py-1.5 rounded-lg text-gray-400 font-medium">#{tag}</span>
                     ))}
                 </div>
+                {attachedTo && (
+                    <button onClick={() => onOpenMemory?.(attachedTo.id)} className="mt-4 block max-w-full truncate text-left text-[10px] text-gray-500 hover:text-cyan-400 transition-colors" title="Open the memory this was imported with">
+                        ↳ Attached to {attachedTo.title}
+                    </button>
+                )}
+                {attachments && attachments.length > 0 && renderLinkedMemories('Attachments', attachments)}
+                {sources && sources.length > 0 && renderLinkedMemories('Sources', sources)}
+                {memory.metadata.analysisError && (
+                    <div className="mt-4 p-3 rounded-xl bg-amber-500/5 border border-amber-500/20">
+                        <div className="text-[9px] font-mono text-amber-400 uppercase tracking-widest mb-1">Not Analyzed</div>
+                        <p className="text-[10px] text-gray-500 break-words mb-2">{memory.metadata.analysisError}</p>
+                        {onReanalyze && (
+                            <button onClick={onReanalyze} disabled={isReanalyzing} className="text-[9px] font-mono uppercase tracking-widest text-amber-400 hover:text-amber-300 disabled:opacity-40 disabled:animate-pulse transition-colors">
+                                {isReanalyzing ? 'Analyzing...' : 'Re-analyze'}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
 
-            <div className="flex-grow overflow-y-auto p-8 custom-scrollbar">
-                <h3 className="text-[10px] font-mono text-cyan-500 uppercase tracking-[0.3em] mb-8">Evolution</h3>
-                <div className="relative border-l border-white/5 ml-2 pl-6 space-y-10 pb-10">
-                    {memory.history.map((diff, idx) => (
-                        <div 
-                            key={diff.id} 
-                            onClick={() => { setActiveContent(diff.content || memory.content); setHistoryIndex(idx); }}
-                            className={`relative cursor-pointer transition-all group ${idx === historyIndex ? 'opacity-100' : 'opacity-25 hover:opacity-75'}`}
-                        >
-                            <div className={`absolute -left-[32px] top-1 w-3.5 h-3.5 rounded-full border-2 border-[#080808] transition-all duration-500 ${idx === historyIndex ? 'bg-cyan-500 shadow-[0_0_15px_cyan]' : 'bg-gray-800'}`} />
-                            <div className="text-[9px] text-gray-600 mb-1 font-mono uppercase tracking-widest">{new Date(diff.timestamp).toLocaleDateString()} • {new Date(diff.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</div>
-                            <div className="text-xs font-medium text-gray-100 leading-relaxed">{diff.description}</div>
+            <div className={`flex-grow overflow-y-auto p-8 custom-scrollbar ${isEditing ? 'opacity-40 pointer-events-none' : ''}`} title={isEditing ? 'Finish editing to browse versions' : undefined}>
+                <div className="flex items-center justify-between mb-8">
+                    <h3 className="text-[10px] font-mono text-cyan-500 uppercase tracking-[0.3em]">Evolution</h3>
+                    {memory.history.length > 1 && (
+                        <div className="flex items-center gap-4">
+                            <button onClick={toggleCompare} className={`text-[9px] font-mono uppercase tracking-widest transition-colors ${compare ? 'text-cyan-400' : 'text-gray-600 hover:text-cyan-400'}`}>{compare ? 'Done' : 'Compare'}</button>
+                            <button onClick={handlePruneHistory} className="text-[9px] font-mono text-gray-600 hover:text-red-400 uppercase tracking-widest transition-colors">Prune</button>
                         </div>
-                    ))}
+                    )}
                 </div>
+                {branches.length > 1 && (
+                    <div className="mb-8 space-y-2">
+                        <div className="flex flex-wrap gap-1.5">
+                            {branches.map(b => (
+                                <button 
+                                    key={b.name}
+                                    onClick={() => handleSwitchBranch(b.name)}
+                                    className={`group/branch flex items-center gap-1 text-[9px] font-mono uppercase px-2 py-1 rounded-md border transition-all ${b.name === activeBranch?.name ? 'border-purple-500/50 text-purple-300 bg-purple-500/10' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                                >
+                                    ⎇ {b.name}
+                                    {b.name !== activeBranch?.name && (
+                                        <span onClick={(e) => { e.stopPropagation(); onUpdate(deleteBranch(memory, b.name)); }} className="hidden group-hover/branch:inline text-gray-600 hover:text-red-400" title="Remove branch label">×</span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {activeBranch && (
+                    <div className="flex items-center gap-4 mb-8 -mt-4">
+                        <button onClick={() => handleRenameBranch(activeBranch.name)} className="text-[9px] font-mono text-gray-600 hover:text-purple-300 uppercase tracking-widest transition-colors">Rename ⎇ {activeBranch.name}</button>
+                        {onFork && (
+                            <button onClick={() => handleForkBranch(activeBranch.name)} className="text-[9px] font-mono text-gray-600 hover:text-purple-300 uppercase tracking-widest transition-colors">Fork To Memory</button>
+                        )}
+                    </div>
+                )}
+                {compare && (
+                    <p className="text-[9px] font-mono text-gray-600 uppercase tracking-widest mb-6">Click a version to set {compare.next === 'base' ? 'A' : 'B'}</p>
+                )}
+                <HistoryGraph 
+                    memory={memory}
+                    selectedIndex={historyIndex}
+                    headIndex={headIndex}
+                    activeBranch={activeBranch?.name}
+                    markers={compare ? { [compare.base]: 'A', [compare.target]: 'B' } : undefined}
+                    onSelect={handleTimelineClick}
+                />
             </div>
 
-            <div className="p-8 bg-black/20 border-t border-white/5">
+            <div className="p-8 bg-black/20 border-t border-white/5 space-y-3">
+                <ExportMenu memory={memory} versionIndex={historyIndex} />
+                {onExport && (
+                    <button onClick={onExport} className="w-full py-3 rounded-2xl border border-cyan-500/20 hover:bg-cyan-500/10 transition-all text-[10px] font-mono uppercase tracking-[0.2em] text-cyan-500/70 hover:text-cyan-400 font-bold">Export .recall</button>
+                )}
                 <button onClick={onClose} className="w-full py-4 rounded-2xl border border-white/10 hover:bg-white/5 transition-all text-[10px] font-mono uppercase tracking-[0.2em] text-gray-500 hover:text-white font-bold">Close Recall Workspace</button>
             </div>
         </div>
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PDFDocumentProxy, RenderTask, RenderingCancelledException, renderTextLayer } from 'pdfjs-dist';
+import { extractPageTexts, loadPdf } from '../services/pdfDocument';
+
+interface PdfReaderProps {
+  data: string; // base64 PDF
+  pages?: string[]; // page texts already extracted for this exact document, if known
+  focus?: { query: string; at: number }; // search to run on open, e.g. for a cited passage
+}
+
+interface SearchMatch {
+  page: number;
+  occurrence: number; // nth match on that page
+}
+
+const ZOOM_STEP = 0.25;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const PAGE_MARGIN = 48;
+
+const countOccurrences = (text: string, needle: string) => {
+  if (!needle) return 0;
+  let count = 0;
+  for (let i = text.indexOf(needle); i >= 0; i = text.indexOf(needle, i + needle.length)) count++;
+  return count;
+};
+
+export const PdfReader: React.FC<PdfReaderProps> = ({ data, pages, focus }) => {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState<number | 'fit'>('fit');
+  const [scale, setScale] = useState(1);
+  const [width, setWidth] = useState(0);
+  const [pageTexts, setPageTexts] = useState<string[] | null>(pages || null);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setDoc(null);
+    setError(null);
+    setPageNumber(1);
+    setMatchIndex(0);
+    loadPdf(data)
+      .then(d => {
+        if (cancelled) { d.destroy(); return; }
+        loaded = d;
+        setDoc(d);
+      })
+      .catch(e => { if (!cancelled) setError(e?.message || 'Unreadable PDF'); });
+    return () => { cancelled = true; loaded?.destroy(); };
+  }, [data]);
+
+  useEffect(() => {
+    if (pages) { setPageTexts(pages); return; }
+    if (!doc) return;
+    let cancelled = false;
+    setPageTexts(null);
+    extractPageTexts(doc)
+      .then(texts => { if (!cancelled) setPageTexts(texts); })
+      .catch(e => console.error("PDF text extraction failed", e));
+    return () => { cancelled = true; };
+  }, [doc, pages]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => setPageInput(String(pageNumber)), [pageNumber]);
+
+  useEffect(() => { if (focus) setQuery(focus.query); }, [focus?.at]);
+
+  const needle = query.trim().toLowerCase();
+  const matches = useMemo<SearchMatch[]>(() => {
+    if (!needle || !pageTexts) return [];
+    return pageTexts.flatMap((text, i) =>
+      Array.from({ length: countOccurrences(text.toLowerCase(), needle) }, (_, occurrence) => ({ page: i + 1, occurrence })));
+  }, [pageTexts, needle]);
+  const currentMatch = matches[matchIndex] as SearchMatch | undefined;
+
+  useEffect(() => setMatchIndex(0), [needle]);
+  useEffect(() => { if (currentMatch) setPageNumber(currentMatch.page); }, [currentMatch?.page, currentMatch?.occurrence]);
+
+  useEffect(() => {
+    if (!doc || !width) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    (async () => {
+      try {
+        const page = await doc.getPage(pageNumber);
+        if (cancelled) return;
+        const base = page.getViewport({ scale: 1 });
+        const nextScale = zoom === 'fit' ? Math.max(MIN_ZOOM / 2, (width - PAGE_MARGIN) / base.width) : zoom;
+        const viewport = page.getViewport({ scale: nextScale });
+        setScale(nextScale);
+
+        const canvas = canvasRef.current;
+        const textLayer = textLayerRef.current;
+        if (!canvas || !textLayer) return;
+        const outputScale = window.devicePixelRatio || 1;
+        canvas.width = Math.floor(viewport.width * outputScale);
+        canvas.height = Math.floor(viewport.height * outputScale);
+        canvas.style.width = `${Math.floor(viewport.width)}px`;
+        canvas.style.height = `${Math.floor(viewport.height)}px`;
+        const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+        renderTask = page.render({
+          canvasContext: context,
+          viewport,
+          transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined
+        });
+        await renderTask.promise;
+        if (cancelled) return;
+
+        textLayer.innerHTML = '';
+        textLayer.style.setProperty('--scale-factor', String(viewport.scale));
+        textLayer.style.width = canvas.style.width;
+        textLayer.style.height = canvas.style.height;
+        const textDivs: HTMLElement[] = [];
+        await renderTextLayer({ textContentSource: await page.getTextContent(), container: textLayer, viewport, textDivs }).promise;
+        if (cancelled || !needle) return;
+
+        // Highlights whole text runs; a match split across runs marks neither side
+        let seen = 0;
+        textDivs.forEach(div => {
+          const hits = countOccurrences((div.textContent || '').toLowerCase(), needle);
+          if (!hits) return;
+          div.classList.add('highlight');
+          if (currentMatch?.page === pageNumber && currentMatch.occurrence >= seen && currentMatch.occurrence < seen + hits) {
+            div.classList.add('selected');
+            div.scrollIntoView({ block: 'center', inline: 'nearest' });
+          }
+          seen += hits;
+        });
+      } catch (e) {
+        if (!(e instanceof RenderingCancelledException)) console.error("PDF render failed", e);
+      }
+    })();
+    return () => { cancelled = true; renderTask?.cancel(); };
+  }, [doc, pageNumber, zoom, width, needle, currentMatch?.page, currentMatch?.occurrence]);
+
+  const pageCount = doc?.numPages || 0;
+  const goToPage = (n: number) => setPageNumber(Math.min(Math.max(1, n), pageCount || 1));
+  const stepMatch = (delta: number) => {
+    if (!matches.length) return;
+    setMatchIndex(i => (i + delta + matches.length) % matches.length);
+  };
+  const zoomBy = (delta: number) =>
+    setZoom(z => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(((z === 'fit' ? scale : z) + delta) / ZOOM_STEP) * ZOOM_STEP)));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT') return;
+    if (e.key === 'ArrowRight' || e.key === 'PageDown') goToPage(pageNumber + 1);
+    if (e.key === 'ArrowLeft' || e.key === 'PageUp') goToPage(pageNumber - 1);
+  };
+
+  const toolButton = "px-2 py-1 rounded text-[10px] font-mono text-gray-400 hover:text-white hover:bg-white/5 disabled:opacity-20 transition-all";
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#111] rounded-2xl overflow-hidden border border-white/10 shadow-2xl outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+        <div className="flex-shrink-0 h-11 bg-black/40 border-b border-white/5 flex items-center justify-between px-3 gap-3">
+            <div className="flex items-center gap-1">
+                <button onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1} className={toolButton}>◀</button>
+                <input
+                    value={pageInput}
+                    onChange={(e) => setPageInput(e.target.value)}
+                    onBlur={() => goToPage(parseInt(pageInput, 10) || pageNumber)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') goToPage(parseInt(pageInput, 10) || pageNumber); }}
+                    className="w-10 bg-white/5 border border-white/10 rounded px-1 py-0.5 text-center text-[10px] font-mono text-white focus:outline-none focus:border-cyan-500/50"
+                />
+                <span className="text-[10px] font-mono text-gray-600">/ {pageCount || '–'}</span>
+                <button onClick={() => goToPage(pageNumber + 1)} disabled={pageNumber >= pageCount} className={toolButton}>▶</button>
+            </div>
+            <div className="flex items-center gap-1">
+                <button onClick={() => zoomBy(-ZOOM_STEP)} className={toolButton}>−</button>
+                <button onClick={() => setZoom('fit')} className={`${toolButton} ${zoom === 'fit' ? 'text-cyan-400' : ''}`}>{zoom === 'fit' ? 'Fit' : `${Math.round(scale * 100)}%`}</button>
+                <button onClick={() => zoomBy(ZOOM_STEP)} className={toolButton}>+</button>
+            </div>
+            <div className="flex items-center gap-1">
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1); }}
+                    placeholder="Search document..."
+                    className="w-44 bg-white/5 border border-white/10 rounded px-2 py-0.5 text-[10px] text-white placeholder-white/20 focus:outline-none focus:border-cyan-500/50"
+                />
+                <span className="w-14 text-center text-[9px] font-mono text-gray-500">
+                    {needle ? (pageTexts ? (matches.length ? `${matchIndex + 1}/${matches.length}` : '0/0') : '…') : ''}
+                </span>
+                <button onClick={() => stepMatch(-1)} disabled={!matches.length} className={toolButton}>▲</button>
+                <button onClick={() => stepMatch(1)} disabled={!matches.length} className={toolButton}>▼</button>
+            </div>
+        </div>
+        <div ref={scrollRef} className="flex-grow overflow-auto custom-scrollbar min-h-0">
+            {error ? (
+                <div className="w-full h-full flex items-center justify-center text-[10px] font-mono text-red-400 uppercase tracking-widest">PDF Unreadable: {error}</div>
+            ) : !doc ? (
+                <div className="w-full h-full flex items-center justify-center text-[10px] font-mono text-gray-600 uppercase tracking-widest animate-pulse">Rendering Document...</div>
+            ) : null}
+            <div className={`relative mx-auto my-6 w-max shadow-2xl ${doc && !error ? '' : 'hidden'}`}>
+                <canvas ref={canvasRef} className="block bg-white" />
+                <div ref={textLayerRef} className="textLayer" />
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { AISettings, MAX_INGEST_CONCURRENCY, clampConcurrency } from '../services/aiSettings';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDERS: { id: AISettings['provider']; label: string; hint: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', hint: 'Hosted Gemini models via API key.' },
+  { id: 'openai', label: 'OpenAI-compatible', hint: 'OpenAI, Ollama, vLLM, LM Studio or any /v1 endpoint.' },
+  { id: 'mock', label: 'Mock', hint: 'Deterministic offline responses for demos and testing.' }
+];
+
+const Field: React.FC<{ label: string; value: string; onChange: (v: string) => void; type?: string; placeholder?: string }> = ({ label, value, onChange, type = 'text', placeholder }) => (
+  <label className="block">
+    <span className="text-[9px] font-mono text-gray-500 uppercase tracking-widest">{label}</span>
+    <input
+        type={type}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg py-2 px-3 text-sm focus:outline-none focus:border-cyan-500/50 transition-colors"
+    />
+  </label>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+
+  const setGemini = (patch: Partial<AISettings['gemini']>) => setDraft(d => ({ ...d, gemini: { ...d.gemini, ...patch } }));
+  const setOpenAI = (patch: Partial<AISettings['openai']>) => setDraft(d => ({ ...d, openai: { ...d.openai, ...patch } }));
+
+  return (
+    <div className="absolute inset-0 z-[90] bg-black/60 backdrop-blur-sm flex items-center justify-center" onClick={onClose}>
+        <div className="w-[480px] max-h-[85vh] overflow-y-auto custom-scrollbar bg-[#0c0c0c] border border-white/10 rounded-2xl shadow-2xl p-8" onClick={(e) => e.stopPropagation()}>
+            <h2 className="text-xs font-mono font-bold text-cyan-500 uppercase tracking-[0.2em] mb-1">Neural Core Settings</h2>
+            <p className="text-[10px] text-gray-500 mb-6">Choose the model backend. Settings are stored in this browser only.</p>
+
+            <div className="grid grid-cols-3 gap-2 mb-2">
+                {PROVIDERS.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setDraft(d => ({ ...d, provider: p.id }))}
+                        className={`px-3 py-2 rounded-lg text-[10px] font-mono uppercase border transition-all ${draft.provider === p.id ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-400' : 'border-white/10 text-gray-500 hover:text-white'}`}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-gray-600 italic mb-6">{PROVIDERS.find(p => p.id === draft.provider)?.hint}</p>
+
+            {draft.provider === 'gemini' && (
+                <div className="space-y-4">
+                    <Field label="API Key" type="password" value={draft.gemini.apiKey} onChange={(apiKey) => setGemini({ apiKey })} />
+                    <Field label="Text Model" value={draft.gemini.textModel} onChange={(textModel) => setGemini({ textModel })} />
+                    <Field label="Image Model" value={draft.gemini.imageModel} onChange={(imageModel) => setGemini({ imageModel })} />
+                    <Field label="Embedding Model" value={draft.gemini.embeddingModel} onChange={(embeddingModel) => setGemini({ embeddingModel })} />
+                </div>
+            )}
+
+            {draft.provider === 'openai' && (
+                <div className="space-y-4">
+                    <Field label="Base URL" value={draft.openai.baseUrl} onChange={(baseUrl) => setOpenAI({ baseUrl })} placeholder="http://localhost:11434/v1" />
+                    <Field label="API Key (optional for local servers)" type="password" value={draft.openai.apiKey} onChange={(apiKey) => setOpenAI({ apiKey })} />
+                    <Field label="Text Model" value={draft.openai.textModel} onChange={(textModel) => setOpenAI({ textModel })} />
+                    <Field label="Image Edit Model (blank to disable)" value={draft.openai.imageModel} onChange={(imageModel) => setOpenAI({ imageModel })} />
+                    <Field label="Embedding Model" value={draft.openai.embeddingModel} onChange={(embeddingModel) => setOpenAI({ embeddingModel })} />
+                </div>
+            )}
+
+            <div className="mt-6 pt-6 border-t border-white/5">
+                <Field
+                    label={`Parallel Ingest Analyses (1-${MAX_INGEST_CONCURRENCY})`}
+                    type="number"
+                    value={String(draft.ingestConcurrency)}
+                    onChange={(v) => setDraft(d => ({ ...d, ingestConcurrency: clampConcurrency(Number(v)) }))}
+                />
+                <p className="mt-2 text-[10px] text-gray-600 italic">Lower this if the provider rate-limits large drops; failed analyses are retried with backoff.</p>
+            </div>
+
+            <div className="mt-8 flex justify-end gap-3">
+                <button onClick={onClose} className="px-5 py-2 rounded-full text-[10px] font-mono uppercase text-gray-500 hover:text-white transition-colors">Cancel</button>
+                <button onClick={() => onSave(draft)} className="bg-cyan-500 text-black px-6 py-2 rounded-full text-xs font-black uppercase hover:scale-105 active:scale-95 transition-all">Save</button>
+            </div>
+        </div>
+    </div>
+  );
+};
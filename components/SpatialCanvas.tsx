@@ -1,13 +1,22 @@
 
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { RecallFile } from '../types';
+import { RecallFile, RecallType } from '../types';
 import { MemoryCard } from './MemoryCard';
+import { CARD_HEIGHT, CARD_WIDTH, Connection, Point, buildTagConnections } from '../services/canvasLayout';
+import { LAYOUT_MODES, LayoutMode } from '../services/layoutEngine';
+import { Rect, buildQuadtree } from '../services/quadtree';
 
 interface SpatialCanvasProps {
   memories: RecallFile[];
   onUpdateMemoryPosition: (id: string, x: number, y: number) => void;
   onMemoryClick: (memory: RecallFile) => void;
   onDeleteMemory: (id: string) => void;
+  /** Positions that take precedence over memory.x/y, e.g. frames of a running layout. */
+  positionOverrides?: Map<string, Point> | null;
+  isLayingOut?: boolean;
+  onApplyLayout?: (mode: LayoutMode) => void;
+  onUndoLayout?: () => void;
+  canUndoLayout?: boolean;
 }
 
 interface Viewport {
@@ -16,12 +25,29 @@ interface Viewport {
   scale: number;
 }
 
-interface Connection {
-  fromId: string;
-  toId: string;
-  strength: number;
+interface DragState {
+  id: string;
+  x: number;
+  y: number;
+  moved: boolean;
 }
 
+// Below this zoom, cards render as flat tiles and connections drop their dash pattern
+const LOD_SCALE = 0.5;
+// Cards just outside the viewport are kept mounted so panning doesn't pop them in
+const CULL_MARGIN = CARD_WIDTH;
+// Line anchor: the centre of the card's w-36 thumbnail
+const ANCHOR = 72;
+
+const TYPE_TILE_COLORS: Record<RecallType, string> = {
+  [RecallType.IMAGE]: 'bg-emerald-500/40 border-emerald-400/60',
+  [RecallType.TEXT]: 'bg-cyan-500/30 border-cyan-400/60',
+  [RecallType.AUDIO]: 'bg-indigo-500/40 border-indigo-400/60',
+  [RecallType.VIDEO]: 'bg-indigo-500/40 border-indigo-400/60',
+  [RecallType.DOCUMENT]: 'bg-amber-500/30 border-amber-400/60',
+  [RecallType.HYBRID]: 'bg-purple-500/40 border-purple-400/60'
+};
+
 interface ContextMenuState {
   x: number;
   y: number;
@@ -32,14 +58,40 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
   memories, 
   onUpdateMemoryPosition,
   onMemoryClick,
-  onDeleteMemory
+  onDeleteMemory,
+  positionOverrides,
+  isLayingOut,
+  onApplyLayout,
+  onUndoLayout,
+  canUndoLayout
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
   const [isPanning, setIsPanning] = useState(false);
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
-  const [draggedNodeId, setDraggedNodeId] = useState<string | null>(null);
+  // The dragged card moves locally; the library only hears about it on mouseup
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const suppressClickRef = useRef(false);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [size, setSize] = useState({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const byId = useMemo(() => new Map<string, RecallFile>(memories.map(m => [m.id, m])), [memories]);
+
+  const basePosition = (m: RecallFile): Point =>
+    positionOverrides?.get(m.id) || { x: m.x || 100, y: m.y || 100 };
+
+  const positionOf = (m: RecallFile): Point =>
+    drag && drag.id === m.id ? { x: drag.x, y: drag.y } : basePosition(m);
 
   const centerViewport = () => {
     if (memories.length === 0) {
@@ -75,7 +127,7 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
     if (contextMenu) setContextMenu(null);
     if (e.button === 2) return; 
     
-    if (!draggedNodeId) {
+    if (!drag) {
         setIsPanning(true);
         setLastMousePos({ x: e.clientX, y: e.clientY });
     }
@@ -90,25 +142,29 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
         return;
     }
 
-    if (draggedNodeId) {
-        const memory = memories.find(m => m.id === draggedNodeId);
-        if (memory) {
-            const dx = e.movementX / viewport.scale;
-            const dy = e.movementY / viewport.scale;
-            onUpdateMemoryPosition(draggedNodeId, (memory.x || 0) + dx, (memory.y || 0) + dy);
-        }
+    if (drag) {
+        const dx = e.movementX / viewport.scale;
+        const dy = e.movementY / viewport.scale;
+        setDrag(d => d && { ...d, x: d.x + dx, y: d.y + dy, moved: true });
     }
   };
 
-  const handleMouseUp = () => {
+  // Leaving the canvas ends a drag too, but no click follows that to be suppressed
+  const endDrag = (clickFollows: boolean) => {
     setIsPanning(false);
-    setDraggedNodeId(null);
+    if (drag?.moved) {
+        suppressClickRef.current = clickFollows;
+        onUpdateMemoryPosition(drag.id, drag.x, drag.y);
+    }
+    setDrag(null);
   };
 
-  const handleNodeMouseDown = (e: React.MouseEvent, id: string) => {
-    if (e.button === 0) {
+  const handleNodeMouseDown = (e: React.MouseEvent, memory: RecallFile) => {
+    suppressClickRef.current = false;
+    if (e.button === 0 && !isLayingOut) {
         e.stopPropagation(); 
-        setDraggedNodeId(id);
+        const p = basePosition(memory);
+        setDrag({ id: memory.id, x: p.x, y: p.y, moved: false });
     }
   };
 
@@ -122,30 +178,61 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
       }
   };
 
-  const connections = useMemo(() => {
-    const conns: Connection[] = [];
-    for (let i = 0; i < memories.length; i++) {
-      for (let j = i + 1; j < memories.length; j++) {
-        const m1 = memories[i];
-        const m2 = memories[j];
-        const common = m1.metadata.tags.filter(t => m2.metadata.tags.includes(t));
-        if (common.length > 0) {
-          conns.push({ fromId: m1.id, toId: m2.id, strength: Math.min(common.length, 3) });
-        }
-      }
-    }
-    return conns;
-  }, [memories]);
+  // Connections only depend on tags, so position changes don't rebuild the index
+  const tagSignature = useMemo(
+    () => memories.map(m => `${m.id}:${m.metadata.tags.join(',')}`).join('|'),
+    [memories]
+  );
+  const connectionsById = useMemo(() => {
+      const index = new Map<string, Connection[]>();
+      const add = (id: string, c: Connection) => {
+          const list = index.get(id);
+          if (list) list.push(c); else index.set(id, [c]);
+      };
+      buildTagConnections(memories).forEach(c => { add(c.fromId, c); add(c.toId, c); });
+      return index;
+  }, [tagSignature]);
+
+  const quadtree = useMemo(() => buildQuadtree(memories.map(m => {
+      const p = basePosition(m);
+      return { id: m.id, x: p.x, y: p.y, width: CARD_WIDTH, height: CARD_HEIGHT };
+  })), [memories, positionOverrides]);
+
+  const visibleArea: Rect = {
+      x: -viewport.x / viewport.scale - CULL_MARGIN,
+      y: -viewport.y / viewport.scale - CULL_MARGIN,
+      width: size.width / viewport.scale + CULL_MARGIN * 2,
+      height: size.height / viewport.scale + CULL_MARGIN * 2
+  };
+
+  const visibleMemories = useMemo(() => {
+      const ids = new Set(quadtree.query(visibleArea).map(item => item.id));
+      if (drag) ids.add(drag.id);
+      return memories.filter(m => ids.has(m.id));
+  }, [quadtree, memories, viewport, size, drag?.id]);
+
+  const isCompact = viewport.scale < LOD_SCALE;
+
+  // Edges touching a visible card; when zoomed out, single-tag links are dropped as noise
+  const visibleConnections = useMemo(() => {
+      const seen = new Set<Connection>();
+      visibleMemories.forEach(m => (connectionsById.get(m.id) || []).forEach(c => {
+          if (!isCompact || c.strength > 1) seen.add(c);
+      }));
+      return [...seen];
+  }, [visibleMemories, connectionsById, isCompact]);
 
   const renderConnection = (conn: Connection) => {
-      const m1 = memories.find(m => m.id === conn.fromId);
-      const m2 = memories.find(m => m.id === conn.toId);
+      const m1 = byId.get(conn.fromId);
+      const m2 = byId.get(conn.toId);
       if (!m1 || !m2) return null;
 
-      const x1 = (m1.x || 0) + 72; 
-      const y1 = (m1.y || 0) + 72;
-      const x2 = (m2.x || 0) + 72;
-      const y2 = (m2.y || 0) + 72;
+      const p1 = positionOf(m1);
+      const p2 = positionOf(m2);
+      const x1 = p1.x + ANCHOR; 
+      const y1 = p1.y + ANCHOR;
+      const x2 = p2.x + ANCHOR;
+      const y2 = p2.y + ANCHOR;
       
       return (
         <line 
@@ -153,7 +240,7 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
             x1={x1} y1={y1} x2={x2} y2={y2}
             stroke="rgba(6, 182, 212, 0.2)"
             strokeWidth={conn.strength}
-            strokeDasharray="4 4"
+            strokeDasharray={isCompact ? undefined : "4 4"}
             className="pointer-events-none"
         />
       );
@@ -166,8 +253,8 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
         onWheel={handleWheel}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseUp={() => endDrag(true)}
+        onMouseLeave={() => endDrag(false)}
     >
         <div 
             className="absolute inset-0 opacity-10 pointer-events-none transition-transform duration-75 ease-out" 
@@ -186,30 +273,74 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
                 transformOrigin: '0 0',
             }}
         >
-            <svg className="absolute top-[-5000px] left-[-5000px] w-[10000px] h-[10000px] pointer-events-none overflow-visible">
-                {connections.map(renderConnection)}
+            <svg className="absolute top-0 left-0 w-px h-px pointer-events-none overflow-visible">
+                {visibleConnections.map(renderConnection)}
             </svg>
 
-            {memories.map(memory => (
+            {visibleMemories.map(memory => {
+                const p = positionOf(memory);
+                const handleClick = () => {
+                    if (suppressClickRef.current) { suppressClickRef.current = false; return; }
+                    onMemoryClick(memory);
+                };
+                return (
                 <div 
                     key={memory.id} 
                     onContextMenu={(e) => handleContextMenu(e, memory.id)}
                 >
+                    {isCompact ? (
+                        <div 
+                            className={`absolute w-36 h-36 rounded-xl border cursor-pointer ${TYPE_TILE_COLORS[memory.type] || TYPE_TILE_COLORS[RecallType.TEXT]}`}
+                            style={{ left: p.x, top: p.y }}
+                            title={memory.title}
+                            onMouseDown={(e) => handleNodeMouseDown(e, memory)}
+                            onClick={handleClick}
+                        />
+                    ) : (
                     <MemoryCard 
                         memory={memory}
                         style={{
-                            left: memory.x || 100,
-                            top: memory.y || 100,
-                        }}
-                        onMouseDown={(e) => handleNodeMouseDown(e, memory.id)}
-                        onClick={() => {
-                            if (!draggedNodeId) onMemoryClick(memory);
+                            left: p.x,
+                            top: p.y,
                         }}
+                        onMouseDown={(e) => handleNodeMouseDown(e, memory)}
+                        onClick={handleClick}
                     />
+                    )}
                 </div>
-            ))}
+                );
+            })}
         </div>
         
+        {onApplyLayout && (
+            <div 
+                className="absolute top-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 bg-black/60 backdrop-blur border border-white/10 rounded-full px-2 py-1 shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+            >
+                <span className="text-[9px] font-mono text-gray-600 uppercase tracking-widest px-2">Layout</span>
+                {LAYOUT_MODES.map(l => (
+                    <button 
+                        key={l.mode}
+                        onClick={() => onApplyLayout(l.mode)}
+                        title={l.hint}
+                        className="px-3 py-1 rounded-full text-[10px] font-mono uppercase text-gray-400 hover:bg-cyan-500/20 hover:text-cyan-400 transition-all"
+                    >
+                        {l.label}
+                    </button>
+                ))}
+                <div className="w-px h-4 bg-white/10 mx-1" />
+                <button 
+                    onClick={onUndoLayout}
+                    disabled={!canUndoLayout}
+                    title="Undo last layout"
+                    className="px-3 py-1 rounded-full text-[10px] font-mono uppercase text-gray-400 hover:bg-purple-500/20 hover:text-purple-400 disabled:opacity-30 disabled:pointer-events-none transition-all"
+                >
+                    Undo
+                </button>
+                {isLayingOut && <div className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-pulse mx-2" />}
+            </div>
+        )}
+
         <div className="absolute bottom-8 right-8 flex flex-col gap-2 z-40">
             <button 
                 onClick={centerViewport} 
@@ -229,7 +360,7 @@ export const SpatialCanvas: React.FC<SpatialCanvasProps> = ({
                 <button 
                     className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-cyan-500/20 hover:text-cyan-400 transition-colors"
                     onClick={() => {
-                        const m = memories.find(x => x.id === contextMenu.memoryId);
+                        const m = byId.get(contextMenu.memoryId);
                         if(m) onMemoryClick(m);
                         setContextMenu(null);
                     }}
@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Cell, SortDirection, Workbook, addSheet, cellInput, columnCount, displayValue, filterRows,
+  removeSheet, renameSheet, setCell, sheetToCsv, sortSheet, workbookToXlsx
+} from '../services/spreadsheet';
+import { FUNCTION_NAMES, cellAddress, columnLabel } from '../services/formulas';
+import { downloadBlob, toFileName } from '../services/download';
+
+interface SpreadsheetGridProps {
+  workbook: Workbook;
+  title: string; // used for download file names
+  sheetIndex: number;
+  onSheetChange: (index: number) => void;
+  onSave?: (workbook: Workbook, description: string) => void; // absent when read-only, e.g. an older version
+  scrollRef?: React.RefObject<HTMLDivElement>;
+}
+
+// Rows rendered at first; more are added on request so huge sheets stay responsive
+const ROW_PAGE = 200;
+
+const CELL_STYLES: Record<Cell['type'], string> = {
+  number: 'text-right tabular-nums',
+  text: 'text-left',
+  boolean: 'text-center text-purple-300',
+  date: 'text-right tabular-nums text-amber-200',
+  error: 'text-center text-red-400'
+};
+
+export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({ workbook, title, sheetIndex, onSheetChange, onSave, scrollRef }) => {
+  const [draft, setDraft] = useState<Workbook>(workbook);
+  const [changes, setChanges] = useState(0);
+  const [selected, setSelected] = useState<{ row: number; col: number }>({ row: 0, col: 0 });
+  const [editing, setEditing] = useState<string | null>(null); // input of the selected cell while it is edited in place
+  const [bar, setBar] = useState(''); // formula bar
+  const [hasHeader, setHasHeader] = useState(true);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filters, setFilters] = useState<Record<number, string>>({});
+  const [sorted, setSorted] = useState<{ col: number; direction: SortDirection } | null>(null);
+  const [rowLimit, setRowLimit] = useState(ROW_PAGE);
+  // Set when Escape ends editing, so the editor's blur doesn't commit
+  const cancelEdit = useRef(false);
+
+  const editable = !!onSave;
+  const activeIndex = Math.min(sheetIndex, draft.sheets.length - 1);
+  const sheet = draft.sheets[activeIndex];
+  const current = sheet.rows[selected.row]?.[selected.col] ?? null;
+
+  // A new version (saved, restored or viewed) replaces any unsaved edits
+  useEffect(() => {
+    setDraft(workbook);
+    setChanges(0);
+    setEditing(null);
+  }, [workbook]);
+
+  useEffect(() => {
+    setSelected({ row: 0, col: 0 });
+    setFilters({});
+    setSorted(null);
+    setRowLimit(ROW_PAGE);
+  }, [sheetIndex]);
+
+  useEffect(() => {
+    setBar(cellInput(current));
+  }, [current, selected.row, selected.col]);
+
+  const filtered = useMemo(() => filterRows(sheet, filters, hasHeader), [sheet, filters, hasHeader]);
+  const isFiltered = (Object.values(filters) as string[]).some(f => f.trim());
+  // A spare empty row and column at the edges let the sheet grow by typing into them
+  const rowIndices = editable && !isFiltered ? [...filtered, sheet.rows.length] : filtered;
+  const width = columnCount(sheet) + (editable ? 1 : 0) || 1;
+
+  const apply = (next: Workbook) => {
+    setDraft(next);
+    setChanges(n => n + 1);
+  };
+
+  const commit = (row: number, col: number, input: string) => {
+    setEditing(null);
+    if (input === cellInput(sheet.rows[row]?.[col])) return;
+    apply(setCell(draft, activeIndex, row, col, input));
+  };
+
+  const move = (rows: number, cols: number) => {
+    const position = rowIndices.indexOf(selected.row);
+    const row = rowIndices[Math.max(0, Math.min(rowIndices.length - 1, position + rows))] ?? selected.row;
+    setSelected({ row, col: Math.max(0, Math.min(width - 1, selected.col + cols)) });
+  };
+
+  const handleGridKey = (e: React.KeyboardEvent) => {
+    if (editing !== null) return;
+    const moves: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1], Tab: [0, e.shiftKey ? -1 : 1] };
+    if (moves[e.key]) {
+      e.preventDefault();
+      move(...moves[e.key]);
+    } else if (!editable) {
+      return;
+    } else if (e.key === 'Enter' || e.key === 'F2') {
+      e.preventDefault();
+      setEditing(cellInput(current));
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      commit(selected.row, selected.col, '');
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      e.preventDefault();
+      setEditing(e.key);
+    }
+  };
+
+  // Edits are committed when the editor loses focus; the keys hand focus back to the grid
+  const handleEditorKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key !== 'Escape' && e.key !== 'Enter' && e.key !== 'Tab') return;
+    e.preventDefault();
+    cancelEdit.current = e.key === 'Escape';
+    (e.currentTarget.closest('[data-grid]') as HTMLElement | null)?.focus();
+    if (e.key === 'Enter') move(1, 0);
+    if (e.key === 'Tab') move(0, e.shiftKey ? -1 : 1);
+  };
+
+  const handleEditorBlur = (row: number, col: number, input: string) => {
+    if (cancelEdit.current) {
+      cancelEdit.current = false;
+      setEditing(null);
+      return;
+    }
+    commit(row, col, input);
+  };
+
+  const handleSort = (col: number) => {
+    const direction: SortDirection = sorted?.col === col && sorted.direction === 'asc' ? 'desc' : 'asc';
+    setSorted({ col, direction });
+    apply(sortSheet(draft, activeIndex, col, direction, hasHeader));
+  };
+
+  const handleAddSheet = () => {
+    apply(addSheet(draft));
+    onSheetChange(draft.sheets.length);
+  };
+
+  const handleRemoveSheet = (index: number) => {
+    if (!window.confirm(`Remove sheet "${draft.sheets[index].name}"? Formulas that refer to it will show #REF!.`)) return;
+    apply(removeSheet(draft, index));
+    onSheetChange(Math.max(0, Math.min(activeIndex, draft.sheets.length - 2)));
+  };
+
+  const handleRenameSheet = (index: number) => {
+    const name = window.prompt('Rename sheet', draft.sheets[index].name);
+    if (name === null || name.trim() === draft.sheets[index].name) return;
+    const renamed = renameSheet(draft, index, name);
+    if (renamed) apply(renamed);
+    else window.alert(`"${name.trim()}" can't be used: sheet names must be unique and can't contain [ ] : * ? / \\`);
+  };
+
+  const handleSave = () => {
+    if (!onSave || changes === 0) return;
+    onSave(draft, `Edited spreadsheet (${changes} change${changes === 1 ? '' : 's'})`);
+  };
+
+  const handleDiscard = () => {
+    setDraft(workbook);
+    setChanges(0);
+    setEditing(null);
+    if (sheetIndex >= workbook.sheets.length) onSheetChange(workbook.sheets.length - 1);
+  };
+
+  const renderCell = (row: number, col: number) => {
+    const cell = sheet.rows[row]?.[col] ?? null;
+    const isSelected = selected.row === row && selected.col === col;
+    const isHeader = hasHeader && row === 0;
+    return (
+        <td
+            key={col}
+            onClick={() => { setSelected({ row, col }); setEditing(null); }}
+            onDoubleClick={() => editable && setEditing(cellInput(cell))}
+            title={cell?.formula !== undefined ? `=${cell.formula}` : undefined}
+            className={`relative border border-white/5 px-2 py-1 min-w-[80px] max-w-[320px] truncate cursor-cell ${cell ? CELL_STYLES[cell.type] : ''} ${isHeader ? 'font-bold text-white bg-white/[0.03]' : ''} ${isSelected ? 'outline outline-2 -outline-offset-2 outline-cyan-500' : ''}`}
+        >
+            {isSelected && editing !== null ? (
+                <input
+                    autoFocus
+                    defaultValue={editing}
+                    onKeyDown={handleEditorKey}
+                    onBlur={(e) => handleEditorBlur(row, col, e.target.value)}
+                    className="absolute inset-0 w-full h-full bg-[#111] px-2 text-left text-white font-mono text-xs outline-none"
+                />
+            ) : displayValue(cell)}
+            {cell?.formula !== undefined && <span className="absolute top-0 right-0 w-0 h-0 border-t-[5px] border-l-[5px] border-t-cyan-500/60 border-l-transparent" />}
+        </td>
+    );
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-[#0a0a0a] rounded-2xl border border-white/10 overflow-hidden shadow-2xl">
+        <div className="flex-shrink-0 flex items-center gap-3 px-4 py-2 border-b border-white/5 bg-black/40">
+            <span className="w-14 text-[10px] font-mono text-cyan-500 uppercase">{cellAddress(selected.row, selected.col)}</span>
+            <input
+                value={bar}
+                readOnly={!editable}
+                onChange={(e) => setBar(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') commit(selected.row, selected.col, bar); if (e.key === 'Escape') setBar(cellInput(current)); }}
+                placeholder={editable ? 'Value or =formula' : ''}
+                title={`Functions: ${FUNCTION_NAMES.join(', ')}`}
+                className="flex-grow bg-white/5 border border-white/10 rounded px-2 py-1 text-xs font-mono text-gray-200 focus:outline-none focus:border-cyan-500/50"
+            />
+            <button onClick={() => setHasHeader(h => !h)} className={`text-[9px] font-mono uppercase tracking-widest transition-colors ${hasHeader ? 'text-cyan-400' : 'text-gray-600 hover:text-cyan-400'}`} title="Keep the first row in place when sorting and filtering">Header Row</button>
+            <button onClick={() => { setShowFilters(s => !s); setFilters({}); }} className={`text-[9px] font-mono uppercase tracking-widest transition-colors ${showFilters ? 'text-cyan-400' : 'text-gray-600 hover:text-cyan-400'}`}>Filter</button>
+            <button onClick={() => downloadBlob(workbookToXlsx(draft), toFileName(title, 'xlsx'))} className="text-[9px] font-mono text-gray-600 hover:text-cyan-400 uppercase tracking-widest transition-colors">XLSX</button>
+            <button onClick={() => downloadBlob(sheetToCsv(draft, activeIndex), toFileName(`${title} - ${sheet.name}`, 'csv'))} className="text-[9px] font-mono text-gray-600 hover:text-cyan-400 uppercase tracking-widest transition-colors" title="Download this sheet as CSV">CSV</button>
+        </div>
+
+        <div ref={scrollRef} data-grid tabIndex={0} onKeyDown={handleGridKey} className="flex-grow overflow-auto custom-scrollbar focus:outline-none">
+            <table className="border-collapse text-xs font-mono text-gray-300">
+                <thead className="sticky top-0 z-10 bg-[#111]">
+                    <tr>
+                        <th className="w-12 border border-white/5" />
+                        {Array.from({ length: width }, (_, col) => (
+                            <th key={col} className="border border-white/5 px-2 py-1 text-[10px] text-gray-500 font-normal">
+                                <button onClick={() => handleSort(col)} disabled={!editable} className="w-full hover:text-cyan-400 disabled:hover:text-gray-500 transition-colors" title={editable ? 'Sort by this column' : undefined}>
+                                    {columnLabel(col)}{sorted?.col === col ? (sorted.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+                                </button>
+                            </th>
+                        ))}
+                    </tr>
+                    {showFilters && (
+                        <tr>
+                            <th className="border border-white/5 text-[8px] text-gray-600 font-normal uppercase">Filter</th>
+                            {Array.from({ length: width }, (_, col) => (
+                                <th key={col} className="border border-white/5 p-0.5">
+                                    <input
+                                        value={filters[col] || ''}
+                                        onChange={(e) => setFilters(f => ({ ...f, [col]: e.target.value }))}
+                                        className="w-full bg-white/5 rounded px-1 py-0.5 text-[10px] font-normal text-gray-300 focus:outline-none focus:bg-white/10"
+                                    />
+                                </th>
+                            ))}
+                        </tr>
+                    )}
+                </thead>
+                <tbody>
+                    {rowIndices.slice(0, rowLimit).map(row => (
+                        <tr key={row}>
+                            <td className="border border-white/5 px-2 text-[10px] text-gray-600 text-right bg-black/20">{row + 1}</td>
+                            {Array.from({ length: width }, (_, col) => renderCell(row, col))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {rowIndices.length > rowLimit && (
+                <button onClick={() => setRowLimit(l => l + ROW_PAGE)} className="m-4 text-[9px] font-mono text-gray-500 hover:text-cyan-400 uppercase tracking-widest transition-colors">
+                    Show more rows ({rowIndices.length - rowLimit} hidden)
+                </button>
+            )}
+        </div>
+
+        {changes > 0 && (
+            <div className="flex-shrink-0 flex items-center justify-between gap-4 px-4 py-2 border-t border-amber-500/20 bg-amber-500/5">
+                <span className="text-[10px] font-mono text-amber-300 uppercase tracking-widest">{changes} unsaved change{changes === 1 ? '' : 's'}</span>
+                <div className="flex items-center gap-3">
+                    <button onClick={handleDiscard} className="text-[9px] font-mono text-gray-500 hover:text-white uppercase tracking-widest transition-colors">Discard</button>
+                    <button onClick={handleSave} className="bg-amber-500 text-black font-black px-4 py-1 rounded-md text-[9px] uppercase hover:scale-105 transition-transform">Save Version</button>
+                </div>
+            </div>
+        )}
+
+        <div className="flex-shrink-0 h-12 bg-black/40 border-t border-white/5 flex items-center px-4 overflow-x-auto gap-2">
+            {draft.sheets.map((s, idx) => (
+                <button
+                    key={idx}
+                    onClick={() => onSheetChange(idx)}
+                    onDoubleClick={() => editable && handleRenameSheet(idx)}
+                    title={editable ? 'Double-click to rename' : undefined}
+                    className={`group/sheet flex items-center gap-2 px-4 py-1.5 text-[10px] font-mono whitespace-nowrap transition-all rounded-md ${activeIndex === idx ? 'bg-cyan-500 text-black font-bold' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
+                >
+                    {s.name}
+                    {editable && draft.sheets.length > 1 && activeIndex === idx && (
+                        <span onClick={(e) => { e.stopPropagation(); handleRemoveSheet(idx); }} className="hidden group-hover/sheet:inline text-black/60 hover:text-red-700" title="Remove sheet">×</span>
+                    )}
+                </button>
+            ))}
+            {editable && (
+                <button onClick={handleAddSheet} className="px-3 py-1.5 text-[10px] font-mono text-gray-600 hover:text-cyan-400 transition-colors" title="Add sheet">+</button>
+            )}
+        </div>
+    </div>
+  );
+};
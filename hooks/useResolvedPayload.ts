@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { isBlobRef, resolvePayload } from '../services/blobStore';
+
+/**
+ * Resolves a possibly blob-backed payload for rendering.
+ * Inline values are returned as-is; references yield null until loaded.
+ */
+export const useResolvedPayload = (value?: string): string | null => {
+  const [loaded, setLoaded] = useState<{ ref: string; value: string } | null>(null);
+
+  useEffect(() => {
+    if (!isBlobRef(value)) return;
+    let cancelled = false;
+    resolvePayload(value)
+      .then(v => { if (!cancelled) setLoaded({ ref: value, value: v }); })
+      .catch(e => console.error("Payload resolution failed", e));
+    return () => { cancelled = true; };
+  }, [value]);
+
+  if (!value) return null;
+  if (!isBlobRef(value)) return value;
+  return loaded?.ref === value ? loaded.value : null;
+};
@@ -0,0 +1,572 @@
+import { AgentAction, AgentStep, AgentToolCall, ChatMessage, Citation, RecallFile, RecallType } from "../types";
+import { AIMessage, JsonSchema, ToolCall, ToolDeclaration, ToolResult, getAIProvider } from "./aiProvider";
+import { isBinaryMemory, resolvePayload } from "./blobStore";
+import { Point, layoutAsGroup } from "./canvasLayout";
+import { citationLabel, collectCitations, stripCitations } from "./citations";
+import { cleanContent, formatOf, looksLikeHtml } from "./contentFormat";
+import { parseAddress } from "./formulas";
+import { simplifySpreadsheetForAI } from "./geminiService";
+import { pdfText } from "./pdfDocument";
+import { transcriptText } from "./mediaTranscript";
+import { matchesQuery, parseQuery } from "./queryLanguage";
+import { CellEdit, applyCellEdits, cellEditsFrom, cellInput, isSpreadsheet, parseWorkbook, serializeWorkbook } from "./spreadsheet";
+import { commitVersion, recordChange, usesTextHistory } from "./textHistory";
+import { retrieveChunks, searchIndex } from "./vectorIndex";
+
+/**
+ * The Recall agent: a multi-turn loop over the active provider. Each model turn may call
+ * tools; their results go back to the model, which keeps going until it answers in plain
+ * text or runs out of steps. The app supplies state and side effects through `AgentHost`.
+ *
+ * The model sees a catalogue of the library plus the indexed passages most relevant to the
+ * command (see services/vectorIndex), labelled so its reply can cite them (services/citations).
+ *
+ * Reading tools run straight away. Tools that change the library are described as an
+ * `AgentAction` and only run once the user approves it; every change they make is recorded
+ * in the memory's history as authored by 'gemini'.
+ */
+export interface AgentHost {
+  memories: () => RecallFile[]; // the library as it is now
+  approve: (action: AgentAction) => Promise<boolean>;
+  addMemory: (memory: RecallFile) => void;
+  updateMemories: (memories: RecallFile[]) => void;
+  deleteMemories: (ids: string[]) => void;
+}
+
+export interface AgentReply {
+  text: string;
+  trace: AgentStep[];
+  citations: Citation[];
+}
+
+// Model turns per command before the agent is asked to wrap up
+export const MAX_AGENT_STEPS = 6;
+
+// Earlier chat messages replayed to the model as conversation history
+const HISTORY_LIMIT = 20;
+
+// Longest content `readMemory` hands back
+const MAX_READ_LENGTH = 20000;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+
+// Most recently updated memories listed in the prompt; the rest are reachable through searchMemories
+const CATALOGUE_LIMIT = 150;
+
+// Retrieved passages per command, and how many may come from one memory
+const RETRIEVED_PASSAGES = 8;
+const PASSAGES_PER_MEMORY = 3;
+
+const ids: JsonSchema = { type: 'array', items: { type: 'string' } };
+const reasoning: JsonSchema = { type: 'string', description: 'Why, shown to the user when they approve the change' };
+
+const TOOLS: ToolDeclaration[] = [
+  {
+    name: "searchMemories",
+    description: "Find memories by keyword or query syntax (tag:x, type:document, after:2025-01-01, \"exact phrase\", OR, -exclude), with meaning-based matches added when few match literally.",
+    parameters: { type: 'object', properties: { query: { type: 'string' }, limit: { type: 'number' } }, required: ["query"] }
+  },
+  {
+    name: "readMemory",
+    description: "Read the full content and metadata of a memory.",
+    parameters: { type: 'object', properties: { id: { type: 'string' } }, required: ["id"] }
+  },
+  {
+    name: "createMemory",
+    description: "Create a new memory, e.g. a summary or report built from other memories.",
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        type: { type: 'string', enum: [RecallType.TEXT, RecallType.DOCUMENT] },
+        content: { type: 'string' },
+        reasoning,
+        tags: { type: 'array', items: { type: 'string' } },
+        sourceIds: { type: 'array', items: { type: 'string' }, description: 'Ids of the memories this one is built from' }
+      },
+      required: ["title", "content"]
+    }
+  },
+  {
+    name: "updateMemoryContent",
+    description: "Replace the content of a textual memory. The previous version stays in its history.",
+    parameters: { type: 'object', properties: { id: { type: 'string' }, newContent: { type: 'string' }, reasoning }, required: ["id", "newContent"] }
+  },
+  {
+    name: "editSpreadsheetCells",
+    description: "Change cells of a spreadsheet memory (readMemory shows its cells). Input is typed as a user would: a number, text, TRUE/FALSE, a YYYY-MM-DD date, a formula starting with \"=\", or \"\" to clear. Formulas are recalculated. A new sheet name creates the sheet.",
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        edits: {
+          type: 'array',
+          items: { type: 'object', properties: { sheet: { type: 'string' }, cell: { type: 'string', description: 'Address like "B3"' }, input: { type: 'string' } }, required: ["sheet", "cell", "input"] }
+        },
+        reasoning
+      },
+      required: ["id", "edits"]
+    }
+  },
+  {
+    name: "tagMemories",
+    description: "Add and/or remove tags on one or more memories.",
+    parameters: { type: 'object', properties: { ids, add: { type: 'array', items: { type: 'string' } }, remove: { type: 'array', items: { type: 'string' } }, reasoning }, required: ["ids"] }
+  },
+  {
+    name: "editMetadata",
+    description: "Change the title, description, location or mood of a memory.",
+    parameters: {
+      type: 'object',
+      properties: { id: { type: 'string' }, title: { type: 'string' }, description: { type: 'string' }, location: { type: 'string' }, mood: { type: 'string' }, reasoning },
+      required: ["id"]
+    }
+  },
+  {
+    name: "arrangeMemories",
+    description: "Move memories on the canvas into one cluster: at x/y, next to the memory `nearId`, or where the first of them is.",
+    parameters: { type: 'object', properties: { ids, x: { type: 'number' }, y: { type: 'number' }, nearId: { type: 'string' }, reasoning }, required: ["ids"] }
+  },
+  {
+    name: "mergeMemories",
+    description: "Merge textual memories into the first one listed: contents are joined, tags combined, and the others deleted.",
+    parameters: { type: 'object', properties: { ids, title: { type: 'string' }, reasoning }, required: ["ids"] }
+  },
+  {
+    name: "deleteMemories",
+    description: "Permanently delete memories.",
+    parameters: { type: 'object', properties: { ids, reasoning }, required: ["ids", "reasoning"] }
+  }
+];
+
+const systemPrompt = (memories: RecallFile[], sources: Citation[]) => {
+  const catalogue = [...memories]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, CATALOGUE_LIMIT)
+    .map(m => ({ id: m.id, title: m.title, type: m.type, tags: m.metadata.tags, date: new Date(m.createdAt).toISOString().slice(0, 10) }));
+  const passages = sources.length
+    ? sources.map(s => `[${s.label}] memory ${s.memoryId} "${s.title}"\n${s.passage}`).join('\n\n')
+    : 'None found.';
+  return `You are the Recall OS Agent. You help users manage their memories.
+Use the tools to act on the library; you will see each tool's result and can take further steps.
+Changes to the library wait for the user's approval. If the user rejects one, do not retry it; ask what they want instead.
+When the task is done, reply to the user in plain text.
+Cite the passages below inline with their label, e.g. "The bill was $82 [S2].", for every fact taken from them. Never invent labels.
+LIBRARY (${memories.length} memories${memories.length > CATALOGUE_LIMIT ? `, ${CATALOGUE_LIMIT} most recent listed; use searchMemories for the rest` : ''}):
+${JSON.stringify(catalogue)}
+RELEVANT PASSAGES:
+${passages}`;
+};
+
+/** Labelled passages for the command, from anywhere in the library. */
+const retrieveSources = async (query: string, memories: RecallFile[]): Promise<Citation[]> => {
+  const chunks = await retrieveChunks(query, RETRIEVED_PASSAGES, PASSAGES_PER_MEMORY).catch(error => {
+    console.warn("Retrieval failed", error);
+    return [];
+  });
+  return chunks.flatMap(chunk => {
+    const memory = memories.find(m => m.id === chunk.memoryId);
+    return memory ? [{ memoryId: memory.id, title: memory.title, passage: chunk.text }] : [];
+  }).map((source, i) => ({ label: citationLabel(i + 1), ...source }));
+};
+
+// Labels only mean something for the command they were retrieved for, so old replies lose them.
+// Notices aren't turns of the conversation; replaying them would put two model turns in a row.
+const toMessages = (history: ChatMessage[]): AIMessage[] =>
+  history.filter(m => !m.notice).slice(-HISTORY_LIMIT).map(m =>
+    m.role === 'user' ? { role: 'user', parts: [{ text: m.text }] } : { role: 'model', text: stripCitations(m.text) });
+
+// --- Tools ---
+
+// What a tool call will do: run it, after the user approves `action` when there is one
+interface Plan {
+  action?: Omit<AgentAction, 'id' | 'tool' | 'reasoning'>;
+  run: () => Promise<unknown>;
+}
+
+const REJECTED = { rejected: true, message: "The user rejected this change." };
+
+const excerpt = (text: string, length = 280) => {
+  const plain = text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  return plain.length > length ? `${plain.substring(0, length)}…` : plain;
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v).trim()).filter(Boolean) : [];
+
+const findMemory = (host: AgentHost, id: unknown): RecallFile => {
+  const memory = host.memories().find(m => m.id === id);
+  if (!memory) throw new Error(`No memory with id ${id}`);
+  return memory;
+};
+
+const findMemories = (host: AgentHost, value: unknown): RecallFile[] => {
+  const list = [...new Set<string>(stringList(value))];
+  if (list.length === 0) throw new Error("No memory ids given");
+  return list.map(id => findMemory(host, id));
+};
+
+// Text the agent can edit in place: not media, not a PDF, not spreadsheet JSON
+const editableText = async (memory: RecallFile): Promise<string> => {
+  const content = await resolvePayload(memory.content);
+  if (!usesTextHistory(memory) || isBinaryMemory(memory, content) || isSpreadsheet(content)) {
+    throw new Error(`"${memory.title}" is not a text memory`);
+  }
+  return content;
+};
+
+const readableText = async (memory: RecallFile): Promise<string> => {
+  if (memory.pages) return pdfText(memory);
+  if (memory.transcript) return `[${memory.type}] ${memory.description}\n\nTRANSCRIPT:\n${transcriptText(memory.transcript)}`;
+  if (!usesTextHistory(memory)) return `[${memory.type}] ${memory.description}`;
+  const content = await resolvePayload(memory.content);
+  if (isSpreadsheet(content)) return simplifySpreadsheetForAI(content);
+  return isBinaryMemory(memory, content) ? `[${memory.type}] ${memory.description}` : content;
+};
+
+const searchMemories = async (host: AgentHost, query: string, limit: number) => {
+  const memories = host.memories();
+  const parsed = parseQuery(query);
+  const hits: { memory: RecallFile; score?: number }[] = parsed.ok
+    ? memories.filter(m => matchesQuery(parsed.query, m)).slice(0, limit).map(memory => ({ memory }))
+    : [];
+  if (hits.length < limit) {
+    const semantic = await searchIndex(query).catch(() => []);
+    semantic.forEach(hit => {
+      const memory = memories.find(m => m.id === hit.memoryId);
+      if (memory && hits.length < limit && !hits.some(h => h.memory.id === memory.id)) hits.push({ memory, score: Number(hit.score.toFixed(2)) });
+    });
+  }
+  return hits.map(({ memory, score }) => ({
+    id: memory.id,
+    title: memory.title,
+    type: memory.type,
+    tags: memory.metadata.tags,
+    date: new Date(memory.createdAt).toISOString().slice(0, 10),
+    ...(score !== undefined ? { similarity: score } : {})
+  }));
+};
+
+const describeTags = (add: string[], remove: string[]) =>
+  [...add.map(t => `+${t}`), ...remove.map(t => `−${t}`)].join(' ');
+
+const METADATA_FIELDS = ['title', 'description', 'location', 'mood'] as const;
+type MetadataField = typeof METADATA_FIELDS[number];
+
+const fieldOf = (memory: RecallFile, field: MetadataField) =>
+  field === 'title' || field === 'description' ? memory[field] : memory.metadata[field] || '';
+
+const withField = (memory: RecallFile, field: MetadataField, value: string): RecallFile =>
+  field === 'title' || field === 'description'
+    ? { ...memory, [field]: value }
+    : { ...memory, metadata: { ...memory.metadata, [field]: value } };
+
+// Canvas spot next to a memory, or its own spot
+const anchorOf = (memory: RecallFile | undefined, offset: number): Point | null =>
+  memory && typeof memory.x === 'number' && typeof memory.y === 'number' ? { x: memory.x + offset, y: memory.y } : null;
+
+const joinContents = (contents: string[]) =>
+  contents.some(looksLikeHtml) ? contents.join('\n<hr />\n') : contents.join('\n\n---\n\n');
+
+const plan = async (call: ToolCall, host: AgentHost, sources: Citation[]): Promise<Plan> => {
+  const args = call.args;
+  const author = 'gemini' as const;
+  switch (call.name) {
+    case 'searchMemories': {
+      const limit = Math.max(1, Math.min(50, Number(args.limit) || DEFAULT_SEARCH_LIMIT));
+      return { run: () => searchMemories(host, String(args.query ?? ''), limit) };
+    }
+    case 'readMemory': {
+      const memory = findMemory(host, args.id);
+      return {
+        run: async () => {
+          const text = await readableText(memory);
+          return {
+            id: memory.id,
+            title: memory.title,
+            type: memory.type,
+            description: memory.description,
+            metadata: memory.metadata,
+            attachedTo: memory.attachedTo,
+            content: text.length > MAX_READ_LENGTH ? `${text.substring(0, MAX_READ_LENGTH)}\n[truncated]` : text
+          };
+        }
+      };
+    }
+    case 'createMemory': {
+      const title = String(args.title || 'Untitled');
+      const raw = String(args.content ?? '');
+      // The model writes Markdown unless it answers in markup
+      const contentFormat = looksLikeHtml(raw) ? 'html' : 'markdown';
+      const content = cleanContent(stripCitations(raw), contentFormat);
+      // Memories it names, plus those behind any passages cited in the content
+      const known = new Set<string>(host.memories().map(m => m.id));
+      const sourceIds = [...new Set<string>([...stringList(args.sourceIds), ...collectCitations(raw, sources).map(c => c.memoryId)])].filter(id => known.has(id));
+      return {
+        action: {
+          summary: `Create "${title}"`,
+          destructive: false,
+          changes: [{ title, after: excerpt(content) }, ...sourceIds.map(id => ({ memoryId: id, title: findMemory(host, id).title, before: 'Source' }))]
+        },
+        run: async () => {
+          const now = Date.now();
+          const memory: RecallFile = {
+            id: crypto.randomUUID(),
+            title,
+            description: args.reasoning || '',
+            type: args.type === RecallType.DOCUMENT ? RecallType.DOCUMENT : RecallType.TEXT,
+            content,
+            contentFormat,
+            thumbnail: '',
+            createdAt: now,
+            updatedAt: now,
+            metadata: { tags: stringList(args.tags).length ? stringList(args.tags) : ['agent-created'], mood: 'neutral', sourceApp: 'Agent Core' },
+            ...(sourceIds.length ? { sourceIds } : {}),
+            history: [{ id: crypto.randomUUID(), timestamp: now, description: 'Generated by Agent', author, content }]
+          };
+          host.addMemory(memory);
+          return { created: memory.id, title: memory.title, sourceIds };
+        }
+      };
+    }
+    case 'updateMemoryContent': {
+      const memory = findMemory(host, args.id);
+      const before = await editableText(memory);
+      const next = cleanContent(String(args.newContent ?? ''), formatOf(memory, before));
+      return {
+        action: { summary: `Rewrite "${memory.title}"`, destructive: false, changes: [{ memoryId: memory.id, title: memory.title, before: excerpt(before), after: excerpt(next) }] },
+        run: async () => {
+          const current = findMemory(host, memory.id);
+          host.updateMemories([await commitVersion(current, next, { description: args.reasoning || 'Updated by agent', author })]);
+          return { updated: memory.id };
+        }
+      };
+    }
+    case 'editSpreadsheetCells': {
+      const memory = findMemory(host, args.id);
+      const workbook = parseWorkbook(await resolvePayload(memory.content));
+      if (!workbook) throw new Error(`"${memory.title}" is not a spreadsheet`);
+      const edits = cellEditsFrom(args.edits, workbook.sheets[0].name);
+      if (!edits.length) throw new Error("No cell edits given");
+      const inputAt = (edit: CellEdit) => {
+        const sheet = workbook.sheets.find(s => s.name.toLowerCase() === edit.sheet.toLowerCase());
+        const at = parseAddress(edit.cell);
+        return sheet && at ? cellInput(sheet.rows[at.row]?.[at.col]) : '';
+      };
+      return {
+        action: {
+          summary: `Edit ${edits.length} cell${edits.length === 1 ? '' : 's'} in "${memory.title}"`,
+          destructive: false,
+          changes: edits.map(e => ({ memoryId: memory.id, title: `${e.sheet}!${e.cell.toUpperCase()}`, before: inputAt(e) || undefined, after: e.input || undefined }))
+        },
+        run: async () => {
+          const current = findMemory(host, memory.id);
+          const latest = parseWorkbook(await resolvePayload(current.content)) || workbook;
+          const next = serializeWorkbook(applyCellEdits(latest, edits));
+          host.updateMemories([await commitVersion(current, next, { description: args.reasoning || `Edited ${edits.length} cell${edits.length === 1 ? '' : 's'}`, author })]);
+          return { updated: memory.id, cells: edits.length };
+        }
+      };
+    }
+    case 'tagMemories': {
+      const targets = findMemories(host, args.ids);
+      const add = stringList(args.add);
+      const remove = stringList(args.remove);
+      if (!add.length && !remove.length) throw new Error("No tags to add or remove");
+      const retag = (m: RecallFile) => [...new Set<string>([...m.metadata.tags.filter(t => !remove.includes(t)), ...add])];
+      return {
+        action: {
+          summary: `Tag ${targets.length} memor${targets.length === 1 ? 'y' : 'ies'}: ${describeTags(add, remove)}`,
+          destructive: false,
+          changes: targets.map(m => ({ memoryId: m.id, title: m.title, before: m.metadata.tags.join(', '), after: retag(m).join(', ') }))
+        },
+        run: async () => {
+          const updated = await Promise.all(targets.map(t => {
+            const current = findMemory(host, t.id);
+            return recordChange({ ...current, metadata: { ...current.metadata, tags: retag(current) } }, { description: `Tags ${describeTags(add, remove)}`, author });
+          }));
+          host.updateMemories(updated);
+          return { updated: updated.map(m => ({ id: m.id, tags: m.metadata.tags })) };
+        }
+      };
+    }
+    case 'editMetadata': {
+      const memory = findMemory(host, args.id);
+      const fields = METADATA_FIELDS.filter(f => typeof args[f] === 'string' && args[f] !== fieldOf(memory, f));
+      if (!fields.length) throw new Error("Nothing to change");
+      return {
+        action: {
+          summary: `Edit ${fields.join(', ')} of "${memory.title}"`,
+          destructive: false,
+          changes: fields.map(f => ({ memoryId: memory.id, title: `${memory.title} · ${f}`, before: excerpt(fieldOf(memory, f)), after: excerpt(args[f]) }))
+        },
+        run: async () => {
+          const edited = fields.reduce((m, f) => withField(m, f, args[f]), findMemory(host, memory.id));
+          host.updateMemories([await recordChange(edited, { description: `Edited ${fields.join(', ')}`, author })]);
+          return { updated: memory.id, fields };
+        }
+      };
+    }
+    case 'arrangeMemories': {
+      const targets = findMemories(host, args.ids);
+      const near = args.nearId ? findMemory(host, args.nearId) : undefined;
+      const anchor: Point = typeof args.x === 'number' && typeof args.y === 'number'
+        ? { x: args.x, y: args.y }
+        : anchorOf(near, 200) || anchorOf(targets.find(t => typeof t.x === 'number'), 0) || { x: 100, y: 100 };
+      const positions = layoutAsGroup(targets.map(t => t.id), anchor);
+      const where = near ? `next to "${near.title}"` : `at ${Math.round(anchor.x)}, ${Math.round(anchor.y)}`;
+      return {
+        action: {
+          summary: `Move ${targets.length} memor${targets.length === 1 ? 'y' : 'ies'} ${where}`,
+          destructive: false,
+          changes: targets.map(t => ({ memoryId: t.id, title: t.title }))
+        },
+        run: async () => {
+          const moved = await Promise.all(targets.map(t => {
+            const current = findMemory(host, t.id);
+            return recordChange({ ...current, ...positions.get(t.id) }, { description: `Moved on canvas ${where}`, author });
+          }));
+          host.updateMemories(moved);
+          return { moved: moved.map(m => ({ id: m.id, x: m.x, y: m.y })) };
+        }
+      };
+    }
+    case 'mergeMemories': {
+      const [target, ...sources] = findMemories(host, args.ids);
+      if (!sources.length) throw new Error("Merging needs at least two memories");
+      const contents = await Promise.all([target, ...sources].map(editableText));
+      const contentFormat = contents.some(looksLikeHtml) ? 'html' : formatOf(target, contents[0]);
+      const merged = cleanContent(joinContents(contents), contentFormat);
+      const title = String(args.title || target.title);
+      return {
+        action: {
+          summary: `Merge ${sources.length + 1} memories into "${title}"`,
+          destructive: true,
+          changes: [
+            { memoryId: target.id, title, before: excerpt(contents[0]), after: excerpt(merged) },
+            ...sources.map(s => ({ memoryId: s.id, title: s.title, after: 'Deleted after merging' }))
+          ]
+        },
+        run: async () => {
+          const current = findMemory(host, target.id);
+          const sourceIds = sources.map(s => s.id);
+          const tags = [...new Set<string>([target, ...sources].flatMap(m => m.metadata.tags))];
+          const combined = await commitVersion(
+            { ...current, title, contentFormat, metadata: { ...current.metadata, tags } },
+            merged,
+            { description: args.reasoning || `Merged ${sources.map(s => `"${s.title}"`).join(', ')}`, author }
+          );
+          // Links to the merged memories (attachments, sources) now point at the one that remains
+          const relink = (id: string) => (sourceIds.includes(id) ? target.id : id);
+          const reattached = host.memories()
+            .filter(m => m.id !== target.id && ((m.attachedTo && sourceIds.includes(m.attachedTo)) || m.sourceIds?.some(id => sourceIds.includes(id))))
+            .map(m => ({
+              ...m,
+              ...(m.attachedTo ? { attachedTo: relink(m.attachedTo) } : {}),
+              ...(m.sourceIds ? { sourceIds: [...new Set<string>(m.sourceIds.map(relink))] } : {})
+            }));
+          host.updateMemories([combined, ...reattached]);
+          host.deleteMemories(sourceIds);
+          return { merged: target.id, deleted: sourceIds };
+        }
+      };
+    }
+    case 'deleteMemories': {
+      const targets = findMemories(host, args.ids);
+      return {
+        action: {
+          summary: `Delete ${targets.length} memor${targets.length === 1 ? 'y' : 'ies'}`,
+          destructive: true,
+          changes: targets.map(t => ({ memoryId: t.id, title: t.title, before: excerpt(t.description) }))
+        },
+        run: async () => {
+          host.deleteMemories(targets.map(t => t.id));
+          return { deleted: targets.map(t => t.id) };
+        }
+      };
+    }
+    default:
+      throw new Error(`Unknown tool ${call.name}`);
+  }
+};
+
+const execute = async (call: ToolCall, host: AgentHost, sources: Citation[]): Promise<AgentToolCall> => {
+  const { action, run } = await plan(call, host, sources);
+  if (!action) return { name: call.name, args: call.args, result: await run() };
+  const approved = await host.approve({ id: crypto.randomUUID(), tool: call.name, reasoning: call.args.reasoning, ...action });
+  if (!approved) return { name: call.name, args: call.args, result: REJECTED, approval: 'rejected' };
+  return { name: call.name, args: call.args, result: await run(), approval: 'approved' };
+};
+
+// Settles like `promise`, or rejects as soon as the run is stopped
+const unlessStopped = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Runs one user command to completion; `onStep` sees the trace grow while the loop runs.
+ * Aborting `signal` ends the run after the tool call in progress; the host is expected to
+ * reject its pending approvals at the same time.
+ */
+export const runAgent = async (
+  command: string,
+  history: ChatMessage[],
+  host: AgentHost,
+  onStep?: (trace: AgentStep[]) => void,
+  signal?: AbortSignal
+): Promise<AgentReply> => {
+  const provider = getAIProvider();
+  const memories = host.memories();
+  // A follow-up like "and in March?" retrieves better with the question before it
+  const previous = history.filter(m => m.role === 'user').slice(-1).map(m => m.text);
+  const sources = await retrieveSources([...previous, command].join('\n'), memories);
+  const system = systemPrompt(memories, sources);
+  const messages: AIMessage[] = [...toMessages(history), { role: 'user', parts: [{ text: command }] }];
+  const trace: AgentStep[] = [];
+  const reply = (text: string): AgentReply => ({ text, trace, citations: collectCitations(text, sources) });
+
+  try {
+    for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+      const turn = await unlessStopped(provider.generateWithTools(system, messages, TOOLS), signal);
+      if (turn.toolCalls.length === 0) return reply(turn.text || "I'm standing by.");
+
+      messages.push({ role: 'model', text: turn.text, toolCalls: turn.toolCalls });
+      const calls: AgentToolCall[] = [];
+      const results: ToolResult[] = [];
+      for (const call of turn.toolCalls) {
+        try {
+          const done = await execute(call, host, sources);
+          calls.push(done);
+          results.push({ callId: call.id, name: call.name, result: done.result });
+        } catch (e) {
+          const error = e instanceof Error ? e.message : String(e);
+          calls.push({ name: call.name, args: call.args, error });
+          results.push({ callId: call.id, name: call.name, result: { error } });
+        }
+        onStep?.([...trace, { thought: turn.text || undefined, calls: [...calls] }]);
+        if (signal?.aborted) {
+          trace.push({ thought: turn.text || undefined, calls });
+          signal.throwIfAborted();
+        }
+      }
+      trace.push({ thought: turn.text || undefined, calls });
+      onStep?.([...trace]);
+      messages.push({ role: 'tool', results });
+    }
+
+    // Out of steps: one last turn without tools so the user still gets an answer
+    messages.push({ role: 'user', parts: [{ text: `Step limit of ${MAX_AGENT_STEPS} reached. Summarize what was done and what is left.` }] });
+    const final = await unlessStopped(provider.generateWithTools(system, messages, []), signal);
+    return reply(final.text || `Stopped after ${MAX_AGENT_STEPS} steps.`);
+  } catch (error) {
+    if (signal?.aborted) return reply(trace.length ? `Stopped after ${trace.length} step${trace.length === 1 ? '' : 's'}.` : "Stopped.");
+    console.error("Agent failed", error);
+    return reply(trace.length ? `Neural link lost after ${trace.length} steps.` : "Neural link offline.");
+  }
+};
@@ -0,0 +1,90 @@
+import { AISettings, loadAISettings, storeAISettings } from "./aiSettings";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+/**
+ * Backend-neutral model interface. geminiService and the embedding pipeline talk
+ * to whichever provider is active; the provider is chosen at runtime in Settings.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface ToolDeclaration {
+  name: string;
+  description?: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  signature?: string; // opaque provider state to send back with the call, e.g. Gemini's thought signature
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  result: unknown;
+}
+
+export type AIMessage =
+  | { role: 'user'; parts: ContentPart[] }
+  | { role: 'model'; text?: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; results: ToolResult[] };
+
+export interface ToolTurn {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface AIProvider {
+  kind: AISettings['provider'];
+  label: string;
+  /** Single-shot generation constrained to `schema`, parsed as JSON. */
+  generateJSON: <T = any>(parts: ContentPart[], schema: JsonSchema) => Promise<T>;
+  /** Returns the edited image as base64. */
+  editImage: (imageBase64: string, mimeType: string, instruction: string) => Promise<string>;
+  /** One model turn over a conversation, possibly requesting tool calls. */
+  generateWithTools: (system: string, messages: AIMessage[], tools: ToolDeclaration[]) => Promise<ToolTurn>;
+  /** One vector per input text, in order. */
+  embed: (texts: string[]) => Promise<number[][]>;
+  /** Stable id of the embedding space, so vectors from different models are never compared. */
+  embeddingModelId: string;
+  isConfigured: boolean;
+}
+
+let settings: AISettings = loadAISettings();
+let activeProvider: AIProvider | null = null;
+
+const createProvider = (s: AISettings): AIProvider => {
+  switch (s.provider) {
+    case 'openai': return createOpenAICompatibleProvider(s.openai);
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider(s.gemini);
+  }
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createProvider(settings);
+  return activeProvider;
+};
+
+export const getAISettings = (): AISettings => settings;
+
+export const updateAISettings = (next: AISettings): void => {
+  settings = next;
+  activeProvider = null;
+  storeAISettings(next);
+};
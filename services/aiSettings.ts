@@ -0,0 +1,68 @@
+/**
+ * Runtime model configuration, persisted in localStorage so keys and models
+ * can be changed from the Settings panel without rebuilding.
+ */
+export interface GeminiSettings {
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+  embeddingModel: string;
+}
+
+export interface OpenAICompatibleSettings {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  apiKey: string;
+  textModel: string;
+  imageModel: string; // blank disables image editing
+  embeddingModel: string;
+}
+
+export interface AISettings {
+  provider: 'gemini' | 'openai' | 'mock';
+  gemini: GeminiSettings;
+  openai: OpenAICompatibleSettings;
+  ingestConcurrency: number; // files analyzed at once when several are dropped
+}
+
+const AI_SETTINGS_KEY = 'recall_ai_settings';
+
+export const MAX_INGEST_CONCURRENCY = 8;
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  gemini: {
+    apiKey: '',
+    textModel: 'gemini-3-flash-preview',
+    imageModel: 'gemini-2.5-flash-image',
+    embeddingModel: 'text-embedding-004'
+  },
+  openai: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    textModel: 'llama3.1',
+    imageModel: '',
+    embeddingModel: 'nomic-embed-text'
+  },
+  ingestConcurrency: 3
+};
+
+export const clampConcurrency = (n: number) =>
+  Math.min(MAX_INGEST_CONCURRENCY, Math.max(1, Math.round(n) || DEFAULT_AI_SETTINGS.ingestConcurrency));
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || '{}');
+    return {
+      provider: saved.provider || DEFAULT_AI_SETTINGS.provider,
+      gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...saved.gemini },
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...saved.openai },
+      ingestConcurrency: clampConcurrency(saved.ingestConcurrency ?? DEFAULT_AI_SETTINGS.ingestConcurrency)
+    };
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const storeAISettings = (settings: AISettings): void => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
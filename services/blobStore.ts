@@ -0,0 +1,210 @@
+import { RecallFile, RecallType, SemanticDiff } from "../types";
+import { OBJECT_STORES, requestToPromise, withTransaction } from "./database";
+
+/**
+ * Content-addressed payload storage.
+ * Large payloads are stored once as Blobs keyed by the SHA-256 of their string form;
+ * records keep a `recall-blob:<hash>` reference in place of the payload itself.
+ */
+export const BLOB_REF_PREFIX = 'recall-blob:';
+
+export type BlobRef = `recall-blob:${string}`;
+
+// Text below this size stays inline; binary payloads are always externalized
+const TEXT_INLINE_LIMIT = 16 * 1024;
+const HASH_CACHE_LIMIT = 64;
+const RESOLVE_CACHE_LIMIT = 32;
+
+export interface BlobRecord {
+  id: string;
+  blob: Blob;
+  encoding: 'base64' | 'text';
+  size: number;
+  createdAt: number;
+}
+
+export const isBlobRef = (value?: string): value is BlobRef =>
+  typeof value === 'string' && value.startsWith(BLOB_REF_PREFIX);
+
+const hashCache = new Map<string, string>();
+const resolveCache = new Map<string, Promise<string>>();
+
+const remember = <V>(cache: Map<string, V>, key: string, value: V, limit: number) => {
+  cache.delete(key);
+  cache.set(key, value);
+  if (cache.size > limit) cache.delete(cache.keys().next().value as string);
+};
+
+export const hashString = async (value: string): Promise<string> => {
+  const cached = hashCache.get(value);
+  if (cached) return cached;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  remember(hashCache, value, hex, HASH_CACHE_LIMIT);
+  return hex;
+};
+
+const looksLikeBase64 = (value: string) =>
+  value.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(value);
+
+export const base64ToBlob = (value: string, type = ''): Blob => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const isBinaryMemory = (memory: RecallFile, value: string) =>
+  memory.type === RecallType.IMAGE ||
+  memory.type === RecallType.AUDIO ||
+  memory.type === RecallType.VIDEO ||
+  value.startsWith('JVBER');
+
+export interface FileType {
+  extension: string;
+  mime: string;
+}
+
+const startsWith = (bytes: Uint8Array, text: string, at = 0) =>
+  Array.from(text).every((char, i) => bytes[at + i] === char.charCodeAt(0));
+
+/** The file type of base64 content, from its first bytes. */
+export const sniffFileType = (memory: RecallFile, base64: string): FileType => {
+  const bytes = Uint8Array.from(atob(base64.slice(0, 24)), c => c.charCodeAt(0));
+  if (startsWith(bytes, '%PDF')) return { extension: 'pdf', mime: 'application/pdf' };
+  if (startsWith(bytes, '\x89PNG')) return { extension: 'png', mime: 'image/png' };
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return { extension: 'jpg', mime: 'image/jpeg' };
+  if (startsWith(bytes, 'GIF8')) return { extension: 'gif', mime: 'image/gif' };
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) return { extension: 'webp', mime: 'image/webp' };
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) return { extension: 'wav', mime: 'audio/wav' };
+  if (startsWith(bytes, 'OggS')) return { extension: 'ogg', mime: memory.type === RecallType.VIDEO ? 'video/ogg' : 'audio/ogg' };
+  if (startsWith(bytes, 'fLaC')) return { extension: 'flac', mime: 'audio/flac' };
+  if (startsWith(bytes, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) return { extension: 'mp3', mime: 'audio/mpeg' };
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return { extension: 'webm', mime: memory.type === RecallType.AUDIO ? 'audio/webm' : 'video/webm' };
+  if (startsWith(bytes, 'ftyp', 4)) {
+    if (startsWith(bytes, 'qt', 8)) return { extension: 'mov', mime: 'video/quicktime' };
+    return memory.type === RecallType.AUDIO ? { extension: 'm4a', mime: 'audio/mp4' } : { extension: 'mp4', mime: 'video/mp4' };
+  }
+  if (memory.type === RecallType.IMAGE) return { extension: 'jpg', mime: 'image/jpeg' };
+  if (memory.type === RecallType.AUDIO) return { extension: 'mp3', mime: 'audio/mpeg' };
+  if (memory.type === RecallType.VIDEO) return { extension: 'mp4', mime: 'video/mp4' };
+  return { extension: 'bin', mime: 'application/octet-stream' };
+};
+
+/**
+ * Builds the blob record for a payload and returns its reference.
+ */
+const preparePayload = async (value: string, binary: boolean): Promise<BlobRecord> => {
+  const id = BLOB_REF_PREFIX + await hashString(value);
+  const asBase64 = binary && looksLikeBase64(value);
+  const blob = asBase64 ? base64ToBlob(value) : new Blob([value], { type: 'text/plain' });
+  return { id, blob, encoding: asBase64 ? 'base64' : 'text', size: blob.size, createdAt: Date.now() };
+};
+
+/**
+ * Replaces the heavy fields of a memory (content, thumbnail, history snapshots)
+ * with blob references. Returns the slimmed record plus the blobs it needs.
+ */
+export const externalizeMemory = async (memory: RecallFile): Promise<{ record: RecallFile; blobs: BlobRecord[] }> => {
+  const blobs = new Map<string, BlobRecord>();
+
+  const externalize = async (value: string | undefined, binary: boolean): Promise<string | undefined> => {
+    if (!value || isBlobRef(value)) return value;
+    if (!binary && value.length < TEXT_INLINE_LIMIT) return value;
+    const blob = await preparePayload(value, binary);
+    blobs.set(blob.id, blob);
+    return blob.id;
+  };
+
+  const content = await externalize(memory.content, isBinaryMemory(memory, memory.content));
+  const thumbnail = await externalize(memory.thumbnail, true);
+  const history: SemanticDiff[] = [];
+  for (const diff of memory.history) {
+    history.push({
+      ...diff,
+      content: await externalize(diff.content, !!diff.content && isBinaryMemory(memory, diff.content)),
+      previewImage: await externalize(diff.previewImage, true)
+    });
+  }
+
+  return {
+    record: { ...memory, content: content || '', thumbnail: thumbnail || '', history },
+    blobs: Array.from(blobs.values())
+  };
+};
+
+/**
+ * Writes blobs inside an open transaction, skipping hashes that are already stored.
+ */
+export const putBlobs = async (tx: IDBTransaction, blobs: BlobRecord[]): Promise<void> => {
+  const store = tx.objectStore(OBJECT_STORES.blobs);
+  await Promise.all(blobs.map(async blob => {
+    const existing = await requestToPromise(store.getKey(blob.id));
+    if (existing === undefined) await requestToPromise(store.put(blob));
+  }));
+};
+
+/**
+ * Resolves a payload to its string form. Non-reference values are returned unchanged.
+ */
+export const resolvePayload = (value: string): Promise<string> => {
+  if (!isBlobRef(value)) return Promise.resolve(value);
+  const cached = resolveCache.get(value);
+  if (cached) return cached;
+
+  const pending = withTransaction(OBJECT_STORES.blobs, 'readonly', tx =>
+    requestToPromise<BlobRecord | undefined>(tx.objectStore(OBJECT_STORES.blobs).get(value))
+  ).then(record => {
+    if (!record) throw new Error(`Missing blob ${value}`);
+    return record.encoding === 'base64' ? blobToBase64(record.blob) : record.blob.text();
+  });
+  pending.catch(() => resolveCache.delete(value));
+  remember(resolveCache, value, pending, RESOLVE_CACHE_LIMIT);
+  return pending;
+};
+
+/**
+ * Returns the memory with its current content resolved, for consumers that need raw text.
+ */
+export const hydrateContent = async (memory: RecallFile): Promise<RecallFile> =>
+  isBlobRef(memory.content) ? { ...memory, content: await resolvePayload(memory.content) } : memory;
+
+const collectRefs = (memory: RecallFile, into: Set<string>) => {
+  [memory.content, memory.thumbnail].forEach(v => { if (isBlobRef(v)) into.add(v); });
+  memory.history.forEach(diff => {
+    if (isBlobRef(diff.content)) into.add(diff.content);
+    if (isBlobRef(diff.previewImage)) into.add(diff.previewImage);
+  });
+};
+
+/**
+ * Mark-and-sweep over the stored library: deletes every blob no memory references.
+ * Runs in one transaction with the memories store so it cannot race a pending write.
+ * Returns the number of bytes freed.
+ */
+export const collectGarbage = (): Promise<number> =>
+  withTransaction([OBJECT_STORES.memories, OBJECT_STORES.blobs], 'readwrite', async tx => {
+    const memories = await requestToPromise<RecallFile[]>(tx.objectStore(OBJECT_STORES.memories).getAll());
+    const live = new Set<string>();
+    memories.forEach(m => collectRefs(m, live));
+
+    const blobStore = tx.objectStore(OBJECT_STORES.blobs);
+    const records = await requestToPromise<BlobRecord[]>(blobStore.getAll());
+    let freed = 0;
+    await Promise.all(records.filter(r => !live.has(r.id)).map(r => {
+      freed += r.size;
+      resolveCache.delete(r.id);
+      return requestToPromise(blobStore.delete(r.id));
+    }));
+    return freed;
+  });
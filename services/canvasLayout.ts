@@ -0,0 +1,307 @@
+import { RecallFile } from "../types";
+
+/**
+ * Canvas placement helpers. Coordinates are the top-left corner of a MemoryCard
+ * in canvas space; cards are roughly CARD_WIDTH x CARD_HEIGHT including the caption.
+ */
+export const CARD_WIDTH = 160;
+export const CARD_HEIGHT = 200;
+const GAP = 40;
+const ORIGIN = { x: 100, y: 100 };
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const hasPosition = (m: RecallFile) => typeof m.x === 'number' && typeof m.y === 'number';
+
+export const tagOverlap = (a: RecallFile, b: RecallFile): number => {
+  const tags = new Set(a.metadata.tags.map(t => t.toLowerCase()));
+  return b.metadata.tags.filter(t => tags.has(t.toLowerCase())).length;
+};
+
+// Cards closer than this on both axes overlap
+const CELL_WIDTH = CARD_WIDTH + GAP / 2;
+const CELL_HEIGHT = CARD_HEIGHT + GAP / 2;
+
+/**
+ * Placed cards bucketed into overlap-sized grid cells, so a card only has to be checked
+ * against the cards in its own and the eight neighbouring cells.
+ */
+interface Occupancy {
+  cells: Map<number, Point[]>;
+  count: number;
+  maxX: number;
+  minY: number;
+  searched: Map<string, number>; // per spiral center, the innermost ring that may still be free
+}
+
+// Unique for cell rows within a million of the origin, far beyond any real canvas
+const cellKey = (cx: number, cy: number) => cx * 2 ** 21 + cy;
+
+const occupy = (occupancy: Occupancy, p: Point) => {
+  const key = cellKey(Math.floor(p.x / CELL_WIDTH), Math.floor(p.y / CELL_HEIGHT));
+  const cell = occupancy.cells.get(key);
+  if (cell) cell.push(p); else occupancy.cells.set(key, [p]);
+  occupancy.count++;
+  occupancy.maxX = Math.max(occupancy.maxX, p.x);
+  occupancy.minY = Math.min(occupancy.minY, p.y);
+};
+
+const occupancyOf = (memories: RecallFile[]): Occupancy => {
+  const occupancy: Occupancy = { cells: new Map(), count: 0, maxX: -Infinity, minY: Infinity, searched: new Map() };
+  memories.forEach(m => { if (hasPosition(m)) occupy(occupancy, { x: m.x as number, y: m.y as number }); });
+  return occupancy;
+};
+
+const collides = (p: Point, occupancy: Occupancy) => {
+  const cx = Math.floor(p.x / CELL_WIDTH);
+  const cy = Math.floor(p.y / CELL_HEIGHT);
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      const cell = occupancy.cells.get(cellKey(cx + dx, cy + dy));
+      if (cell?.some(q => Math.abs(q.x - p.x) < CELL_WIDTH && Math.abs(q.y - p.y) < CELL_HEIGHT)) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Walks a square spiral of card-sized cells around `center` until a free cell is found.
+ * Cards are only ever added to an occupancy, so rings found full stay full and later
+ * searches from the same center resume where the last one stopped.
+ */
+const findFreeSpot = (center: Point, occupancy: Occupancy): Point => {
+  const stepX = CARD_WIDTH + GAP;
+  const stepY = CARD_HEIGHT + GAP;
+  const key = `${center.x},${center.y}`;
+  const first = occupancy.searched.get(key) || 0;
+  if (first === 0 && !collides(center, occupancy)) return center;
+  for (let ring = Math.max(1, first); ring < 200; ring++) {
+    occupancy.searched.set(key, ring);
+    for (let dx = -ring; dx <= ring; dx++) {
+      // Only the ring itself: every cell of its left and right columns, the ends of the others
+      const dyStep = Math.abs(dx) === ring ? 1 : 2 * ring;
+      for (let dy = -ring; dy <= ring; dy += dyStep) {
+        const candidate = { x: center.x + dx * stepX, y: center.y + dy * stepY };
+        if (!collides(candidate, occupancy)) return candidate;
+      }
+    }
+  }
+  return { x: center.x, y: center.y + occupancy.count * stepY };
+};
+
+const placeAmong = (memory: RecallFile, positioned: RecallFile[], occupancy: Occupancy): Point => {
+  if (positioned.length === 0) return ORIGIN;
+
+  // The three with the most shared tags, earliest first on ties, in one pass
+  const related: { o: RecallFile; overlap: number }[] = [];
+  const tags = new Set(memory.metadata.tags.map(t => t.toLowerCase()));
+  positioned.forEach(o => {
+    const overlap = o.metadata.tags.filter(t => tags.has(t.toLowerCase())).length;
+    if (overlap === 0 || (related.length === 3 && overlap <= related[2].overlap)) return;
+    const at = related.findIndex(r => r.overlap < overlap);
+    related.splice(at < 0 ? related.length : at, 0, { o, overlap });
+    if (related.length > 3) related.pop();
+  });
+
+  if (related.length === 0) {
+    return findFreeSpot({ x: occupancy.maxX + (CARD_WIDTH + GAP) * 2, y: occupancy.minY }, occupancy);
+  }
+
+  const weight = related.reduce((sum, r) => sum + r.overlap, 0);
+  const center = {
+    x: related.reduce((sum, r) => sum + (r.o.x as number) * r.overlap, 0) / weight,
+    y: related.reduce((sum, r) => sum + (r.o.y as number) * r.overlap, 0) / weight
+  };
+  return findFreeSpot(center, occupancy);
+};
+
+/**
+ * Picks a spot for `memory` next to the positioned memories it shares the most tags with,
+ * or beside the existing layout when nothing is related.
+ */
+export const placeNearRelated = (memory: RecallFile, others: RecallFile[]): Point => {
+  const positioned = others.filter(o => o.id !== memory.id && hasPosition(o));
+  return placeAmong(memory, positioned, occupancyOf(positioned));
+};
+
+/**
+ * Gives every unpositioned memory a spot, placing them one at a time so later
+ * memories can cluster around earlier ones. Returns the same array if nothing changed.
+ */
+export const placeUnpositioned = (memories: RecallFile[]): RecallFile[] => {
+  if (memories.every(hasPosition)) return memories;
+  const result = [...memories];
+  const positioned = result.filter(hasPosition);
+  const occupancy = occupancyOf(positioned);
+  // Oldest first, so clusters grow in the order memories were collected
+  const order = result.map((m, i) => i).sort((a, b) => result[a].createdAt - result[b].createdAt);
+  order.forEach(i => {
+    if (hasPosition(result[i])) return;
+    const spot = placeAmong(result[i], positioned, occupancy);
+    result[i] = { ...result[i], x: spot.x, y: spot.y };
+    positioned.push(result[i]);
+    occupy(occupancy, spot);
+  });
+  return result;
+};
+
+/**
+ * Groups memories by their most widely shared tag and lays each group out as a block,
+ * blocks arranged left to right in rows.
+ */
+export const layoutByTagClusters = (memories: RecallFile[]): Map<string, Point> => {
+  const tagCounts = new Map<string, number>();
+  memories.forEach(m => m.metadata.tags.forEach(t => {
+    const key = t.toLowerCase();
+    tagCounts.set(key, (tagCounts.get(key) || 0) + 1);
+  }));
+
+  const clusters = new Map<string, RecallFile[]>();
+  memories.forEach(m => {
+    const primary = m.metadata.tags
+      .map(t => t.toLowerCase())
+      .sort((a, b) => (tagCounts.get(b) || 0) - (tagCounts.get(a) || 0) || a.localeCompare(b))[0] || '~untagged';
+    clusters.set(primary, [...(clusters.get(primary) || []), m]);
+  });
+
+  const positions = new Map<string, Point>();
+  const sorted = [...clusters.entries()].sort((a, b) => b[1].length - a[1].length);
+  const blocksPerRow = Math.max(1, Math.ceil(Math.sqrt(sorted.length)));
+  let cursorX = ORIGIN.x;
+  let cursorY = ORIGIN.y;
+  let rowHeight = 0;
+
+  sorted.forEach(([, group], blockIndex) => {
+    if (blockIndex > 0 && blockIndex % blocksPerRow === 0) {
+      cursorX = ORIGIN.x;
+      cursorY += rowHeight + GAP * 3;
+      rowHeight = 0;
+    }
+    const cols = Math.max(1, Math.ceil(Math.sqrt(group.length)));
+    const rows = Math.ceil(group.length / cols);
+    group
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .forEach((m, i) => positions.set(m.id, {
+        x: cursorX + (i % cols) * (CARD_WIDTH + GAP),
+        y: cursorY + Math.floor(i / cols) * (CARD_HEIGHT + GAP)
+      }));
+    cursorX += cols * (CARD_WIDTH + GAP) + GAP * 3;
+    rowHeight = Math.max(rowHeight, rows * (CARD_HEIGHT + GAP));
+  });
+
+  return positions;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lays memories out left to right by creation time, one column per day, week or month
+ * depending on the overall span. Empty periods are collapsed so the canvas stays compact.
+ */
+export const layoutByTimeline = (memories: RecallFile[]): Map<string, Point> => {
+  const positions = new Map<string, Point>();
+  if (memories.length === 0) return positions;
+  const sorted = [...memories].sort((a, b) => a.createdAt - b.createdAt);
+  const span = sorted[sorted.length - 1].createdAt - sorted[0].createdAt;
+  const bucketOf = (t: number) => {
+    const d = new Date(t);
+    if (span <= 60 * DAY_MS) return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+    if (span <= 365 * DAY_MS) return `w${Math.floor(t / (7 * DAY_MS))}`;
+    return `${d.getFullYear()}-${d.getMonth()}`;
+  };
+
+  let column = -1;
+  let row = 0;
+  let currentBucket = '';
+  sorted.forEach(m => {
+    const bucket = bucketOf(m.createdAt);
+    if (bucket !== currentBucket) {
+      currentBucket = bucket;
+      column++;
+      row = 0;
+    }
+    positions.set(m.id, {
+      x: ORIGIN.x + column * (CARD_WIDTH + GAP),
+      y: ORIGIN.y + row++ * (CARD_HEIGHT + GAP)
+    });
+  });
+  return positions;
+};
+
+/**
+ * A compact grid of cards starting at `anchor`, in the order given, e.g. to gather memories
+ * into one cluster.
+ */
+export const layoutAsGroup = (ids: string[], anchor: Point): Map<string, Point> => {
+  const perRow = Math.max(1, Math.ceil(Math.sqrt(ids.length)));
+  return new Map<string, Point>(ids.map((id, i) => [id, {
+    x: anchor.x + (i % perRow) * (CARD_WIDTH + GAP),
+    y: anchor.y + Math.floor(i / perRow) * (CARD_HEIGHT + GAP)
+  }]));
+};
+
+/**
+ * One band of rows per RecallType, newest first, wrapping every `perRow` cards.
+ */
+export const layoutByType = (memories: RecallFile[], perRow = 10): Map<string, Point> => {
+  const positions = new Map<string, Point>();
+  const byType = new Map<string, RecallFile[]>();
+  memories.forEach(m => byType.set(m.type, [...(byType.get(m.type) || []), m]));
+
+  let cursorY = ORIGIN.y;
+  [...byType.keys()].sort().forEach(type => {
+    const group = byType.get(type) as RecallFile[];
+    group
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .forEach((m, i) => positions.set(m.id, {
+        x: ORIGIN.x + (i % perRow) * (CARD_WIDTH + GAP),
+        y: cursorY + Math.floor(i / perRow) * (CARD_HEIGHT + GAP)
+      }));
+    cursorY += Math.ceil(group.length / perRow) * (CARD_HEIGHT + GAP) + GAP * 3;
+  });
+  return positions;
+};
+
+export interface Connection {
+  fromId: string;
+  toId: string;
+  strength: number;
+}
+
+/**
+ * Tag-overlap edges via an inverted tag index, so cost scales with shared tags rather
+ * than with every pair of memories. Tags carried by more than `maxTagFanout` memories
+ * are too generic to say anything about relatedness and are skipped.
+ */
+export const buildTagConnections = (memories: RecallFile[], maxTagFanout = 150): Connection[] => {
+  const byTag = new Map<string, number[]>();
+  memories.forEach((m, i) => {
+    new Set(m.metadata.tags.map(t => t.toLowerCase())).forEach(tag => {
+      const list = byTag.get(tag);
+      if (list) list.push(i); else byTag.set(tag, [i]);
+    });
+  });
+
+  const shared = new Map<number, number>();
+  const n = memories.length;
+  byTag.forEach(indices => {
+    if (indices.length < 2 || indices.length > maxTagFanout) return;
+    for (let a = 0; a < indices.length; a++) {
+      for (let b = a + 1; b < indices.length; b++) {
+        const key = indices[a] * n + indices[b];
+        shared.set(key, (shared.get(key) || 0) + 1);
+      }
+    }
+  });
+
+  const connections: Connection[] = [];
+  shared.forEach((count, key) => {
+    const i = Math.floor(key / n);
+    const j = key % n;
+    connections.push({ fromId: memories[i].id, toId: memories[j].id, strength: Math.min(count, 3) });
+  });
+  return connections;
+};
@@ -0,0 +1,106 @@
+import { Citation } from "../types";
+
+/**
+ * Citations in agent replies. Retrieved passages are handed to the model under short
+ * labels (S1, S2, ...) and cited inline as `[S1]`; the reply keeps a `Citation` per label it
+ * used so the marker can open the memory at that passage later.
+ */
+export const citationLabel = (n: number) => `S${n}`;
+
+const MARKER = /\[(S\d+)\]/g;
+
+export type ReplySegment = { text: string } | { citation: Citation };
+
+/** The cited subset of `sources`, in order of first mention. */
+export const collectCitations = (text: string, sources: Citation[]): Citation[] => {
+  const byLabel = new Map<string, Citation>(sources.map(s => [s.label, s]));
+  const cited: Citation[] = [];
+  for (const match of text.matchAll(MARKER)) {
+    const source = byLabel.get(match[1]);
+    if (source && !cited.includes(source)) cited.push(source);
+  }
+  return cited;
+};
+
+/** Splits text into plain runs and citation markers; unknown labels stay as text. */
+export const splitCitations = (text: string, citations: Citation[] = []): ReplySegment[] => {
+  const byLabel = new Map<string, Citation>(citations.map(c => [c.label, c]));
+  const segments: ReplySegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKER)) {
+    const citation = byLabel.get(match[1]);
+    if (!citation) continue;
+    const at = match.index as number;
+    if (at > last) segments.push({ text: text.slice(last, at) });
+    segments.push({ citation });
+    last = at + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+/** Removes citation markers, e.g. from content the agent saves as a memory. */
+export const stripCitations = (text: string) => text.replace(/ ?\[S\d+\]/g, '');
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const PROBE_WORDS = 6;
+
+/**
+ * Short runs of words from a passage to look for in the rendered memory, in passage order,
+ * then its longest word. Passages come from indexed text, so markup and spacing may differ from what is shown;
+ * several probes from different places make it likely one of them matches.
+ */
+export const passageProbes = (passage: string): string[] => {
+  const words = passage.split(/\s+/).filter(w => w.length > 0);
+  const probes: string[] = [];
+  for (let start = 0; start < words.length && probes.length < 8; start += PROBE_WORDS) {
+    const probe = words.slice(start, start + PROBE_WORDS).join(' ');
+    if (probe.length >= 12) probes.push(probe);
+  }
+  const longest = [...words].sort((a, b) => b.length - a.length)[0];
+  if (longest && longest.length >= 6) probes.push(longest);
+  return probes.map(normalize);
+};
+
+/** The first probe that occurs in `text`, if any. */
+export const findProbe = (text: string, probes: string[]): string | undefined => {
+  const haystack = normalize(text);
+  return probes.find(p => haystack.includes(p));
+};
+
+/**
+ * Selects the first probe found in the text under `root` and scrolls it into view.
+ * Returns false when the passage is not there.
+ */
+export const highlightPassage = (root: HTMLElement, probes: string[]): boolean => {
+  // Whitespace-collapsed, lower-cased text of the element, with each character's node and offset
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const positions: { node: Text; offset: number }[] = [];
+  let text = '';
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const value = node.data;
+    for (let i = 0; i < value.length; i++) {
+      const isSpace = /\s/.test(value[i]);
+      if (isSpace && (text.length === 0 || text.endsWith(' '))) continue;
+      text += isSpace ? ' ' : value[i].toLowerCase();
+      positions.push({ node, offset: i });
+    }
+  }
+
+  for (const probe of probes) {
+    const at = text.indexOf(probe);
+    if (at < 0) continue;
+    const start = positions[at];
+    const end = positions[at + probe.length - 1];
+    const range = document.createRange();
+    range.setStart(start.node, start.offset);
+    range.setEnd(end.node, end.offset + 1);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    start.node.parentElement?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    return true;
+  }
+  return false;
+};
@@ -0,0 +1,24 @@
+import { ContentFormat, RecallFile } from "../types";
+import { renderMarkdown } from "./markdown";
+import { escapeHtml, sanitizeHtml } from "./sanitizeHtml";
+
+/**
+ * How the text content of a memory is displayed. Plain text is never parsed as markup,
+ * Markdown is rendered, and HTML is shown through the sanitizer. Memories from before
+ * `contentFormat` existed are treated as HTML when they look like markup.
+ */
+export const looksLikeHtml = (content: string) => /<\/?[a-z][a-z0-9-]*(\s[^>]*)?\/?>/i.test(content);
+
+export const formatOf = (memory: RecallFile, content: string): ContentFormat =>
+  memory.contentFormat || (looksLikeHtml(content) ? 'html' : 'plain');
+
+/** Safe markup for displaying `content` in the given format. */
+export const displayHtml = (content: string, format: ContentFormat): string => {
+  if (format === 'plain') return `<div style="white-space: pre-wrap">${escapeHtml(content)}</div>`;
+  return sanitizeHtml(format === 'markdown' ? renderMarkdown(content) : content);
+};
+
+/** Content as it should be stored: HTML is sanitized on the way in, other formats are text. */
+export const cleanContent = (content: string, format: ContentFormat): string =>
+  format === 'html' ? sanitizeHtml(content) : content;
+
@@ -0,0 +1,86 @@
+/**
+ * Shared IndexedDB connection for Recall OS.
+ * Every persistent store lives in one database; bump DB_VERSION and append to
+ * OBJECT_STORES when a new store is needed.
+ */
+const DB_NAME = 'recall_os';
+const DB_VERSION = 3;
+
+export const OBJECT_STORES = {
+  memories: 'memories',
+  blobs: 'blobs',
+  vectors: 'vectors',
+} as const;
+
+export type ObjectStoreName = typeof OBJECT_STORES[keyof typeof OBJECT_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(OBJECT_STORES).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Recall database upgrade blocked by another tab'));
+  }).catch(error => {
+    dbPromise = null;
+    throw error;
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` inside a single transaction and resolves once it has committed.
+ * Quota failures surface on abort, so the transaction error is what we reject with.
+ */
+export const withTransaction = async <T>(
+  storeNames: ObjectStoreName | ObjectStoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    tx.onerror = () => reject(tx.error);
+  });
+  try {
+    const result = await work(tx);
+    await done;
+    return result;
+  } catch (error) {
+    done.catch(() => {});
+    if (!tx.error) {
+      try { tx.abort(); } catch (e) { /* already finished */ }
+    }
+    throw error;
+  }
+};
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+/**
+ * Converts a storage failure into a short message for the header status line.
+ */
+export const describeStorageError = (error: unknown): string => {
+  if (isQuotaError(error)) return 'Storage Full // Changes Not Saved';
+  if (error instanceof Error && error.message) return `Storage Error // ${error.message}`;
+  return 'Storage Error // Changes Not Saved';
+};
@@ -0,0 +1,155 @@
+import { Deadline, DeadlineKind, RecallFile } from "../types";
+
+/**
+ * Dated obligations (due dates, renewals, expiries) extracted at ingest and kept on
+ * `metadata.deadlines`, plus the reminder rules behind the deadlines panel and browser
+ * notifications.
+ */
+export interface UpcomingDeadline {
+  memoryId: string;
+  memoryTitle: string;
+  deadline: Deadline;
+  dueAt: number; // start of the due day, local time
+  daysLeft: number; // negative once overdue
+}
+
+const DAY_MS = 86400000;
+
+// Reminders start this many days ahead of the due date
+export const REMINDER_LEAD_DAYS = 3;
+
+// An unfinished deadline is re-notified at most this often
+const RENOTIFY_MS = DAY_MS;
+
+export const DEADLINE_KINDS: DeadlineKind[] = ['due', 'renewal', 'expiry', 'other'];
+
+export const SNOOZE_OPTIONS: { label: string; ms: number }[] = [
+  { label: '1 Hour', ms: 3600000 },
+  { label: '1 Day', ms: DAY_MS },
+  { label: '1 Week', ms: 7 * DAY_MS }
+];
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const parseDay = (date: string): number => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+/**
+ * Turns the model's `deadlines` output into records, dropping entries without a
+ * usable date and collapsing repeats of the same obligation.
+ */
+export const toDeadlines = (raw: unknown): Deadline[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const deadlines: Deadline[] = [];
+  raw.forEach((item: any) => {
+    const date = typeof item?.date === 'string' ? item.date.trim().slice(0, 10) : '';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(parseDay(date))) return;
+    const title = typeof item.title === 'string' && item.title.trim() ? item.title.trim() : 'Deadline';
+    const key = `${date}|${title.toLowerCase()}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    deadlines.push({
+      id: crypto.randomUUID(),
+      title,
+      date,
+      kind: DEADLINE_KINDS.includes(item.kind) ? item.kind : 'other',
+      amount: typeof item.amount === 'number' && isFinite(item.amount) ? item.amount : undefined,
+      currency: typeof item.currency === 'string' && item.currency ? item.currency : undefined,
+      status: 'open'
+    });
+  });
+  return deadlines;
+};
+
+/** Every deadline across the library, soonest first. */
+export const collectDeadlines = (memories: RecallFile[], now: number): UpcomingDeadline[] => {
+  const today = startOfDay(now);
+  const items: UpcomingDeadline[] = [];
+  memories.forEach(memory => {
+    (memory.metadata.deadlines || []).forEach(deadline => {
+      const dueAt = parseDay(deadline.date);
+      items.push({ memoryId: memory.id, memoryTitle: memory.title, deadline, dueAt, daysLeft: Math.round((dueAt - today) / DAY_MS) });
+    });
+  });
+  return items.sort((a, b) => a.dueAt - b.dueAt || a.deadline.title.localeCompare(b.deadline.title));
+};
+
+export const isSnoozed = (deadline: Deadline, now: number) => !!deadline.snoozedUntil && deadline.snoozedUntil > now;
+
+/** Open, unsnoozed deadlines that are overdue or within the reminder window. */
+export const isActionable = (item: UpcomingDeadline, now: number) =>
+  item.deadline.status === 'open' && !isSnoozed(item.deadline, now) && item.daysLeft <= REMINDER_LEAD_DAYS;
+
+/** Actionable deadlines that haven't been notified within RENOTIFY_MS. */
+export const dueForReminder = (memories: RecallFile[], now: number): UpcomingDeadline[] =>
+  collectDeadlines(memories, now).filter(item =>
+    isActionable(item, now) && (!item.deadline.notifiedAt || now - item.deadline.notifiedAt >= RENOTIFY_MS));
+
+export const updateDeadline = (memory: RecallFile, id: string, patch: Partial<Deadline>): RecallFile => ({
+  ...memory,
+  updatedAt: Date.now(),
+  metadata: {
+    ...memory.metadata,
+    deadlines: (memory.metadata.deadlines || []).map(d => (d.id === id ? { ...d, ...patch } : d))
+  }
+});
+
+/** Records reminders as sent. Bookkeeping only, so `updatedAt` is left alone. */
+export const markNotified = (memory: RecallFile, ids: string[], at: number): RecallFile => ({
+  ...memory,
+  metadata: {
+    ...memory.metadata,
+    deadlines: (memory.metadata.deadlines || []).map(d => (ids.includes(d.id) ? { ...d, notifiedAt: at } : d))
+  }
+});
+
+/** Clears `notifiedAt` so the reminder fires again as soon as the snooze ends. */
+export const snoozeDeadline = (memory: RecallFile, id: string, ms: number): RecallFile =>
+  updateDeadline(memory, id, { snoozedUntil: Date.now() + ms, notifiedAt: undefined });
+
+export const completeDeadline = (memory: RecallFile, id: string): RecallFile =>
+  updateDeadline(memory, id, { status: 'done', snoozedUntil: undefined });
+
+export const reopenDeadline = (memory: RecallFile, id: string): RecallFile =>
+  updateDeadline(memory, id, { status: 'open' });
+
+/** "in 3 days", "today", "2 days overdue". */
+export const describeDaysLeft = (daysLeft: number): string => {
+  if (daysLeft === 0) return 'today';
+  if (daysLeft === 1) return 'tomorrow';
+  if (daysLeft === -1) return '1 day overdue';
+  return daysLeft > 0 ? `in ${daysLeft} days` : `${-daysLeft} days overdue`;
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows one browser notification for a deadline. Returns false when notifications are
+ * unavailable or not permitted, so the caller can leave the deadline un-notified.
+ */
+export const showDeadlineNotification = (item: UpcomingDeadline, onClick: () => void): boolean => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return false;
+  const notification = new Notification(`${item.deadline.title} — ${describeDaysLeft(item.daysLeft)}`, {
+    body: `${item.deadline.date} • ${item.memoryTitle}`,
+    tag: `recall-deadline-${item.deadline.id}`
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+  return true;
+};
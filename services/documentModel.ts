@@ -0,0 +1,329 @@
+import { ContentFormat } from "../types";
+import { renderMarkdown } from "./markdown";
+import { escapeHtml, sanitizeHtml } from "./sanitizeHtml";
+import { Workbook, columnCount, displayValue } from "./spreadsheet";
+
+/**
+ * A small document model the exporters write from: headings, paragraphs of styled runs,
+ * list items, code, tables, images and rules. Built from a memory's HTML, Markdown, plain
+ * text, workbook or PDF page text, so each output format needs one writer instead of one
+ * per input format.
+ */
+export interface TextRun {
+  text: string; // may contain '\n' for line breaks
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+export type Block =
+  | { kind: 'heading'; level: number; runs: TextRun[] }
+  | { kind: 'paragraph'; runs: TextRun[]; quote?: boolean }
+  | { kind: 'listItem'; ordered: boolean; depth: number; index: number; runs: TextRun[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'table'; rows: string[][]; header: boolean }
+  | { kind: 'image'; src: string; alt: string }
+  | { kind: 'rule' };
+
+type RunStyle = Omit<TextRun, 'text'>;
+
+const BLOCK_TAGS = new Set<string>([
+  'address', 'article', 'aside', 'blockquote', 'details', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary',
+  'table', 'ul'
+]);
+
+const INLINE_STYLES: Record<string, RunStyle> = {
+  b: { bold: true }, strong: { bold: true }, i: { italic: true }, em: { italic: true }, cite: { italic: true },
+  dfn: { italic: true }, var: { italic: true }, u: { underline: true }, ins: { underline: true },
+  s: { strike: true }, strike: { strike: true }, del: { strike: true }, code: { code: true }, kbd: { code: true },
+  samp: { code: true }
+};
+
+const STYLE_KEYS: (keyof RunStyle)[] = ['bold', 'italic', 'underline', 'strike', 'code', 'link'];
+
+const sameStyle = (a: TextRun, b: TextRun) => STYLE_KEYS.every(key => (a[key] || undefined) === (b[key] || undefined));
+
+/** Joins neighbouring runs with the same style and trims the whitespace around a block. */
+const tidyRuns = (runs: TextRun[]): TextRun[] => {
+  const merged: TextRun[] = [];
+  runs.forEach(run => {
+    const last = merged[merged.length - 1];
+    if (last && sameStyle(last, run)) last.text += run.text;
+    else merged.push({ ...run });
+  });
+  merged.forEach(run => { run.text = run.text.replace(/ *\n */g, '\n'); });
+  if (merged.length) {
+    merged[0].text = merged[0].text.replace(/^\s+/, '');
+    merged[merged.length - 1].text = merged[merged.length - 1].text.replace(/\s+$/, '');
+  }
+  return merged.filter(run => run.text);
+};
+
+export const runsText = (runs: TextRun[]) => runs.map(r => r.text).join('');
+
+/** Blocks of a sanitized HTML document. */
+export const blocksFromHtml = (html: string): Block[] => {
+  const doc = new DOMParser().parseFromString(`<body>${sanitizeHtml(html)}</body>`, 'text/html');
+  const blocks: Block[] = [];
+  // Inline content waiting for the paragraph it belongs to; emptied in place, as callers hold on to it
+  const runs: TextRun[] = [];
+  let quote = false;
+
+  const flush = () => {
+    const tidy = tidyRuns(runs);
+    if (tidy.length) blocks.push({ kind: 'paragraph', runs: tidy, quote: quote || undefined });
+    runs.length = 0;
+  };
+
+  // Inline content of `node`; nested lists are left to the caller
+  const inline = (node: Node, style: RunStyle, into: TextRun[], onBlock?: (el: Element) => void) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        into.push({ ...style, text: (child.textContent || '').replace(/\s+/g, ' ') });
+        return;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) return;
+      const el = child as Element;
+      const tag = el.tagName.toLowerCase();
+      if (tag === 'br') into.push({ ...style, text: '\n' });
+      else if (onBlock && (BLOCK_TAGS.has(tag) || tag === 'img')) onBlock(el);
+      else if (tag === 'img') into.push({ ...style, text: el.getAttribute('alt') || '' });
+      else if (tag === 'input' && el.getAttribute('type') === 'checkbox') into.push({ ...style, text: el.hasAttribute('checked') ? '☑ ' : '☐ ' });
+      else {
+        const link = tag === 'a' && el.getAttribute('href') ? { link: el.getAttribute('href') as string } : {};
+        inline(el, { ...style, ...INLINE_STYLES[tag], ...link }, into, onBlock);
+      }
+    });
+  };
+
+  const list = (el: Element, depth: number) => {
+    flush();
+    const ordered = el.tagName.toLowerCase() === 'ol';
+    let index = 0;
+    Array.from(el.children).forEach(item => {
+      if (item.tagName.toLowerCase() !== 'li') { block(item); return; }
+      const nested: Element[] = [];
+      const itemRuns: TextRun[] = [];
+      // Paragraphs inside an item become lines of it
+      const onBlock = (child: Element) => {
+        const tag = child.tagName.toLowerCase();
+        if (tag === 'ul' || tag === 'ol') { nested.push(child); return; }
+        if (tag === 'img') { itemRuns.push({ text: child.getAttribute('alt') || '' }); return; }
+        if (itemRuns.length) itemRuns.push({ text: '\n' });
+        inline(child, {}, itemRuns, onBlock);
+      };
+      inline(item, {}, itemRuns, onBlock);
+      blocks.push({ kind: 'listItem', ordered, depth, index: ++index, runs: tidyRuns(itemRuns) });
+      nested.forEach(n => list(n, depth + 1));
+    });
+  };
+
+  const table = (el: Element) => {
+    flush();
+    const rows = Array.from(el.querySelectorAll('tr')).filter(tr => tr.closest('table') === el);
+    const cells = rows.map(tr => Array.from(tr.children).map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim()));
+    if (cells.length) blocks.push({ kind: 'table', rows: cells, header: !!rows[0].querySelector('th') || !!el.querySelector('thead') });
+  };
+
+  const block = (el: Element) => {
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      const headingRuns: TextRun[] = [];
+      inline(el, {}, headingRuns);
+      const tidy = tidyRuns(headingRuns);
+      if (tidy.length) blocks.push({ kind: 'heading', level: Number(tag[1]), runs: tidy });
+    } else if (tag === 'ul' || tag === 'ol') list(el, 0);
+    else if (tag === 'table') table(el);
+    else if (tag === 'pre') {
+      flush();
+      blocks.push({ kind: 'code', text: (el.textContent || '').replace(/\n$/, '') });
+    } else if (tag === 'hr') {
+      flush();
+      blocks.push({ kind: 'rule' });
+    } else if (tag === 'img') {
+      flush();
+      const src = el.getAttribute('src');
+      if (src) blocks.push({ kind: 'image', src, alt: el.getAttribute('alt') || '' });
+    } else if (tag === 'blockquote') {
+      flush();
+      const outer = quote;
+      quote = true;
+      inline(el, {}, runs, block);
+      flush();
+      quote = outer;
+    } else {
+      flush();
+      inline(el, {}, runs, block);
+      flush();
+    }
+  };
+
+  inline(doc.body, {}, runs, block);
+  flush();
+  return blocks;
+};
+
+/** Blocks of plain text: paragraphs are separated by blank lines. */
+export const blocksFromText = (text: string): Block[] =>
+  text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+    .map(part => part.replace(/^\n+|\s+$/g, ''))
+    .filter(Boolean)
+    .map(part => ({ kind: 'paragraph', runs: [{ text: part }] } as Block));
+
+export const blocksFromContent = (content: string, format: ContentFormat): Block[] => {
+  if (format === 'plain') return blocksFromText(content);
+  return blocksFromHtml(format === 'markdown' ? renderMarkdown(content) : content);
+};
+
+/** A heading and a table of calculated values per sheet. */
+export const blocksFromWorkbook = (workbook: Workbook): Block[] =>
+  workbook.sheets.flatMap(sheet => {
+    const width = columnCount(sheet);
+    const rows = sheet.rows.map(row => Array.from({ length: width }, (_, c) => displayValue(row[c])));
+    const heading: Block = { kind: 'heading', level: 2, runs: [{ text: sheet.name }] };
+    return rows.length ? [heading, { kind: 'table', rows, header: true } as Block] : [heading];
+  });
+
+/** A heading per page, then the page text. */
+export const blocksFromPages = (pages: string[]): Block[] =>
+  pages.flatMap((page, i) => [{ kind: 'heading', level: 2, runs: [{ text: `Page ${i + 1}` }] } as Block, ...blocksFromText(page)]);
+
+// --- Markdown and HTML output ---
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+const runToMarkdown = (run: TextRun): string => {
+  // Markdown emphasis can't start or end with a space, so it goes around the trimmed text
+  const [, lead, body, trail] = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+  if (!body) return run.text;
+  // A code span's fence is longer than any run of backticks inside it
+  const fence = '`'.repeat(Math.max(0, ...(body.match(/`+/g) || []).map(ticks => ticks.length)) + 1);
+  let text = run.code ? (body.includes('`') ? `${fence} ${body} ${fence}` : `${fence}${body}${fence}`) : escapeMarkdown(body).replace(/\n/g, '  \n');
+  if (run.bold) text = `**${text}**`;
+  if (run.italic) text = `_${text}_`;
+  if (run.strike) text = `~~${text}~~`;
+  if (run.link) text = `[${text}](${run.link})`;
+  return lead + text + trail;
+};
+
+const tableCell = (text: string) => escapeMarkdown(text).replace(/\|/g, '\\|') || ' ';
+
+export const blocksToMarkdown = (blocks: Block[]): string => {
+  const out: string[] = [];
+  blocks.forEach((block, i) => {
+    const previous = blocks[i - 1];
+    // List items of one list stay together; everything else is separated by a blank line
+    const separator = previous && !(block.kind === 'listItem' && previous.kind === 'listItem') ? '\n' : '';
+    const runs = (r: TextRun[]) => r.map(runToMarkdown).join('');
+    let text: string;
+    switch (block.kind) {
+      case 'heading': text = `${'#'.repeat(block.level)} ${runs(block.runs).replace(/ {2}\n/g, ' ')}`; break;
+      case 'paragraph': text = block.quote ? runs(block.runs).split('\n').map(l => `> ${l}`).join('\n') : runs(block.runs); break;
+      case 'listItem': text = `${'  '.repeat(block.depth)}${block.ordered ? `${block.index}.` : '-'} ${runs(block.runs).replace(/\n/g, `\n${'  '.repeat(block.depth + 1)}`)}`; break;
+      case 'code': text = `\`\`\`\n${block.text}\n\`\`\``; break;
+      case 'table': {
+        const width = Math.max(1, ...block.rows.map(r => r.length));
+        const row = (cells: string[]) => `| ${Array.from({ length: width }, (_, c) => tableCell(cells[c] || '')).join(' | ')} |`;
+        const [head, ...body] = block.header ? block.rows : [Array<string>(width).fill(''), ...block.rows];
+        text = [row(head), `| ${Array<string>(width).fill('---').join(' | ')} |`, ...body.map(row)].join('\n');
+        break;
+      }
+      case 'image': text = `![${escapeMarkdown(block.alt)}](${block.src})`; break;
+      case 'rule': text = '---'; break;
+    }
+    out.push(separator + text);
+  });
+  return out.join('\n') + '\n';
+};
+
+const runToHtml = (run: TextRun): string => {
+  let html = escapeHtml(run.text).replace(/\n/g, '<br />');
+  if (run.code) html = `<code>${html}</code>`;
+  if (run.bold) html = `<strong>${html}</strong>`;
+  if (run.italic) html = `<em>${html}</em>`;
+  if (run.underline) html = `<u>${html}</u>`;
+  if (run.strike) html = `<del>${html}</del>`;
+  if (run.link) html = `<a href="${escapeHtml(run.link)}">${html}</a>`;
+  return html;
+};
+
+export const blocksToHtml = (blocks: Block[]): string => {
+  const out: string[] = [];
+  const openLists: string[] = [];
+  const closeListsTo = (depth: number) => {
+    while (openLists.length > depth) out.push(`</li></${openLists.pop()}>`);
+  };
+  blocks.forEach(block => {
+    if (block.kind === 'listItem') {
+      const tag = block.ordered ? 'ol' : 'ul';
+      closeListsTo(block.depth + 1);
+      if (openLists.length === block.depth + 1 && (block.index === 1 || openLists[block.depth] !== tag)) closeListsTo(block.depth);
+      if (openLists.length === block.depth + 1) out.push('</li>');
+      while (openLists.length <= block.depth) {
+        openLists.push(tag);
+        out.push(`<${tag}>`);
+      }
+      out.push(`<li>${block.runs.map(runToHtml).join('')}`);
+      return;
+    }
+    closeListsTo(0);
+    switch (block.kind) {
+      case 'heading': out.push(`<h${block.level}>${block.runs.map(runToHtml).join('')}</h${block.level}>`); break;
+      case 'paragraph': out.push(block.quote ? `<blockquote><p>${block.runs.map(runToHtml).join('')}</p></blockquote>` : `<p>${block.runs.map(runToHtml).join('')}</p>`); break;
+      case 'code': out.push(`<pre><code>${escapeHtml(block.text)}</code></pre>`); break;
+      case 'table': {
+        const [head, ...body] = block.header ? block.rows : [null, ...block.rows];
+        const row = (cells: string[], tag: string) => `<tr>${cells.map(c => `<${tag}>${escapeHtml(c)}</${tag}>`).join('')}</tr>`;
+        out.push(`<table>${head ? `<thead>${row(head, 'th')}</thead>` : ''}<tbody>${body.map(r => row(r as string[], 'td')).join('')}</tbody></table>`);
+        break;
+      }
+      case 'image': out.push(`<p><img src="${escapeHtml(block.src)}" alt="${escapeHtml(block.alt)}" /></p>`); break;
+      case 'rule': out.push('<hr />'); break;
+    }
+  });
+  closeListsTo(0);
+  return out.join('\n');
+};
+
+// --- Images ---
+
+export interface LoadedImage {
+  bytes: Uint8Array;
+  type: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+/**
+ * The pixels of an image block as PNG or JPEG, the two formats both PDF and DOCX accept;
+ * anything else is redrawn as PNG. Only data URLs are embedded: remote images are not
+ * fetched, and null is returned for them (and for images that fail to decode).
+ */
+export const loadImage = async (src: string): Promise<LoadedImage | null> => {
+  const match = src.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  try {
+    const raw = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+    const bytes = Uint8Array.from(raw, c => c.charCodeAt(0));
+    const bitmap = await createImageBitmap(new Blob([bytes], { type: match[1] }));
+    const { width, height } = bitmap;
+    if (match[1] === 'image/png' || match[1] === 'image/jpeg') {
+      bitmap.close();
+      return { bytes, type: match[1] === 'image/png' ? 'png' : 'jpeg', width, height };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return png ? { bytes: new Uint8Array(await png.arrayBuffer()), type: 'png', width, height } : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,278 @@
+import { Block, TextRun, loadImage } from "./documentModel";
+import { ZipFile, writeZip } from "./zipArchive";
+
+/**
+ * Writes the document model as a Word (.docx) file: WordprocessingML parts zipped by hand,
+ * with built-in heading, quote and code styles, real numbered and bulleted lists, tables
+ * with a repeating header row, and embedded images.
+ */
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// A4 with 1" margins, in twentieths of a point; images are sized in EMU (914400 per inch)
+const PAGE = { width: 11906, height: 16838, margin: 1440 };
+const EMU_PER_TWIP = 635;
+const EMU_PER_PIXEL = 9525;
+const MAX_IMAGE_WIDTH = (PAGE.width - 2 * PAGE.margin) * EMU_PER_TWIP;
+const MAX_IMAGE_HEIGHT = (PAGE.height - 2 * PAGE.margin) * EMU_PER_TWIP * 0.8;
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters are not allowed in XML at all
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const BULLETS = ['•', '◦', '▪'];
+const NUMBER_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+const levels = (ordered: boolean) =>
+  Array.from({ length: 9 }, (_, level) => `
+    <w:lvl w:ilvl="${level}">
+      <w:start w:val="1"/>
+      <w:numFmt w:val="${ordered ? NUMBER_FORMATS[level % 3] : 'bullet'}"/>
+      <w:lvlText w:val="${ordered ? `%${level + 1}.` : BULLETS[level % 3]}"/>
+      <w:lvlJc w:val="left"/>
+      <w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>
+    </w:lvl>`).join('');
+
+const heading = (level: number, size: number) => `
+  <w:style w:type="paragraph" w:styleId="Heading${level}">
+    <w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr>
+  </w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  ${[32, 28, 24, 22, 22, 22].map((size, i) => heading(i + 1, size)).join('')}
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="BFBFBF"/></w:pBdr><w:ind w:left="360"/></w:pPr>
+    <w:rPr><w:i/><w:color w:val="595959"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Code">
+    <w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr>
+    <w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="ListParagraph">
+    <w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr>
+  </w:style>
+  <w:style w:type="character" w:styleId="Hyperlink">
+    <w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr>
+  </w:style>
+  <w:style w:type="character" w:styleId="CodeChar">
+    <w:name w:val="Code Char"/><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/></w:rPr>
+  </w:style>
+  <w:style w:type="table" w:styleId="TableGrid">
+    <w:name w:val="Table Grid"/>
+    <w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>
+    <w:tblPr>
+      <w:tblBorders>
+        <w:top w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:left w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>
+        <w:bottom w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:right w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>
+        <w:insideH w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>
+      </w:tblBorders>
+      <w:tblCellMar><w:left w:w="100" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar>
+    </w:tblPr>
+  </w:style>
+</w:styles>`;
+
+/**
+ * Collects the parts of the package while the body is written: link and image relationships,
+ * numbering instances (each ordered list restarts at 1) and the media files.
+ */
+class DocxPackage {
+  relationships: string[] = [];
+  media: ZipFile[] = [];
+  orderedLists: { numId: number; level: number }[] = [];
+  private drawings = 0;
+
+  addRelationship(type: string, target: string, external = false): string {
+    const id = `rId${this.relationships.length + 3}`; // rId1 and rId2 are styles and numbering
+    this.relationships.push(`<Relationship Id="${id}" Type="${REL_TYPE}/${type}" Target="${escapeXml(target)}"${external ? ' TargetMode="External"' : ''}/>`);
+    return id;
+  }
+
+  newOrderedList(level: number): number {
+    const numId = this.orderedLists.length + 2; // numId 1 is shared by all bullet lists
+    this.orderedLists.push({ numId, level });
+    return numId;
+  }
+
+  addImage(bytes: Uint8Array, type: 'png' | 'jpeg'): { relId: string; drawingId: number } {
+    const name = `image${this.media.length + 1}.${type === 'png' ? 'png' : 'jpeg'}`;
+    this.media.push({ name: `word/media/${name}`, data: bytes });
+    return { relId: this.addRelationship('image', `media/${name}`), drawingId: ++this.drawings };
+  }
+}
+
+const runXml = (run: TextRun): string => {
+  const props = [
+    run.code && !run.link ? '<w:rStyle w:val="CodeChar"/>' : '',
+    run.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    run.strike ? '<w:strike/>' : '',
+    run.underline && !run.link ? '<w:u w:val="single"/>' : ''
+  ].join('');
+  const text = run.text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${text}</w:r>`;
+};
+
+const runsXml = (runs: TextRun[], pkg: DocxPackage): string =>
+  runs.map(run => {
+    if (!run.link) return runXml(run);
+    if (run.link.startsWith('#')) return `<w:hyperlink w:anchor="${escapeXml(run.link.slice(1))}">${runXml(run)}</w:hyperlink>`;
+    return `<w:hyperlink r:id="${pkg.addRelationship('hyperlink', run.link, true)}">${runXml(run)}</w:hyperlink>`;
+  }).join('');
+
+const paragraph = (content: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+const tableXml = (rows: string[][], header: boolean): string => {
+  const width = Math.max(1, ...rows.map(r => r.length));
+  const column = Math.floor((PAGE.width - 2 * PAGE.margin) / width);
+  const body = rows.map((cells, r) => {
+    const isHeader = header && r === 0;
+    const tcs = Array.from({ length: width }, (_, c) => {
+      const run = runXml({ text: cells[c] || '', bold: isHeader });
+      return `<w:tc><w:tcPr><w:tcW w:w="${column}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : ''}</w:tcPr>${paragraph(run)}</w:tc>`;
+    }).join('');
+    return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${tcs}</w:tr>`;
+  }).join('');
+  const grid = Array.from({ length: width }, () => `<w:gridCol w:w="${column}"/>`).join('');
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr><w:tblGrid>${grid}</w:tblGrid>${body}</w:tbl>${paragraph('')}`;
+};
+
+const imageXml = async (block: Extract<Block, { kind: 'image' }>, pkg: DocxPackage): Promise<string> => {
+  const image = await loadImage(block.src);
+  // Images that can't be embedded are kept as a link to where they were
+  if (!image) return paragraph(runsXml([{ text: block.alt || block.src, link: /^https?:/i.test(block.src) ? block.src : undefined }], pkg));
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / (image.width * EMU_PER_PIXEL), MAX_IMAGE_HEIGHT / (image.height * EMU_PER_PIXEL));
+  const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+  const { relId, drawingId } = pkg.addImage(image.bytes, image.type);
+  return paragraph(`<w:r><w:drawing>
+    <wp:inline distT="0" distB="0" distL="0" distR="0">
+      <wp:extent cx="${cx}" cy="${cy}"/>
+      <wp:docPr id="${drawingId}" name="Picture ${drawingId}" descr="${escapeXml(block.alt)}"/>
+      <a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+        <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
+          <pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">
+            <pic:nvPicPr><pic:cNvPr id="${drawingId}" name="Picture ${drawingId}"/><pic:cNvPicPr/></pic:nvPicPr>
+            <pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>
+            <pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>
+          </pic:pic>
+        </a:graphicData>
+      </a:graphic>
+    </wp:inline>
+  </w:drawing></w:r>`);
+};
+
+const bodyXml = async (blocks: Block[], pkg: DocxPackage): Promise<string> => {
+  const out: string[] = [];
+  // Numbering instance of the ordered list open at each depth
+  const orderedAt: number[] = [];
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading':
+        out.push(paragraph(runsXml(block.runs, pkg), `<w:pStyle w:val="Heading${block.level}"/>`));
+        break;
+      case 'paragraph':
+        out.push(paragraph(runsXml(block.runs, pkg), block.quote ? '<w:pStyle w:val="Quote"/>' : ''));
+        break;
+      case 'listItem': {
+        const level = Math.min(block.depth, 8);
+        if (block.ordered && (block.index === 1 || !orderedAt[level])) orderedAt[level] = pkg.newOrderedList(level);
+        const numId = block.ordered ? orderedAt[level] : 1;
+        out.push(paragraph(runsXml(block.runs, pkg), `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`));
+        break;
+      }
+      case 'code':
+        out.push(paragraph(runXml({ text: block.text }), '<w:pStyle w:val="Code"/>'));
+        break;
+      case 'table':
+        out.push(tableXml(block.rows, block.header));
+        break;
+      case 'image':
+        out.push(await imageXml(block, pkg));
+        break;
+      case 'rule':
+        out.push(paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="BFBFBF"/></w:pBdr>'));
+        break;
+    }
+  }
+  return out.join('\n');
+};
+
+export const blocksToDocx = async (blocks: Block[], title: string): Promise<Blob> => {
+  const pkg = new DocxPackage();
+  const body = await bodyXml(blocks, pkg);
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+  <w:body>
+${body}
+    <w:sectPr><w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/><w:pgMar w:top="${PAGE.margin}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin}" w:left="${PAGE.margin}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`;
+
+  const numbering = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}">
+  <w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels(false)}</w:abstractNum>
+  <w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels(true)}</w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  ${pkg.orderedLists.map(l => `<w:num w:numId="${l.numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="${l.level}"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`).join('\n  ')}
+</w:numbering>`;
+
+  const documentRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>
+  <Relationship Id="rId2" Type="${REL_TYPE}/numbering" Target="numbering.xml"/>
+  ${pkg.relationships.join('\n  ')}
+</Relationships>`;
+
+  const packageRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+  const core = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(title)}</dc:title>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>`;
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="png" ContentType="image/png"/>
+  <Default Extension="jpeg" ContentType="image/jpeg"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+  return writeZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: packageRels },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/numbering.xml', data: numbering },
+    { name: 'word/_rels/document.xml.rels', data: documentRels },
+    ...pkg.media
+  ], DOCX_MIME_TYPE);
+};
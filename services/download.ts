@@ -0,0 +1,21 @@
+/**
+ * Saves a Blob through a temporary object URL.
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a title into something safe to use as a file name.
+ */
+export const toFileName = (title: string, extension: string): string => {
+  const base = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 80) || 'recall';
+  return `${base}.${extension}`;
+};
@@ -0,0 +1,100 @@
+import { RecallFile, RecallType } from "../types";
+import { getAIProvider } from "./aiProvider";
+import { LOCAL_DIMENSIONS, localEmbed } from "./localEmbedding";
+import { transcriptText } from "./mediaTranscript";
+import { parseWorkbook, workbookToText } from "./spreadsheet";
+
+/**
+ * Pluggable text embedding. Vectors from different providers are not comparable,
+ * so every stored vector is tagged with the id of the provider that produced it.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  embed: (texts: string[]) => Promise<number[][]>;
+}
+
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 120;
+const REMOTE_BATCH_SIZE = 50;
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: `local-hash-${LOCAL_DIMENSIONS}`,
+  embed: async (texts) => texts.map(localEmbed)
+};
+
+/**
+ * Embeddings from the active AI provider, batched to stay under request limits.
+ */
+const remoteEmbeddingProvider = (): EmbeddingProvider => {
+  const ai = getAIProvider();
+  return {
+    id: ai.embeddingModelId,
+    embed: async (texts) => {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += REMOTE_BATCH_SIZE) {
+        vectors.push(...await ai.embed(texts.slice(i, i + REMOTE_BATCH_SIZE)));
+      }
+      return vectors;
+    }
+  };
+};
+
+/**
+ * The active provider's embeddings when it is configured and the browser is online,
+ * otherwise the local fallback.
+ */
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  const ai = getAIProvider();
+  return (ai.isConfigured && ai.kind !== 'mock' && navigator.onLine) ? remoteEmbeddingProvider() : localEmbeddingProvider;
+};
+
+export const getEmbeddingProviderById = (id: string): EmbeddingProvider | undefined => {
+  if (id === localEmbeddingProvider.id) return localEmbeddingProvider;
+  return getAIProvider().embeddingModelId === id ? remoteEmbeddingProvider() : undefined;
+};
+
+/**
+ * Plain text used for indexing: spreadsheets are flattened, markup is stripped, PDFs
+ * contribute their extracted page text, audio and video their transcript, and other binary
+ * payloads nothing beyond title/description/tags.
+ */
+export const extractIndexableText = (memory: RecallFile, content: string): string => {
+  const header = [memory.title, memory.description, memory.metadata.tags.join(' ')].filter(Boolean).join('\n');
+  if (memory.transcript?.length) return `${header}\n${transcriptText(memory.transcript)}`;
+  const isTextual = memory.type === RecallType.TEXT || memory.type === RecallType.DOCUMENT || memory.type === RecallType.HYBRID;
+  if (!isTextual) return header;
+  if (content.startsWith('JVBER')) return memory.pages?.length ? `${header}\n${memory.pages.join('\n')}` : header;
+
+  const workbook = parseWorkbook(content);
+  if (workbook) return `${header}\n${workbookToText(workbook)}`;
+  const body = content
+    .replace(/<\/(p|div|tr|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+
+  return `${header}\n${body}`;
+};
+
+/**
+ * Splits text into overlapping windows, preferring to break on whitespace.
+ */
+export const chunkText = (text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] => {
+  const clean = text.trim();
+  if (clean.length <= size) return clean ? [clean] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < clean.length) {
+    let end = Math.min(start + size, clean.length);
+    if (end < clean.length) {
+      const lastSpace = clean.lastIndexOf(' ', end);
+      if (lastSpace > start + size / 2) end = lastSpace;
+    }
+    chunks.push(clean.slice(start, end).trim());
+    if (end >= clean.length) break;
+    start = end - overlap;
+  }
+  return chunks.filter(Boolean);
+};
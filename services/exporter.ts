@@ -0,0 +1,119 @@
+import { RecallFile, RecallType } from "../types";
+import { isBinaryMemory, sniffFileType } from "./blobStore";
+import { displayHtml, formatOf } from "./contentFormat";
+import { blocksToDocx } from "./docxExport";
+import { Block, blocksFromContent, blocksFromPages, blocksFromWorkbook, blocksToHtml, blocksToMarkdown } from "./documentModel";
+import { toFileName } from "./download";
+import { extractPdfText, isPdfContent } from "./pdfDocument";
+import { blocksToPdf } from "./pdfExport";
+import { escapeHtml } from "./sanitizeHtml";
+import { parseWorkbook, workbookToXlsx } from "./spreadsheet";
+
+/**
+ * Export of one version of a memory as a downloadable file. What can be produced depends on
+ * the version's content: documents go to PDF, Word, Markdown and HTML; spreadsheets also to
+ * Excel; images, audio, video and PDFs can be saved as the original file. Exports never
+ * change the memory.
+ */
+export type ExportFormat = 'pdf' | 'docx' | 'markdown' | 'html' | 'xlsx' | 'original';
+
+export interface ExportOption {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+}
+
+const DOCUMENT_OPTIONS: ExportOption[] = [
+  { format: 'pdf', label: 'PDF', extension: 'pdf' },
+  { format: 'docx', label: 'Word', extension: 'docx' },
+  { format: 'markdown', label: 'Markdown', extension: 'md' },
+  { format: 'html', label: 'HTML', extension: 'html' }
+];
+
+const option = (format: ExportFormat) => DOCUMENT_OPTIONS.find(o => o.format === format) as ExportOption;
+
+/** The formats a version with this content can be exported to, best first. */
+export const exportOptions = (memory: RecallFile, content: string): ExportOption[] => {
+  if (parseWorkbook(content)) return [{ format: 'xlsx', label: 'Excel', extension: 'xlsx' }, ...DOCUMENT_OPTIONS];
+  if (isBinaryMemory(memory, content)) {
+    const { extension } = sniffFileType(memory, content);
+    const original: ExportOption = { format: 'original', label: `Original (.${extension})`, extension };
+    if (isPdfContent(content)) return [original, option('docx'), option('markdown'), option('html')];
+    if (memory.type === RecallType.IMAGE) return [original, option('pdf'), option('docx')];
+    return [original];
+  }
+  const format = formatOf(memory, content);
+  // Plain text has no markup to lose, so the text itself is offered as well
+  return format === 'plain' ? [...DOCUMENT_OPTIONS, { format: 'original', label: 'Text', extension: 'txt' }] : DOCUMENT_OPTIONS;
+};
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const blocksOf = async (memory: RecallFile, content: string): Promise<Block[]> => {
+  const workbook = parseWorkbook(content);
+  if (workbook) return blocksFromWorkbook(workbook);
+  if (isPdfContent(content)) return blocksFromPages(await extractPdfText(content));
+  if (memory.type === RecallType.IMAGE) return [{ kind: 'image', src: `data:${sniffFileType(memory, content).mime};base64,${content}`, alt: memory.title }];
+  return blocksFromContent(content, formatOf(memory, content));
+};
+
+const htmlDocument = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { max-width: 48rem; margin: 3rem auto; padding: 0 1.5rem; font: 16px/1.6 system-ui, sans-serif; color: #222; }
+  img { max-width: 100%; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+  th { background: #f2f2f2; }
+  pre, code { background: #f2f2f2; font-family: ui-monospace, monospace; }
+  pre { padding: 0.75rem; overflow-x: auto; }
+  blockquote { margin-left: 0; padding-left: 1rem; border-left: 3px solid #ccc; color: #555; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * The file for `content` (one version of `memory`) in the chosen format. `title` names the
+ * file and is used as the document title.
+ */
+export const exportContent = async (
+  memory: RecallFile,
+  content: string,
+  target: ExportOption,
+  title: string
+): Promise<{ blob: Blob; filename: string }> => {
+  const filename = toFileName(title, target.extension);
+  const textual = !isBinaryMemory(memory, content) && !parseWorkbook(content);
+  const format = formatOf(memory, content);
+
+  switch (target.format) {
+    case 'original': {
+      if (textual) return { blob: new Blob([content], { type: 'text/plain;charset=utf-8' }), filename };
+      return { blob: new Blob([base64ToBytes(content)], { type: sniffFileType(memory, content).mime }), filename };
+    }
+    case 'xlsx': {
+      const workbook = parseWorkbook(content);
+      if (!workbook) throw new Error('Only spreadsheets can be exported to Excel');
+      return { blob: workbookToXlsx(workbook), filename };
+    }
+    case 'markdown': {
+      const markdown = textual && format === 'markdown' ? content : blocksToMarkdown(await blocksOf(memory, content));
+      return { blob: new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), filename };
+    }
+    case 'html': {
+      const body = textual ? displayHtml(content, format) : blocksToHtml(await blocksOf(memory, content));
+      return { blob: new Blob([htmlDocument(title, body)], { type: 'text/html;charset=utf-8' }), filename };
+    }
+    case 'docx':
+      return { blob: await blocksToDocx(await blocksOf(memory, content), title), filename };
+    case 'pdf':
+      return { blob: await blocksToPdf(await blocksOf(memory, content), title), filename };
+  }
+};
@@ -0,0 +1,553 @@
+/**
+ * Spreadsheet formulas: a tokenizer, a recursive-descent parser and an evaluator for the
+ * common subset of Excel syntax (arithmetic, comparison, `&`, `%`, cell and range
+ * references, other sheets via `Sheet!A1` or `'My Sheet'!A1`, and the functions in
+ * FUNCTIONS). Cell values come from a `FormulaContext`, so this module knows nothing about
+ * how workbooks are stored (see services/spreadsheet).
+ */
+export interface FormulaError {
+  error: string; // '#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#CYCLE!' or '#ERROR!'
+}
+
+// null is an empty cell
+export type Scalar = number | string | boolean | null | FormulaError;
+
+export interface FormulaContext {
+  /** The value of a cell, or a #REF! error when the sheet does not exist. Sheet is undefined for the formula's own sheet. */
+  cell: (sheet: string | undefined, row: number, col: number) => Scalar;
+  /** Number of rows in a sheet, used to bound whole-column ranges like A:A. */
+  rowCount: (sheet: string | undefined) => number;
+}
+
+export const formulaError = (error: string): FormulaError => ({ error });
+export const isFormulaError = (value: unknown): value is FormulaError =>
+  typeof value === 'object' && value !== null && typeof (value as FormulaError).error === 'string';
+
+/** Spreadsheet-style column label: 0 → A, 27 → AB. */
+export const columnLabel = (index: number): string => {
+  let label = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    label = String.fromCharCode(65 + rem) + label;
+    n = Math.floor((n - 1) / 26);
+  }
+  return label;
+};
+
+export const columnIndex = (label: string): number =>
+  label.toUpperCase().split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+/** "B3" for row 2, column 1 (both zero-based). */
+export const cellAddress = (row: number, col: number) => `${columnLabel(col)}${row + 1}`;
+
+/** Zero-based position of an address like "B3" or "$B$3", or null. */
+export const parseAddress = (address: string): { row: number; col: number } | null => {
+  const match = address.trim().match(/^\$?([A-Za-z]{1,3})\$?(\d+)$/);
+  if (!match || Number(match[2]) < 1) return null;
+  return { row: Number(match[2]) - 1, col: columnIndex(match[1]) };
+};
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'string' | 'error' | 'ref' | 'name' | 'op' | 'paren' | 'comma';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const SHEET_PREFIX = String.raw`(?:'(?:[^']|'')+'|[A-Za-z_][\w.]*)!`;
+const CELL = String.raw`\$?[A-Za-z]{1,3}\$?\d+`;
+const COLUMN = String.raw`\$?[A-Za-z]{1,3}`;
+// Longest first: cell ranges, whole-column ranges, single cells, each with an optional sheet
+const REF = new RegExp(String.raw`^(?:${SHEET_PREFIX})?(?:${CELL}:${CELL}|${COLUMN}:${COLUMN}|${CELL})(?![\w(!])`);
+const NUMBER = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/;
+const NAME = /^[A-Za-z_][\w.]*/;
+const ERROR = /^#(DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|NULL!)/i;
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const rest = formula.slice(i);
+    const space = rest.match(/^\s+/);
+    if (space) { i += space[0].length; continue; }
+    const push = (type: TokenType, text: string) => { tokens.push({ type, text, start: i, end: i + text.length }); i += text.length; };
+
+    if (rest[0] === '"') {
+      const match = rest.match(/^"(?:[^"]|"")*"/);
+      if (!match) throw new SyntaxError('Unterminated string');
+      push('string', match[0]);
+      continue;
+    }
+    const error = rest.match(ERROR);
+    if (error) { push('error', error[0]); continue; }
+    const ref = rest.match(REF);
+    if (ref) { push('ref', ref[0]); continue; }
+    const number = rest.match(NUMBER);
+    if (number) { push('number', number[0]); continue; }
+    const name = rest.match(NAME);
+    if (name) { push('name', name[0]); continue; }
+    if (rest[0] === '(' || rest[0] === ')') { push('paren', rest[0]); continue; }
+    if (rest[0] === ',' || rest[0] === ';') { push('comma', rest[0]); continue; }
+    const op = OPERATORS.find(o => rest.startsWith(o));
+    if (op) { push('op', op); continue; }
+    throw new SyntaxError(`Unexpected "${rest[0]}"`);
+  }
+  return tokens;
+};
+
+// --- References ---
+
+interface RefPart {
+  row: number; // -1 for a whole column
+  col: number;
+  absRow: boolean;
+  absCol: boolean;
+}
+
+interface Reference {
+  sheet?: string;
+  from: RefPart;
+  to?: RefPart; // set for ranges
+}
+
+const parseRefPart = (text: string): RefPart => {
+  const match = text.match(/^(\$?)([A-Za-z]{1,3})(\$?)(\d*)$/) as RegExpMatchArray;
+  return { absCol: match[1] === '$', col: columnIndex(match[2]), absRow: match[3] === '$', row: match[4] ? Number(match[4]) - 1 : -1 };
+};
+
+const parseReference = (text: string): Reference => {
+  const bang = text.lastIndexOf('!');
+  const sheetText = bang >= 0 ? text.slice(0, bang) : undefined;
+  const sheet = sheetText?.startsWith("'") ? sheetText.slice(1, -1).replace(/''/g, "'") : sheetText;
+  const [from, to] = text.slice(bang + 1).split(':');
+  return { sheet, from: parseRefPart(from), to: to ? parseRefPart(to) : undefined };
+};
+
+const formatRefPart = (part: RefPart) =>
+  `${part.absCol ? '$' : ''}${columnLabel(part.col)}${part.row >= 0 ? `${part.absRow ? '$' : ''}${part.row + 1}` : ''}`;
+
+const quoteSheet = (sheet: string) => (/^[A-Za-z_][\w.]*$/.test(sheet) ? sheet : `'${sheet.replace(/'/g, "''")}'`);
+
+const formatReference = (ref: Reference) =>
+  `${ref.sheet !== undefined ? `${quoteSheet(ref.sheet)}!` : ''}${formatRefPart(ref.from)}${ref.to ? `:${formatRefPart(ref.to)}` : ''}`;
+
+/**
+ * Moves the relative references in a formula as if its cell moved by `rows` and `cols`,
+ * the way copying or sorting a cell does in Excel. References pushed off the grid become #REF!.
+ */
+export const shiftFormula = (formula: string, rows: number, cols: number): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch (e) {
+    return formula;
+  }
+  let out = '';
+  let last = 0;
+  tokens.forEach(token => {
+    if (token.type !== 'ref') return;
+    const ref = parseReference(token.text);
+    const shift = (part: RefPart): RefPart | null => {
+      const row = part.absRow || part.row < 0 ? part.row : part.row + rows;
+      const col = part.absCol ? part.col : part.col + cols;
+      return (part.row >= 0 && row < 0) || col < 0 ? null : { ...part, row, col };
+    };
+    const from = shift(ref.from);
+    const to = ref.to ? shift(ref.to) : undefined;
+    out += formula.slice(last, token.start) + (from && to !== null ? formatReference({ ...ref, from, to }) : '#REF!');
+    last = token.end;
+  });
+  return out + formula.slice(last);
+};
+
+/** Renames the sheet in references to it, e.g. after the sheet itself was renamed. */
+export const renameSheetInFormula = (formula: string, from: string, to: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch (e) {
+    return formula;
+  }
+  let out = '';
+  let last = 0;
+  tokens.forEach(token => {
+    if (token.type !== 'ref') return;
+    const ref = parseReference(token.text);
+    if (ref.sheet === undefined || ref.sheet.toLowerCase() !== from.toLowerCase()) return;
+    out += formula.slice(last, token.start) + formatReference({ ...ref, sheet: to });
+    last = token.end;
+  });
+  return out + formula.slice(last);
+};
+
+// --- Parser ---
+
+type Expr =
+  | { kind: 'value'; value: Scalar }
+  | { kind: 'ref'; ref: Reference }
+  | { kind: 'unary'; op: string; operand: Expr }
+  | { kind: 'percent'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'call'; name: string; args: Expr[] };
+
+// Lowest precedence first
+const BINARY_LEVELS = [['=', '<>', '<', '>', '<=', '>='], ['&'], ['+', '-'], ['*', '/'], ['^']];
+
+const parse = (formula: string): Expr => {
+  const tokens = tokenize(formula);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (text: string) => {
+    if (peek()?.text !== text) throw new SyntaxError(`Expected "${text}"`);
+    pos++;
+  };
+
+  const primary = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new SyntaxError('Unexpected end of formula');
+    switch (token.type) {
+      case 'number': return { kind: 'value', value: Number(token.text) };
+      case 'string': return { kind: 'value', value: token.text.slice(1, -1).replace(/""/g, '"') };
+      case 'error': return { kind: 'value', value: formulaError(token.text.toUpperCase()) };
+      case 'ref': return { kind: 'ref', ref: parseReference(token.text) };
+      case 'name': {
+        const name = token.text.toUpperCase();
+        if (peek()?.text === '(') {
+          pos++;
+          const args: Expr[] = [];
+          if (peek()?.text !== ')') {
+            args.push(comparison());
+            while (peek()?.type === 'comma') { pos++; args.push(comparison()); }
+          }
+          expect(')');
+          return { kind: 'call', name, args };
+        }
+        if (name === 'TRUE' || name === 'FALSE') return { kind: 'value', value: name === 'TRUE' };
+        return { kind: 'value', value: formulaError('#NAME?') };
+      }
+      case 'paren':
+        if (token.text === '(') {
+          const inner = comparison();
+          expect(')');
+          return inner;
+        }
+        break;
+      case 'op':
+        if (token.text === '-' || token.text === '+') return { kind: 'unary', op: token.text, operand: unary() };
+        break;
+    }
+    throw new SyntaxError(`Unexpected "${token.text}"`);
+  };
+
+  const unary = (): Expr => {
+    let expr = primary();
+    while (peek()?.text === '%') { pos++; expr = { kind: 'percent', operand: expr }; }
+    return expr;
+  };
+
+  const level = (index: number): Expr => {
+    if (index === BINARY_LEVELS.length) return unary();
+    let left = level(index + 1);
+    while (peek()?.type === 'op' && BINARY_LEVELS[index].includes(peek().text)) {
+      const op = tokens[pos++].text;
+      left = { kind: 'binary', op, left, right: level(index + 1) };
+    }
+    return left;
+  };
+
+  const comparison = () => level(0);
+
+  const expr = comparison();
+  if (pos < tokens.length) throw new SyntaxError(`Unexpected "${tokens[pos].text}"`);
+  return expr;
+};
+
+// --- Evaluation ---
+
+// Ranges evaluate to their cells, row by row
+type Value = Scalar | Scalar[];
+
+const toNumber = (value: Scalar): number | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const trimmed = value.trim();
+  return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : formulaError('#VALUE!');
+};
+
+export const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+
+const toText = (value: Scalar): string | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return typeof value === 'number' ? formatNumber(value) : value;
+};
+
+const toBoolean = (value: Scalar): boolean | FormulaError => {
+  if (isFormulaError(value)) return value;
+  if (typeof value === 'string') {
+    const upper = value.trim().toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+    return formulaError('#VALUE!');
+  }
+  return Boolean(value);
+};
+
+const numeric = (n: number): Scalar => (Number.isFinite(n) ? n : formulaError('#NUM!'));
+
+const compare = (a: Scalar, b: Scalar): number => {
+  if ((typeof a === 'number' || a === null) && (typeof b === 'number' || b === null)) return ((a as number | null) || 0) - ((b as number | null) || 0);
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  const x = String(toText(a)).toLowerCase();
+  const y = String(toText(b)).toLowerCase();
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+// The cells of all arguments, ranges flattened
+const flatten = (values: Value[]): Scalar[] => values.flatMap(v => (Array.isArray(v) ? v : [v]));
+
+// Numbers for SUM-like functions: text and empty cells inside ranges are skipped, as in Excel
+const numbersOf = (args: Value[]): number[] | FormulaError => {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    for (const value of Array.isArray(arg) ? arg : [arg]) {
+      if (isFormulaError(value)) return value;
+      if (Array.isArray(arg)) {
+        if (typeof value === 'number') numbers.push(value);
+        continue;
+      }
+      const n = toNumber(value);
+      if (isFormulaError(n)) return n;
+      numbers.push(n);
+    }
+  }
+  return numbers;
+};
+
+const scalar = (value: Value): Scalar => {
+  if (!Array.isArray(value)) return value;
+  return value.length === 1 ? value[0] : formulaError('#VALUE!');
+};
+
+// Criteria of SUMIF/COUNTIF: ">5", "<>x", "=x" or a plain value
+const matchesCriterion = (value: Scalar, criterion: Scalar): boolean => {
+  if (isFormulaError(value)) return false;
+  if (typeof criterion !== 'string') return compare(value, criterion) === 0 && value !== null;
+  const match = criterion.match(/^(<=|>=|<>|<|>|=)?(.*)$/) as RegExpMatchArray;
+  const op = match[1] || '=';
+  const operand: Scalar = match[2] !== '' && !isNaN(Number(match[2])) ? Number(match[2]) : match[2];
+  if (typeof operand === 'number' && typeof value !== 'number') return op === '<>';
+  const order = compare(value, operand);
+  switch (op) {
+    case '<': return order < 0;
+    case '>': return order > 0;
+    case '<=': return order <= 0;
+    case '>=': return order >= 0;
+    case '<>': return order !== 0;
+    default: return order === 0;
+  }
+};
+
+const round = (n: number, digits: number, mode: 'round' | 'up' | 'down') => {
+  const factor = Math.pow(10, digits);
+  const scaled = Math.abs(n) * factor;
+  const rounded = mode === 'round' ? Math.round(scaled) : mode === 'up' ? Math.ceil(scaled - 1e-9) : Math.floor(scaled + 1e-9);
+  return Math.sign(n) * rounded / factor;
+};
+
+const withNumbers = (args: Value[], fn: (numbers: number[]) => Scalar): Scalar => {
+  const numbers = numbersOf(args);
+  return isFormulaError(numbers) ? numbers : fn(numbers);
+};
+
+const withTexts = (args: Value[], fn: (texts: string[]) => Scalar): Scalar => {
+  const texts: string[] = [];
+  for (const value of flatten(args)) {
+    const text = toText(value);
+    if (isFormulaError(text)) return text;
+    texts.push(text);
+  }
+  return fn(texts);
+};
+
+// Arguments after the first few scalar ones, as numbers
+const numberArgs = (args: Value[], count: number, fn: (...n: number[]) => Scalar): Scalar => {
+  if (args.length < count) return formulaError('#N/A');
+  const numbers: number[] = [];
+  for (const arg of args.slice(0, count)) {
+    const n = toNumber(scalar(arg));
+    if (isFormulaError(n)) return n;
+    numbers.push(n);
+  }
+  return fn(...numbers);
+};
+
+const FUNCTIONS: Record<string, (args: Value[]) => Scalar> = {
+  SUM: args => withNumbers(args, n => n.reduce((a, b) => a + b, 0)),
+  PRODUCT: args => withNumbers(args, n => n.reduce((a, b) => a * b, 1)),
+  AVERAGE: args => withNumbers(args, n => (n.length ? n.reduce((a, b) => a + b, 0) / n.length : formulaError('#DIV/0!'))),
+  MIN: args => withNumbers(args, n => (n.length ? Math.min(...n) : 0)),
+  MAX: args => withNumbers(args, n => (n.length ? Math.max(...n) : 0)),
+  COUNT: args => flatten(args).filter(v => typeof v === 'number').length,
+  COUNTA: args => flatten(args).filter(v => v !== null && v !== '').length,
+  COUNTBLANK: args => flatten(args).filter(v => v === null || v === '').length,
+  ABS: args => numberArgs(args, 1, n => Math.abs(n)),
+  SQRT: args => numberArgs(args, 1, n => (n < 0 ? formulaError('#NUM!') : Math.sqrt(n))),
+  INT: args => numberArgs(args, 1, n => Math.floor(n)),
+  POWER: args => numberArgs(args, 2, (a, b) => numeric(Math.pow(a, b))),
+  MOD: args => numberArgs(args, 2, (a, b) => (b === 0 ? formulaError('#DIV/0!') : a - b * Math.floor(a / b))),
+  ROUND: args => numberArgs(args.length === 1 ? [...args, 0] : args, 2, (n, d) => round(n, d, 'round')),
+  ROUNDUP: args => numberArgs(args.length === 1 ? [...args, 0] : args, 2, (n, d) => round(n, d, 'up')),
+  ROUNDDOWN: args => numberArgs(args.length === 1 ? [...args, 0] : args, 2, (n, d) => round(n, d, 'down')),
+  AND: args => {
+    const values = flatten(args).filter(v => v !== null);
+    for (const v of values) { const b = toBoolean(v); if (isFormulaError(b)) return b; if (!b) return false; }
+    return true;
+  },
+  OR: args => {
+    const values = flatten(args).filter(v => v !== null);
+    for (const v of values) { const b = toBoolean(v); if (isFormulaError(b)) return b; if (b) return true; }
+    return false;
+  },
+  NOT: args => {
+    const b = toBoolean(scalar(args[0] ?? null));
+    return isFormulaError(b) ? b : !b;
+  },
+  CONCAT: args => withTexts(args, t => t.join('')),
+  CONCATENATE: args => withTexts(args, t => t.join('')),
+  LEN: args => withTexts([scalar(args[0] ?? null)], t => t[0].length),
+  UPPER: args => withTexts([scalar(args[0] ?? null)], t => t[0].toUpperCase()),
+  LOWER: args => withTexts([scalar(args[0] ?? null)], t => t[0].toLowerCase()),
+  TRIM: args => withTexts([scalar(args[0] ?? null)], t => t[0].trim().replace(/\s+/g, ' ')),
+  LEFT: args => withTexts([scalar(args[0] ?? null)], t => {
+    const n = args.length > 1 ? toNumber(scalar(args[1])) : 1;
+    return isFormulaError(n) ? n : t[0].slice(0, Math.max(0, n));
+  }),
+  RIGHT: args => withTexts([scalar(args[0] ?? null)], t => {
+    const n = args.length > 1 ? toNumber(scalar(args[1])) : 1;
+    return isFormulaError(n) ? n : n <= 0 ? '' : t[0].slice(-n);
+  }),
+  MID: args => withTexts([scalar(args[0] ?? null)], t => numberArgs(args.slice(1), 2, (start, length) =>
+    start < 1 || length < 0 ? formulaError('#VALUE!') : t[0].substr(start - 1, length))),
+  SUMIF: args => {
+    if (args.length < 2) return formulaError('#N/A');
+    const range = flatten([args[0]]);
+    const sums = args.length > 2 ? flatten([args[2]]) : range;
+    const criterion = scalar(args[1]);
+    return range.reduce<number>((total, v, i) => (matchesCriterion(v, criterion) && typeof sums[i] === 'number' ? total + (sums[i] as number) : total), 0);
+  },
+  COUNTIF: args => {
+    if (args.length < 2) return formulaError('#N/A');
+    const criterion = scalar(args[1]);
+    return flatten([args[0]]).filter(v => matchesCriterion(v, criterion)).length;
+  }
+};
+
+/** Names of the supported functions, e.g. for the formula bar's hint. */
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS).concat('IF', 'IFERROR').sort();
+
+const evaluateExpr = (expr: Expr, context: FormulaContext): Value => {
+  switch (expr.kind) {
+    case 'value':
+      return expr.value;
+    case 'ref': {
+      const { sheet, from, to } = expr.ref;
+      if (!to) return context.cell(sheet, from.row, from.col);
+      const top = from.row < 0 ? 0 : Math.min(from.row, to.row);
+      const bottom = from.row < 0 ? context.rowCount(sheet) - 1 : Math.max(from.row, to.row);
+      const left = Math.min(from.col, to.col);
+      const right = Math.max(from.col, to.col);
+      const cells: Scalar[] = [];
+      for (let r = top; r <= bottom; r++) {
+        for (let c = left; c <= right; c++) cells.push(context.cell(sheet, r, c));
+      }
+      return cells;
+    }
+    case 'unary': {
+      const n = toNumber(scalar(evaluateExpr(expr.operand, context)));
+      return isFormulaError(n) ? n : expr.op === '-' ? -n : n;
+    }
+    case 'percent': {
+      const n = toNumber(scalar(evaluateExpr(expr.operand, context)));
+      return isFormulaError(n) ? n : n / 100;
+    }
+    case 'binary': {
+      const left = scalar(evaluateExpr(expr.left, context));
+      const right = scalar(evaluateExpr(expr.right, context));
+      if (isFormulaError(left)) return left;
+      if (isFormulaError(right)) return right;
+      if (expr.op === '&') return `${toText(left)}${toText(right)}`;
+      if (['=', '<>', '<', '>', '<=', '>='].includes(expr.op)) {
+        const order = compare(left, right);
+        return { '=': order === 0, '<>': order !== 0, '<': order < 0, '>': order > 0, '<=': order <= 0, '>=': order >= 0 }[expr.op] as boolean;
+      }
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (isFormulaError(a)) return a;
+      if (isFormulaError(b)) return b;
+      switch (expr.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? formulaError('#DIV/0!') : a / b;
+        default: return numeric(Math.pow(a, b));
+      }
+    }
+    case 'call': {
+      // Only the branch that is taken gets evaluated
+      if (expr.name === 'IF') {
+        const condition = toBoolean(scalar(evaluateExpr(expr.args[0] ?? { kind: 'value', value: false }, context)));
+        if (isFormulaError(condition)) return condition;
+        const branch = condition ? expr.args[1] : expr.args[2];
+        return branch ? scalar(evaluateExpr(branch, context)) : condition;
+      }
+      if (expr.name === 'IFERROR') {
+        const value = scalar(evaluateExpr(expr.args[0] ?? { kind: 'value', value: null }, context));
+        return isFormulaError(value) ? scalar(evaluateExpr(expr.args[1] ?? { kind: 'value', value: '' }, context)) : value;
+      }
+      const fn = FUNCTIONS[expr.name];
+      if (!fn) return formulaError('#NAME?');
+      return fn(expr.args.map(a => evaluateExpr(a, context)));
+    }
+  }
+};
+
+/** Evaluates a formula (without its leading "="). Syntax errors give #ERROR!. */
+export const evaluateFormula = (formula: string, context: FormulaContext): Scalar => {
+  let expr: Expr;
+  try {
+    expr = parse(formula);
+  } catch (e) {
+    return formulaError('#ERROR!');
+  }
+  const value = scalar(evaluateExpr(expr, context));
+  return typeof value === 'number' ? numeric(value) : value;
+};
+
+const callsIn = (expr: Expr): string[] => {
+  switch (expr.kind) {
+    case 'unary':
+    case 'percent': return callsIn(expr.operand);
+    case 'binary': return [...callsIn(expr.left), ...callsIn(expr.right)];
+    case 'call': return [expr.name, ...expr.args.flatMap(callsIn)];
+    default: return [];
+  }
+};
+
+/** Whether every function the formula calls is implemented here. Unparseable formulas count as supported. */
+export const supportsFormula = (formula: string): boolean => {
+  try {
+    return callsIn(parse(formula)).every(name => FUNCTION_NAMES.includes(name));
+  } catch (e) {
+    return true;
+  }
+};
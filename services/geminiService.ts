@@ -1,129 +1,111 @@
-import { GoogleGenAI, GenerateContentResponse, FunctionDeclaration, Type } from "@google/genai";
-import { RecallFile, RecallType } from "../types";
+import { ContentFormat, RecallFile, TranscriptSegment } from "../types";
+import { ContentPart, JsonSchema, getAIProvider } from "./aiProvider";
+import { toDeadlines } from "./deadlines";
+import type { ImportedItem } from "./importers";
+import { CellEdit, Workbook, cellEditsFrom, describeWorkbook, parseWorkbook } from "./spreadsheet";
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Models
-const MODEL_FAST = 'gemini-3-flash-preview'; 
-const MODEL_IMAGE = 'gemini-2.5-flash-image'; 
+// Recall operations expressed against the active AIProvider (Gemini by default, see Settings)
 
 /**
- * Helper to strip HTML and convert spreadsheet JSON to a clean text representation for the AI
+ * Spreadsheet content as typed cells for the AI (see describeWorkbook); other content is cut short.
  */
-const simplifySpreadsheetForAI = (content: string): string => {
-  try {
-    if (!content.startsWith('{"appType":"spreadsheet"')) return content.substring(0, 2000);
-    
-    const data = JSON.parse(content);
-    if (data.appType !== 'spreadsheet') return content.substring(0, 2000);
-
-    let summary = "SPREADSHEET DATA (Multiple Tabs):\n";
-    data.sheets.forEach((sheet: any) => {
-      summary += `\n--- SHEET: ${sheet.name} ---\n`;
-      const text = sheet.html
-        .replace(/<\/tr>/g, '\n')
-        .replace(/<\/td>/g, ' | ')
-        .replace(/<[^>]+>/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      summary += text.substring(0, 3000);
-    });
-    return summary;
-  } catch (e) {
-    return content.substring(0, 2000);
-  }
+export const simplifySpreadsheetForAI = (content: string): string => {
+  const workbook = parseWorkbook(content);
+  if (!workbook) return content.substring(0, 2000);
+  return `SPREADSHEET DATA (${workbook.sheets.length} sheet${workbook.sheets.length === 1 ? '' : 's'}):\n${describeWorkbook(workbook)}`;
 };
 
+// Longest text excerpt sent for analysis
+const MAX_ANALYSIS_TEXT = 30000;
+// Largest file sent inline in one request; requests are capped at 20 MB including base64 overhead
+const MAX_INLINE_BYTES = 12 * 1024 * 1024;
+
+/** Whether base64 content is small enough to be sent inline in one request. */
+export const fitsInline = (base64: string) => base64.length * 0.75 <= MAX_INLINE_BYTES;
+
 /**
- * Ingests raw content and creates a structured .recall memory.
+ * Analyzes an imported file (see services/importers) into a structured .recall memory.
+ * Provider failures are thrown so the ingest queue can retry them.
  */
-export const ingestRecall = async (
-  data: string, 
-  mimeType: string,
-  filename: string
-): Promise<Partial<RecallFile>> => {
-  try {
-    const isImage = mimeType.startsWith('image/');
-    const isVideo = mimeType.startsWith('video/');
-    const isAudio = mimeType.startsWith('audio/');
-    const isPdf = mimeType === 'application/pdf';
-    const isSpreadsheet = data.startsWith('{"appType":"spreadsheet"');
-    const isText = mimeType.startsWith('text/') || mimeType.includes('json') || mimeType.includes('javascript') || mimeType.includes('xml') || filename.endsWith('.md') || filename.endsWith('.ts') || filename.endsWith('.tsx');
-    
-    const isSupportedBinary = isImage || isVideo || isAudio || isPdf;
+export const ingestRecall = async (item: ImportedItem): Promise<Partial<RecallFile>> => {
+  const { content, mimeType, fileName: filename, kind, extractedText } = item;
 
-    let prompt = `Analyze this material named "${filename}" for Recall OS. 
-    
-    Generate a JSON object with:
-    1. 'title': A professional title.
-    2. 'description': A deep summary of key findings, figures, and purposes.
-    3. 'tags': 5-8 semantic tags.
-    4. 'mood': Professional tone.
-    5. 'financial': { "amount": number | null, "currency": "USD", "category": string, "entity": string }
-    `;
+  let prompt = `Analyze this material named "${filename}" for Recall OS. 
+  
+  Generate a JSON object with:
+  1. 'title': A professional title.
+  2. 'description': A deep summary of key findings, figures, and purposes.
+  3. 'tags': 5-8 semantic tags.
+  4. 'mood': Professional tone.
+  5. 'financial': { "amount": number | null, "currency": "USD", "date": "YYYY-MM-DD" | null, "category": string, "entity": string }
+  6. 'deadlines': Every dated obligation in the material (payment due dates, renewals, expiries, filing or response deadlines) as
+     [{ "title": short action, "date": "YYYY-MM-DD", "kind": "due" | "renewal" | "expiry" | "other", "amount": number | null, "currency": string | null }].
+     Use an empty array if there are none. Today is ${new Date().toISOString().slice(0, 10)}.
+  `;
 
-    const contents = [];
-    if (isSupportedBinary) {
-      contents.push({ inlineData: { mimeType, data } });
-    } else if (isSpreadsheet) {
-      contents.push({ text: `SPREADSHEET CONTENT (Parsed):\n${simplifySpreadsheetForAI(data)}` });
-    } else if (isText) {
-      contents.push({ text: `FILE CONTENT:\n${data}` });
-    }
-    contents.push({ text: prompt });
-
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: MODEL_FAST,
-      contents: { parts: contents },
-      config: { 
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
+  const contents: ContentPart[] = [];
+  if (kind === 'binary') {
+    // Media too long to send whole (see services/mediaTranscript) is analyzed from its transcript
+    const inline = fitsInline(content) || !extractedText;
+    if (inline) contents.push({ inlineData: { mimeType, data: content } });
+    if (extractedText) contents.push({ text: `EXTRACTED TEXT:\n${extractedText.substring(0, inline ? 8000 : MAX_ANALYSIS_TEXT)}` });
+  } else if (kind === 'spreadsheet') {
+    contents.push({ text: `SPREADSHEET CONTENT (Parsed):\n${simplifySpreadsheetForAI(content)}` });
+  } else {
+    contents.push({ text: `FILE CONTENT:\n${(extractedText || content).substring(0, MAX_ANALYSIS_TEXT)}` });
+  }
+  contents.push({ text: prompt });
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      description: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      mood: { type: 'string' },
+      financial: {
+        type: 'object',
+        properties: {
+          amount: { type: 'number' },
+          currency: { type: 'string' },
+          date: { type: 'string' },
+          category: { type: 'string' },
+          entity: { type: 'string' }
+        },
+        required: ["category", "entity"]
+      },
+      deadlines: {
+        type: 'array',
+        items: {
+          type: 'object',
           properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-            mood: { type: Type.STRING },
-            financial: {
-              type: Type.OBJECT,
-              properties: {
-                amount: { type: Type.NUMBER },
-                currency: { type: Type.STRING },
-                category: { type: Type.STRING },
-                entity: { type: Type.STRING }
-              },
-              required: ["category", "entity"]
-            }
+            title: { type: 'string' },
+            date: { type: 'string' },
+            kind: { type: 'string', enum: ['due', 'renewal', 'expiry', 'other'] },
+            amount: { type: 'number' },
+            currency: { type: 'string' }
           },
-          required: ["title", "description", "tags"]
+          required: ["title", "date"]
         }
       }
-    });
+    },
+    required: ["title", "description", "tags"]
+  };
 
-    const analysis = JSON.parse(response.text || "{}");
-    let type = RecallType.DOCUMENT;
-    if (isImage) type = RecallType.IMAGE;
-    else if (isVideo) type = RecallType.VIDEO;
-    else if (isAudio) type = RecallType.AUDIO;
-    else if (isText) type = RecallType.TEXT;
-
-    return {
-      title: analysis.title || filename,
-      description: analysis.description || "Data successfully ingested.",
-      type: type,
-      metadata: {
-        tags: analysis.tags || [],
-        mood: analysis.mood || "neutral",
-        sourceApp: isSpreadsheet ? "Spreadsheet Engine" : "Recall Core",
-        financial: analysis.financial || {}
-      }
-    };
-  } catch (error) {
-    console.error("Ingestion failed", error);
-    return { title: filename, type: RecallType.DOCUMENT, metadata: { tags: ['file'], mood: 'neutral' } };
-  }
+  const analysis = await getAIProvider().generateJSON(contents, schema);
+
+  return {
+    title: analysis.title || filename,
+    description: analysis.description || "Data successfully ingested.",
+    type: item.typeHint,
+    metadata: {
+      tags: analysis.tags || [],
+      mood: analysis.mood || "neutral",
+      sourceApp: item.sourceApp || "Recall Core",
+      financial: analysis.financial || {},
+      deadlines: toDeadlines(analysis.deadlines)
+    }
+  };
 };
 
 /**
@@ -131,22 +113,11 @@ export const ingestRecall = async (
  */
 export const remixMemory = async (originalImageBase64: string, instruction: string): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_IMAGE,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: "image/jpeg", data: originalImageBase64 } },
-          { text: `Transform this image based strictly on this instruction: ${instruction}. Maintain original composition.` }
-        ]
-      }
-    });
-    let base64Result = "";
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) { base64Result = part.inlineData.data; break; }
-      }
-    }
-    return base64Result;
+    return await getAIProvider().editImage(
+      originalImageBase64,
+      "image/jpeg",
+      `Transform this image based strictly on this instruction: ${instruction}. Maintain original composition.`
+    );
   } catch (error) { throw error; }
 };
 
@@ -166,67 +137,140 @@ export const editMemoryContent = async (
     Output strictly JSON with {content, reasoning}.
     `;
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: MODEL_FAST,
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                content: { type: Type.STRING },
-                reasoning: { type: Type.STRING }
-            },
-            required: ["content", "reasoning"]
-        }
-      }
+    const result = await getAIProvider().generateJSON([{ text: prompt }], {
+      type: 'object',
+      properties: {
+        content: { type: 'string' },
+        reasoning: { type: 'string' }
+      },
+      required: ["content", "reasoning"]
     });
-
-    const result = JSON.parse(response.text || "{}");
     return { content: result.content, reasoning: result.reasoning || "Applied changes" };
   } catch (error) { throw error; }
 };
 
-export type AgentResponse = 
-  | { type: 'chat', message: string }
-  | { type: 'update', id: string, content: string, reasoning: string }
-  | { type: 'create', title: string, memoryType: string, content: string, reasoning: string, sourceIds: string[], tags: string[] };
+/**
+ * Spreadsheet edits as a list of cell changes rather than rewritten content, so formulas
+ * and types survive and the result is recalculated locally (see applyCellEdits).
+ */
+export const editSpreadsheet = async (
+  workbook: Workbook,
+  instruction: string
+): Promise<{ edits: CellEdit[], reasoning: string }> => {
+  const prompt = `Change this spreadsheet according to the instruction: "${instruction}"
 
-export const runAgenticCommand = async (command: string, memories: RecallFile[]): Promise<AgentResponse> => {
-  try {
-    const context = memories.map(m => ({
-      id: m.id,
-      title: m.title,
-      type: m.type,
-      tags: m.metadata.tags,
-      dataPreview: (m.type === RecallType.TEXT || m.type === RecallType.DOCUMENT) ? m.content.substring(0, 1000) : "[Non-Textual]"
-    }));
-
-    const systemPrompt = `You are the Recall OS Agent. You help users manage their memories.
-    SYSTEM STATE:
-    ${JSON.stringify(context)}
-    USER COMMAND: "${command}"`;
-
-    const response = await ai.models.generateContent({
-      model: MODEL_FAST,
-      contents: { parts: [{ text: systemPrompt }] },
-      config: {
-        tools: [{ functionDeclarations: [
-          { name: "updateMemoryContent", parameters: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, newContent: { type: Type.STRING }, reasoning: { type: Type.STRING } } } },
-          { name: "createMemory", parameters: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, type: { type: Type.STRING }, content: { type: Type.STRING }, reasoning: { type: Type.STRING } } } }
-        ] }]
-      }
-    });
+    SPREADSHEET DATA:
+    ${describeWorkbook(workbook)}
+
+    Reply with the cells to change. Each edit names a sheet, a cell address like "B3" and the new input as a user would type it:
+    a number, text, TRUE/FALSE, a date as YYYY-MM-DD, a formula starting with "=" (e.g. "=SUM(B2:B9)"), or "" to clear the cell.
+    Write to a sheet name that doesn't exist yet to create that sheet.
+    Output strictly JSON with {edits, reasoning}.
+    `;
 
-    const candidate = response.candidates?.[0];
-    const toolCall = candidate?.content?.parts?.find(p => p.functionCall)?.functionCall;
+  const result = await getAIProvider().generateJSON([{ text: prompt }], {
+    type: 'object',
+    properties: {
+      edits: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { sheet: { type: 'string' }, cell: { type: 'string' }, input: { type: 'string' } },
+          required: ["sheet", "cell", "input"]
+        }
+      },
+      reasoning: { type: 'string' }
+    },
+    required: ["edits", "reasoning"]
+  });
+  const edits = cellEditsFrom(result.edits, workbook.sheets[0].name);
+  return { edits, reasoning: result.reasoning || `Edited ${edits.length} cell${edits.length === 1 ? '' : 's'}` };
+};
 
-    if (toolCall) {
-      const args = toolCall.args as any;
-      if (toolCall.name === 'updateMemoryContent') return { type: 'update', id: args.id, content: args.newContent, reasoning: args.reasoning };
-      if (toolCall.name === 'createMemory') return { type: 'create', title: args.title, memoryType: args.type, content: args.content, reasoning: args.reasoning, sourceIds: [], tags: [] };
-    }
+// Text around a selection sent along so the rewrite fits in
+const SELECTION_CONTEXT = 1500;
+
+/**
+ * Rewrites only a selected passage. The text before and after it is context; the reply
+ * replaces the selection and nothing else.
+ */
+export const editSelection = async (
+  before: string,
+  selection: string,
+  after: string,
+  instruction: string,
+  format: ContentFormat
+): Promise<{ content: string, reasoning: string }> => {
+  const formatName = format === 'html' ? 'HTML' : format === 'markdown' ? 'Markdown' : 'plain text';
+  const prompt = `Apply the instruction "${instruction}" to the SELECTED passage of a ${formatName} document.
+
+    TEXT BEFORE THE SELECTION (context only):
+    ${before.slice(-SELECTION_CONTEXT)}
+
+    SELECTED PASSAGE:
+    ${selection}
+
+    TEXT AFTER THE SELECTION (context only):
+    ${after.slice(0, SELECTION_CONTEXT)}
 
-    return { type: 'chat', message: response.text || "I'm standing by." };
-  } catch (error) { return { type: 'chat', message: "Neural link offline." }; }
-};
\ No newline at end of file
+    Return in "content" only the replacement for the selected passage, as ${formatName}, so it fits between the surrounding text. Do not repeat the context.
+    Output strictly JSON with {content, reasoning}.
+    `;
+
+  const result = await getAIProvider().generateJSON([{ text: prompt }], {
+    type: 'object',
+    properties: {
+      content: { type: 'string' },
+      reasoning: { type: 'string' }
+    },
+    required: ["content", "reasoning"]
+  });
+  return { content: String(result.content ?? ''), reasoning: result.reasoning || "Edited selection" };
+};
+
+/**
+ * Transcribes one piece of audio (or video) into timed segments, with times in seconds from
+ * the start of the piece. `speakers` are the labels used in earlier pieces of the same
+ * recording and `lastLines` its closing lines, so labels stay consistent across pieces.
+ */
+export const transcribeChunk = async (
+  data: string,
+  mimeType: string,
+  speakers: string[],
+  lastLines: string[]
+): Promise<TranscriptSegment[]> => {
+  const prompt = `Transcribe the speech in this recording verbatim, in its original language.
+
+    Split it into segments of one sentence or short phrase each, in order. For each segment give:
+    'start' and 'end' in seconds from the beginning of this recording (decimals allowed),
+    'speaker' as a consistent label such as "Speaker 1", or the person's name once it is clear from the conversation,
+    and 'text'.
+    ${speakers.length ? `This recording continues an earlier one. Speakers so far: ${speakers.join(', ')}. Reuse these labels for the same voices.` : ''}
+    ${lastLines.length ? `The earlier recording ended with:\n${lastLines.join('\n')}` : ''}
+    Leave out silence and music. Return an empty list if nothing is said.
+    Output strictly JSON with {segments}.
+    `;
+
+  const result = await getAIProvider().generateJSON([{ inlineData: { mimeType, data } }, { text: prompt }], {
+    type: 'object',
+    properties: {
+      segments: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { start: { type: 'number' }, end: { type: 'number' }, speaker: { type: 'string' }, text: { type: 'string' } },
+          required: ["start", "end", "text"]
+        }
+      }
+    },
+    required: ["segments"]
+  });
+  return (Array.isArray(result.segments) ? result.segments : [])
+    .map((s: any) => ({
+      start: Math.max(0, Number(s?.start) || 0),
+      end: Math.max(0, Number(s?.end) || 0),
+      ...(s?.speaker ? { speaker: String(s.speaker).trim() } : {}),
+      text: String(s?.text ?? '').trim()
+    }))
+    .filter((s: TranscriptSegment) => s.text);
+};
@@ -0,0 +1,90 @@
+import { RecallType, TranscriptSegment } from "../types";
+import { MAX_ARCHIVE_BYTES, archiveImporter } from "./importers/archiveImporter";
+import { calendarImporter } from "./importers/calendarImporter";
+import { docxImporter } from "./importers/docxImporter";
+import { emailImporter } from "./importers/emailImporter";
+import { epubImporter } from "./importers/epubImporter";
+import { markdownImporter } from "./importers/markdownImporter";
+import { mediaImporter } from "./importers/mediaImporter";
+import { pdfImporter } from "./importers/pdfImporter";
+import { spreadsheetImporter } from "./importers/spreadsheetImporter";
+import { plainTextImporter, textImporter } from "./importers/textImporter";
+import { extensionOf } from "./importers/fileHelpers";
+
+/**
+ * File importers. Each importer declares the extensions and MIME types it handles and turns
+ * a file into normalized content plus a type hint; analysis and the viewer work from that
+ * instead of re-sniffing the file. Implementations live in services/importers/.
+ */
+
+// How analysis should read `content`
+export type ContentKind =
+  | 'text' // plain text, sent as-is and never displayed as markup
+  | 'markdown' // Markdown source, sent as-is and rendered for display
+  | 'html' // markup, sent as text and sanitized for display
+  | 'spreadsheet' // workbook JSON (see services/spreadsheet)
+  | 'binary'; // base64, sent inline to the model (images, audio, video, PDF)
+
+export interface ImportedItem {
+  fileName: string;
+  mimeType: string;
+  content: string; // base64 for binary payloads, text/HTML/JSON otherwise
+  kind: ContentKind;
+  typeHint: RecallType;
+  sourceApp?: string; // shown in metadata, e.g. "Mail" for .eml
+  extractedText?: string; // text to analyze alongside or instead of the content (PDF pages, e-book text)
+  pages?: string[]; // PDF page text
+  transcript?: TranscriptSegment[]; // audio/video speech, once transcribed (see services/mediaTranscript)
+  thumbnail?: string; // base64 image
+  children?: ImportedItem[]; // e.g. email attachments; stored as memories linked to this one
+}
+
+export interface ImportContext {
+  depth: number; // how many containers deep this file is
+  unpacked: { remaining: number }; // bytes archives may still unpack to, shared by everything inside one dropped file
+  /** Imports a file found inside this one (archive entry, attachment); [] past MAX_IMPORT_DEPTH. */
+  importNested: (file: File) => Promise<ImportedItem[]>;
+}
+
+export interface Importer {
+  id: string;
+  extensions: string[]; // lower case, with the dot
+  mimeTypes: string[]; // exact types, or 'type/*'
+  /** One item per memory to create; archives yield several. */
+  import: (file: File, context: ImportContext) => Promise<ImportedItem[]>;
+}
+
+// Archives inside archives (or attachments of attached emails) are followed this deep
+export const MAX_IMPORT_DEPTH = 3;
+
+// Checked in order; extension matches win over MIME matches so e.g. .md isn't taken as text/plain
+const IMPORTERS: Importer[] = [
+  archiveImporter,
+  epubImporter,
+  emailImporter,
+  calendarImporter,
+  docxImporter,
+  spreadsheetImporter,
+  pdfImporter,
+  markdownImporter,
+  mediaImporter,
+  textImporter
+];
+
+const matchesMimeType = (importer: Importer, mimeType: string) =>
+  !!mimeType && importer.mimeTypes.some(t => (t.endsWith('/*') ? mimeType.startsWith(t.slice(0, -1)) : t === mimeType));
+
+/** The importer for a file; anything unrecognized is read as plain text. */
+export const findImporter = (name: string, mimeType: string): Importer => {
+  const extension = extensionOf(name);
+  return IMPORTERS.find(i => extension && i.extensions.includes(extension))
+    || IMPORTERS.find(i => matchesMimeType(i, mimeType))
+    || plainTextImporter;
+};
+
+export const importFile = (file: File, depth = 0, unpacked = { remaining: MAX_ARCHIVE_BYTES }): Promise<ImportedItem[]> =>
+  findImporter(file.name, file.type).import(file, {
+    depth,
+    unpacked,
+    importNested: (nested) => (depth < MAX_IMPORT_DEPTH ? importFile(nested, depth + 1, unpacked) : Promise.resolve([]))
+  });
@@ -0,0 +1,47 @@
+import type { ImportedItem, Importer } from "../importers";
+import { readZip } from "../zipArchive";
+import { toFile } from "./fileHelpers";
+
+/**
+ * ZIP archives fan out: every file inside is imported with its own importer and becomes a
+ * separate memory. Entries that fail to import are skipped rather than failing the archive.
+ * MAX_ARCHIVE_BYTES caps everything unpacked from one dropped file, archives inside
+ * archives included; entries are never inflated past their declared size (see zipArchive).
+ */
+export const MAX_ARCHIVE_ENTRIES = 200;
+export const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+// Metadata that archivers add alongside the real files
+const isJunk = (path: string) => {
+  const name = path.split('/').pop() || '';
+  return path.startsWith('__MACOSX/') || name.startsWith('.') || name === 'Thumbs.db' || name === 'desktop.ini';
+};
+
+export const archiveImporter: Importer = {
+  id: 'archive',
+  extensions: ['.zip'],
+  mimeTypes: ['application/zip', 'application/x-zip-compressed'],
+  import: async (file, context) => {
+    const entries = readZip(await file.arrayBuffer()).filter(e => !e.isDirectory && !isJunk(e.name));
+    if (entries.length > MAX_ARCHIVE_ENTRIES) {
+      throw new Error(`${file.name} holds ${entries.length} files; archives of up to ${MAX_ARCHIVE_ENTRIES} can be imported`);
+    }
+    const total = entries.reduce((sum, e) => sum + e.size, 0);
+    if (total > context.unpacked.remaining) {
+      throw new Error(`${file.name} unpacks to ${Math.round(total / 1048576)}MB; up to ${MAX_ARCHIVE_BYTES / 1048576}MB can be unpacked from one file, nested archives included`);
+    }
+    context.unpacked.remaining -= total;
+
+    const items: ImportedItem[] = [];
+    for (const entry of entries) {
+      try {
+        const name = entry.name.split('/').pop() as string;
+        items.push(...await context.importNested(toFile(await entry.bytes(), name)));
+      } catch (e) {
+        console.error(`Skipped ${entry.name} in ${file.name}`, e);
+      }
+    }
+    if (items.length === 0) throw new Error(`${file.name} contains nothing importable`);
+    return items;
+  }
+};
@@ -0,0 +1,143 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { escapeHtml } from "../sanitizeHtml";
+
+/**
+ * iCalendar (.ics) files: every VEVENT becomes a row of an agenda table, soonest first.
+ * Times with a TZID are shown as written (floating); UTC times are shown in local time.
+ */
+interface CalendarEvent {
+  summary: string;
+  start?: Date;
+  end?: Date;
+  allDay: boolean;
+  location?: string;
+  description?: string;
+  organizer?: string;
+  recurrence?: string;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const parseProperty = (line: string): Property | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(p => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const parseDate = (value: string): { date: Date; allDay: boolean } | undefined => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return undefined;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (!h) return { date: new Date(+y, +mo - 1, +d), allDay: true };
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +(s || 0)))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +(s || 0));
+  return { date, allDay: false };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDay = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const formatTime = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+const describeWhen = (event: CalendarEvent) => {
+  if (!event.start) return 'Undated';
+  if (event.allDay) {
+    // All-day DTEND is exclusive
+    const last = event.end ? new Date(event.end.getTime() - 86400000) : event.start;
+    return last > event.start ? `${formatDay(event.start)} – ${formatDay(last)}` : formatDay(event.start);
+  }
+  const start = `${formatDay(event.start)} ${formatTime(event.start)}`;
+  if (!event.end) return start;
+  return formatDay(event.end) === formatDay(event.start)
+    ? `${start} – ${formatTime(event.end)}`
+    : `${start} – ${formatDay(event.end)} ${formatTime(event.end)}`;
+};
+
+export const parseCalendar = (text: string): { name?: string; events: CalendarEvent[] } => {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const events: CalendarEvent[] = [];
+  let name: string | undefined;
+  let current: CalendarEvent | null = null;
+  let nested = 0; // depth of components inside the current VEVENT (e.g. VALARM)
+
+  lines.forEach(line => {
+    const prop = parseProperty(line);
+    if (!prop) return;
+    const value = prop.value.toUpperCase();
+    if (prop.name === 'BEGIN') {
+      if (value === 'VEVENT') current = { summary: 'Untitled event', allDay: false };
+      else if (current) nested++;
+      return;
+    }
+    if (prop.name === 'END') {
+      if (value === 'VEVENT' && current) { events.push(current); current = null; }
+      else if (current) nested--;
+      return;
+    }
+    if (prop.name === 'X-WR-CALNAME' && !current) name = unescapeText(prop.value);
+    if (!current || nested > 0) return;
+    const event: CalendarEvent = current;
+    switch (prop.name) {
+      case 'SUMMARY': event.summary = unescapeText(prop.value) || event.summary; break;
+      case 'LOCATION': event.location = unescapeText(prop.value); break;
+      case 'DESCRIPTION': event.description = unescapeText(prop.value); break;
+      case 'ORGANIZER': event.organizer = prop.params.CN || prop.value.replace(/^mailto:/i, ''); break;
+      case 'RRULE': event.recurrence = prop.value; break;
+      case 'DTSTART': {
+        const parsed = parseDate(prop.value.trim());
+        if (parsed) { event.start = parsed.date; event.allDay = parsed.allDay; }
+        break;
+      }
+      case 'DTEND': event.end = parseDate(prop.value.trim())?.date; break;
+    }
+  });
+
+  events.sort((a, b) => (a.start?.getTime() ?? Infinity) - (b.start?.getTime() ?? Infinity));
+  return { name, events };
+};
+
+export const calendarImporter: Importer = {
+  id: 'calendar',
+  extensions: ['.ics', '.ical', '.ifb'],
+  mimeTypes: ['text/calendar'],
+  import: async (file) => {
+    const { name, events } = parseCalendar(await file.text());
+    const title = name || file.name.replace(/\.[^.]+$/, '');
+    const rows = events.map(e => `<tr><td>${escapeHtml(describeWhen(e))}</td><td><strong>${escapeHtml(e.summary)}</strong>${
+      e.description ? `<br />${escapeHtml(e.description).replace(/\n/g, '<br />')}` : ''
+    }${e.recurrence ? `<br /><em>Repeats: ${escapeHtml(e.recurrence)}</em>` : ''}</td><td>${escapeHtml(e.location || '')}</td><td>${escapeHtml(e.organizer || '')}</td></tr>`);
+    const html = `<h1>${escapeHtml(title)}</h1><p>${events.length} event${events.length === 1 ? '' : 's'}</p>`
+      + `<table><thead><tr><th>When</th><th>Event</th><th>Where</th><th>Organizer</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+    const text = events.map(e =>
+      [describeWhen(e), e.summary, e.location && `@ ${e.location}`, e.description && `— ${e.description}`].filter(Boolean).join(' ')).join('\n');
+    return [{
+      fileName: file.name,
+      mimeType: 'text/calendar',
+      content: html,
+      kind: 'html',
+      typeHint: RecallType.DOCUMENT,
+      sourceApp: 'Calendar',
+      extractedText: `CALENDAR: ${title}\n${text}`
+    }];
+  }
+};
@@ -0,0 +1,24 @@
+import mammoth from "mammoth";
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { htmlToText } from "./fileHelpers";
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/** Word documents, converted to HTML with mammoth. */
+export const docxImporter: Importer = {
+  id: 'docx',
+  extensions: ['.docx'],
+  mimeTypes: [DOCX_MIME_TYPE],
+  import: async (file) => {
+    const { value: html } = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+    return [{
+      fileName: file.name,
+      mimeType: DOCX_MIME_TYPE,
+      content: html,
+      kind: 'html',
+      typeHint: RecallType.DOCUMENT,
+      extractedText: htmlToText(html)
+    }];
+  }
+};
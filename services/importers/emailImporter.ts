@@ -0,0 +1,216 @@
+import { RecallType } from "../../types";
+import type { ImportedItem, Importer } from "../importers";
+import { escapeHtml } from "../sanitizeHtml";
+import { bytesToBinary, guessMimeType, htmlToText, toFile } from "./fileHelpers";
+
+/**
+ * RFC 822 / MIME messages (.eml). The message becomes one memory showing its headers and
+ * body (HTML preferred over plain text, inline images embedded); each attachment is imported
+ * with its own importer and stored as a child memory linked to the message.
+ *
+ * Bodies are handled as "binary strings" (one char per byte) until their charset is known.
+ */
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+interface Attachment {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+const splitHeaders = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  const head = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice((match.index as number) + match[0].length) : '';
+  const headers = new Map<string, string>();
+  head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  });
+  return { headers, body };
+};
+
+const binaryToBytes = (binary: string) => {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+const decodeText = (bytes: Uint8Array, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch (e) {
+    return new TextDecoder().decode(bytes); // unknown charset label
+  }
+};
+
+const decodeQuotedPrintable = (text: string, underscoresAreSpaces = false) =>
+  (underscoresAreSpaces ? text.replace(/_/g, ' ') : text)
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+/** Decodes RFC 2047 encoded words (=?charset?B|Q?...?=) in a header value. */
+const decodeWords = (value: string) =>
+  value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      try {
+        const binary = encoding.toUpperCase() === 'B' ? atob(text) : decodeQuotedPrintable(text, true);
+        return decodeText(binaryToBytes(binary), charset);
+      } catch (e) {
+        return text;
+      }
+    });
+
+/** A parameter of a structured header, e.g. `boundary` of Content-Type, including RFC 2231 `name*=`. */
+const paramOf = (header: string | undefined, name: string): string | undefined => {
+  if (!header) return undefined;
+  const extended = header.match(new RegExp(`;\\s*${name}\\*=([^']*)'[^']*'([^;\\s]+)`, 'i'));
+  if (extended) {
+    try {
+      const binary = extended[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      return decodeText(binaryToBytes(binary), extended[1] || 'utf-8');
+    } catch (e) { /* fall through to the plain parameter */ }
+  }
+  const plain = header.match(new RegExp(`;\\s*${name}=("([^"]*)"|[^;\\s]+)`, 'i'));
+  return plain ? decodeWords(plain[2] ?? plain[1]) : undefined;
+};
+
+const mediaTypeOf = (part: MimePart) => (part.headers.get('content-type') || 'text/plain').split(';')[0].trim().toLowerCase();
+
+const decodeBody = (part: MimePart): string => {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  if (encoding === 'base64') {
+    try {
+      return atob(part.body.replace(/[^A-Za-z0-9+/=]/g, ''));
+    } catch (e) {
+      return '';
+    }
+  }
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+  return part.body;
+};
+
+const textOf = (part: MimePart) =>
+  decodeText(binaryToBytes(decodeBody(part)), paramOf(part.headers.get('content-type'), 'charset'));
+
+const splitMultipart = (part: MimePart): MimePart[] => {
+  const boundary = paramOf(part.headers.get('content-type'), 'boundary');
+  if (!boundary) return [];
+  const delimiter = `--${boundary}`;
+  const chunks = part.body.split(new RegExp(`\\r?\\n?${delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?:--)?[ \\t]*\\r?\\n?`));
+  // Drops the preamble, and the epilogue when the closing delimiter is there (truncated mail has none)
+  return chunks
+    .slice(1, part.body.includes(`${delimiter}--`) ? -1 : undefined)
+    .filter(chunk => chunk.trim())
+    .map(splitHeaders);
+};
+
+interface Collected {
+  html: string[];
+  text: string[];
+  inline: Map<string, string>; // Content-ID -> data URI
+  attachments: Attachment[];
+}
+
+const collect = (part: MimePart, out: Collected) => {
+  const type = mediaTypeOf(part);
+  if (type.startsWith('multipart/')) {
+    const parts = splitMultipart(part);
+    if (type === 'multipart/alternative') {
+      // Alternatives are ordered plainest first; keep only the richest one we can show
+      const best = [...parts].reverse().find(p => ['text/html', 'text/plain'].includes(mediaTypeOf(p)) || mediaTypeOf(p).startsWith('multipart/'));
+      if (best) collect(best, out);
+      return;
+    }
+    parts.forEach(p => collect(p, out));
+    return;
+  }
+
+  const disposition = part.headers.get('content-disposition') || '';
+  const name = paramOf(disposition, 'filename') || paramOf(part.headers.get('content-type'), 'name');
+  const isAttachment = /^\s*attachment/i.test(disposition) || (!!name && !type.startsWith('text/'));
+  const contentId = (part.headers.get('content-id') || '').replace(/^<|>$/g, '');
+
+  if (contentId && type.startsWith('image/') && !/^\s*attachment/i.test(disposition)) {
+    out.inline.set(contentId, `data:${type};base64,${btoa(decodeBody(part))}`);
+    return;
+  }
+  if (isAttachment || type === 'message/rfc822') {
+    const fallbackName = type === 'message/rfc822' ? 'message.eml' : `attachment-${out.attachments.length + 1}`;
+    out.attachments.push({
+      name: name || fallbackName,
+      mimeType: type === 'application/octet-stream' ? guessMimeType(name || '') : type,
+      bytes: binaryToBytes(decodeBody(part))
+    });
+    return;
+  }
+  if (type === 'text/html') out.html.push(textOf(part));
+  else if (type.startsWith('text/')) out.text.push(textOf(part));
+};
+
+const bodyOfHtml = (html: string) => {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+  return (body ? body[1] : html).replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '');
+};
+
+const plainToHtml = (text: string) =>
+  `<div style="white-space: pre-wrap">${escapeHtml(text).replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>')}</div>`;
+
+const HEADER_FIELDS: [string, string][] = [['from', 'From'], ['to', 'To'], ['cc', 'Cc'], ['date', 'Date']];
+
+export const emailImporter: Importer = {
+  id: 'email',
+  extensions: ['.eml'],
+  mimeTypes: ['message/rfc822'],
+  import: async (file, context) => {
+    const message = splitHeaders(bytesToBinary(new Uint8Array(await file.arrayBuffer())));
+    const collected: Collected = { html: [], text: [], inline: new Map<string, string>(), attachments: [] };
+    collect(message, collected);
+
+    const subject = decodeWords(message.headers.get('subject') || '') || file.name;
+    const fields = HEADER_FIELDS
+      .map(([key, label]) => [label, decodeWords(message.headers.get(key) || '')])
+      .filter(([, value]) => value);
+
+    const body = collected.html.length
+      ? collected.html.map(bodyOfHtml).join('<hr />').replace(/cid:([^"'\s)>]+)/g, (match, id) => collected.inline.get(id) || match)
+      : collected.text.map(plainToHtml).join('<hr />');
+    const attachmentList = collected.attachments.length
+      ? `<p><strong>Attachments:</strong> ${collected.attachments.map(a => escapeHtml(a.name)).join(', ')}</p>`
+      : '';
+    const content = `<h1>${escapeHtml(subject)}</h1>`
+      + `<table>${fields.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+      + `${attachmentList}<hr />${body}`;
+
+    const children: ImportedItem[] = [];
+    for (const attachment of collected.attachments) {
+      try {
+        children.push(...await context.importNested(toFile(attachment.bytes, attachment.name, attachment.mimeType)));
+      } catch (e) {
+        console.error(`Attachment ${attachment.name} could not be imported`, e);
+      }
+    }
+
+    const bodyText = collected.text.length ? collected.text.join('\n\n') : htmlToText(collected.html.join('\n'));
+    return [{
+      fileName: file.name,
+      mimeType: 'message/rfc822',
+      content,
+      kind: 'html',
+      typeHint: RecallType.DOCUMENT,
+      sourceApp: 'Mail',
+      extractedText: [
+        `Subject: ${subject}`,
+        ...fields.map(([label, value]) => `${label}: ${value}`),
+        ...(collected.attachments.length ? [`Attachments: ${collected.attachments.map(a => a.name).join(', ')}`] : [])
+      ].join('\n') + `\n\n${bodyText}`,
+      children
+    }];
+  }
+};
@@ -0,0 +1,118 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { escapeHtml } from "../sanitizeHtml";
+import { ZipEntry, readZip, readZipText } from "../zipArchive";
+import { bytesToBase64, guessMimeType, htmlToText } from "./fileHelpers";
+
+/**
+ * EPUB e-books: the chapters in reading (spine) order are joined into one HTML document,
+ * with images embedded as data URIs and the cover used as the thumbnail.
+ */
+interface ManifestItem {
+  href: string; // archive path, resolved against the package document
+  mediaType: string;
+  properties: string;
+}
+
+// Book text sent for analysis; the full text stays searchable in the content
+const ANALYSIS_TEXT_LIMIT = 20000;
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml') => {
+  const doc = new DOMParser().parseFromString(text, type);
+  return doc.getElementsByTagName('parsererror').length ? null : doc;
+};
+
+/** Resolves `href` relative to the archive path `base`, dropping fragments. */
+const resolvePath = (base: string, href: string) => {
+  const parts = base.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const firstText = (doc: Document, localName: string) =>
+  doc.getElementsByTagNameNS('*', localName)[0]?.textContent?.trim() || '';
+
+export const epubImporter: Importer = {
+  id: 'epub',
+  extensions: ['.epub'],
+  mimeTypes: ['application/epub+zip'],
+  import: async (file) => {
+    const entries = new Map<string, ZipEntry>(readZip(await file.arrayBuffer()).map(e => [e.name, e]));
+    const containerEntry = entries.get('META-INF/container.xml');
+    const container = containerEntry && parseXml(await readZipText(containerEntry));
+    const opfPath = container?.getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path');
+    const opfEntry = opfPath ? entries.get(opfPath) : undefined;
+    const opf = opfEntry && parseXml(await readZipText(opfEntry));
+    if (!opfPath || !opf) throw new Error(`${file.name} is not a readable EPUB`);
+
+    const manifest = new Map<string, ManifestItem>();
+    Array.from(opf.getElementsByTagNameNS('*', 'item')).forEach(item => {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (id && href) {
+        manifest.set(id, {
+          href: resolvePath(opfPath, href),
+          mediaType: item.getAttribute('media-type') || '',
+          properties: item.getAttribute('properties') || ''
+        });
+      }
+    });
+
+    const title = firstText(opf, 'title') || file.name.replace(/\.epub$/i, '');
+    const author = firstText(opf, 'creator');
+
+    const images = new Map<string, string>(); // archive path -> data URI
+    const imageUri = async (path: string) => {
+      if (!images.has(path)) {
+        const entry = entries.get(path);
+        const item = Array.from(manifest.values()).find(m => m.href === path);
+        images.set(path, entry ? `data:${item?.mediaType || guessMimeType(path)};base64,${bytesToBase64(await entry.bytes())}` : '');
+      }
+      return images.get(path) as string;
+    };
+
+    const chapters: string[] = [];
+    for (const ref of Array.from(opf.getElementsByTagNameNS('*', 'itemref'))) {
+      const item = manifest.get(ref.getAttribute('idref') || '');
+      const entry = item && entries.get(item.href);
+      if (!item || !entry || !/html/.test(item.mediaType)) continue;
+      const markup = await readZipText(entry);
+      const doc = parseXml(markup, 'application/xhtml+xml') || new DOMParser().parseFromString(markup, 'text/html');
+      const body = doc.getElementsByTagName('body')[0];
+      if (!body) continue;
+      body.querySelectorAll('script, style, link').forEach(el => el.remove());
+      for (const img of Array.from(body.querySelectorAll('img'))) {
+        const src = img.getAttribute('src');
+        if (src && !/^[a-z]+:/i.test(src)) img.setAttribute('src', await imageUri(resolvePath(item.href, src)));
+      }
+      // SVG-wrapped images (common for covers) reference the file through xlink:href
+      for (const image of Array.from(body.getElementsByTagNameNS('*', 'image'))) {
+        const href = image.getAttribute('xlink:href') || image.getAttribute('href');
+        if (href && !/^[a-z]+:/i.test(href)) image.setAttribute(image.hasAttribute('href') ? 'href' : 'xlink:href', await imageUri(resolvePath(item.href, href)));
+      }
+      chapters.push(`<section>${body.innerHTML}</section>`);
+    }
+    if (chapters.length === 0) throw new Error(`${file.name} has no readable chapters`);
+
+    const coverId = Array.from(opf.getElementsByTagNameNS('*', 'meta')).find(m => m.getAttribute('name') === 'cover')?.getAttribute('content');
+    const cover = Array.from(manifest.values()).find(m => m.properties.split(/\s+/).includes('cover-image'))
+      || (coverId ? manifest.get(coverId) : undefined);
+    const coverUri = cover && cover.mediaType.startsWith('image/') ? await imageUri(cover.href) : '';
+
+    const heading = `<h1>${escapeHtml(title)}</h1>${author ? `<p><em>${escapeHtml(author)}</em></p>` : ''}`;
+    const content = `${heading}${chapters.join('<hr />')}`;
+    return [{
+      fileName: file.name,
+      mimeType: 'application/epub+zip',
+      content,
+      kind: 'html',
+      typeHint: RecallType.DOCUMENT,
+      sourceApp: 'E-Book',
+      thumbnail: coverUri ? coverUri.split(',')[1] : undefined,
+      extractedText: `BOOK: ${title}${author ? ` by ${author}` : ''}\n\n${htmlToText(chapters.join('\n')).substring(0, ANALYSIS_TEXT_LIMIT)}`
+    }];
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * Helpers shared by the importers in this directory.
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.gif': 'image/gif', '.webp': 'image/webp',
+  '.bmp': 'image/bmp', '.svg': 'image/svg+xml',
+  '.mp3': 'audio/mpeg', '.wav': 'audio/wav', '.ogg': 'audio/ogg', '.m4a': 'audio/mp4', '.flac': 'audio/flac',
+  '.mp4': 'video/mp4', '.webm': 'video/webm', '.mov': 'video/quicktime',
+  '.pdf': 'application/pdf', '.zip': 'application/zip', '.epub': 'application/epub+zip',
+  '.eml': 'message/rfc822', '.ics': 'text/calendar', '.md': 'text/markdown', '.markdown': 'text/markdown',
+  '.csv': 'text/csv', '.json': 'application/json', '.html': 'text/html', '.htm': 'text/html', '.txt': 'text/plain',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.xls': 'application/vnd.ms-excel'
+};
+
+export const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > name.lastIndexOf('/') ? name.slice(dot).toLowerCase() : '';
+};
+
+/** The MIME type a file name implies, for files that come without one (archive entries, attachments). */
+export const guessMimeType = (name: string) => EXTENSION_MIME_TYPES[extensionOf(name)] || '';
+
+/** Wraps bytes pulled out of a container (archive entry, attachment) as a File for `importFile`. */
+export const toFile = (bytes: Uint8Array, name: string, mimeType?: string): File =>
+  new File([bytes], name, { type: mimeType || guessMimeType(name) });
+
+/** One char per byte, as `atob` returns and `btoa` takes. */
+export const bytesToBinary = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return binary;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array) => btoa(bytesToBinary(bytes));
+
+export const readAsBase64 = async (file: Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+
+/** Readable text of an HTML fragment, for analysis of rendered content. */
+export const htmlToText = (html: string) =>
+  html
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table|blockquote|pre|section)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n[ \t]*(\n[ \t]*)+/g, '\n\n')
+    .trim();
@@ -0,0 +1,19 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+
+/** Markdown, stored as its source and rendered when shown. */
+export const markdownImporter: Importer = {
+  id: 'markdown',
+  extensions: ['.md', '.markdown', '.mdown', '.mkd'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  import: async (file) => {
+    const source = await file.text();
+    return [{
+      fileName: file.name,
+      mimeType: 'text/markdown',
+      content: source,
+      kind: 'markdown',
+      typeHint: RecallType.DOCUMENT
+    }];
+  }
+};
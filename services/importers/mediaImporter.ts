@@ -0,0 +1,18 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { guessMimeType, readAsBase64 } from "./fileHelpers";
+
+/** Images, audio and video, kept as base64 and sent to the model inline. */
+export const mediaImporter: Importer = {
+  id: 'media',
+  extensions: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.svg', '.mp3', '.wav', '.ogg', '.m4a', '.flac', '.mp4', '.webm', '.mov'],
+  mimeTypes: ['image/*', 'audio/*', 'video/*'],
+  import: async (file) => {
+    const mimeType = file.type || guessMimeType(file.name);
+    const typeHint =
+      mimeType.startsWith('image/') ? RecallType.IMAGE :
+      mimeType.startsWith('audio/') ? RecallType.AUDIO :
+      RecallType.VIDEO;
+    return [{ fileName: file.name, mimeType, content: await readAsBase64(file), kind: 'binary', typeHint }];
+  }
+};
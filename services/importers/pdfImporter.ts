@@ -0,0 +1,26 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { analyzePdf, formatPages } from "../pdfDocument";
+import { readAsBase64 } from "./fileHelpers";
+
+/** PDFs stay base64; page text and a first-page thumbnail are extracted with pdf.js. */
+export const pdfImporter: Importer = {
+  id: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  import: async (file) => {
+    const content = await readAsBase64(file);
+    // An unreadable PDF is still kept; it just has no page text or thumbnail
+    const pdf = await analyzePdf(content).catch(e => { console.error("PDF analysis failed", e); return null; });
+    return [{
+      fileName: file.name,
+      mimeType: 'application/pdf',
+      content,
+      kind: 'binary',
+      typeHint: RecallType.DOCUMENT,
+      pages: pdf?.pages,
+      thumbnail: pdf?.thumbnail || undefined,
+      extractedText: pdf ? formatPages(pdf.pages) : undefined
+    }];
+  }
+};
@@ -0,0 +1,21 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { serializeWorkbook, workbookFromFile } from "../spreadsheet";
+
+/** Excel workbooks and CSV, as a workbook of typed cells (see services/spreadsheet). */
+export const spreadsheetImporter: Importer = {
+  id: 'spreadsheet',
+  extensions: ['.xlsx', '.xls', '.csv'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel', 'text/csv'],
+  import: async (file) => {
+    const workbook = workbookFromFile(await file.arrayBuffer());
+    return [{
+      fileName: file.name,
+      mimeType: file.type || 'application/vnd.ms-excel',
+      content: serializeWorkbook(workbook),
+      kind: 'spreadsheet',
+      typeHint: RecallType.DOCUMENT,
+      sourceApp: 'Spreadsheet Engine'
+    }];
+  }
+};
@@ -0,0 +1,41 @@
+import { RecallType } from "../../types";
+import type { Importer } from "../importers";
+import { extensionOf, htmlToText } from "./fileHelpers";
+
+const HTML_EXTENSIONS = ['.html', '.htm', '.xhtml'];
+
+/** Text and source files, stored as-is. HTML is kept as markup and analyzed as its text. */
+export const textImporter: Importer = {
+  id: 'text',
+  extensions: [
+    '.txt', '.log', '.json', '.xml', '.yaml', '.yml', '.toml', '.ini', '.css', '.js', '.jsx', '.ts', '.tsx',
+    '.py', '.rb', '.go', '.rs', '.java', '.c', '.h', '.cpp', '.cs', '.sh', '.sql', ...HTML_EXTENSIONS
+  ],
+  mimeTypes: ['text/*', 'application/json', 'application/javascript', 'application/xml', 'application/xhtml+xml'],
+  import: async (file) => {
+    const content = await file.text();
+    const isHtml = HTML_EXTENSIONS.includes(extensionOf(file.name)) || file.type === 'text/html';
+    return [{
+      fileName: file.name,
+      mimeType: file.type || 'text/plain',
+      content,
+      kind: isHtml ? 'html' : 'text',
+      typeHint: RecallType.TEXT,
+      extractedText: isHtml ? htmlToText(content) : undefined
+    }];
+  }
+};
+
+/** Fallback for unrecognized files: read as text, like any other unknown drop. */
+export const plainTextImporter: Importer = {
+  id: 'plain',
+  extensions: [],
+  mimeTypes: [],
+  import: async (file) => [{
+    fileName: file.name,
+    mimeType: file.type || 'text/plain',
+    content: await file.text(),
+    kind: 'text',
+    typeHint: RecallType.DOCUMENT
+  }]
+};
@@ -0,0 +1,180 @@
+/**
+ * Ingestion queue. Each item is read locally, then analyzed by the AI provider with at most
+ * `concurrency` items in flight. Failed analyses are retried with exponential backoff; once
+ * retries run out the item is still stored, unanalyzed, so nothing dropped is lost.
+ */
+export type IngestState = 'queued' | 'reading' | 'analyzing' | 'waiting' | 'stored' | 'failed' | 'cancelled';
+
+export interface IngestItem {
+  id: string;
+  name: string;
+  size: number; // bytes, 0 when unknown
+  state: IngestState;
+  attempts: number; // analysis attempts so far
+  error?: string;
+  retryAt?: number; // when a backed-off analysis resumes ('waiting')
+  memoryId?: string; // memory stored for this item, including one kept unanalyzed
+}
+
+export interface IngestWorker<S, R, A> {
+  read: (source: S) => Promise<R>;
+  analyze: (read: R) => Promise<A>;
+  // Persists the outcome and returns the memory id; `analysis` is null when retries ran out
+  store: (item: IngestItem, source: S, read: R, analysis: A | null, error?: string) => string;
+}
+
+export interface IngestQueueOptions {
+  concurrency: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+export interface IngestQueue<S> {
+  enqueue: (name: string, size: number, source: S, memoryId?: string) => string;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  subscribe: (listener: (items: IngestItem[]) => void) => () => void;
+}
+
+export const ACTIVE_STATES: IngestState[] = ['reading', 'analyzing'];
+export const PENDING_STATES: IngestState[] = ['queued', 'reading', 'analyzing', 'waiting'];
+
+/**
+ * Items `clearFinished` removes. Failures kept as unanalyzed memories can be re-analyzed from
+ * the memory itself; failures with nothing stored stay so the file can still be retried.
+ */
+export const isClearable = (item: IngestItem) =>
+  item.state === 'stored' || item.state === 'cancelled' || (item.state === 'failed' && !!item.memoryId);
+
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 2000;
+
+interface Entry<S, R> {
+  item: IngestItem;
+  source: S;
+  read?: { value: R }; // kept across retries so only the analysis is repeated
+  run: number; // bumped on cancel/retry so results of an abandoned run are ignored
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error)) || 'Unknown error';
+
+export const createIngestQueue = <S, R, A>(worker: IngestWorker<S, R, A>, options: IngestQueueOptions): IngestQueue<S> => {
+  const entries: Entry<S, R>[] = [];
+  const listeners = new Set<(items: IngestItem[]) => void>();
+  let concurrency = Math.max(1, options.concurrency);
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelay = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+
+  const emit = () => {
+    const items = entries.map(e => e.item);
+    listeners.forEach(l => l(items));
+  };
+
+  const update = (entry: Entry<S, R>, patch: Partial<IngestItem>) => {
+    entry.item = { ...entry.item, ...patch };
+    emit();
+  };
+
+  const start = async (entry: Entry<S, R>) => {
+    const run = entry.run;
+    const alive = () => entry.run === run;
+    try {
+      if (!entry.read) {
+        update(entry, { state: 'reading', error: undefined });
+        const value = await worker.read(entry.source);
+        if (!alive()) return;
+        entry.read = { value };
+      }
+      update(entry, { state: 'analyzing', attempts: entry.item.attempts + 1, retryAt: undefined });
+      let analysis: A;
+      try {
+        analysis = await worker.analyze(entry.read.value);
+      } catch (e) {
+        if (!alive()) return;
+        const error = messageOf(e);
+        if (entry.item.attempts < maxAttempts) {
+          const delay = baseDelay * 2 ** (entry.item.attempts - 1);
+          update(entry, { state: 'waiting', error, retryAt: Date.now() + delay });
+          entry.timer = setTimeout(() => {
+            if (!alive()) return;
+            update(entry, { state: 'queued', retryAt: undefined });
+            pump();
+          }, delay);
+          return;
+        }
+        const memoryId = worker.store(entry.item, entry.source, entry.read.value, null, error);
+        update(entry, { state: 'failed', error, memoryId });
+        return;
+      }
+      if (!alive()) return;
+      const memoryId = worker.store(entry.item, entry.source, entry.read.value, analysis);
+      update(entry, { state: 'stored', error: undefined, memoryId });
+    } catch (e) {
+      // Reading or storing failed; there is nothing to keep
+      if (alive()) update(entry, { state: 'failed', error: messageOf(e) });
+    } finally {
+      if (alive()) pump();
+    }
+  };
+
+  const pump = () => {
+    let active = entries.filter(e => ACTIVE_STATES.includes(e.item.state)).length;
+    for (const entry of entries) {
+      if (active >= concurrency) break;
+      if (entry.item.state !== 'queued') continue;
+      active++;
+      // Marks the entry active before the first await so this loop doesn't start it twice
+      entry.item = { ...entry.item, state: entry.read ? 'analyzing' : 'reading' };
+      start(entry);
+    }
+  };
+
+  const find = (id: string) => entries.find(e => e.item.id === id);
+
+  return {
+    enqueue: (name, size, source, memoryId) => {
+      const id = crypto.randomUUID();
+      entries.push({ item: { id, name, size, state: 'queued', attempts: 0, memoryId }, source, run: 0 });
+      emit();
+      pump();
+      return id;
+    },
+
+    cancel: (id) => {
+      const entry = find(id);
+      if (!entry || !PENDING_STATES.includes(entry.item.state)) return;
+      entry.run++;
+      clearTimeout(entry.timer);
+      update(entry, { state: 'cancelled', retryAt: undefined });
+      pump();
+    },
+
+    retry: (id) => {
+      const entry = find(id);
+      if (!entry || (entry.item.state !== 'failed' && entry.item.state !== 'cancelled')) return;
+      entry.run++;
+      update(entry, { state: 'queued', attempts: 0, error: undefined });
+      pump();
+    },
+
+    clearFinished: () => {
+      const remaining = entries.filter(e => !isClearable(e.item));
+      entries.splice(0, entries.length, ...remaining);
+      emit();
+    },
+
+    setConcurrency: (next) => {
+      concurrency = Math.max(1, next);
+      pump();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(entries.map(e => e.item));
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,103 @@
+import { ContentFormat, RecallFile, RecallType } from "../types";
+import { formatOf } from "./contentFormat";
+import { sniffFileType } from "./blobStore";
+import { ingestRecall } from "./geminiService";
+import { ContentKind, ImportedItem } from "./importers";
+import { htmlToText } from "./importers/fileHelpers";
+import { transcribeMedia, transcriptText } from "./mediaTranscript";
+import { formatPages, isPdfContent } from "./pdfDocument";
+import { sanitizeHtml } from "./sanitizeHtml";
+import { isSpreadsheet } from "./spreadsheet";
+
+/**
+ * Turning imported files into memories, split into the steps the ingest queue runs
+ * separately: importing the file locally (services/importers), then analyzing it with the
+ * AI provider.
+ */
+const FORMATS: Partial<Record<ContentKind, ContentFormat>> = { text: 'plain', markdown: 'markdown', html: 'html' };
+
+// Markup from files is sanitized before it is stored (and again when rendered)
+const storedContent = (file: ImportedItem) => (file.kind === 'html' ? sanitizeHtml(file.content) : file.content);
+
+const isMedia = (type: RecallType) => type === RecallType.AUDIO || type === RecallType.VIDEO;
+
+/**
+ * The AI analysis of an imported file. Audio and video are transcribed first and analyzed
+ * together with their transcript, which is returned with the analysis. Throws when the
+ * provider fails.
+ */
+export const analyzeFile = async (item: ImportedItem): Promise<Partial<RecallFile>> => {
+  if (!isMedia(item.typeHint)) return ingestRecall(item);
+  // Kept on the item so a retry after a failed analysis doesn't transcribe again
+  item.transcript ??= await transcribeMedia(item.content, item.mimeType);
+  const { transcript } = item;
+  const analysis = await ingestRecall({ ...item, extractedText: transcript.length ? transcriptText(transcript) : item.extractedText });
+  return { ...analysis, transcript };
+};
+
+/**
+ * Builds the memory for an imported file. Without an analysis (the provider kept failing)
+ * the memory holds the file under its file name and records the error, so it can be
+ * re-analyzed later with `applyAnalysis`.
+ */
+export const createMemory = (file: ImportedItem, analysis: Partial<RecallFile> | null, error?: string): RecallFile => {
+  const type = file.typeHint;
+  const now = Date.now();
+  const content = storedContent(file);
+  const contentFormat = FORMATS[file.kind];
+  return {
+    id: crypto.randomUUID(),
+    title: analysis?.title || file.fileName,
+    description: analysis?.description || '',
+    type,
+    content,
+    ...(contentFormat ? { contentFormat } : {}),
+    thumbnail: type === RecallType.IMAGE ? file.content : (file.thumbnail || ''),
+    ...(file.pages ? { pages: file.pages } : {}),
+    ...(analysis?.transcript ? { transcript: analysis.transcript } : {}),
+    createdAt: now,
+    updatedAt: now,
+    metadata: analysis?.metadata
+      ? (analysis.metadata as RecallFile['metadata'])
+      : { tags: [], mood: 'neutral', sourceApp: file.sourceApp || 'Recall Core', analysisError: error || 'Not analyzed' },
+    history: [{
+      id: crypto.randomUUID(),
+      timestamp: now,
+      description: 'Initial Recall State',
+      author: 'user',
+      content
+    }]
+  };
+};
+
+/**
+ * Fills an unanalyzed memory in with a late analysis, keeping its type, content, history
+ * and canvas position. A transcript made during the analysis is added.
+ */
+export const applyAnalysis = (memory: RecallFile, analysis: Partial<RecallFile>): RecallFile => ({
+  ...memory,
+  ...(analysis.transcript ? { transcript: analysis.transcript } : {}),
+  title: analysis.title || memory.title,
+  description: analysis.description || memory.description,
+  metadata: { ...(analysis.metadata as RecallFile['metadata']), tags: analysis.metadata?.tags || memory.metadata.tags },
+  updatedAt: Date.now()
+});
+
+/**
+ * What `analyzeFile` needs from an existing memory, for re-analysis. The mime type and
+ * content kind are recovered from the payload since memories don't record the original file's.
+ * An existing transcript is reused rather than made again.
+ */
+export const fileFromMemory = (memory: RecallFile, content: string): ImportedItem => {
+  const base = { fileName: memory.title, content, typeHint: memory.type, sourceApp: memory.metadata.sourceApp };
+  if (isPdfContent(content)) {
+    return { ...base, mimeType: 'application/pdf', kind: 'binary', pages: memory.pages, extractedText: memory.pages && formatPages(memory.pages) };
+  }
+  if (isSpreadsheet(content)) return { ...base, mimeType: 'application/vnd.ms-excel', kind: 'spreadsheet' };
+  if (memory.type === RecallType.IMAGE) return { ...base, mimeType: 'image/jpeg', kind: 'binary' };
+  if (isMedia(memory.type)) return { ...base, mimeType: sniffFileType(memory, content).mime, kind: 'binary', transcript: memory.transcript };
+  const format = formatOf(memory, content);
+  if (format === 'html') return { ...base, mimeType: 'text/html', kind: 'html', extractedText: htmlToText(content) };
+  if (format === 'markdown') return { ...base, mimeType: 'text/markdown', kind: 'markdown' };
+  return { ...base, mimeType: 'text/plain', kind: 'text' };
+};
@@ -0,0 +1,241 @@
+import { RecallFile } from "../types";
+import { CARD_HEIGHT, CARD_WIDTH, Point, buildTagConnections, layoutByTagClusters, layoutByTimeline, layoutByType } from "./canvasLayout";
+
+export type LayoutMode = 'force' | 'cluster' | 'timeline' | 'grid';
+
+export const LAYOUT_MODES: { mode: LayoutMode; label: string; hint: string }[] = [
+  { mode: 'force', label: 'Force', hint: 'Related memories pull together, unrelated ones drift apart.' },
+  { mode: 'cluster', label: 'Cluster', hint: 'Blocks grouped by each memory\'s most shared tag.' },
+  { mode: 'timeline', label: 'Timeline', hint: 'Columns by creation date, oldest on the left.' },
+  { mode: 'grid', label: 'Grid', hint: 'One band per memory type.' }
+];
+
+export interface LayoutRunOptions {
+  /** Called once per animation frame with the in-between positions. */
+  onFrame: (positions: Map<string, Point>) => void;
+  signal?: AbortSignal;
+}
+
+const TWEEN_MS = 600;
+// Work per frame is capped so the canvas keeps painting while a layout runs
+const FRAME_BUDGET_MS = 10;
+const FORCE_ITERATIONS = 300;
+const IDEAL_DISTANCE = 280;
+const REPULSION_CUTOFF = IDEAL_DISTANCE * 3;
+// Pulls everything gently toward the starting centroid so disconnected memories stay in view
+const GRAVITY = 0.03;
+const SEPARATION = 20;
+const SEPARATION_PASSES = 60;
+
+const nextFrame = () => new Promise<number>(resolve => requestAnimationFrame(resolve));
+
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+export const currentPositions = (memories: RecallFile[]): Map<string, Point> =>
+  new Map<string, Point>(memories.map(m => [m.id, { x: m.x ?? 0, y: m.y ?? 0 }]));
+
+/**
+ * Eases every id in `to` from its position in `from`. Resolves with `to`, or null if aborted.
+ */
+export const animatePositions = async (
+  from: Map<string, Point>,
+  to: Map<string, Point>,
+  { onFrame, signal }: LayoutRunOptions,
+  duration = TWEEN_MS
+): Promise<Map<string, Point> | null> => {
+  const start = performance.now();
+  while (true) {
+    const now = await nextFrame();
+    if (signal?.aborted) return null;
+    const t = Math.min(1, (now - start) / duration);
+    const k = easeInOut(t);
+    const frame = new Map<string, Point>();
+    to.forEach((target, id) => {
+      const origin = from.get(id) || target;
+      frame.set(id, { x: origin.x + (target.x - origin.x) * k, y: origin.y + (target.y - origin.y) * k });
+    });
+    onFrame(frame);
+    if (t >= 1) return to;
+  }
+};
+
+/**
+ * Fruchterman-Reingold over tag connections, started from the current positions and run a
+ * slice of iterations per frame. Repulsion only considers nodes in neighbouring cells of a
+ * spatial hash, so each iteration is roughly linear in the number of memories.
+ */
+const runForceLayout = async (
+  memories: RecallFile[],
+  from: Map<string, Point>,
+  { onFrame, signal }: LayoutRunOptions
+): Promise<Map<string, Point> | null> => {
+  const n = memories.length;
+  const index = new Map<string, number>(memories.map((m, i) => [m.id, i]));
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  memories.forEach((m, i) => {
+    const p = from.get(m.id) || { x: 0, y: 0 };
+    // A little jitter keeps stacked cards from sitting on exactly the same point
+    xs[i] = p.x + (Math.random() - 0.5);
+    ys[i] = p.y + (Math.random() - 0.5);
+  });
+  let cx = 0, cy = 0;
+  for (let i = 0; i < n; i++) { cx += xs[i]; cy += ys[i]; }
+  cx /= n || 1;
+  cy /= n || 1;
+
+  const edges = buildTagConnections(memories).map(c => ({
+    a: index.get(c.fromId) as number,
+    b: index.get(c.toId) as number,
+    strength: c.strength
+  }));
+  // Springs are scaled down for well-connected memories so a large tag clique doesn't collapse to a point
+  const degree = new Float64Array(n);
+  edges.forEach(({ a, b }) => { degree[a]++; degree[b]++; });
+
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  const k2 = IDEAL_DISTANCE * IDEAL_DISTANCE;
+  const startTemperature = IDEAL_DISTANCE;
+
+  const step = (iteration: number) => {
+    dx.fill(0);
+    dy.fill(0);
+
+    const cells = new Map<string, number[]>();
+    for (let i = 0; i < n; i++) {
+      const key = `${Math.floor(xs[i] / REPULSION_CUTOFF)}:${Math.floor(ys[i] / REPULSION_CUTOFF)}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(i); else cells.set(key, [i]);
+    }
+    for (let i = 0; i < n; i++) {
+      const gx = Math.floor(xs[i] / REPULSION_CUTOFF);
+      const gy = Math.floor(ys[i] / REPULSION_CUTOFF);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          const cell = cells.get(`${gx + ox}:${gy + oy}`);
+          if (!cell) continue;
+          for (const j of cell) {
+            if (j <= i) continue;
+            const vx = xs[i] - xs[j];
+            const vy = ys[i] - ys[j];
+            const d = Math.max(1, Math.sqrt(vx * vx + vy * vy));
+            if (d > REPULSION_CUTOFF) continue;
+            const f = k2 / d;
+            dx[i] += (vx / d) * f; dy[i] += (vy / d) * f;
+            dx[j] -= (vx / d) * f; dy[j] -= (vy / d) * f;
+          }
+        }
+      }
+    }
+
+    edges.forEach(({ a, b, strength }) => {
+      const vx = xs[a] - xs[b];
+      const vy = ys[a] - ys[b];
+      const d = Math.max(1, Math.sqrt(vx * vx + vy * vy));
+      const f = (d * d / IDEAL_DISTANCE) * (strength / 3);
+      const fa = f / Math.sqrt(degree[a]);
+      const fb = f / Math.sqrt(degree[b]);
+      dx[a] -= (vx / d) * fa; dy[a] -= (vy / d) * fa;
+      dx[b] += (vx / d) * fb; dy[b] += (vy / d) * fb;
+    });
+
+    const temperature = startTemperature * (1 - iteration / FORCE_ITERATIONS) + 1;
+    for (let i = 0; i < n; i++) {
+      dx[i] += (cx - xs[i]) * GRAVITY;
+      dy[i] += (cy - ys[i]) * GRAVITY;
+      const len = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (len > 0) {
+        const move = Math.min(len, temperature);
+        xs[i] += (dx[i] / len) * move;
+        ys[i] += (dy[i] / len) * move;
+      }
+    }
+  };
+
+  // Cards are rectangles, not points: a final few passes push apart any that still overlap
+  const separate = () => {
+    const minX = CARD_WIDTH + SEPARATION;
+    const minY = CARD_HEIGHT + SEPARATION;
+    const cells = new Map<string, number[]>();
+    for (let i = 0; i < n; i++) {
+      const key = `${Math.floor(xs[i] / minY)}:${Math.floor(ys[i] / minY)}`;
+      const cell = cells.get(key);
+      if (cell) cell.push(i); else cells.set(key, [i]);
+    }
+    let moved = false;
+    for (let i = 0; i < n; i++) {
+      const gx = Math.floor(xs[i] / minY);
+      const gy = Math.floor(ys[i] / minY);
+      for (let ox = -1; ox <= 1; ox++) {
+        for (let oy = -1; oy <= 1; oy++) {
+          const cell = cells.get(`${gx + ox}:${gy + oy}`);
+          if (!cell) continue;
+          for (const j of cell) {
+            if (j <= i) continue;
+            const ovx = minX - Math.abs(xs[i] - xs[j]);
+            const ovy = minY - Math.abs(ys[i] - ys[j]);
+            if (ovx <= 0 || ovy <= 0) continue;
+            moved = true;
+            // Resolve along the axis needing the smaller push
+            if (ovx < ovy) {
+              const push = (ovx / 2) * (xs[i] < xs[j] ? -1 : 1);
+              xs[i] += push; xs[j] -= push;
+            } else {
+              const push = (ovy / 2) * (ys[i] < ys[j] ? -1 : 1);
+              ys[i] += push; ys[j] -= push;
+            }
+          }
+        }
+      }
+    }
+    return moved;
+  };
+
+  const snapshot = () => {
+    const positions = new Map<string, Point>();
+    memories.forEach((m, i) => positions.set(m.id, { x: xs[i], y: ys[i] }));
+    return positions;
+  };
+
+  let iteration = 0;
+  while (iteration < FORCE_ITERATIONS) {
+    await nextFrame();
+    if (signal?.aborted) return null;
+    const sliceStart = performance.now();
+    do {
+      step(iteration++);
+    } while (iteration < FORCE_ITERATIONS && performance.now() - sliceStart < FRAME_BUDGET_MS);
+    onFrame(snapshot());
+  }
+  for (let pass = 0; pass < SEPARATION_PASSES; pass++) {
+    await nextFrame();
+    if (signal?.aborted) return null;
+    const settled = !separate();
+    onFrame(snapshot());
+    if (settled) break;
+  }
+  return snapshot();
+};
+
+const targetPositions = (memories: RecallFile[], mode: Exclude<LayoutMode, 'force'>): Map<string, Point> => {
+  switch (mode) {
+    case 'cluster': return layoutByTagClusters(memories);
+    case 'timeline': return layoutByTimeline(memories);
+    case 'grid': return layoutByType(memories);
+  }
+};
+
+/**
+ * Runs a layout over `memories`, animating from `from` (the positions currently on screen).
+ * Resolves with the final positions, or null if `signal` aborted the run.
+ */
+export const runLayout = (
+  memories: RecallFile[],
+  mode: LayoutMode,
+  from: Map<string, Point>,
+  options: LayoutRunOptions
+): Promise<Map<string, Point> | null> => {
+  if (mode === 'force') return runForceLayout(memories, from, options);
+  return animatePositions(from, targetPositions(memories, mode), options);
+};
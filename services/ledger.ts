@@ -0,0 +1,276 @@
+import { FinancialData, RecallFile, RecallType } from "../types";
+import { utils, write } from "xlsx";
+
+/**
+ * Financial ledger built from the `metadata.financial` values extracted at ingest. Every
+ * memory with an amount becomes one row; totals are converted into a base currency using
+ * rates the user enters, since nothing here fetches exchange rates.
+ */
+export interface LedgerSettings {
+  baseCurrency: string;
+  rates: Record<string, number>; // units of the base currency per unit of each currency
+}
+
+export interface LedgerRow {
+  memoryId: string;
+  title: string;
+  type: RecallType;
+  amount: number;
+  currency: string;
+  date: string; // YYYY-MM-DD, the bill date or else the ingest date
+  month: string; // YYYY-MM
+  category: string;
+  entity: string;
+  converted: number | null; // null when there is no rate for the currency
+  corrected: boolean;
+  duplicateOf: string[]; // ids of memories this row likely duplicates
+}
+
+export type LedgerGrouping = 'category' | 'entity' | 'month';
+
+export interface LedgerTotal {
+  key: string; // see groupKeyOf
+  label: string; // the first spelling seen in the group
+  total: number; // in the base currency
+  count: number;
+  unconverted: number; // rows left out of `total` for lack of a rate
+}
+
+const LEDGER_SETTINGS_KEY = 'recall_ledger_settings';
+
+// Bills for the same amount from the same entity this close together are flagged
+const DUPLICATE_WINDOW_DAYS = 3;
+
+export const UNCATEGORIZED = 'Uncategorized';
+export const UNKNOWN_ENTITY = 'Unknown';
+
+const DEFAULT_SETTINGS: LedgerSettings = { baseCurrency: 'USD', rates: {} };
+
+export const loadLedgerSettings = (): LedgerSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEDGER_SETTINGS_KEY) || 'null');
+    if (!parsed || typeof parsed.baseCurrency !== 'string') return DEFAULT_SETTINGS;
+    const rates: Record<string, number> = {};
+    Object.entries(parsed.rates || {}).forEach(([code, rate]) => {
+      if (typeof rate === 'number' && rate > 0) rates[code] = rate;
+    });
+    return { baseCurrency: parsed.baseCurrency, rates };
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const storeLedgerSettings = (settings: LedgerSettings): void => {
+  localStorage.setItem(LEDGER_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₩': 'KRW', 'C$': 'CAD', 'A$': 'AUD', 'CHF': 'CHF'
+};
+
+/** Maps symbols and loose spellings to an upper-case code. Empty stays empty. */
+export const normalizeCurrency = (raw?: string): string => {
+  const value = (raw || '').trim();
+  if (!value) return '';
+  return CURRENCY_SYMBOLS[value] || value.toUpperCase();
+};
+
+/**
+ * Converts `amount` into the base currency. Rows without a currency are taken to be in
+ * the base currency already.
+ */
+export const convertAmount = (amount: number, currency: string, settings: LedgerSettings): number | null => {
+  if (!currency || currency === settings.baseCurrency) return amount;
+  const rate = settings.rates[currency];
+  return rate ? amount * rate : null;
+};
+
+/**
+ * Switches the base currency, re-expressing known rates against it so entered rates
+ * aren't lost. Rates that can't be carried over are dropped.
+ */
+export const rebaseSettings = (settings: LedgerSettings, baseCurrency: string): LedgerSettings => {
+  const next = normalizeCurrency(baseCurrency);
+  if (!next || next === settings.baseCurrency) return settings;
+  const pivot = settings.rates[next];
+  const rates: Record<string, number> = {};
+  if (pivot) {
+    rates[settings.baseCurrency] = 1 / pivot;
+    Object.entries(settings.rates).forEach(([code, rate]) => {
+      if (code !== next) rates[code] = rate / pivot;
+    });
+  }
+  return { baseCurrency: next, rates };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toDateString = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const ledgerDate = (memory: RecallFile): string => {
+  const billDate = memory.metadata.financial?.date;
+  return billDate && /^\d{4}-\d{2}-\d{2}/.test(billDate) && !isNaN(Date.parse(billDate)) ? billDate.slice(0, 10) : toDateString(memory.createdAt);
+};
+
+const normalizeEntity = (entity: string) =>
+  entity.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\b(inc|llc|ltd|co|corp|corporation|company|gmbh)\b/g, '').replace(/\s+/g, ' ').trim();
+
+const daysBetween = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+
+/**
+ * Flags rows that look like the same bill ingested twice: same amount and currency, same
+ * entity (or one side unknown) and dates within DUPLICATE_WINDOW_DAYS. Pairs marked as
+ * distinct by the user are never flagged; either row can still match a third.
+ */
+const findDuplicates = (rows: LedgerRow[], dismissed: Map<string, string[]>): Map<string, string[]> => {
+  const isDismissed = (a: LedgerRow, b: LedgerRow) =>
+    !!dismissed.get(a.memoryId)?.includes(b.memoryId) || !!dismissed.get(b.memoryId)?.includes(a.memoryId);
+  const buckets = new Map<string, LedgerRow[]>();
+  rows.forEach(row => {
+    const key = `${row.currency}|${row.amount.toFixed(2)}`;
+    buckets.set(key, [...(buckets.get(key) || []), row]);
+  });
+
+  const matches = new Map<string, string[]>();
+  const link = (a: LedgerRow, b: LedgerRow) => {
+    matches.set(a.memoryId, [...(matches.get(a.memoryId) || []), b.memoryId]);
+    matches.set(b.memoryId, [...(matches.get(b.memoryId) || []), a.memoryId]);
+  };
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const a = bucket[i];
+        const b = bucket[j];
+        const entityA = a.entity === UNKNOWN_ENTITY ? '' : normalizeEntity(a.entity);
+        const entityB = b.entity === UNKNOWN_ENTITY ? '' : normalizeEntity(b.entity);
+        const sameEntity = !entityA || !entityB || entityA === entityB;
+        if (sameEntity && daysBetween(a.date, b.date) <= DUPLICATE_WINDOW_DAYS && !isDismissed(a, b)) link(a, b);
+      }
+    }
+  });
+  return matches;
+};
+
+/** Ledger rows, newest first. */
+export const buildLedger = (memories: RecallFile[], settings: LedgerSettings): LedgerRow[] => {
+  const dismissed = new Map<string, string[]>();
+  const rows: LedgerRow[] = [];
+  memories.forEach(memory => {
+    const financial = memory.metadata.financial;
+    if (!financial || typeof financial.amount !== 'number' || !isFinite(financial.amount)) return;
+    if (financial.notDuplicateOf?.length) dismissed.set(memory.id, financial.notDuplicateOf);
+    const currency = normalizeCurrency(financial.currency);
+    const date = ledgerDate(memory);
+    rows.push({
+      memoryId: memory.id,
+      title: memory.title,
+      type: memory.type,
+      amount: financial.amount,
+      currency,
+      date,
+      month: date.slice(0, 7),
+      category: financial.category?.trim() || UNCATEGORIZED,
+      entity: financial.entity?.trim() || UNKNOWN_ENTITY,
+      converted: convertAmount(financial.amount, currency, settings),
+      corrected: !!financial.corrected,
+      duplicateOf: []
+    });
+  });
+
+  const duplicates = findDuplicates(rows, dismissed);
+  return rows
+    .map(row => (duplicates.has(row.memoryId) ? { ...row, duplicateOf: duplicates.get(row.memoryId) } : row))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+};
+
+/** Groups entities and categories regardless of case and spelling noise like "Inc.". */
+export const groupKeyOf = (row: LedgerRow, grouping: LedgerGrouping): string => {
+  if (grouping === 'month') return row.month;
+  if (grouping === 'entity') return normalizeEntity(row.entity) || row.entity;
+  return row.category.toLowerCase();
+};
+
+/**
+ * Totals per category, entity or month. Months sort newest first, the rest by total.
+ */
+export const totalsBy = (rows: LedgerRow[], grouping: LedgerGrouping): LedgerTotal[] => {
+  const totals = new Map<string, LedgerTotal>();
+  rows.forEach(row => {
+    const key = groupKeyOf(row, grouping);
+    const total = totals.get(key) || { key, label: row[grouping], total: 0, count: 0, unconverted: 0 };
+    total.count++;
+    if (row.converted === null) total.unconverted++;
+    else total.total += row.converted;
+    totals.set(key, total);
+  });
+  const list = [...totals.values()];
+  return grouping === 'month'
+    ? list.sort((a, b) => b.key.localeCompare(a.key))
+    : list.sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+};
+
+/** Currencies present in the ledger other than the base currency. */
+export const foreignCurrencies = (rows: LedgerRow[], settings: LedgerSettings): string[] =>
+  [...new Set<string>(rows.map(r => r.currency))].filter(c => c && c !== settings.baseCurrency).sort();
+
+/**
+ * Applies a manual correction to a memory's financial data. Corrected values are kept
+ * as-is from then on and marked so the ledger can show they were edited by hand.
+ */
+export const correctFinancial = (memory: RecallFile, patch: Partial<FinancialData>): RecallFile => ({
+  ...memory,
+  updatedAt: Date.now(),
+  metadata: {
+    ...memory.metadata,
+    financial: { ...memory.metadata.financial, ...patch, corrected: true }
+  }
+});
+
+const rowsForExport = (rows: LedgerRow[], settings: LedgerSettings, titles: Map<string, string>): (string | number)[][] => [
+  ['Date', 'Title', 'Entity', 'Category', 'Amount', 'Currency', `Amount (${settings.baseCurrency})`, 'Suspected Duplicate Of', 'Corrected', 'Memory ID'],
+  ...rows.map(r => [
+    r.date,
+    r.title,
+    r.entity,
+    r.category,
+    r.amount,
+    r.currency || settings.baseCurrency,
+    r.converted === null ? '' : Number(r.converted.toFixed(2)),
+    r.duplicateOf.map(id => titles.get(id) || id).join('; '),
+    r.corrected ? 'yes' : '',
+    r.memoryId
+  ])
+];
+
+const totalsForExport = (rows: LedgerRow[], grouping: LedgerGrouping, settings: LedgerSettings): (string | number)[][] => [
+  [grouping[0].toUpperCase() + grouping.slice(1), `Total (${settings.baseCurrency})`, 'Rows', 'Unconverted Rows'],
+  ...totalsBy(rows, grouping).map(t => [t.label, Number(t.total.toFixed(2)), t.count, t.unconverted])
+];
+
+// Text starting like a formula is quoted so spreadsheet apps show it instead of running it;
+// titles, entities and categories come from untrusted documents
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ledgerToCsv = (rows: LedgerRow[], settings: LedgerSettings): Blob => {
+  const titles = new Map<string, string>(rows.map(r => [r.memoryId, r.title]));
+  const csv = rowsForExport(rows, settings, titles).map(line => line.map(csvCell).join(',')).join('\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+};
+
+/** Workbook with the rows plus one totals sheet per grouping. */
+export const ledgerToXlsx = (rows: LedgerRow[], settings: LedgerSettings): Blob => {
+  const titles = new Map<string, string>(rows.map(r => [r.memoryId, r.title]));
+  const workbook = utils.book_new();
+  utils.book_append_sheet(workbook, utils.aoa_to_sheet(rowsForExport(rows, settings, titles)), 'Ledger');
+  (['category', 'entity', 'month'] as LedgerGrouping[]).forEach(grouping => {
+    const name = `By ${grouping[0].toUpperCase()}${grouping.slice(1)}`;
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet(totalsForExport(rows, grouping, settings)), name);
+  });
+  const data = write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
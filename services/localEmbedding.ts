@@ -0,0 +1,71 @@
+/**
+ * Deterministic, network-free text embedding: hashed term frequencies over
+ * unigrams and bigrams. Used as the offline search fallback and by the mock provider.
+ */
+export const LOCAL_DIMENSIONS = 512;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'we', 'you', 'your', 'our'
+]);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+// FNV-1a, 32-bit
+const hashToken = (token: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    h ^= token.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Crude plural folding so "bills" and "bill" share a bucket
+const stem = (token: string) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) ? token.slice(0, -1) : token;
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+/**
+ * Hashed term-frequency embedding (unigrams + bigrams, log-scaled, L2-normalized).
+ */
+export const localEmbed = (text: string): number[] => {
+  const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+  const tokens = tokenize(text).map(stem);
+  const counts = new Map<string, number>();
+  tokens.forEach((t, i) => {
+    counts.set(t, (counts.get(t) || 0) + 1);
+    if (i > 0) {
+      const bigram = `${tokens[i - 1]}_${t}`;
+      counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+    }
+  });
+
+  counts.forEach((count, feature) => {
+    const h = hashToken(feature);
+    const sign = (h & 0x80000000) ? -1 : 1;
+    vector[h % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count + 1));
+  });
+
+  return normalize(vector);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return (na === 0 || nb === 0) ? 0 : dot / Math.sqrt(na * nb);
+};
@@ -0,0 +1,138 @@
+import { escapeHtml } from "./sanitizeHtml";
+
+/**
+ * Markdown to HTML for imported .md files: headings, paragraphs, emphasis, code, lists,
+ * blockquotes, rules, links, images and GFM tables. Raw HTML in the source is escaped
+ * rather than passed through, and links are limited to safe schemes.
+ */
+const safeUrl = (url: string) => (/^(https?:|mailto:|#|\/|\.\.?\/|[\w-]+(\/|\.|$))/i.test(url) && !/^\s*(javascript|vbscript|data):/i.test(url) ? url : '#');
+
+const renderInline = (text: string): string => {
+  // Code spans are cut out first so their contents aren't formatted
+  const spans: string[] = [];
+  const stash = (html: string) => `\u0000${spans.push(html) - 1}\u0000`;
+  let out = text.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code) => stash(`<code>${escapeHtml(code.trim())}</code>`));
+  out = escapeHtml(out)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, alt, url) => stash(`<img src="${safeUrl(url)}" alt="${alt}" />`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, (_, label, url) => `<a href="${safeUrl(url)}" target="_blank" rel="noopener noreferrer">${label}</a>`)
+    .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, (_, url) => `<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(?<![\w*])(\*|_)(?=\S)([\s\S]*?\S)\1(?![\w*])/g, '<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br />\n');
+  return out.replace(/\u0000(\d+)\u0000/g, (_, i) => spans[Number(i)]);
+};
+
+const isTableDivider = (line: string) => line.includes('|') && /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/.test(line);
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const BLOCK_START = /^(#{1,6}\s|```|~~~|>|\s*([-*+]|\d+[.)])\s+|\s*([-*_])(\s*\3){2,}\s*$)/;
+
+const renderList = (lines: string[]): string => {
+  const ordered = /^\s*\d/.test(lines[0]);
+  const indent = (lines[0].match(/^\s*/) as RegExpMatchArray)[0].length;
+  const items: string[][] = [];
+  lines.forEach(line => {
+    const match = line.match(LIST_ITEM);
+    if (match && match[1].length <= indent) items.push([match[3]]);
+    else items[items.length - 1].push(line);
+  });
+  const body = items.map(([first, ...rest]) => {
+    const nestedAt = rest.findIndex(l => LIST_ITEM.test(l));
+    const continuation = (nestedAt < 0 ? rest : rest.slice(0, nestedAt)).map(l => l.trim()).join('\n');
+    const nested = nestedAt < 0 ? '' : renderList(rest.slice(nestedAt));
+    const task = first.match(/^\[([ xX])\]\s+(.*)$/);
+    const text = task ? `<input type="checkbox" disabled${task[1] !== ' ' ? ' checked' : ''} /> ${task[2]}` : first;
+    return `<li>${renderInline([text, continuation].filter(Boolean).join('\n'))}${nested}</li>`;
+  }).join('');
+  return ordered ? `<ol>${body}</ol>` : `<ul>${body}</ul>`;
+};
+
+export const renderMarkdown = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(/^(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].startsWith(fence[1]); i++) code.push(lines[i]);
+      i++;
+      html.push(`<pre><code${fence[2] ? ` class="language-${fence[2]}"` : ''}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      html.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      for (; i < lines.length && lines[i].trim() && !(!lines[i].startsWith('>') && BLOCK_START.test(lines[i])); i++) {
+        quote.push(lines[i].replace(/^>\s?/, ''));
+      }
+      html.push(`<blockquote>${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items: string[] = [];
+      const indent = (line.match(/^\s*/) as RegExpMatchArray)[0].length;
+      const ordered = /^\s*\d/.test(line);
+      // A sibling item of the other kind (bullet vs number) starts a new list
+      const endsList = (l: string) => LIST_ITEM.test(l) && (l.match(/^\s*/) as RegExpMatchArray)[0].length <= indent && /^\s*\d/.test(l) !== ordered;
+      for (; i < lines.length && !endsList(lines[i]) && (lines[i].trim() ? (LIST_ITEM.test(lines[i]) || /^\s+/.test(lines[i])) : LIST_ITEM.test(lines[i + 1] || '')); i++) {
+        if (lines[i].trim()) items.push(lines[i]);
+      }
+      html.push(renderList(items));
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && isTableDivider(lines[i + 1])) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(c => (c.startsWith(':') && c.endsWith(':') ? 'center' : c.endsWith(':') ? 'right' : ''));
+      const cell = (tag: string, text: string, col: number) =>
+        `<${tag}${align[col] ? ` style="text-align:${align[col]}"` : ''}>${renderInline(text)}</${tag}>`;
+      const rows: string[] = [];
+      for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+        rows.push(`<tr>${splitRow(lines[i]).map((c, col) => cell('td', c, col)).join('')}</tr>`);
+      }
+      html.push(`<table><thead><tr>${header.map((c, col) => cell('th', c, col)).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`);
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    for (; i < lines.length && lines[i].trim() && !BLOCK_START.test(lines[i]); i++) {
+      // Setext headings: a paragraph line underlined with === or ---
+      if (paragraph.length && /^\s*(=+|-+)\s*$/.test(lines[i])) break;
+      paragraph.push(lines[i]);
+    }
+    if (i < lines.length && paragraph.length && /^\s*(=+|-+)\s*$/.test(lines[i])) {
+      const level = lines[i].trim().startsWith('=') ? 1 : 2;
+      html.push(`<h${level}>${renderInline(paragraph.join(' '))}</h${level}>`);
+      i++;
+      continue;
+    }
+    if (!paragraph.length) { paragraph.push(line); i++; }
+    html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+  }
+
+  return html.join('\n');
+};
@@ -0,0 +1,157 @@
+import { TranscriptSegment } from "../types";
+import { base64ToBlob } from "./blobStore";
+import { fitsInline, transcribeChunk } from "./geminiService";
+import { bytesToBase64 } from "./importers/fileHelpers";
+
+/**
+ * Transcripts of audio and video memories. Media small enough for one request is
+ * transcribed as it is; longer media is decoded locally, mixed down to 16 kHz mono and cut
+ * into WAV pieces of a few minutes, each transcribed on its own and shifted to its place in
+ * the recording. Pieces are cut at the quietest moment near the boundary so words aren't
+ * split between them.
+ */
+const SAMPLE_RATE = 16000;
+const CHUNK_SECONDS = 240; // about 7.5 MB of 16-bit mono WAV
+const CUT_WINDOW_SECONDS = 10; // how far before a boundary a quieter cut is looked for
+const FRAME_SECONDS = 0.1;
+// Closing lines of the previous piece sent along for continuity
+const CONTEXT_LINES = 3;
+
+export interface MediaChunk {
+  start: number; // seconds into the recording
+  duration: number; // Infinity when the media was not decoded
+  mimeType: string;
+  data: string; // base64
+}
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const ascii = (at: number, text: string) => Array.from(text).forEach((c, i) => view.setUint8(at + i, c.charCodeAt(0)));
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+  return new Uint8Array(view.buffer);
+};
+
+const mixDown = (audio: AudioBuffer): Float32Array => {
+  if (audio.numberOfChannels === 1) return audio.getChannelData(0);
+  const mono = new Float32Array(audio.length);
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const channel = audio.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / audio.numberOfChannels;
+  }
+  return mono;
+};
+
+// The sample in the quietest frame of the window ending at `end`
+const quietestCut = (samples: Float32Array, end: number, sampleRate: number) => {
+  const frame = Math.round(FRAME_SECONDS * sampleRate);
+  let best = end;
+  let bestEnergy = Infinity;
+  for (let at = end - frame; at >= end - CUT_WINDOW_SECONDS * sampleRate; at -= frame) {
+    let energy = 0;
+    for (let i = at; i < at + frame; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = at + Math.round(frame / 2);
+    }
+  }
+  return best;
+};
+
+/**
+ * The pieces `base64` media is transcribed in. Throws when the media is too large for one
+ * request and the browser can't decode its audio.
+ */
+export const mediaChunks = async (base64: string, mimeType: string): Promise<MediaChunk[]> => {
+  if (fitsInline(base64)) return [{ start: 0, duration: Infinity, mimeType, data: base64 }];
+  let audio: AudioBuffer;
+  try {
+    // Decoding resamples to the context's rate
+    audio = await new OfflineAudioContext(1, 1, SAMPLE_RATE).decodeAudioData(await base64ToBlob(base64).arrayBuffer());
+  } catch {
+    throw new Error("The recording is too long to transcribe in one piece and its audio could not be decoded");
+  }
+  const samples = mixDown(audio);
+  const size = CHUNK_SECONDS * audio.sampleRate;
+  const chunks: MediaChunk[] = [];
+  for (let from = 0; from < samples.length;) {
+    const to = from + size >= samples.length ? samples.length : quietestCut(samples, from + size, audio.sampleRate);
+    chunks.push({
+      start: from / audio.sampleRate,
+      duration: (to - from) / audio.sampleRate,
+      mimeType: 'audio/wav',
+      data: bytesToBase64(encodeWav(samples.subarray(from, to), audio.sampleRate))
+    });
+    from = to;
+  }
+  return chunks;
+};
+
+/**
+ * The timestamped transcript of audio or video, one piece after another so speaker labels
+ * carry over. Provider failures are thrown.
+ */
+export const transcribeMedia = async (
+  base64: string,
+  mimeType: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<TranscriptSegment[]> => {
+  const chunks = await mediaChunks(base64, mimeType);
+  const transcript: TranscriptSegment[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    const speakers = [...new Set(transcript.map(s => s.speaker).filter((s): s is string => !!s))];
+    const lastLines = transcriptText(transcript.slice(-CONTEXT_LINES)).split('\n').filter(Boolean);
+    const segments = await transcribeChunk(chunk.data, chunk.mimeType, speakers, lastLines);
+    segments
+      .sort((a, b) => a.start - b.start)
+      .forEach(s => {
+        const start = chunk.start + Math.min(s.start, chunk.duration);
+        const end = chunk.start + Math.min(Math.max(s.end, s.start), chunk.duration);
+        transcript.push({ ...s, start, end });
+      });
+    onProgress?.(i + 1, chunks.length);
+  }
+  return transcript;
+};
+
+/** Seconds as "m:ss", or "h:mm:ss" from an hour on. */
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/** The transcript as text, one "[m:ss] Speaker: text" line per segment. */
+export const transcriptText = (transcript: TranscriptSegment[]): string =>
+  transcript.map(s => `[${formatTimestamp(s.start)}] ${s.speaker ? `${s.speaker}: ` : ''}${s.text}`).join('\n');
+
+/** Index of the segment playing at `time`: the last one started by then, or -1. */
+export const segmentIndexAt = (transcript: TranscriptSegment[], time: number): number => {
+  let lo = 0;
+  let hi = transcript.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (transcript[mid].start <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
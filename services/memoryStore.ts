@@ -0,0 +1,66 @@
+import { RecallFile } from "../types";
+import { OBJECT_STORES, requestToPromise, withTransaction } from "./database";
+import { externalizeMemory, putBlobs } from "./blobStore";
+
+// Key used by the pre-IndexedDB builds that serialized the whole library at once
+const LEGACY_STORAGE_KEY = 'recall_memories';
+
+/**
+ * Memory repository. Each RecallFile is its own record, so a change to one
+ * memory never rewrites the rest of the library. Heavy payloads are moved into
+ * the blob store on write, so stored records hold blob references.
+ */
+export const getMemory = (id: string): Promise<RecallFile | undefined> =>
+  withTransaction(OBJECT_STORES.memories, 'readonly', tx =>
+    requestToPromise<RecallFile | undefined>(tx.objectStore(OBJECT_STORES.memories).get(id))
+  );
+
+export const listMemories = async (): Promise<RecallFile[]> => {
+  const all = await withTransaction(OBJECT_STORES.memories, 'readonly', tx =>
+    requestToPromise<RecallFile[]>(tx.objectStore(OBJECT_STORES.memories).getAll())
+  );
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const putMemory = (memory: RecallFile): Promise<void> => syncMemories([memory], []);
+
+export const deleteMemory = (id: string): Promise<void> => syncMemories([], [id]);
+
+/**
+ * Applies a batch of per-record writes and deletions in one transaction.
+ * Hashing happens up front because IndexedDB transactions cannot span other async work.
+ */
+export const syncMemories = async (writes: RecallFile[], deletions: string[]): Promise<void> => {
+  const prepared = await Promise.all(writes.map(externalizeMemory));
+  await withTransaction([OBJECT_STORES.memories, OBJECT_STORES.blobs], 'readwrite', async tx => {
+    const store = tx.objectStore(OBJECT_STORES.memories);
+    await putBlobs(tx, prepared.flatMap(p => p.blobs));
+    await Promise.all([
+      ...prepared.map(p => requestToPromise(store.put(p.record))),
+      ...deletions.map(id => requestToPromise(store.delete(id)))
+    ]);
+  });
+};
+
+/**
+ * One-time import of the old localStorage library. The legacy key is only
+ * cleared after every record has been committed, so a quota failure leaves it intact.
+ * Returns the number of memories imported.
+ */
+export const migrateLegacyStorage = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (saved === null) return 0;
+
+  let legacy: RecallFile[];
+  try {
+    const parsed = JSON.parse(saved);
+    legacy = Array.isArray(parsed) ? parsed.filter(m => m && typeof m.id === 'string') : [];
+  } catch (e) {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  if (legacy.length > 0) await syncMemories(legacy, []);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+};
@@ -0,0 +1,95 @@
+import { GlobalWorkerOptions, PDFDocumentProxy, getDocument, version } from "pdfjs-dist";
+import { RecallFile, RecallType } from "../types";
+import { isBlobRef } from "./blobStore";
+
+/**
+ * pdf.js helpers. PDFs stay stored as base64; the text of each page is extracted once at
+ * ingest into `memory.pages` so search, the agent and text edits never need the worker.
+ */
+// The worker is loaded from the CDN like the rest of the import map, pinned to the library's version
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.js`;
+
+export const THUMBNAIL_WIDTH = 320;
+
+export const isPdfContent = (content: string) => content.startsWith('JVBER');
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const loadPdf = (base64: string): Promise<PDFDocumentProxy> =>
+  getDocument({ data: base64ToBytes(base64) }).promise;
+
+/** Page texts in order, with line breaks where pdf.js reports the end of a line. */
+export const extractPageTexts = async (doc: PDFDocumentProxy): Promise<string[]> => {
+  const pages: string[] = [];
+  for (let n = 1; n <= doc.numPages; n++) {
+    const page = await doc.getPage(n);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map((item: any) => (typeof item.str === 'string' ? item.str + (item.hasEOL ? '\n' : '') : ''))
+      .join('')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+    pages.push(text);
+    page.cleanup();
+  }
+  return pages;
+};
+
+/** First page rendered to a JPEG, as base64 like image thumbnails. */
+export const renderThumbnail = async (doc: PDFDocumentProxy, width = THUMBNAIL_WIDTH): Promise<string> => {
+  const page = await doc.getPage(1);
+  const unscaled = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: width / unscaled.width });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+  return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+};
+
+/**
+ * Page texts and a first-page thumbnail for a base64 PDF.
+ */
+export const analyzePdf = async (base64: string): Promise<{ pages: string[]; thumbnail: string }> => {
+  const doc = await loadPdf(base64);
+  try {
+    const pages = await extractPageTexts(doc);
+    const thumbnail = await renderThumbnail(doc).catch(() => '');
+    return { pages, thumbnail };
+  } finally {
+    doc.destroy();
+  }
+};
+
+/** Page texts joined with page markers, as the agent and text edits see a PDF. */
+export const formatPages = (pages: string[]): string =>
+  pages.map((text, i) => `--- Page ${i + 1} ---\n${text}`).join('\n\n');
+
+/** The extracted text of a PDF memory, or '' when there is none. */
+export const pdfText = (memory: RecallFile): string => formatPages(memory.pages || []);
+
+export const extractPdfText = async (base64: string): Promise<string[]> => {
+  const doc = await loadPdf(base64);
+  try {
+    return await extractPageTexts(doc);
+  } finally {
+    doc.destroy();
+  }
+};
+
+/**
+ * Documents that may be PDFs ingested before text extraction. Payloads behind a blob
+ * reference have to be resolved to tell, so those are candidates too.
+ */
+export const mayNeedPdfAnalysis = (memory: RecallFile) =>
+  memory.type === RecallType.DOCUMENT && !memory.pages && (isBlobRef(memory.content) || isPdfContent(memory.content));
@@ -0,0 +1,252 @@
+import { jsPDF } from "jspdf";
+import { Block, TextRun, loadImage } from "./documentModel";
+
+/**
+ * Lays the document model out as a PDF with jsPDF: styled, wrapped text, headings kept
+ * with what follows them, lists, quotes, code, tables that repeat their header row on every
+ * page, and images scaled to the page. Uses the standard PDF fonts, which cover Latin text;
+ * other scripts come out better in the DOCX export.
+ */
+const MARGIN = 56;
+const BODY_SIZE = 10.5;
+const LINE_HEIGHT = 1.4;
+const HEADING_SIZES = [20, 16, 13.5, 12, 11, 11];
+const LINK_COLOR: [number, number, number] = [5, 99, 193];
+const TEXT_COLOR: [number, number, number] = [33, 33, 33];
+const MUTED_COLOR: [number, number, number] = [110, 110, 110];
+const RULE_COLOR: [number, number, number] = [190, 190, 190];
+const SHADE_COLOR: [number, number, number] = [242, 242, 242];
+const CELL_PADDING = 4;
+// Tables wider than this turn the whole document to landscape
+const LANDSCAPE_COLUMNS = 8;
+
+interface Piece {
+  text: string;
+  run: TextRun;
+  width: number;
+}
+
+interface TextOptions {
+  size: number;
+  indent?: number;
+  bold?: boolean;
+  color?: [number, number, number];
+  preserveSpaces?: boolean; // code keeps its indentation
+  before?: number; // space above
+  after?: number; // space below
+  onLine?: (top: number, height: number) => void; // draws decoration behind each line
+}
+
+export const blocksToPdf = async (blocks: Block[], title: string): Promise<Blob> => {
+  const landscape = blocks.some(b => b.kind === 'table' && Math.max(0, ...b.rows.map(r => r.length)) > LANDSCAPE_COLUMNS);
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: landscape ? 'landscape' : 'portrait' });
+  doc.setProperties({ title });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const bottom = pageHeight - MARGIN;
+  let y = MARGIN;
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  // Starts a new page unless `height` still fits on this one
+  const ensure = (height: number) => {
+    if (y + height > bottom && y > MARGIN) newPage();
+  };
+
+  const useFont = (run: TextRun, size: number, bold = false) => {
+    const isBold = bold || !!run.bold;
+    const style = isBold && run.italic ? 'bolditalic' : isBold ? 'bold' : run.italic ? 'italic' : 'normal';
+    doc.setFont(run.code ? 'courier' : 'helvetica', style);
+    doc.setFontSize(size);
+  };
+
+  // Breaks styled runs into lines no wider than `width`
+  const layout = (runs: TextRun[], width: number, options: TextOptions): Piece[][] => {
+    const lines: Piece[][] = [[]];
+    let lineWidth = 0;
+    const newLine = () => {
+      lines.push([]);
+      lineWidth = 0;
+    };
+    const place = (text: string, run: TextRun) => {
+      const pieceWidth = doc.getTextWidth(text);
+      const line = lines[lines.length - 1];
+      const isSpace = /^ +$/.test(text);
+      if (isSpace && !line.length && !options.preserveSpaces) return;
+      if (lineWidth + pieceWidth > width && line.length && !isSpace) newLine();
+      if (pieceWidth > width && !isSpace) {
+        // A word longer than the line is split wherever it has to be
+        let part = '';
+        for (const char of text) {
+          if (part && doc.getTextWidth(part + char) > width) {
+            lines[lines.length - 1].push({ text: part, run, width: doc.getTextWidth(part) });
+            newLine();
+            part = '';
+          }
+          part += char;
+        }
+        text = part;
+      }
+      lines[lines.length - 1].push({ text, run, width: doc.getTextWidth(text) });
+      lineWidth += doc.getTextWidth(text);
+    };
+    runs.forEach(run => {
+      useFont(run, options.size, options.bold);
+      (run.text.match(/\n| +|[^ \n]+/g) || []).forEach(token => (token === '\n' ? newLine() : place(token, run)));
+    });
+    // Trailing spaces don't count towards the line
+    lines.forEach(line => {
+      while (line.length && /^ +$/.test(line[line.length - 1].text) && !options.preserveSpaces) line.pop();
+    });
+    return lines;
+  };
+
+  const writeText = (runs: TextRun[], options: TextOptions) => {
+    const indent = options.indent || 0;
+    const lineHeight = options.size * LINE_HEIGHT;
+    const lines = layout(runs, contentWidth - indent, options);
+    y += options.before || 0;
+    lines.forEach(line => {
+      ensure(lineHeight);
+      options.onLine?.(y, lineHeight);
+      const baseline = y + options.size * 1.05;
+      let x = MARGIN + indent;
+      line.forEach(piece => {
+        useFont(piece.run, options.size, options.bold);
+        doc.setTextColor(...(piece.run.link ? LINK_COLOR : options.color || TEXT_COLOR));
+        doc.text(piece.text, x, baseline);
+        if (piece.run.link) doc.link(x, baseline - options.size, piece.width, options.size * 1.2, { url: piece.run.link });
+        if (piece.run.underline || piece.run.link || piece.run.strike) {
+          doc.setDrawColor(...(piece.run.link ? LINK_COLOR : options.color || TEXT_COLOR));
+          doc.setLineWidth(0.5);
+          const lineY = piece.run.strike ? baseline - options.size * 0.3 : baseline + 1.5;
+          doc.line(x, lineY, x + piece.width, lineY);
+        }
+        x += piece.width;
+      });
+      y += lineHeight;
+    });
+    y += options.after ?? options.size * 0.6;
+  };
+
+  const writeTable = (rows: string[][], header: boolean) => {
+    const columns = Math.max(1, ...rows.map(r => r.length));
+    const size = columns > 6 ? 7.5 : 9;
+    const lineHeight = size * 1.3;
+    // Columns get room in proportion to their longest text, within limits
+    const weights = Array.from({ length: columns }, (_, c) => Math.min(40, Math.max(4, ...rows.map(r => (r[c] || '').length))));
+    const total = weights.reduce((a, b) => a + b, 0);
+    const widths = weights.map(w => (w / total) * contentWidth);
+
+    const rowLines = (cells: string[], bold: boolean) => {
+      doc.setFont('helvetica', bold ? 'bold' : 'normal');
+      doc.setFontSize(size);
+      return widths.map((w, c) => doc.splitTextToSize(cells[c] || '', w - 2 * CELL_PADDING) as string[]);
+    };
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const lines = rowLines(cells, bold);
+      const height = Math.max(1, ...lines.map(l => l.length)) * lineHeight + 2 * CELL_PADDING;
+      if (y + height > bottom && y > MARGIN) {
+        newPage();
+        if (header && !bold) drawRow(rows[0], true);
+      }
+      let x = MARGIN;
+      doc.setDrawColor(...RULE_COLOR);
+      doc.setLineWidth(0.5);
+      if (bold) doc.setFillColor(...SHADE_COLOR);
+      widths.forEach((w, c) => {
+        doc.rect(x, y, w, height, bold ? 'FD' : 'S');
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(size);
+        doc.setTextColor(...TEXT_COLOR);
+        lines[c].forEach((line, i) => doc.text(line, x + CELL_PADDING, y + CELL_PADDING + size + i * lineHeight));
+        x += w;
+      });
+      y += height;
+    };
+
+    rows.forEach((cells, r) => drawRow(cells, header && r === 0));
+    y += BODY_SIZE;
+  };
+
+  const writeImage = async (block: Extract<Block, { kind: 'image' }>) => {
+    const image = await loadImage(block.src);
+    if (!image) {
+      // Remote images aren't fetched; the PDF links to them instead
+      writeText([{ text: block.alt || block.src, link: /^https?:/i.test(block.src) ? block.src : undefined }], { size: BODY_SIZE, color: MUTED_COLOR });
+      return;
+    }
+    // Pixels at 96 dpi, shrunk to fit the page
+    const scale = Math.min(0.75, contentWidth / image.width, (bottom - MARGIN) / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    ensure(height);
+    doc.addImage(image.bytes, image.type.toUpperCase(), MARGIN, y, width, height);
+    y += height + BODY_SIZE;
+  };
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level - 1] || BODY_SIZE;
+        // Keep the heading with at least two lines of what follows
+        ensure(size * LINE_HEIGHT + 2 * BODY_SIZE * LINE_HEIGHT);
+        writeText(block.runs, { size, bold: true, before: y > MARGIN ? size * 0.6 : 0, after: size * 0.4 });
+        break;
+      }
+      case 'paragraph':
+        writeText(block.runs, block.quote
+          ? {
+              size: BODY_SIZE, indent: 14, color: MUTED_COLOR,
+              onLine: (top, height) => {
+                doc.setFillColor(...RULE_COLOR);
+                doc.rect(MARGIN + 2, top, 2, height, 'F');
+              }
+            }
+          : { size: BODY_SIZE });
+        break;
+      case 'listItem': {
+        const indent = 18 * (block.depth + 1);
+        const marker = block.ordered ? `${block.index}.` : ['•', '-', '·'][block.depth % 3];
+        ensure(BODY_SIZE * LINE_HEIGHT);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(BODY_SIZE);
+        doc.setTextColor(...TEXT_COLOR);
+        doc.text(marker, MARGIN + indent - 4, y + BODY_SIZE * 1.05, { align: 'right' });
+        writeText(block.runs, { size: BODY_SIZE, indent, after: BODY_SIZE * 0.25 });
+        break;
+      }
+      case 'code': {
+        y += 2;
+        writeText([{ text: block.text, code: true }], {
+          size: 8.5, indent: 8, preserveSpaces: true, after: BODY_SIZE,
+          onLine: (top, height) => {
+            doc.setFillColor(...SHADE_COLOR);
+            doc.rect(MARGIN, top, contentWidth, height, 'F');
+          }
+        });
+        break;
+      }
+      case 'table':
+        writeTable(block.rows, block.header);
+        break;
+      case 'image':
+        await writeImage(block);
+        break;
+      case 'rule':
+        ensure(BODY_SIZE);
+        doc.setDrawColor(...RULE_COLOR);
+        doc.setLineWidth(0.75);
+        doc.line(MARGIN, y + BODY_SIZE / 2, pageWidth - MARGIN, y + BODY_SIZE / 2);
+        y += BODY_SIZE * 1.5;
+        break;
+    }
+  }
+
+  return doc.output('blob');
+};
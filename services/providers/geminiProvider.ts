@@ -0,0 +1,113 @@
+import { Content, GoogleGenAI, Part, Schema, Type } from "@google/genai";
+import type { AIMessage, AIProvider, JsonSchema } from "../aiProvider";
+import type { GeminiSettings } from "../aiSettings";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+    : undefined
+});
+
+const toGeminiContents = (messages: AIMessage[]): Content[] =>
+  messages.map(message => {
+    if (message.role === 'user') return { role: 'user', parts: message.parts as Part[] };
+    if (message.role === 'model') {
+      const parts: Part[] = [];
+      if (message.text) parts.push({ text: message.text });
+      // Gemini 3 rejects a follow-up turn whose function calls lost their thought signatures
+      (message.toolCalls || []).forEach(call => parts.push({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        ...(call.signature ? { thoughtSignature: call.signature } : {})
+      }));
+      return { role: 'model', parts };
+    }
+    return {
+      role: 'user',
+      parts: message.results.map(r => ({
+        functionResponse: { id: r.callId, name: r.name, response: { result: r.result } }
+      }))
+    };
+  });
+
+export const createGeminiProvider = (config: GeminiSettings): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    kind: 'gemini',
+    label: 'Google Gemini',
+    embeddingModelId: `gemini-${config.embeddingModel}`,
+    isConfigured: !!config.apiKey,
+
+    generateJSON: async (parts, schema) => {
+      const response = await ai.models.generateContent({
+        model: config.textModel,
+        contents: { parts: parts as Part[] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema)
+        }
+      });
+      return JSON.parse(response.text || "{}");
+    },
+
+    editImage: async (imageBase64, mimeType, instruction) => {
+      const response = await ai.models.generateContent({
+        model: config.imageModel,
+        contents: {
+          parts: [
+            { inlineData: { mimeType, data: imageBase64 } },
+            { text: instruction }
+          ]
+        }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) return part.inlineData.data;
+      }
+      return "";
+    },
+
+    generateWithTools: async (system, messages, tools) => {
+      const response = await ai.models.generateContent({
+        model: config.textModel,
+        contents: toGeminiContents(messages),
+        config: {
+          systemInstruction: system,
+          tools: tools.length > 0
+            ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parameters: toGeminiSchema(t.parameters) })) }]
+            : undefined
+        }
+      });
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      return {
+        text: parts.filter(p => p.text).map(p => p.text).join(''),
+        toolCalls: parts
+          .filter(p => p.functionCall?.name)
+          .map(p => ({
+            id: p.functionCall!.id || crypto.randomUUID(),
+            name: p.functionCall!.name as string,
+            args: (p.functionCall!.args || {}) as Record<string, any>,
+            ...(p.thoughtSignature ? { signature: p.thoughtSignature } : {})
+          }))
+      };
+    },
+
+    embed: async (texts) => {
+      const response = await ai.models.embedContent({ model: config.embeddingModel, contents: texts });
+      return (response.embeddings || []).map(e => e.values || []);
+    }
+  };
+};
@@ -0,0 +1,55 @@
+import type { AIProvider, ContentPart, JsonSchema } from "../aiProvider";
+import { LOCAL_DIMENSIONS, localEmbed } from "../localEmbedding";
+
+/**
+ * Deterministic offline provider for demos and tests: the same input always
+ * yields the same output, and nothing leaves the browser.
+ */
+const promptText = (parts: ContentPart[]) =>
+  parts.map(p => ('text' in p ? p.text : `[${p.inlineData.mimeType}]`)).join('\n');
+
+const shortHash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+const fillSchema = (schema: JsonSchema, key: string, seed: string): any => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([k, v]) => [k, fillSchema(v, k, seed)])
+      );
+    case 'array':
+      return schema.items ? [fillSchema(schema.items, key, seed)] : [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `mock-${key}-${seed}`;
+  }
+};
+
+export const createMockProvider = (): AIProvider => ({
+  kind: 'mock',
+  label: 'Mock (offline)',
+  embeddingModelId: `mock-local-hash-${LOCAL_DIMENSIONS}`,
+  isConfigured: true,
+
+  generateJSON: async (parts, schema) => fillSchema(schema, 'value', shortHash(promptText(parts))),
+
+  editImage: async (imageBase64) => imageBase64,
+
+  generateWithTools: async (_system, messages) => {
+    const lastUser = [...messages].reverse().find(m => m.role === 'user');
+    const text = lastUser && lastUser.role === 'user' ? promptText(lastUser.parts) : '';
+    return { text: `Mock reply (${shortHash(text)}): ${text.slice(0, 200)}`, toolCalls: [] };
+  },
+
+  embed: async (texts) => texts.map(localEmbed)
+});
@@ -0,0 +1,122 @@
+import type { AIMessage, AIProvider, ContentPart } from "../aiProvider";
+import type { OpenAICompatibleSettings } from "../aiSettings";
+
+/**
+ * Talks to any server implementing the OpenAI REST surface: OpenAI itself,
+ * Ollama (`/v1`), vLLM, LM Studio, llama.cpp server and similar.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleSettings): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const headers = (json = true): Record<string, string> => ({
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+  });
+
+  const request = async (path: string, init: RequestInit): Promise<any> => {
+    const res = await fetch(`${baseUrl}${path}`, init);
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new Error(`OpenAI-compatible request to ${path} failed (${res.status}): ${detail.slice(0, 300)}`);
+    }
+    return res.json();
+  };
+
+  const toContent = (parts: ContentPart[]) => {
+    const content = parts.map(part => {
+      if ('text' in part) return { type: 'text', text: part.text };
+      if (part.inlineData.mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+      }
+      return { type: 'text', text: `[Attached ${part.inlineData.mimeType} content is not supported by this provider]` };
+    });
+    return content.every(c => c.type === 'text') ? content.map(c => (c as { text: string }).text).join('\n\n') : content;
+  };
+
+  const toMessages = (system: string, messages: AIMessage[]) => {
+    const out: any[] = system ? [{ role: 'system', content: system }] : [];
+    messages.forEach(message => {
+      if (message.role === 'user') out.push({ role: 'user', content: toContent(message.parts) });
+      else if (message.role === 'model') {
+        out.push({
+          role: 'assistant',
+          content: message.text || null,
+          tool_calls: message.toolCalls?.length
+            ? message.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.args) } }))
+            : undefined
+        });
+      } else {
+        message.results.forEach(r => out.push({ role: 'tool', tool_call_id: r.callId, content: JSON.stringify(r.result) }));
+      }
+    });
+    return out;
+  };
+
+  return {
+    kind: 'openai',
+    label: 'OpenAI-compatible',
+    embeddingModelId: `openai-${baseUrl}-${config.embeddingModel}`,
+    isConfigured: !!config.baseUrl && !!config.textModel,
+
+    generateJSON: async (parts, schema) => {
+      const system = `Respond with a single JSON object matching this JSON Schema, and nothing else:\n${JSON.stringify(schema)}`;
+      const data = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model: config.textModel,
+          messages: toMessages(system, [{ role: 'user', parts }]),
+          response_format: { type: 'json_object' }
+        })
+      });
+      const text: string = data.choices?.[0]?.message?.content || '{}';
+      // Some local models still wrap JSON in a code fence
+      return JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    },
+
+    editImage: async (imageBase64, mimeType, instruction) => {
+      if (!config.imageModel) throw new Error('Image editing is not configured for the OpenAI-compatible provider');
+      const bytes = Uint8Array.from(atob(imageBase64), c => c.charCodeAt(0));
+      const form = new FormData();
+      form.append('model', config.imageModel);
+      form.append('prompt', instruction);
+      form.append('image', new Blob([bytes], { type: mimeType }), 'image.png');
+      const data = await request('/images/edits', { method: 'POST', headers: headers(false), body: form });
+      return data.data?.[0]?.b64_json || '';
+    },
+
+    generateWithTools: async (system, messages, tools) => {
+      const data = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({
+          model: config.textModel,
+          messages: toMessages(system, messages),
+          tools: tools.length > 0
+            ? tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+            : undefined
+        })
+      });
+      const message = data.choices?.[0]?.message || {};
+      return {
+        text: message.content || '',
+        toolCalls: (message.tool_calls || []).map((c: any) => {
+          let args: Record<string, any> = {};
+          try { args = typeof c.function.arguments === 'string' ? JSON.parse(c.function.arguments) : c.function.arguments || {}; } catch (e) { /* leave empty */ }
+          return { id: c.id || crypto.randomUUID(), name: c.function.name, args };
+        })
+      };
+    },
+
+    embed: async (texts) => {
+      const data = await request('/embeddings', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ model: config.embeddingModel, input: texts })
+      });
+      return (data.data || [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((d: any) => d.embedding as number[]);
+    }
+  };
+};
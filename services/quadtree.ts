@@ -0,0 +1,91 @@
+/**
+ * A region quadtree of axis-aligned rectangles, used to cull canvas cards to the viewport.
+ * Items that straddle a split line stay in the parent node, so every item is stored once.
+ */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface QuadtreeItem extends Rect {
+  id: string;
+}
+
+interface QuadNode {
+  bounds: Rect;
+  items: QuadtreeItem[];
+  children: QuadNode[] | null;
+  depth: number;
+}
+
+export interface Quadtree {
+  query: (area: Rect) => QuadtreeItem[];
+}
+
+const NODE_CAPACITY = 16;
+const MAX_DEPTH = 10;
+
+export const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+const contains = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+const split = (node: QuadNode) => {
+  const { x, y, width, height } = node.bounds;
+  const w = width / 2;
+  const h = height / 2;
+  node.children = [
+    { x, y }, { x: x + w, y }, { x, y: y + h }, { x: x + w, y: y + h }
+  ].map(o => ({ bounds: { ...o, width: w, height: h }, items: [], children: null, depth: node.depth + 1 }));
+
+  const keep: QuadtreeItem[] = [];
+  node.items.forEach(item => {
+    const child = node.children!.find(c => contains(c.bounds, item));
+    if (child) insert(child, item); else keep.push(item);
+  });
+  node.items = keep;
+};
+
+const insert = (node: QuadNode, item: QuadtreeItem) => {
+  if (node.children) {
+    const child = node.children.find(c => contains(c.bounds, item));
+    if (child) { insert(child, item); return; }
+    node.items.push(item);
+    return;
+  }
+  node.items.push(item);
+  if (node.items.length > NODE_CAPACITY && node.depth < MAX_DEPTH) split(node);
+};
+
+const collect = (node: QuadNode, area: Rect, out: QuadtreeItem[]) => {
+  if (!intersects(node.bounds, area)) return;
+  node.items.forEach(item => { if (intersects(item, area)) out.push(item); });
+  node.children?.forEach(child => collect(child, area, out));
+};
+
+export const buildQuadtree = (items: QuadtreeItem[]): Quadtree => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  items.forEach(i => {
+    minX = Math.min(minX, i.x);
+    minY = Math.min(minY, i.y);
+    maxX = Math.max(maxX, i.x + i.width);
+    maxY = Math.max(maxY, i.y + i.height);
+  });
+  if (!items.length) { minX = minY = 0; maxX = maxY = 1; }
+  // Square bounds keep the quadrants square, which splits cards more evenly
+  const size = Math.max(maxX - minX, maxY - minY, 1);
+  const root: QuadNode = { bounds: { x: minX, y: minY, width: size, height: size }, items: [], children: null, depth: 0 };
+  items.forEach(item => insert(root, item));
+
+  return {
+    query: (area: Rect) => {
+      const out: QuadtreeItem[] = [];
+      collect(root, area, out);
+      return out;
+    }
+  };
+};
@@ -0,0 +1,266 @@
+import { RecallFile } from "../types";
+
+/**
+ * Library search query language.
+ *
+ *   type:DOCUMENT tag:tax -tag:draft amount>500 entity:"PG&E" before:2025-01-01
+ *   (tag:utility OR tag:water) after:2024-06-01
+ *
+ * Terms separated by whitespace are ANDed; `OR` binds looser than `AND`; `-` or `NOT`
+ * negates; parentheses group. Bare words match title, tags, description and entity.
+ * before:/after: compare against the extracted bill date when present, else createdAt.
+ */
+export type ComparisonOp = ':' | '>' | '<' | '>=' | '<=';
+
+export type QueryField =
+  | 'type' | 'tag' | 'title' | 'mood' | 'location' | 'source'
+  | 'amount' | 'currency' | 'category' | 'entity'
+  | 'before' | 'after';
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'term'; field: QueryField | null; op: ComparisonOp; value: string; start: number; end: number };
+
+export interface QueryError {
+  message: string;
+  position: number; // 0-based offset into the query string
+}
+
+export type ParseResult =
+  | { ok: true; query: QueryNode }
+  | { ok: false; error: QueryError };
+
+const FIELDS: QueryField[] = [
+  'type', 'tag', 'title', 'mood', 'location', 'source',
+  'amount', 'currency', 'category', 'entity', 'before', 'after'
+];
+const NUMERIC_FIELDS: QueryField[] = ['amount'];
+const DATE_FIELDS: QueryField[] = ['before', 'after'];
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; start: number; end: number }
+  | { type: 'term'; field: string | null; op: ComparisonOp; value: string; start: number; end: number };
+
+class ParseFailure {
+  constructor(public error: QueryError) {}
+}
+
+const fail = (message: string, position: number): never => {
+  throw new ParseFailure({ message, position });
+};
+
+const isBoundary = (ch: string | undefined) => ch === undefined || /\s/.test(ch) || ch === '(' || ch === ')';
+
+const readValue = (input: string, pos: number): { value: string; end: number } => {
+  if (input[pos] === '"') {
+    const close = input.indexOf('"', pos + 1);
+    if (close === -1) fail('Unterminated quoted value', pos);
+    return { value: input.slice(pos + 1, close), end: close + 1 };
+  }
+  let end = pos;
+  while (!isBoundary(input[end])) end++;
+  return { value: input.slice(pos, end), end };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    const ch = input[pos];
+    if (/\s/.test(ch)) { pos++; continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen', start: pos, end: pos + 1 }); pos++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', start: pos, end: pos + 1 }); pos++; continue; }
+    if (ch === '-' && !isBoundary(input[pos + 1])) { tokens.push({ type: 'not', start: pos, end: pos + 1 }); pos++; continue; }
+
+    const start = pos;
+    const fieldMatch = /^([a-zA-Z]+)(>=|<=|:|>|<)/.exec(input.slice(pos));
+    if (fieldMatch) {
+      const valueStart = pos + fieldMatch[0].length;
+      if (isBoundary(input[valueStart])) fail(`Missing value after "${fieldMatch[0]}"`, valueStart);
+      const { value, end } = readValue(input, valueStart);
+      tokens.push({ type: 'term', field: fieldMatch[1].toLowerCase(), op: fieldMatch[2] as ComparisonOp, value, start, end });
+      pos = end;
+      continue;
+    }
+
+    const { value, end } = readValue(input, pos);
+    const isQuoted = input[pos] === '"';
+    if (!isQuoted && value === 'OR') tokens.push({ type: 'or', start, end });
+    else if (!isQuoted && value === 'AND') tokens.push({ type: 'and', start, end });
+    else if (!isQuoted && value === 'NOT') tokens.push({ type: 'not', start, end });
+    else tokens.push({ type: 'term', field: null, op: ':', value, start, end });
+    pos = end;
+  }
+  return tokens;
+};
+
+const validateTerm = (token: Extract<Token, { type: 'term' }>): QueryNode => {
+  if (token.field === null) {
+    return { kind: 'term', field: null, op: ':', value: token.value, start: token.start, end: token.end };
+  }
+  const field = token.field as QueryField;
+  if (!FIELDS.includes(field)) fail(`Unknown field "${token.field}"`, token.start);
+  if (token.op !== ':' && !NUMERIC_FIELDS.includes(field)) {
+    fail(`"${field}" does not support "${token.op}", use "${field}:"`, token.start);
+  }
+  if (NUMERIC_FIELDS.includes(field) && isNaN(Number(token.value))) {
+    fail(`"${field}" expects a number, got "${token.value}"`, token.start);
+  }
+  if (DATE_FIELDS.includes(field) && isNaN(Date.parse(token.value))) {
+    fail(`"${field}" expects a date like 2025-01-01, got "${token.value}"`, token.start);
+  }
+  return { kind: 'term', field, op: token.op, value: token.value, start: token.start, end: token.end };
+};
+
+export const parseQuery = (input: string): ParseResult => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(input);
+  } catch (e) {
+    if (e instanceof ParseFailure) return { ok: false, error: e.error };
+    throw e;
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const orToken = tokens[pos++];
+      if (!peek() || peek().type === 'rparen' || peek().type === 'or') fail('Expected a term after OR', orToken.end);
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().type !== 'or' && peek().type !== 'rparen') {
+      if (peek().type === 'and') {
+        const andToken = tokens[pos++];
+        if (children.length === 0) fail('AND needs a term on its left', andToken.start);
+        if (!peek() || peek().type === 'rparen' || peek().type === 'or') fail('Expected a term after AND', andToken.end);
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    if (children.length === 0) fail('Expected a search term', peek()?.start ?? input.length);
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[pos++];
+    if (token.type === 'not') {
+      if (!peek() || peek().type === 'rparen' || peek().type === 'or') fail('Expected a term after negation', token.end);
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (token.type === 'lparen') {
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') fail('Missing closing ")"', peek()?.start ?? input.length);
+      pos++;
+      return inner;
+    }
+    if (token.type === 'term') return validateTerm(token);
+    return fail(`Unexpected "${input.slice(token.start, token.end)}"`, token.start);
+  };
+
+  try {
+    if (tokens.length === 0) return { ok: true, query: { kind: 'and', children: [] } };
+    const query = parseOr();
+    if (pos < tokens.length) fail(`Unexpected "${input.slice(tokens[pos].start, tokens[pos].end)}"`, tokens[pos].start);
+    return { ok: true, query };
+  } catch (e) {
+    if (e instanceof ParseFailure) return { ok: false, error: e.error };
+    throw e;
+  }
+};
+
+const includesCI = (haystack: string | undefined, needle: string) =>
+  !!haystack && haystack.toLowerCase().includes(needle.toLowerCase());
+
+const equalsCI = (a: string | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+const compareNumber = (actual: number | undefined, op: ComparisonOp, expected: number) => {
+  if (typeof actual !== 'number' || isNaN(actual)) return false;
+  switch (op) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+};
+
+const effectiveDate = (memory: RecallFile) => {
+  const billDate = memory.metadata.financial?.date ? Date.parse(memory.metadata.financial.date) : NaN;
+  return isNaN(billDate) ? memory.createdAt : billDate;
+};
+
+const matchesTerm = (term: Extract<QueryNode, { kind: 'term' }>, memory: RecallFile): boolean => {
+  const { metadata } = memory;
+  const financial = metadata.financial || {};
+  const v = term.value;
+
+  switch (term.field) {
+    case null:
+      return includesCI(memory.title, v) ||
+        metadata.tags.some(t => includesCI(t, v)) ||
+        includesCI(memory.description, v) ||
+        includesCI(financial.entity, v);
+    case 'type': return equalsCI(memory.type, v);
+    case 'tag': return metadata.tags.some(t => equalsCI(t, v));
+    case 'title': return includesCI(memory.title, v);
+    case 'mood': return equalsCI(metadata.mood, v);
+    case 'location': return includesCI(metadata.location, v);
+    case 'source': return includesCI(metadata.sourceApp, v);
+    case 'amount': return compareNumber(financial.amount, term.op, Number(v));
+    case 'currency': return equalsCI(financial.currency, v);
+    case 'category': return includesCI(financial.category, v);
+    case 'entity': return includesCI(financial.entity, v);
+    case 'before': return effectiveDate(memory) < Date.parse(v);
+    case 'after': return effectiveDate(memory) >= Date.parse(v);
+  }
+};
+
+export const matchesQuery = (node: QueryNode, memory: RecallFile): boolean => {
+  switch (node.kind) {
+    case 'and': return node.children.every(c => matchesQuery(c, memory));
+    case 'or': return node.children.some(c => matchesQuery(c, memory));
+    case 'not': return !matchesQuery(node.child, memory);
+    case 'term': return matchesTerm(node, memory);
+  }
+};
+
+/**
+ * Positive free-text and title terms, for highlighting matches in the results list.
+ */
+export const getHighlightTerms = (node: QueryNode, negated = false): string[] => {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(c => getHighlightTerms(c, negated));
+    case 'not':
+      return getHighlightTerms(node.child, !negated);
+    case 'term':
+      return !negated && (node.field === null || node.field === 'title') && node.value ? [node.value] : [];
+  }
+};
+
+const tagTerm = (tag: string) => /\s/.test(tag) ? `tag:"${tag}"` : `tag:${tag}`;
+
+const tagTermPattern = (tag: string) =>
+  new RegExp(`(^|\\s)${tagTerm(tag).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`);
+
+export const hasTagTerm = (query: string, tag: string): boolean => tagTermPattern(tag).test(query);
+
+/**
+ * Adds `tag:<tag>` to a query string, or removes it if already present.
+ */
+export const toggleTagTerm = (query: string, tag: string): string => {
+  if (hasTagTerm(query, tag)) return query.replace(tagTermPattern(tag), '').replace(/\s+/g, ' ').trim();
+  return `${query.trim()} ${tagTerm(tag)}`.trim();
+};
@@ -0,0 +1,255 @@
+import { RecallFile, RecallType, SemanticDiff } from "../types";
+import { isBlobRef, resolvePayload } from "./blobStore";
+
+/**
+ * The portable `.recall` archive format.
+ *
+ * A `.recall` file is UTF-8 JSON:
+ *
+ *   {
+ *     "format": "recall-bundle",
+ *     "version": 3,
+ *     "exportedAt": 1735689600000,          // epoch ms
+ *     "memories": [RecallFile, ...],         // complete records: content, thumbnail,
+ *                                            // metadata, history and canvas x/y
+ *     "payloads": { "recall-blob:<sha256>": "<string>" }
+ *   }
+ *
+ * Any string field of a memory or its history entries may be a `recall-blob:` reference
+ * instead of the value itself; the value is then stored once under `payloads`, so ten
+ * history entries sharing one image carry a single copy. Payload strings are exactly what
+ * would otherwise be inline: base64 for binary types, raw text/HTML/JSON for the rest.
+ * `vectorId` is never exported; search indexes are rebuilt on import.
+ *
+ * Version 2 adds patch-based text history (services/textHistory): a history entry may carry
+ * `patch` (hunks of `{at, remove, insert}` against the previous entry's text) instead of
+ * `content`, and `keyframe: true` marks entries whose `content` anchors a patch chain.
+ * Version 3 makes history a tree: entries may carry `parentId` (absent means the entry
+ * before it), and memories may carry `branches` ([{name, headId}]) and `activeBranch`.
+ * Version 1 bundles, where every entry is a full snapshot, are still accepted.
+ *
+ * A memory may carry `attachedTo`, the id of the memory it was imported with (an email's
+ * attachments point at the email), `sourceIds`, the memories it was built from, and
+ * `contentFormat` ('plain', 'markdown' or 'html') for textual content.
+ *
+ * Readers must reject bundles whose `version` is newer than they understand.
+ */
+export const RECALL_BUNDLE_FORMAT = 'recall-bundle';
+export const RECALL_BUNDLE_VERSION = 3;
+export const RECALL_MIME_TYPE = 'application/x-recall+json';
+
+export interface RecallBundle {
+  format: typeof RECALL_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  memories: RecallFile[];
+  payloads: Record<string, string>;
+}
+
+export type ImportConflictPolicy = 'skip' | 'replace' | 'duplicate';
+
+export type BundleParseResult =
+  | { ok: true; bundle: RecallBundle }
+  | { ok: false; errors: string[] };
+
+export interface ImportOutcome {
+  memories: RecallFile[]; // the full library after import
+  added: number;
+  replaced: number;
+  skipped: number;
+  importedIds: string[];
+}
+
+export const isRecallFileName = (name: string) => name.toLowerCase().endsWith('.recall');
+
+/**
+ * Builds a bundle for the given memories, pulling every referenced blob into `payloads`.
+ */
+export const createRecallBundle = async (memories: RecallFile[]): Promise<RecallBundle> => {
+  const payloads: Record<string, string> = {};
+  const include = async (value?: string) => {
+    if (isBlobRef(value) && !(value in payloads)) payloads[value] = await resolvePayload(value);
+  };
+
+  for (const memory of memories) {
+    await include(memory.content);
+    await include(memory.thumbnail);
+    for (const diff of memory.history) {
+      await include(diff.content);
+      await include(diff.previewImage);
+    }
+  }
+
+  return {
+    format: RECALL_BUNDLE_FORMAT,
+    version: RECALL_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    memories: memories.map(({ vectorId, ...rest }) => rest),
+    payloads
+  };
+};
+
+export const serializeRecallBundle = (bundle: RecallBundle): Blob =>
+  new Blob([JSON.stringify(bundle)], { type: RECALL_MIME_TYPE });
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !isNaN(v);
+const isPatch = (v: unknown) =>
+  Array.isArray(v) && v.every(h => h && isNumber(h.at) && isString(h.remove) && isString(h.insert));
+const isTranscriptSegment = (v: any) =>
+  !!v && isNumber(v.start) && isNumber(v.end) && isString(v.text) && (v.speaker === undefined || isString(v.speaker));
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || v === null || check(v);
+
+const validateDiff = (diff: any, where: string, errors: string[]) => {
+  if (!diff || typeof diff !== 'object') { errors.push(`${where} is not an object`); return; }
+  if (!isString(diff.id)) errors.push(`${where}.id must be a string`);
+  if (!isNumber(diff.timestamp)) errors.push(`${where}.timestamp must be a number`);
+  if (!isString(diff.description)) errors.push(`${where}.description must be a string`);
+  if (!['user', 'system', 'gemini'].includes(diff.author)) errors.push(`${where}.author must be user, system or gemini`);
+  if (!isOptional(diff.content, isString)) errors.push(`${where}.content must be a string`);
+  if (!isOptional(diff.previewImage, isString)) errors.push(`${where}.previewImage must be a string`);
+  if (!isOptional(diff.keyframe, v => typeof v === 'boolean')) errors.push(`${where}.keyframe must be a boolean`);
+  if (!isOptional(diff.parentId, isString)) errors.push(`${where}.parentId must be a string`);
+  if (!isOptional(diff.patch, isPatch)) errors.push(`${where}.patch must be an array of {at, remove, insert} hunks`);
+};
+
+const validateMemory = (m: any, where: string, errors: string[]) => {
+  if (!m || typeof m !== 'object') { errors.push(`${where} is not an object`); return; }
+  if (!isString(m.id) || !m.id) errors.push(`${where}.id must be a non-empty string`);
+  if (!isString(m.title)) errors.push(`${where}.title must be a string`);
+  if (!isString(m.description)) errors.push(`${where}.description must be a string`);
+  if (!Object.values(RecallType).includes(m.type)) errors.push(`${where}.type "${m.type}" is not a known RecallType`);
+  if (!isString(m.content)) errors.push(`${where}.content must be a string`);
+  if (!isString(m.thumbnail)) errors.push(`${where}.thumbnail must be a string`);
+  if (!isOptional(m.pages, v => Array.isArray(v) && v.every(isString))) errors.push(`${where}.pages must be a string array`);
+  if (!isOptional(m.transcript, v => Array.isArray(v) && v.every(isTranscriptSegment))) errors.push(`${where}.transcript must be an array of {start, end, speaker?, text} segments`);
+  if (!isOptional(m.attachedTo, isString)) errors.push(`${where}.attachedTo must be a string`);
+  if (!isOptional(m.sourceIds, v => Array.isArray(v) && v.every(isString))) errors.push(`${where}.sourceIds must be a string array`);
+  if (!isOptional(m.contentFormat, v => isString(v) && ['plain', 'markdown', 'html'].includes(v))) errors.push(`${where}.contentFormat must be plain, markdown or html`);
+  if (!isNumber(m.createdAt)) errors.push(`${where}.createdAt must be a number`);
+  if (!isNumber(m.updatedAt)) errors.push(`${where}.updatedAt must be a number`);
+  if (!isOptional(m.x, isNumber) || !isOptional(m.y, isNumber)) errors.push(`${where}.x/y must be numbers`);
+  if (!m.metadata || typeof m.metadata !== 'object') errors.push(`${where}.metadata must be an object`);
+  else if (!Array.isArray(m.metadata.tags) || !m.metadata.tags.every(isString)) errors.push(`${where}.metadata.tags must be a string array`);
+  if (!isOptional(m.branches, v => Array.isArray(v) && v.every((b: any) => b && isString(b.name) && isString(b.headId)))) {
+    errors.push(`${where}.branches must be an array of {name, headId}`);
+  }
+  if (!isOptional(m.activeBranch, isString)) errors.push(`${where}.activeBranch must be a string`);
+  if (!Array.isArray(m.history)) errors.push(`${where}.history must be an array`);
+  else m.history.forEach((d: any, i: number) => validateDiff(d, `${where}.history[${i}]`, errors));
+};
+
+/**
+ * Parses and validates a `.recall` file. Errors name the offending path, e.g.
+ * `memories[2].history[0].timestamp must be a number`.
+ */
+export const parseRecallBundle = (text: string): BundleParseResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: ['File is not valid JSON'] };
+  }
+
+  const errors: string[] = [];
+  if (!data || data.format !== RECALL_BUNDLE_FORMAT) {
+    return { ok: false, errors: ['Not a .recall bundle (missing "format": "recall-bundle")'] };
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) errors.push('version must be a positive integer');
+  else if (data.version > RECALL_BUNDLE_VERSION) {
+    errors.push(`Bundle version ${data.version} is newer than supported version ${RECALL_BUNDLE_VERSION}`);
+  }
+  if (!Array.isArray(data.memories)) errors.push('memories must be an array');
+  const payloads = data.payloads ?? {};
+  if (typeof payloads !== 'object' || Object.values(payloads).some(v => !isString(v))) {
+    errors.push('payloads must map references to strings');
+  }
+  if (errors.length) return { ok: false, errors };
+
+  data.memories.forEach((m: any, i: number) => validateMemory(m, `memories[${i}]`, errors));
+  const firstIndex = new Map<string, number>();
+  data.memories.forEach((m: any, i: number) => {
+    if (!isString(m?.id) || !m.id) return;
+    if (firstIndex.has(m.id)) errors.push(`memories[${i}].id "${m.id}" repeats memories[${firstIndex.get(m.id)}].id`);
+    else firstIndex.set(m.id, i);
+  });
+
+  const missing = new Set<string>();
+  const check = (v: unknown) => { if (isString(v) && isBlobRef(v) && !(v in payloads)) missing.add(v); };
+  data.memories.forEach((m: any) => {
+    check(m?.content);
+    check(m?.thumbnail);
+    (Array.isArray(m?.history) ? m.history : []).forEach((d: any) => { check(d?.content); check(d?.previewImage); });
+  });
+  if (missing.size) errors.push(`${missing.size} referenced payload(s) are missing from the bundle`);
+
+  if (errors.length) return { ok: false, errors: errors.slice(0, 20) };
+  return { ok: true, bundle: { ...data, payloads } as RecallBundle };
+};
+
+/**
+ * Inlines bundle payloads back into a memory so the local blob store re-deduplicates them on save.
+ */
+const inlinePayloads = (memory: RecallFile, payloads: Record<string, string>): RecallFile => {
+  const inline = (v?: string) => (isBlobRef(v) ? payloads[v] : v);
+  const history: SemanticDiff[] = memory.history.map(d => ({ ...d, content: inline(d.content), previewImage: inline(d.previewImage) }));
+  const { vectorId, ...rest } = memory;
+  return { ...rest, content: inline(memory.content) || '', thumbnail: inline(memory.thumbnail) || '', history };
+};
+
+export const findConflicts = (bundle: RecallBundle, existing: RecallFile[]): string[] => {
+  const ids = new Set(existing.map(m => m.id));
+  return bundle.memories.filter(m => ids.has(m.id)).map(m => m.id);
+};
+
+/**
+ * Merges a bundle into the library. Colliding ids are skipped, replaced in place,
+ * or imported as copies with fresh ids depending on `policy`.
+ */
+export const applyRecallBundle = (
+  bundle: RecallBundle,
+  existing: RecallFile[],
+  policy: ImportConflictPolicy
+): ImportOutcome => {
+  const byId = new Map<string, RecallFile>(existing.map(m => [m.id, m]));
+  const added: RecallFile[] = [];
+  const importedIds: string[] = [];
+  const renamed = new Map<string, string>(); // ids of memories imported as copies
+  let replaced = 0;
+  let skipped = 0;
+
+  bundle.memories.forEach(raw => {
+    const memory = inlinePayloads(raw, bundle.payloads);
+    if (!byId.has(memory.id)) {
+      added.push(memory);
+      importedIds.push(memory.id);
+    } else if (policy === 'replace') {
+      byId.set(memory.id, memory);
+      importedIds.push(memory.id);
+      replaced++;
+    } else if (policy === 'duplicate') {
+      const copy = { ...memory, id: crypto.randomUUID(), title: `${memory.title} (Imported)` };
+      renamed.set(memory.id, copy.id);
+      added.push(copy);
+      importedIds.push(copy.id);
+    } else {
+      skipped++;
+    }
+  });
+
+  // Copies of attachments stay linked to the copy of their email, and copies of summaries to the copies of their sources
+  const relink = (id: string) => renamed.get(id) || id;
+  const relinked = added.map(m => ({
+    ...m,
+    ...(m.attachedTo ? { attachedTo: relink(m.attachedTo) } : {}),
+    ...(m.sourceIds ? { sourceIds: m.sourceIds.map(relink) } : {})
+  }));
+
+  return {
+    memories: [...relinked, ...existing.map(m => byId.get(m.id) as RecallFile)],
+    added: added.length,
+    replaced,
+    skipped,
+    importedIds
+  };
+};
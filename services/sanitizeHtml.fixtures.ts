@@ -0,0 +1,98 @@
+import { sanitizeHtml } from "./sanitizeHtml";
+
+/**
+ * Known XSS payloads the HTML sanitizer (services/sanitizeHtml) must neutralize, and a check
+ * that runs them. Add a payload here whenever a bypass is found, before fixing it.
+ *
+ * Test fixture: services/sanitizeHtml.test.ts runs every payload through the sanitizer and each
+ * display format. `auditSanitizer()` does the same for one sanitizer; it returns the payloads
+ * whose output can still run script or load active content.
+ */
+export interface XssPayload {
+  name: string;
+  html: string;
+}
+
+export const XSS_PAYLOADS: XssPayload[] = [
+  { name: 'script tag', html: '<script>alert(1)</script>' },
+  { name: 'script with src', html: '<script src="https://evil.example/x.js"></script>' },
+  { name: 'uppercase script', html: '<SCRIPT>alert(1)</SCRIPT>' },
+  { name: 'split script', html: '<scr<script>ipt>alert(1)</scr</script>ipt>' },
+  { name: 'img onerror', html: '<img src=x onerror=alert(1)>' },
+  { name: 'img onerror no quotes or spaces', html: '<img/src=x/onerror=alert(1)>' },
+  { name: 'svg onload', html: '<svg onload=alert(1)>' },
+  { name: 'svg script', html: '<svg><script>alert(1)</script></svg>' },
+  { name: 'svg animate href', html: '<svg><a><animate attributeName=href values=javascript:alert(1) /><text y=20>x</text></a></svg>' },
+  { name: 'math href', html: '<math><mtext><a href="javascript:alert(1)">x</a></mtext></math>' },
+  { name: 'body onload', html: '<body onload=alert(1)>' },
+  { name: 'iframe src', html: '<iframe src="javascript:alert(1)"></iframe>' },
+  { name: 'iframe srcdoc', html: '<iframe srcdoc="<script>alert(1)</script>"></iframe>' },
+  { name: 'object data', html: '<object data="javascript:alert(1)"></object>' },
+  { name: 'embed src', html: '<embed src="data:text/html,<script>alert(1)</script>">' },
+  { name: 'javascript link', html: '<a href="javascript:alert(1)">x</a>' },
+  { name: 'javascript link with entities', html: '<a href="&#106;avascript:alert(1)">x</a>' },
+  { name: 'javascript link with tab', html: '<a href="java\tscript:alert(1)">x</a>' },
+  { name: 'javascript link with leading space', html: '<a href=" javascript:alert(1)">x</a>' },
+  { name: 'vbscript link', html: '<a href="vbscript:msgbox(1)">x</a>' },
+  { name: 'data html link', html: '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>' },
+  { name: 'svg data image', html: '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">' },
+  { name: 'form action', html: '<form action="javascript:alert(1)"><button>x</button></form>' },
+  { name: 'button formaction', html: '<button formaction="javascript:alert(1)">x</button>' },
+  { name: 'input autofocus onfocus', html: '<input autofocus onfocus=alert(1)>' },
+  { name: 'details ontoggle', html: '<details open ontoggle=alert(1)>' },
+  { name: 'marquee onstart', html: '<marquee onstart=alert(1)>x</marquee>' },
+  { name: 'video source onerror', html: '<video><source onerror=alert(1)></video>' },
+  { name: 'audio src onerror', html: '<audio src=x onerror=alert(1)>' },
+  { name: 'style url', html: '<div style="background:url(javascript:alert(1))">x</div>' },
+  { name: 'style expression', html: '<div style="width:expression(alert(1))">x</div>' },
+  { name: 'style element import', html: '<style>@import "https://evil.example/x.css";</style>' },
+  { name: 'link stylesheet', html: '<link rel=stylesheet href="https://evil.example/x.css">' },
+  { name: 'meta refresh', html: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">' },
+  { name: 'base href', html: '<base href="javascript:alert(1)//">' },
+  { name: 'noscript mutation', html: '<noscript><p title="</noscript><img src=x onerror=alert(1)>">' },
+  { name: 'template content', html: '<template><img src=x onerror=alert(1)></template>' },
+  { name: 'comment breakout', html: '<!--<img src="--><img src=x onerror=alert(1)//">' },
+  { name: 'textarea breakout', html: '<textarea></textarea><img src=x onerror=alert(1)></textarea>' },
+  { name: 'title breakout', html: '<title><img src=x onerror=alert(1)></title>' },
+  { name: 'attribute breakout', html: '<p title="&quot;><img src=x onerror=alert(1)>">x</p>' },
+  { name: 'table foster parenting', html: '<table><img src=x onerror=alert(1)><tr><td>x</td></tr></table>' },
+  { name: 'select mutation', html: '<select><style></select><img src=x onerror=alert(1)></style></select>' },
+  { name: 'dom clobbering', html: '<img name=getElementById id=x src="https://example.com/a.png"><form id=document></form>' },
+  { name: 'event on allowed tag', html: '<p onclick=alert(1) onmouseover=alert(1)>x</p>' },
+  { name: 'xlink href', html: '<a xlink:href="javascript:alert(1)">x</a>' },
+  { name: 'markdown javascript link', html: '[x](javascript:alert(1))' },
+  { name: 'markdown javascript image', html: '![x](javascript:alert(1))' },
+  { name: 'markdown image attribute breakout', html: '![x](x" onerror="alert(1))' },
+  { name: 'markdown autolink', html: '<javascript:alert(1)>' },
+  { name: 'markdown inline html', html: '# Title\n\n<img src=x onerror=alert(1)>\n\n*text*' }
+];
+
+const ACTIVE_ELEMENTS = 'script, style, iframe, frame, object, embed, applet, svg, math, form, button, link, meta, base, template, noscript, audio, video';
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href', 'cite', 'data', 'background', 'poster', 'srcdoc'];
+
+/** What about sanitized output is still dangerous, if anything. */
+export const findProblem = (output: string): string | null => {
+  const doc = new DOMParser().parseFromString(output, 'text/html');
+  const active = doc.body.querySelector(ACTIVE_ELEMENTS);
+  if (active) return `<${active.localName}> element`;
+  for (const element of Array.from(doc.body.querySelectorAll('*'))) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.replace(/[\u0000- ]/g, '').toLowerCase();
+      if (name.startsWith('on')) return `${name} handler on <${element.localName}>`;
+      if (name === 'id' || name === 'name') return `${name} attribute (DOM clobbering)`;
+      if (URL_ATTRIBUTES.includes(name) && /^(javascript|vbscript|data:(?!image\/(png|jpe?g|gif|webp|bmp|avif);))/.test(value)) {
+        return `${name}="${attribute.value}"`;
+      }
+      if (name === 'style' && /url\(|expression\(/.test(value)) return `style="${attribute.value}"`;
+    }
+  }
+  return null;
+};
+
+export const auditSanitizer = (sanitize: (html: string) => string = sanitizeHtml): { name: string; output: string; problem: string }[] =>
+  XSS_PAYLOADS.flatMap(payload => {
+    const output = sanitize(payload.html);
+    const problem = findProblem(output);
+    return problem ? [{ name: payload.name, output, problem }] : [];
+  });
@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { ContentFormat } from "../types";
+import { displayHtml } from "./contentFormat";
+import { sanitizeHtml } from "./sanitizeHtml";
+import { XSS_PAYLOADS, auditSanitizer, findProblem } from "./sanitizeHtml.fixtures";
+
+const FORMATS: ContentFormat[] = ['plain', 'markdown', 'html'];
+
+// The output as the browser would build it; escaped text that merely mentions a payload is fine
+const expectInert = (output: string) => {
+  const body = new DOMParser().parseFromString(output, 'text/html').body;
+  const elements = Array.from(body.querySelectorAll('*'));
+  const attributes = elements.flatMap(el => Array.from(el.attributes));
+  expect(body.querySelector('script')).toBeNull();
+  expect(attributes.filter(a => /^on/i.test(a.name)).map(a => a.name)).toEqual([]);
+  expect(attributes.filter(a => /^\s*javascript:/i.test(a.value.replace(/[\u0000-\u001f]/g, ''))).map(a => a.value)).toEqual([]);
+  expect(findProblem(output)).toBeNull();
+};
+
+describe("sanitizeHtml", () => {
+  it.each(XSS_PAYLOADS)("neutralizes $name", ({ html }) => {
+    expectInert(sanitizeHtml(html));
+  });
+
+  it("keeps ordinary markup", () => {
+    const output = sanitizeHtml('<p><strong>Bold</strong> <a href="https://example.com">link</a></p>');
+    expect(output).toContain('<strong>Bold</strong>');
+    expect(output).toContain('href="https://example.com"');
+  });
+
+  it("passes the audit", () => {
+    expect(auditSanitizer()).toEqual([]);
+  });
+});
+
+describe.each(FORMATS)("displayHtml as %s", format => {
+  it.each(XSS_PAYLOADS)("neutralizes $name", ({ html }) => {
+    expectInert(displayHtml(html, format));
+  });
+});
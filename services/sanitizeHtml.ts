@@ -0,0 +1,169 @@
+/**
+ * Allowlist HTML sanitizer for everything the viewer renders as markup: imported HTML,
+ * e-mail bodies, DOCX conversions, rendered Markdown and AI rewrites.
+ *
+ * The input is parsed into an inert document and rebuilt element by element. Elements not
+ * on the allowlist are unwrapped (their text is kept); script-like and embedding elements
+ * are dropped with their contents. Attributes are allowlisted per element, URLs limited to
+ * safe schemes and inline styles to presentational properties. Used at ingest and again at
+ * render, so content stored before this existed (or edited since) is covered too.
+ * See services/sanitizeHtml.fixtures for the payloads it is checked against.
+ */
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set<string>([
+  'script', 'style', 'template', 'noscript', 'noembed', 'noframes', 'iframe', 'frame', 'frameset', 'object',
+  'embed', 'applet', 'param', 'svg', 'math', 'form', 'button', 'select', 'option', 'textarea', 'link',
+  'meta', 'base', 'title', 'head', 'audio', 'video', 'source', 'track', 'canvas', 'dialog', 'portal', 'xmp',
+  'plaintext', 'listing'
+]);
+
+const ALLOWED_TAGS = new Set<string>([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo', 'blockquote', 'br', 'caption', 'cite', 'code',
+  'col', 'colgroup', 'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol',
+  'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'section', 'small', 'span', 'strike', 'strong', 'sub',
+  'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'u', 'ul', 'var', 'wbr'
+]);
+
+const GLOBAL_ATTRIBUTES = ['title', 'lang', 'dir', 'align', 'valign', 'style'];
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  img: ['src', 'alt', 'width', 'height'],
+  input: ['type', 'checked'], // read-only checkboxes of Markdown task lists
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  col: ['span', 'width'],
+  colgroup: ['span', 'width'],
+  table: ['border', 'cellpadding', 'cellspacing', 'width'],
+  ol: ['start', 'type', 'reversed'],
+  li: ['value'],
+  time: ['datetime'],
+  details: ['open'],
+  q: ['cite'],
+  blockquote: ['cite'],
+  code: ['class'] // language-* only, see cleanAttribute
+};
+
+const STYLE_PROPERTIES = new Set<string>([
+  'color', 'background-color', 'text-align', 'text-decoration', 'text-transform', 'font-weight', 'font-style',
+  'font-size', 'font-family', 'white-space', 'vertical-align', 'line-height', 'letter-spacing', 'width',
+  'min-width', 'max-width', 'border', 'border-top', 'border-bottom', 'border-left', 'border-right',
+  'border-color', 'border-collapse', 'padding', 'padding-left', 'padding-right', 'padding-top', 'padding-bottom',
+  'margin', 'margin-left', 'margin-right', 'margin-top', 'margin-bottom', 'list-style-type'
+]);
+
+const LINK_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp|bmp|avif);base64,[a-z0-9+/=\s]+$/i;
+
+const schemeOf = (url: string) => {
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:")
+  const compact = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const match = compact.match(/^([a-z][a-z0-9+.-]*):/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+/** Text as HTML that shows it literally, safe inside elements and double-quoted attributes. */
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Relative URLs have no scheme and stay within the app
+export const isSafeLink = (url: string) => {
+  const scheme = schemeOf(url);
+  return scheme === null || LINK_SCHEMES.includes(scheme);
+};
+
+export const isSafeImageSource = (url: string) => {
+  const scheme = schemeOf(url);
+  return scheme === 'http' || scheme === 'https' || (scheme === 'data' && IMAGE_DATA_URL.test(url.trim()));
+};
+
+const cleanStyle = (style: string): string =>
+  style
+    .split(';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon < 0) return '';
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      if (!STYLE_PROPERTIES.has(property) || !value) return '';
+      // Anything that could load or run something, or escape the parser
+      if (/url\s*\(|expression\s*\(|image-set|javascript:|@import|[\\<>{}]|\/\*/i.test(value)) return '';
+      return `${property}: ${value}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+const cleanAttribute = (tag: string, name: string, value: string): string | null => {
+  switch (name) {
+    case 'href':
+    case 'cite':
+      return isSafeLink(value) ? value : null;
+    case 'src':
+      return isSafeImageSource(value) ? value : null;
+    case 'style': {
+      const style = cleanStyle(value);
+      return style || null;
+    }
+    case 'class':
+      return tag === 'code' && /^language-[\w+-]+$/.test(value) ? value : null;
+    case 'colspan':
+    case 'rowspan':
+    case 'span':
+    case 'start':
+    case 'value':
+      return /^\d{1,4}$/.test(value.trim()) ? value.trim() : null;
+    default:
+      return value;
+  }
+};
+
+const copyClean = (from: Node, to: Node, doc: Document) => {
+  from.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      to.appendChild(doc.createTextNode(child.textContent || ''));
+      return;
+    }
+    // Comments, processing instructions and CDATA are dropped
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+    const element = child as Element;
+    const tag = element.localName.toLowerCase();
+    if (DROPPED_TAGS.has(tag) || element.namespaceURI !== 'http://www.w3.org/1999/xhtml') return;
+    if (!ALLOWED_TAGS.has(tag)) {
+      copyClean(element, to, doc);
+      return;
+    }
+
+    const clean = doc.createElement(tag);
+    const allowed = [...GLOBAL_ATTRIBUTES, ...(TAG_ATTRIBUTES[tag] || [])];
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase();
+      if (!allowed.includes(name)) return;
+      const value = cleanAttribute(tag, name, attribute.value);
+      if (value !== null) clean.setAttribute(name, value);
+    });
+    if (tag === 'a' && clean.hasAttribute('href')) {
+      clean.setAttribute('target', '_blank');
+      clean.setAttribute('rel', 'noopener noreferrer');
+    }
+    if (tag === 'img' && !clean.hasAttribute('src')) return;
+    if (tag === 'input') {
+      if (clean.getAttribute('type') !== 'checkbox') return;
+      clean.setAttribute('disabled', '');
+    }
+    copyClean(element, clean, doc);
+    to.appendChild(clean);
+  });
+};
+
+/** Markup reduced to the allowlist. Safe to render with dangerouslySetInnerHTML. */
+export const sanitizeHtml = (html: string): string => {
+  if (!html) return '';
+  // Neither document runs scripts or loads resources
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  const doc = document.implementation.createHTMLDocument('');
+  const container = doc.createElement('div');
+  copyClean(parsed.body, container, doc);
+  return container.innerHTML;
+};
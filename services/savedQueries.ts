@@ -0,0 +1,23 @@
+/**
+ * Saved library queries. Small enough to live in localStorage alongside other UI preferences.
+ */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+}
+
+const SAVED_QUERIES_KEY = 'recall_saved_queries';
+
+export const loadSavedQueries = (): SavedQuery[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SAVED_QUERIES_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(q => q && typeof q.query === 'string') : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const storeSavedQueries = (queries: SavedQuery[]): void => {
+  localStorage.setItem(SAVED_QUERIES_KEY, JSON.stringify(queries));
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { Workbook, parseInput, recalculate, setCell } from "./spreadsheet";
+
+const workbookOf = (...columns: string[][]): Workbook => ({
+  appType: 'spreadsheet',
+  version: 2,
+  sheets: [{ name: 'Sheet1', rows: columns[0].map((_, r) => columns.map(column => parseInput(column[r]))) }]
+});
+
+const valueAt = (workbook: Workbook, row: number, col = 0) => workbook.sheets[0].rows[row][col]?.value;
+
+describe("recalculate", () => {
+  it("evaluates a deep chain of cells that each refer to the cell below", () => {
+    const length = 5000;
+    const inputs = Array.from({ length }, (_, r) => (r === length - 1 ? '1' : `=A${r + 2}+1`));
+    const result = recalculate(workbookOf(inputs));
+    expect(valueAt(result, 0)).toBe(length);
+    expect(valueAt(result, length - 2)).toBe(2);
+  });
+
+  it("keeps a deep chain editable", () => {
+    const length = 2000;
+    const inputs = Array.from({ length }, (_, r) => (r === length - 1 ? '1' : `=A${r + 2}*1`));
+    const edited = setCell(workbookOf(inputs), 0, length - 1, 0, '7');
+    expect(valueAt(edited, 0)).toBe(7);
+  });
+
+  it("evaluates ranges over formula cells and formulas that read them", () => {
+    const result = recalculate(workbookOf(['=SUM(B1:B3)', '=B1*2', '=A2+A1'], ['1', '=B1+1', '=B2+1']));
+    expect(valueAt(result, 0)).toBe(6);
+    expect(valueAt(result, 1)).toBe(2);
+    expect(valueAt(result, 2)).toBe(8);
+  });
+
+  it("marks circular references", () => {
+    const result = recalculate(workbookOf(['=A2+1', '=A3+1', '=A1+1', '=5']));
+    [0, 1, 2].forEach(r => expect(valueAt(result, r)).toBe('#CYCLE!'));
+    expect(valueAt(result, 3)).toBe(5);
+  });
+
+  it("only follows the branch IF takes", () => {
+    const result = recalculate(workbookOf(['=IF(A2>0,A3,A4)', '1', '=A2*10', '=A1']));
+    expect(valueAt(result, 0)).toBe(10);
+  });
+});
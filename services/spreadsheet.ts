@@ -0,0 +1,492 @@
+import { read, utils, write, CellObject, WorkSheet } from "xlsx";
+import { FormulaContext, Scalar, cellAddress, evaluateFormula, formatNumber, formulaError, isFormulaError, parseAddress, renameSheetInFormula, shiftFormula, supportsFormula } from "./formulas";
+
+/**
+ * Spreadsheet memories: a workbook of typed cells stored as JSON content,
+ * `{"appType":"spreadsheet","version":2,"sheets":[{name, rows}]}`. Formula cells keep their
+ * last calculated value, so anything that only reads values (search, the AI, version
+ * compare) never evaluates formulas. Every edit here returns a new, recalculated workbook.
+ * Formulas calling functions services/formulas doesn't implement (imported from Excel)
+ * keep the value Excel calculated.
+ *
+ * Before version 2 each sheet was stored as the HTML table SheetJS generated
+ * (`{name, html}`); parseWorkbook reads those into cells, and they are saved in the new
+ * form on the first edit.
+ */
+export type CellType = 'number' | 'text' | 'boolean' | 'date' | 'error';
+
+export interface Cell {
+  type: CellType;
+  value: number | string | boolean; // dates as "YYYY-MM-DD" or "YYYY-MM-DD HH:MM:SS", errors as their code, e.g. "#DIV/0!"
+  formula?: string; // without the leading "="
+}
+
+export interface Sheet {
+  name: string;
+  rows: (Cell | null)[][]; // null is an empty cell; rows may be shorter than the widest one
+}
+
+export interface Workbook {
+  appType: 'spreadsheet';
+  version: 2;
+  sheets: Sheet[];
+}
+
+const SPREADSHEET_PREFIX = '{"appType":"spreadsheet"';
+
+export const isSpreadsheet = (content: string) => content.startsWith(SPREADSHEET_PREFIX);
+
+// --- Reading and writing content ---
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+// The table markup of legacy sheets is regular enough to read without a DOM. Attribute
+// values are matched whole since SheetJS leaves "<" and ">" unescaped in data-v.
+const TABLE_CELL = /<t[dh]((?:\s+[\w-]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>([\s\S]*?)<\/t[dh]>/gi;
+
+const rowsFromHtml = (html: string): (Cell | null)[][] =>
+  (html.match(/<tr[\s\S]*?<\/tr>/gi) || []).map(row =>
+    Array.from(row.matchAll(TABLE_CELL)).map(([, attributes, inner]): Cell | null => {
+      const text = decodeEntities(inner.replace(/<[^>]+>/g, '')).trim();
+      // Cells SheetJS marked as strings stay text even when they look like numbers
+      if (/\bdata-t="s"/.test(attributes)) return text ? { type: 'text', value: text } : null;
+      return parseInput(text);
+    })
+  );
+
+/** The workbook in spreadsheet content (current or legacy form), or null when it isn't one. */
+export const parseWorkbook = (content: string): Workbook | null => {
+  if (!isSpreadsheet(content)) return null;
+  try {
+    const data = JSON.parse(content);
+    if (data?.appType !== 'spreadsheet' || !Array.isArray(data.sheets)) return null;
+    const sheets: Sheet[] = data.sheets.map((sheet: any, i: number) => ({
+      name: typeof sheet?.name === 'string' && sheet.name ? sheet.name : `Sheet${i + 1}`,
+      rows: Array.isArray(sheet?.rows) ? sheet.rows : rowsFromHtml(String(sheet?.html ?? ''))
+    }));
+    // A workbook always has a sheet to show and edit
+    return { appType: 'spreadsheet', version: 2, sheets: sheets.length ? sheets : [{ name: 'Sheet1', rows: [] }] };
+  } catch (e) {
+    return null;
+  }
+};
+
+// Trailing empty cells and rows are not stored
+const trimRows = (rows: (Cell | null)[][]) => {
+  const trimmed = rows.map(row => {
+    let end = row.length;
+    while (end > 0 && !row[end - 1]) end--;
+    return row.slice(0, end);
+  });
+  let end = trimmed.length;
+  while (end > 0 && trimmed[end - 1].length === 0) end--;
+  return trimmed.slice(0, end);
+};
+
+export const serializeWorkbook = (workbook: Workbook): string =>
+  JSON.stringify({ appType: 'spreadsheet', version: 2, sheets: workbook.sheets.map(s => ({ name: s.name, rows: trimRows(s.rows) })) });
+
+// --- Cells ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (date: Date) => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const hasTime = date.getHours() || date.getMinutes() || date.getSeconds();
+  return hasTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` : day;
+};
+
+const parseDate = (value: string) => {
+  const [day, time = '0:0:0'] = value.split(' ');
+  const [y, m, d] = day.split('-').map(Number);
+  const [h, min, s] = time.split(':').map(Number);
+  return new Date(y, m - 1, d, h, min, s);
+};
+
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}( \d{2}:\d{2}(:\d{2})?)?$/;
+const ERROR_CODES = ['#DIV/0!', '#VALUE!', '#REF!', '#NAME?', '#NUM!', '#N/A', '#NULL!', '#CYCLE!', '#ERROR!'];
+
+/**
+ * A cell from what was typed into it: "=..." is a formula, numbers (also "1,200" and "15%"),
+ * TRUE/FALSE and ISO dates are typed, and anything else (or anything after a leading "'")
+ * is text. Empty input clears the cell.
+ * The value of a new formula is filled in by recalculation.
+ */
+export const parseInput = (input: string): Cell | null => {
+  const text = input.trim();
+  if (!text) return null;
+  // A leading apostrophe keeps input as text, as in Excel
+  if (text.startsWith("'")) return { type: 'text', value: text.slice(1) };
+  if (text.startsWith('=') && text.length > 1) return { type: 'number', value: 0, formula: text.slice(1).trim() };
+  const plain = text.replace(/,(?=\d{3}\b)/g, '');
+  if (/^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?%?$/.test(plain)) {
+    const n = Number(plain.replace('%', ''));
+    return { type: 'number', value: plain.endsWith('%') ? n / 100 : n };
+  }
+  const upper = text.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' };
+  if (DATE_INPUT.test(text) && !isNaN(parseDate(text).getTime())) return { type: 'date', value: formatDate(parseDate(text)) };
+  if (ERROR_CODES.includes(upper)) return { type: 'error', value: upper };
+  return { type: 'text', value: input };
+};
+
+/** What the grid shows for a cell. */
+export const displayValue = (cell: Cell | null | undefined): string => {
+  if (!cell) return '';
+  if (cell.type === 'number') return formatNumber(cell.value as number);
+  if (cell.type === 'boolean') return cell.value ? 'TRUE' : 'FALSE';
+  return String(cell.value);
+};
+
+/** What the cell editor shows: the formula for formula cells, otherwise the value. */
+export const cellInput = (cell: Cell | null | undefined): string => {
+  if (cell?.formula !== undefined) return `=${cell.formula}`;
+  const text = displayValue(cell);
+  // Text that would otherwise be read back as a formula, number, etc.
+  return cell?.type === 'text' && (parseInput(text)?.type !== 'text' || text.startsWith("'")) ? `'${text}` : text;
+};
+
+const cellAt = (sheet: Sheet | undefined, row: number, col: number): Cell | null => sheet?.rows[row]?.[col] ?? null;
+
+export const columnCount = (sheet: Sheet): number => sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+// --- Recalculation ---
+
+const toCell = (value: Scalar, formula: string): Cell => {
+  if (isFormulaError(value)) return { type: 'error', value: value.error, formula };
+  if (value === null) return { type: 'number', value: 0, formula };
+  if (typeof value === 'number') return { type: 'number', value, formula };
+  if (typeof value === 'boolean') return { type: 'boolean', value, formula };
+  return { type: 'text', value, formula };
+};
+
+interface Pending {
+  s: number;
+  row: number;
+  col: number;
+  key: string;
+  formula: string;
+  missing: { s: number; row: number; col: number; key: string }[]; // formula cells it read before they were calculated
+}
+
+/**
+ * Recalculates every formula cell. Circular references give #CYCLE!.
+ * Evaluation is depth-first with an explicit stack rather than recursion, so long chains of
+ * cells that refer to each other don't overflow the call stack. A formula that reads
+ * uncalculated cells is evaluated again once they have values.
+ */
+export const recalculate = (workbook: Workbook): Workbook => {
+  const results = new Map<string, Scalar>();
+  const onPath = new Set<string>(); // formulas waiting on the ones above them on the stack
+  const supported = new Map<string, boolean>();
+  const isSupported = (formula: string) => {
+    if (!supported.has(formula)) supported.set(formula, supportsFormula(formula));
+    return supported.get(formula) as boolean;
+  };
+
+  const sheetIndex = (name: string | undefined, current: number) =>
+    name === undefined ? current : workbook.sheets.findIndex(s => s.name.toLowerCase() === name.toLowerCase());
+
+  const formulaAt = (s: number, row: number, col: number): string | undefined => {
+    const formula = cellAt(workbook.sheets[s], row, col)?.formula;
+    return formula !== undefined && isSupported(formula) ? formula : undefined;
+  };
+
+  // One evaluation of a formula; cells it needs that have no value yet are added to `missing`
+  const evaluate = (frame: Pending): Scalar => {
+    frame.missing = [];
+    const context: FormulaContext = {
+      cell: (name, r, c) => {
+        const target = sheetIndex(name, frame.s);
+        if (target < 0) return formulaError('#REF!');
+        const cell = cellAt(workbook.sheets[target], r, c);
+        if (!cell) return null;
+        if (formulaAt(target, r, c) === undefined) {
+          if (cell.type === 'error') return formulaError(String(cell.value));
+          return cell.type === 'date' ? String(cell.value) : cell.value;
+        }
+        const key = `${target}:${r}:${c}`;
+        if (results.has(key)) return results.get(key) as Scalar;
+        if (onPath.has(key)) return formulaError('#CYCLE!');
+        frame.missing.push({ s: target, row: r, col: c, key });
+        return null;
+      },
+      rowCount: name => workbook.sheets[sheetIndex(name, frame.s)]?.rows.length ?? 0
+    };
+    return evaluateFormula(frame.formula, context);
+  };
+
+  const calculate = (s: number, row: number, col: number): Scalar => {
+    const rootKey = `${s}:${row}:${col}`;
+    if (results.has(rootKey)) return results.get(rootKey) as Scalar;
+    const frameFor = (s: number, row: number, col: number, key: string): Pending =>
+      ({ s, row, col, key, formula: formulaAt(s, row, col) as string, missing: [] });
+    const stack: Pending[] = [frameFor(s, row, col, rootKey)];
+    onPath.add(rootKey);
+    while (stack.length) {
+      const frame = stack[stack.length - 1];
+      // Calculate what it was missing first, one at a time so the stack is always a chain of dependents
+      const next = frame.missing.find(m => !results.has(m.key) && !onPath.has(m.key));
+      if (next) {
+        onPath.add(next.key);
+        stack.push(frameFor(next.s, next.row, next.col, next.key));
+        continue;
+      }
+      const value = evaluate(frame);
+      if (frame.missing.length) continue;
+      stack.pop();
+      onPath.delete(frame.key);
+      results.set(frame.key, value);
+    }
+    return results.get(rootKey) as Scalar;
+  };
+
+  return {
+    ...workbook,
+    sheets: workbook.sheets.map((sheet, s) => ({
+      ...sheet,
+      rows: sheet.rows.map((row, r) => row.map((cell, c) => (cell?.formula !== undefined && isSupported(cell.formula) ? toCell(calculate(s, r, c), cell.formula) : cell)))
+    }))
+  };
+};
+
+// --- Editing ---
+
+const replaceSheet = (workbook: Workbook, index: number, sheet: Sheet): Workbook =>
+  ({ ...workbook, sheets: workbook.sheets.map((s, i) => (i === index ? sheet : s)) });
+
+/** Sets one cell from typed input (see parseInput). */
+export const setCell = (workbook: Workbook, sheetIndex: number, row: number, col: number, input: string): Workbook => {
+  const sheet = workbook.sheets[sheetIndex];
+  if (!sheet) return workbook;
+  const rows = sheet.rows.map(r => r.slice());
+  while (rows.length <= row) rows.push([]);
+  while (rows[row].length <= col) rows[row].push(null);
+  const cell = parseInput(input);
+  // There is no calculated value to keep for a new formula this engine can't evaluate
+  rows[row][col] = cell?.formula !== undefined && !supportsFormula(cell.formula) ? { type: 'error', value: '#NAME?', formula: cell.formula } : cell;
+  return recalculate(replaceSheet(workbook, sheetIndex, { ...sheet, rows }));
+};
+
+export interface CellEdit {
+  sheet: string; // sheet name; a missing sheet is created
+  cell: string; // address like "B3"
+  input: string; // as typed, "=" for formulas, empty to clear
+}
+
+/** Well-formed edits from untyped input such as a model's JSON; the sheet defaults to `defaultSheet`. */
+export const cellEditsFrom = (value: unknown, defaultSheet: string): CellEdit[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(e => e && typeof e.cell === 'string')
+    .map(e => ({ sheet: typeof e.sheet === 'string' && e.sheet.trim() ? e.sheet : defaultSheet, cell: e.cell, input: String(e.input ?? '') }));
+
+/** Applies a batch of edits (e.g. from the AI), skipping bad addresses. */
+export const applyCellEdits = (workbook: Workbook, edits: CellEdit[]): Workbook => {
+  let next = workbook;
+  edits.forEach(edit => {
+    const at = parseAddress(edit.cell);
+    if (!at) return;
+    let index = next.sheets.findIndex(s => s.name.toLowerCase() === edit.sheet.trim().toLowerCase());
+    if (index < 0) {
+      next = addSheet(next, edit.sheet.trim() || undefined);
+      index = next.sheets.length - 1;
+    }
+    next = setCell(next, index, at.row, at.col, edit.input);
+  });
+  return next;
+};
+
+const uniqueSheetName = (workbook: Workbook, base: string, except = -1) => {
+  const taken = (name: string) => workbook.sheets.some((s, i) => i !== except && s.name.toLowerCase() === name.toLowerCase());
+  if (!taken(base)) return base;
+  let n = 2;
+  while (taken(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+};
+
+export const addSheet = (workbook: Workbook, name?: string): Workbook =>
+  ({ ...workbook, sheets: [...workbook.sheets, { name: uniqueSheetName(workbook, name || `Sheet${workbook.sheets.length + 1}`), rows: [] }] });
+
+/** Removes a sheet; formulas that referenced it become #REF!. The last sheet can't be removed. */
+export const removeSheet = (workbook: Workbook, index: number): Workbook =>
+  workbook.sheets.length <= 1 ? workbook : recalculate({ ...workbook, sheets: workbook.sheets.filter((_, i) => i !== index) });
+
+/** Renames a sheet and the references to it. Returns null if the name is empty or taken. */
+export const renameSheet = (workbook: Workbook, index: number, name: string): Workbook | null => {
+  const sheet = workbook.sheets[index];
+  const next = name.trim();
+  if (!sheet || !next || /[\[\]:*?/\\]/.test(next) || uniqueSheetName(workbook, next, index) !== next) return null;
+  const sheets = workbook.sheets.map((s, i) => ({
+    name: i === index ? next : s.name,
+    rows: s.rows.map(row => row.map(cell => (cell?.formula !== undefined ? { ...cell, formula: renameSheetInFormula(cell.formula, sheet.name, next) } : cell)))
+  }));
+  return recalculate({ ...workbook, sheets });
+};
+
+// --- Sorting and filtering ---
+
+export type SortDirection = 'asc' | 'desc';
+
+// Numbers before dates before text before booleans; empty cells always last
+const sortRank = (cell: Cell | null) => (!cell ? 4 : cell.type === 'number' ? 0 : cell.type === 'date' ? 1 : cell.type === 'boolean' ? 3 : 2);
+
+const compareCells = (a: Cell | null, b: Cell | null): number => {
+  const rank = sortRank(a) - sortRank(b);
+  if (rank !== 0 || !a || !b) return rank;
+  if (a.type === 'number') return (a.value as number) - (b.value as number);
+  return String(a.value).localeCompare(String(b.value), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+/**
+ * Sorts the rows of a sheet by one column, keeping the header row (the first) in place.
+ * Formulas move with their row and their relative references are shifted, as in Excel.
+ */
+export const sortSheet = (workbook: Workbook, sheetIndex: number, col: number, direction: SortDirection, hasHeader = true): Workbook => {
+  const sheet = workbook.sheets[sheetIndex];
+  if (!sheet) return workbook;
+  const first = hasHeader ? 1 : 0;
+  const order = sheet.rows.slice(first).map((row, i) => ({ row, from: i + first }));
+  order.sort((a, b) => {
+    const x = cellAt(sheet, a.from, col);
+    const y = cellAt(sheet, b.from, col);
+    // Empty cells stay at the bottom either way
+    if (!x || !y) return compareCells(x, y) || a.from - b.from;
+    return (direction === 'asc' ? compareCells(x, y) : compareCells(y, x)) || a.from - b.from;
+  });
+  const moved = order.map(({ row, from }, i) => {
+    const delta = i + first - from;
+    return delta === 0 ? row : row.map(cell => (cell?.formula !== undefined ? { ...cell, formula: shiftFormula(cell.formula, delta, 0) } : cell));
+  });
+  return recalculate(replaceSheet(workbook, sheetIndex, { ...sheet, rows: [...sheet.rows.slice(0, first), ...moved] }));
+};
+
+/**
+ * Indices of the rows to show when each filtered column must contain its filter text
+ * (case-insensitive). The header row is always shown.
+ */
+export const filterRows = (sheet: Sheet, filters: Record<number, string>, hasHeader = true): number[] => {
+  const active = Object.entries(filters).filter(([, text]) => text.trim());
+  return sheet.rows.flatMap((row, r) => {
+    if (r === 0 && hasHeader) return [r];
+    const matches = active.every(([col, text]) => displayValue(row[Number(col)]).toLowerCase().includes(text.trim().toLowerCase()));
+    return matches ? [r] : [];
+  });
+};
+
+// --- Excel and CSV ---
+
+const fromSheetJsCell = (cell: CellObject | undefined): Cell | null => {
+  if (!cell || cell.t === 'z' || cell.v === undefined || cell.v === null || cell.v === '') {
+    return cell?.f ? { type: 'number', value: 0, formula: cell.f } : null;
+  }
+  const formula = cell.f ? { formula: cell.f } : {};
+  switch (cell.t) {
+    case 'n': return { type: 'number', value: Number(cell.v), ...formula };
+    case 'b': return { type: 'boolean', value: Boolean(cell.v), ...formula };
+    case 'e': return { type: 'error', value: cell.w || '#VALUE!', ...formula };
+    case 'd': return { type: 'date', value: formatDate(cell.v instanceof Date ? cell.v : new Date(String(cell.v))), ...formula };
+    default: return { type: 'text', value: String(cell.v), ...formula };
+  }
+};
+
+/** Reads an .xlsx, .xls or .csv file into a workbook. Cached formula results are kept as they are. */
+export const workbookFromFile = (data: ArrayBuffer): Workbook => {
+  const book = read(data, { type: 'array', cellFormula: true, cellDates: true });
+  const sheets = book.SheetNames.map(name => {
+    const sheet = book.Sheets[name];
+    if (!sheet['!ref']) return { name, rows: [] };
+    const range = utils.decode_range(sheet['!ref']);
+    const rows: (Cell | null)[][] = [];
+    for (let r = 0; r <= range.e.r; r++) {
+      const row: (Cell | null)[] = [];
+      for (let c = 0; c <= range.e.c; c++) row.push(fromSheetJsCell(sheet[cellAddress(r, c)]));
+      rows.push(row);
+    }
+    return { name, rows: trimRows(rows) };
+  });
+  return { appType: 'spreadsheet', version: 2, sheets: sheets.length ? sheets : [{ name: 'Sheet1', rows: [] }] };
+};
+
+// SheetJS numeric error codes
+const ERROR_NUMBERS: Record<string, number> = { '#NULL!': 0x00, '#DIV/0!': 0x07, '#VALUE!': 0x0f, '#REF!': 0x17, '#NAME?': 0x1d, '#NUM!': 0x24, '#N/A': 0x2a };
+
+const toSheetJsCell = (cell: Cell): CellObject => {
+  const formula = cell.formula !== undefined ? { f: cell.formula } : {};
+  switch (cell.type) {
+    case 'number': return { t: 'n', v: cell.value as number, ...formula };
+    case 'boolean': return { t: 'b', v: cell.value as boolean, ...formula };
+    case 'date': return { t: 'd', v: parseDate(String(cell.value)), z: String(cell.value).includes(' ') ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd', ...formula };
+    case 'error': return { t: 'e', v: ERROR_NUMBERS[String(cell.value)] ?? ERROR_NUMBERS['#VALUE!'], w: String(cell.value), ...formula };
+    default: return { t: 's', v: String(cell.value), ...formula };
+  }
+};
+
+const toSheetJsSheet = (sheet: Sheet): WorkSheet => {
+  const result: WorkSheet = {};
+  sheet.rows.forEach((row, r) => row.forEach((cell, c) => { if (cell) result[cellAddress(r, c)] = toSheetJsCell(cell); }));
+  const cols = columnCount(sheet);
+  if (sheet.rows.length && cols) result['!ref'] = utils.encode_range({ s: { r: 0, c: 0 }, e: { r: sheet.rows.length - 1, c: cols - 1 } });
+  return result;
+};
+
+export const workbookToXlsx = (workbook: Workbook): Blob => {
+  const book = utils.book_new();
+  // Excel limits sheet names to 31 characters
+  workbook.sheets.forEach(sheet => utils.book_append_sheet(book, toSheetJsSheet(sheet), sheet.name.slice(0, 31)));
+  const data = write(book, { bookType: 'xlsx', type: 'array' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/** One sheet as CSV, with calculated values rather than formulas. */
+export const sheetToCsv = (workbook: Workbook, sheetIndex: number): Blob => {
+  const sheet = workbook.sheets[sheetIndex] || workbook.sheets[0];
+  const cell = (c: Cell | null) => {
+    const text = displayValue(c);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const width = columnCount(sheet);
+  const csv = sheet.rows.map(row => Array.from({ length: width }, (_, c) => cell(row[c] ?? null)).join(',')).join('\r\n');
+  return new Blob([csv], { type: 'text/csv;charset=utf-8' });
+};
+
+// --- Text for search and the AI ---
+
+/** Sheet names and cell values, one row per line, for indexing. */
+export const workbookToText = (workbook: Workbook): string =>
+  workbook.sheets
+    .map(sheet => [sheet.name, ...sheet.rows.map(row => row.map(displayValue).filter(Boolean).join(' | '))].filter(Boolean).join('\n'))
+    .join('\n\n');
+
+const describeCell = (cell: Cell): string => {
+  const value = cell.type === 'text' ? JSON.stringify(cell.value)
+    : cell.type === 'date' ? `date ${cell.value}`
+    : cell.type === 'error' ? `error ${cell.value}`
+    : displayValue(cell);
+  return cell.formula !== undefined ? `${value} (=${cell.formula})` : value;
+};
+
+/**
+ * Typed cells for a model prompt: each non-empty cell as `B3: value`, text quoted, dates
+ * and errors labelled, formulas after their value. Sheets past `maxPerSheet` characters are cut.
+ */
+export const describeWorkbook = (workbook: Workbook, maxPerSheet = 6000): string =>
+  workbook.sheets.map(sheet => {
+    const lines = sheet.rows
+      .map((row, r) => row.flatMap((cell, c) => (cell ? [`${cellAddress(r, c)}: ${describeCell(cell)}`] : [])).join(' | '))
+      .filter(Boolean);
+    let body = '';
+    for (const line of lines) {
+      if (body.length + line.length > maxPerSheet) { body += '[truncated]\n'; break; }
+      body += `${line}\n`;
+    }
+    return `--- SHEET "${sheet.name}" (${sheet.rows.length} rows × ${columnCount(sheet)} columns) ---\n${body || '(empty)\n'}`;
+  }).join('\n');
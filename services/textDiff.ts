@@ -0,0 +1,108 @@
+/**
+ * Token-level diffing (Myers' O(ND) algorithm) shared by version history and compare views.
+ */
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  tokens: string[];
+}
+
+// Past this many edits the inputs are treated as unrelated and replaced wholesale
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Lines including their trailing newline, so joining the tokens reproduces the text. */
+export const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+
+/** Words, runs of whitespace and single punctuation marks. */
+export const splitWords = (text: string): string[] => text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) || [];
+
+const pushOp = (ops: DiffOp[], type: DiffOpType, token: string) => {
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) last.tokens.push(token);
+  else ops.push({ type, tokens: [token] });
+};
+
+/**
+ * Shortest edit script between two token arrays. Consecutive tokens of the same kind are
+ * grouped into one op, and deletions come before insertions within a changed region.
+ */
+export const diffTokens = (a: string[], b: string[]): DiffOp[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < start; i++) pushOp(ops, 'equal', a[i]);
+
+  // Intern tokens so the inner loop compares integers
+  const ids = new Map<string, number>();
+  const intern = (t: string) => {
+    let id = ids.get(t);
+    if (id === undefined) { id = ids.size; ids.set(t, id); }
+    return id;
+  };
+  const xa = a.slice(start, endA).map(intern);
+  const xb = b.slice(start, endB).map(intern);
+  const n = xa.length;
+  const m = xb.length;
+
+  const middle: { type: DiffOpType; token: string }[] = [];
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+  let found = -1;
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && xa[x] === xb[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) { found = d; break; }
+    }
+    if (found >= 0) break;
+  }
+
+  if (found < 0) {
+    for (let i = start; i < endA; i++) middle.push({ type: 'delete', token: a[i] });
+    for (let j = start; j < endB; j++) middle.push({ type: 'insert', token: b[j] });
+  } else {
+    const reversed: { type: DiffOpType; token: string }[] = [];
+    let x = n;
+    let y = m;
+    for (let d = found; d > 0; d--) {
+      // trace[d] holds v as it was before round d, for k in [-d - 1, d + 1]
+      const prev = trace[d];
+      const at = (k: number) => prev[k + d + 1];
+      const k = x - y;
+      const prevK = (k === -d || (k !== d && at(k - 1) < at(k + 1))) ? k + 1 : k - 1;
+      const prevX = at(prevK);
+      const prevY = prevX - prevK;
+      while (x > prevX && y > prevY) { reversed.push({ type: 'equal', token: a[start + x - 1] }); x--; y--; }
+      if (x === prevX) reversed.push({ type: 'insert', token: b[start + y - 1] });
+      else reversed.push({ type: 'delete', token: a[start + x - 1] });
+      x = prevX;
+      y = prevY;
+    }
+    while (x > 0 && y > 0) { reversed.push({ type: 'equal', token: a[start + x - 1] }); x--; y--; }
+    middle.push(...reversed.reverse());
+  }
+
+  // Order each changed run as deletions then insertions so hunks read naturally
+  let i = 0;
+  while (i < middle.length) {
+    if (middle[i].type === 'equal') { pushOp(ops, 'equal', middle[i].token); i++; continue; }
+    const run: { type: DiffOpType; token: string }[] = [];
+    while (i < middle.length && middle[i].type !== 'equal') run.push(middle[i++]);
+    run.filter(r => r.type === 'delete').forEach(r => pushOp(ops, 'delete', r.token));
+    run.filter(r => r.type === 'insert').forEach(r => pushOp(ops, 'insert', r.token));
+  }
+
+  for (let j = endA; j < a.length; j++) pushOp(ops, 'equal', a[j]);
+  return ops;
+};
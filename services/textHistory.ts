@@ -0,0 +1,228 @@
+import { PatchHunk, RecallFile, RecallType, SemanticDiff } from "../types";
+import { isBinaryMemory, resolvePayload } from "./blobStore";
+import { diffTokens, splitLines } from "./textDiff";
+import { activeBranchOf, appendToActiveBranch, headIndexOf, parentIndexOf, withContent } from "./versionTree";
+
+/**
+ * Patch-based version history for textual memories.
+ *
+ * The root entry, and every KEYFRAME_INTERVAL-th entry down any line, keeps a full `content`
+ * snapshot (`keyframe: true`). Entries in between store only a `patch` against their
+ * parent entry (see services/versionTree). Hunks record both the removed and inserted text, so a patch can be applied
+ * forwards or inverted to step backwards. Binary payloads (images, media, PDFs) keep
+ * full snapshots on every entry.
+ */
+export type TextPatch = PatchHunk[];
+
+export const KEYFRAME_INTERVAL = 20;
+
+const trimHunk = (hunk: PatchHunk): PatchHunk => {
+  let prefix = 0;
+  const maxPrefix = Math.min(hunk.remove.length, hunk.insert.length);
+  while (prefix < maxPrefix && hunk.remove[prefix] === hunk.insert[prefix]) prefix++;
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && hunk.remove[hunk.remove.length - 1 - suffix] === hunk.insert[hunk.insert.length - 1 - suffix]) suffix++;
+  return {
+    at: hunk.at + prefix,
+    remove: hunk.remove.slice(prefix, hunk.remove.length - suffix),
+    insert: hunk.insert.slice(prefix, hunk.insert.length - suffix)
+  };
+};
+
+/**
+ * Line diff between two versions, with each changed region narrowed to the characters
+ * that actually differ so an edit inside one long line (e.g. spreadsheet JSON) stays small.
+ */
+export const createPatch = (from: string, to: string): TextPatch => {
+  const hunks: PatchHunk[] = [];
+  let pos = 0;
+  let current: PatchHunk | null = null;
+  diffTokens(splitLines(from), splitLines(to)).forEach(op => {
+    const text = op.tokens.join('');
+    if (op.type === 'equal') {
+      current = null;
+      pos += text.length;
+      return;
+    }
+    if (!current) {
+      current = { at: pos, remove: '', insert: '' };
+      hunks.push(current);
+    }
+    if (op.type === 'delete') {
+      current.remove += text;
+      pos += text.length;
+    } else {
+      current.insert += text;
+    }
+  });
+  return hunks.map(trimHunk);
+};
+
+export const applyPatch = (text: string, patch: TextPatch): string => {
+  let out = '';
+  let cursor = 0;
+  patch.forEach(h => {
+    if (text.slice(h.at, h.at + h.remove.length) !== h.remove) throw new Error(`Patch does not apply at offset ${h.at}`);
+    out += text.slice(cursor, h.at) + h.insert;
+    cursor = h.at + h.remove.length;
+  });
+  return out + text.slice(cursor);
+};
+
+/**
+ * The patch that undoes `patch`, with offsets moved into the newer version's coordinates.
+ */
+export const invertPatch = (patch: TextPatch): TextPatch => {
+  let delta = 0;
+  return patch.map(h => {
+    const inverted = { at: h.at + delta, remove: h.insert, insert: h.remove };
+    delta += h.insert.length - h.remove.length;
+    return inverted;
+  });
+};
+
+export const patchSize = (patch: TextPatch) => patch.reduce((sum, h) => sum + h.remove.length + h.insert.length, 0);
+
+export const usesTextHistory = (memory: RecallFile) =>
+  memory.type !== RecallType.IMAGE && memory.type !== RecallType.AUDIO && memory.type !== RecallType.VIDEO;
+
+/**
+ * Encodes `text` as the entry following `previous`, as a patch or a keyframe.
+ */
+const encodeEntry = (
+  memory: RecallFile,
+  entry: SemanticDiff,
+  previous: string | null,
+  text: string,
+  sinceKeyframe: number
+): SemanticDiff => {
+  const { content, patch, keyframe, ...meta } = entry;
+  if (!usesTextHistory(memory)) return { ...meta, content: text };
+  const snapshot = { ...meta, content: text, keyframe: true };
+  if (previous === null || isBinaryMemory(memory, text) || isBinaryMemory(memory, previous) || sinceKeyframe + 1 >= KEYFRAME_INTERVAL) return snapshot;
+  const next = createPatch(previous, text);
+  // A rewrite this large is cheaper to store whole, and starts a fresh chain
+  if (patchSize(next) > text.length / 2) return snapshot;
+  return { ...meta, patch: next };
+};
+
+const entriesSinceKeyframe = (history: SemanticDiff[], index: number) => {
+  let count = 0;
+  for (let i = index; i >= 0 && !history[i].content; i = parentIndexOf(history, i)) count++;
+  return count;
+};
+
+/**
+ * Reconstructs the text of history entry `index` from the nearest keyframe among its ancestors.
+ */
+export const resolveVersion = async (memory: RecallFile, index: number): Promise<string> => {
+  const history = memory.history;
+  const chain: number[] = [];
+  let base = index;
+  while (base > 0 && !history[base].content && history[base].patch) {
+    chain.push(base);
+    base = parentIndexOf(history, base);
+  }
+  // Entries with neither a snapshot nor a patch predate versioning and show the current content
+  let text = await resolvePayload(history[base]?.content || memory.content);
+  for (let i = chain.length - 1; i >= 0; i--) text = applyPatch(text, history[chain[i]].patch as TextPatch);
+  return text;
+};
+
+/**
+ * Sets `nextContent` as the memory's content and records it as a child of the active
+ * branch's head.
+ */
+export const commitVersion = async (
+  memory: RecallFile,
+  nextContent: string,
+  entry: Pick<SemanticDiff, 'description' | 'author'> & Partial<SemanticDiff>
+): Promise<RecallFile> => {
+  const diff: SemanticDiff = { id: crypto.randomUUID(), timestamp: Date.now(), ...entry };
+  const head = headIndexOf(memory);
+  let previous: string | null = null;
+  if (head >= 0 && usesTextHistory(memory)) {
+    const current = await resolvePayload(memory.content);
+    // Only chain onto the head if it actually holds the current content
+    const tip = await resolveVersion(memory, head).catch(() => null);
+    if (tip === current) previous = current;
+  }
+  const encoded = encodeEntry(memory, diff, previous, nextContent, head >= 0 ? entriesSinceKeyframe(memory.history, head) : 0);
+  return withContent(appendToActiveBranch(memory, encoded), nextContent, diff.timestamp);
+};
+
+/**
+ * Replaces the text recorded by entry `entryId`, so a session of edits (e.g. autosaves while
+ * typing) stays one version. Only possible while that entry is the head with nothing derived
+ * from it; returns null otherwise, and the caller should commit a new version instead.
+ */
+export const amendVersion = async (memory: RecallFile, entryId: string, nextContent: string): Promise<RecallFile | null> => {
+  const history = memory.history;
+  const head = headIndexOf(memory);
+  if (head < 0 || history[head].id !== entryId || !usesTextHistory(memory)) return null;
+  const derived = history.some((_, i) => i !== head && parentIndexOf(history, i) === head)
+    || (memory.branches || []).some(b => b.headId === entryId && b.name !== activeBranchOf(memory)?.name);
+  if (derived) return null;
+
+  const parent = parentIndexOf(history, head);
+  const previous = parent >= 0 ? await resolveVersion(memory, parent) : null;
+  const timestamp = Date.now();
+  const encoded = encodeEntry(memory, { ...history[head], timestamp }, previous, nextContent, parent >= 0 ? entriesSinceKeyframe(history, parent) : 0);
+  return withContent({ ...memory, history: history.map((d, i) => (i === head ? encoded : d)) }, nextContent, timestamp);
+};
+
+/**
+ * Records a change that leaves the content as it is (tags, metadata, canvas position) as an
+ * entry with an empty patch, or one pointing at the current payload when there is no text
+ * head to patch against.
+ */
+export const recordChange = async (
+  memory: RecallFile,
+  entry: Pick<SemanticDiff, 'description' | 'author'>
+): Promise<RecallFile> => {
+  const diff: SemanticDiff = { id: crypto.randomUUID(), timestamp: Date.now(), ...entry };
+  const head = headIndexOf(memory);
+  let patchable = false;
+  if (head >= 0 && usesTextHistory(memory)) {
+    const current = await resolvePayload(memory.content);
+    patchable = !isBinaryMemory(memory, current) && await resolveVersion(memory, head).catch(() => null) === current;
+  }
+  const recorded: SemanticDiff = patchable
+    ? { ...diff, patch: [] }
+    : { ...diff, content: memory.content, keyframe: usesTextHistory(memory) || undefined };
+  return { ...appendToActiveBranch(memory, recorded), updatedAt: diff.timestamp };
+};
+
+/**
+ * True for textual memories still carrying full snapshots from before patch-based history.
+ */
+export const needsCompaction = (memory: RecallFile) =>
+  usesTextHistory(memory) && memory.history.some((d, i) => i > 0 && !!d.content && !d.keyframe);
+
+/**
+ * Re-encodes a snapshot history as keyframes and patches. Returns the memory unchanged
+ * when there is nothing to migrate.
+ */
+export const compactHistory = async (memory: RecallFile): Promise<RecallFile> => {
+  if (!needsCompaction(memory)) return memory;
+  const history: SemanticDiff[] = [];
+  const texts: string[] = [];
+  const sinceKeyframe: number[] = [];
+  for (let i = 0; i < memory.history.length; i++) {
+    const entry = memory.history[i];
+    const parent = parentIndexOf(memory.history, i);
+    const previous = parent >= 0 ? texts[parent] : null;
+    let text: string;
+    if (entry.content) text = await resolvePayload(entry.content);
+    else if (entry.patch && previous !== null) text = applyPatch(previous, entry.patch);
+    else text = previous ?? await resolvePayload(memory.content);
+
+    const encoded = encodeEntry(memory, entry, previous, text, parent >= 0 ? sinceKeyframe[parent] : 0);
+    // A snapshot kept as a keyframe reuses its existing blob reference
+    history.push(encoded.content !== undefined && entry.content ? { ...encoded, content: entry.content } : encoded);
+    sinceKeyframe[i] = encoded.content !== undefined ? 0 : (parent >= 0 ? sinceKeyframe[parent] : 0) + 1;
+    texts[i] = text;
+  }
+  return { ...memory, history };
+};
@@ -0,0 +1,197 @@
+import { RecallFile, RecallType } from "../types";
+import { OBJECT_STORES, requestToPromise, withTransaction } from "./database";
+import { hashString, resolvePayload } from "./blobStore";
+import {
+  EmbeddingProvider,
+  chunkText,
+  extractIndexableText,
+  getEmbeddingProvider,
+  getEmbeddingProviderById,
+  localEmbeddingProvider
+} from "./embeddingService";
+import { cosineSimilarity } from "./localEmbedding";
+
+/**
+ * Local in-browser vector index. One record per memory holds the embedded chunks;
+ * the record's fingerprint (provider id + hash of the indexed text) is mirrored into
+ * RecallFile.vectorId so stale entries are detectable without re-embedding.
+ */
+export interface IndexedChunk {
+  text: string;
+  vector: number[];
+}
+
+export interface VectorRecord {
+  id: string; // memory id
+  fingerprint: string;
+  providerId: string;
+  chunks: IndexedChunk[];
+  updatedAt: number;
+}
+
+export interface SemanticHit {
+  memoryId: string;
+  score: number;
+  snippet: string;
+}
+
+// A chunk picked for retrieval-augmented answers; `chunk` is its position in the memory's record
+export interface RetrievedChunk {
+  memoryId: string;
+  chunk: number;
+  text: string;
+  score: number;
+}
+
+const DEFAULT_MIN_SCORE = 0.1;
+
+const index = new Map<string, VectorRecord>();
+let loadPromise: Promise<void> | null = null;
+
+export const loadVectorIndex = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = withTransaction(OBJECT_STORES.vectors, 'readonly', tx =>
+      requestToPromise<VectorRecord[]>(tx.objectStore(OBJECT_STORES.vectors).getAll())
+    ).then(records => {
+      records.forEach(r => index.set(r.id, r));
+    }).catch(error => {
+      loadPromise = null;
+      throw error;
+    });
+  }
+  return loadPromise;
+};
+
+const fingerprintFor = async (provider: EmbeddingProvider, text: string) =>
+  `${provider.id}:${(await hashString(text)).slice(0, 16)}`;
+
+/**
+ * True when the memory's vectorId matches what is indexed under the active provider.
+ */
+export const isIndexCurrent = (memory: RecallFile): boolean => {
+  const record = index.get(memory.id);
+  return !!record && !!memory.vectorId &&
+    record.fingerprint === memory.vectorId &&
+    record.providerId === getEmbeddingProvider().id;
+};
+
+/**
+ * (Re)indexes a memory if its text or the active provider changed.
+ * Falls back to the local provider when the remote one fails. Returns the fingerprint.
+ */
+export const indexMemory = async (memory: RecallFile): Promise<string> => {
+  await loadVectorIndex();
+
+  const isTextual = memory.type === RecallType.TEXT || memory.type === RecallType.DOCUMENT || memory.type === RecallType.HYBRID;
+  const content = isTextual ? await resolvePayload(memory.content) : '';
+  const text = extractIndexableText(memory, content);
+  const chunks = chunkText(text);
+
+  let provider = getEmbeddingProvider();
+  let fingerprint = await fingerprintFor(provider, text);
+  if (index.get(memory.id)?.fingerprint === fingerprint) return fingerprint;
+
+  let vectors: number[][];
+  try {
+    vectors = await provider.embed(chunks);
+  } catch (error) {
+    console.warn("Remote embedding failed, using local fallback", error);
+    provider = localEmbeddingProvider;
+    fingerprint = await fingerprintFor(provider, text);
+    vectors = await provider.embed(chunks);
+  }
+
+  const record: VectorRecord = {
+    id: memory.id,
+    fingerprint,
+    providerId: provider.id,
+    chunks: chunks.map((chunk, i) => ({ text: chunk, vector: vectors[i] || [] })),
+    updatedAt: Date.now()
+  };
+  index.set(memory.id, record);
+  await withTransaction(OBJECT_STORES.vectors, 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(OBJECT_STORES.vectors).put(record));
+  });
+  return fingerprint;
+};
+
+export const removeFromIndex = async (memoryId: string): Promise<void> => {
+  index.delete(memoryId);
+  await withTransaction(OBJECT_STORES.vectors, 'readwrite', async tx => {
+    await requestToPromise(tx.objectStore(OBJECT_STORES.vectors).delete(memoryId));
+  });
+};
+
+/**
+ * Embeds the query once per provider present in the index so mixed-provider records still
+ * compare like with like. Null for providers that are unavailable or fail.
+ */
+const queryEmbedder = (query: string) => {
+  const vectors = new Map<string, Promise<number[] | null>>();
+  return (providerId: string): Promise<number[] | null> => {
+    if (!vectors.has(providerId)) {
+      const provider = getEmbeddingProviderById(providerId);
+      vectors.set(providerId, provider ? provider.embed([query]).then(v => v[0] || null, () => null) : Promise.resolve(null));
+    }
+    return vectors.get(providerId) as Promise<number[] | null>;
+  };
+};
+
+/**
+ * Ranks memories by their best-matching chunk.
+ */
+export const searchIndex = async (query: string, minScore = DEFAULT_MIN_SCORE): Promise<SemanticHit[]> => {
+  await loadVectorIndex();
+  if (!query.trim()) return [];
+
+  const embed = queryEmbedder(query);
+  const hits: SemanticHit[] = [];
+
+  for (const record of index.values()) {
+    const queryVector = await embed(record.providerId);
+    if (!queryVector) continue;
+
+    let best: IndexedChunk | null = null;
+    let bestScore = -Infinity;
+    record.chunks.forEach(chunk => {
+      const score = cosineSimilarity(queryVector, chunk.vector);
+      if (score > bestScore) { bestScore = score; best = chunk; }
+    });
+    if (best && bestScore >= minScore) {
+      hits.push({ memoryId: record.id, score: bestScore, snippet: (best as IndexedChunk).text });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * The chunks closest to the query across the whole library, best first, taking at most
+ * `perMemory` from any one memory so a single long document can't crowd out the rest.
+ */
+export const retrieveChunks = async (query: string, limit = 8, perMemory = 3, minScore = DEFAULT_MIN_SCORE): Promise<RetrievedChunk[]> => {
+  await loadVectorIndex();
+  if (!query.trim()) return [];
+
+  const embed = queryEmbedder(query);
+  const scored: RetrievedChunk[] = [];
+  for (const record of index.values()) {
+    const queryVector = await embed(record.providerId);
+    if (!queryVector) continue;
+    record.chunks.forEach((chunk, i) => {
+      const score = cosineSimilarity(queryVector, chunk.vector);
+      if (score >= minScore) scored.push({ memoryId: record.id, chunk: i, text: chunk.text, score });
+    });
+  }
+
+  const taken = new Map<string, number>();
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .filter(c => {
+      const count = taken.get(c.memoryId) || 0;
+      if (count >= perMemory) return false;
+      taken.set(c.memoryId, count + 1);
+      return true;
+    })
+    .slice(0, limit);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { Workbook, parseInput, parseWorkbook, serializeWorkbook } from "./spreadsheet";
+import { diffSpreadsheets, mergeSpreadsheet } from "./versionCompare";
+
+const workbookJson = (sheets: Record<string, string[][]>): string => serializeWorkbook({
+  appType: 'spreadsheet',
+  version: 2,
+  sheets: Object.entries(sheets).map(([name, rows]) => ({ name, rows: rows.map(row => row.map(parseInput)) }))
+} as Workbook);
+
+const sheetValues = (json: string) =>
+  Object.fromEntries((parseWorkbook(json)?.sheets || []).map(s => [s.name, s.rows.map(row => row.map(c => c?.value ?? null))]));
+
+describe("spreadsheet compare", () => {
+  it("matches sheets by name when one is added in front", () => {
+    const before = workbookJson({ Data: [['1', '2']] });
+    const after = workbookJson({ Notes: [['x']], Data: [['1', '3']] });
+    const changes = diffSpreadsheets(before, after);
+    expect(changes.map(c => [c.sheetName, c.row, c.col, c.before, c.after])).toEqual([
+      ['Notes', 0, 0, null, 'x'],
+      ['Data', 0, 1, '2', '3']
+    ]);
+    const merged = mergeSpreadsheet(before, after, changes, new Set([changes[1].id]));
+    expect(sheetValues(merged)).toEqual({ Notes: [['x']], Data: [[1, 2]] });
+  });
+
+  it("restores a removed sheet when its changes are rejected", () => {
+    const before = workbookJson({ First: [['a']], Second: [['1', '2']] });
+    const after = workbookJson({ Second: [['1', '2']] });
+    const changes = diffSpreadsheets(before, after);
+    expect(changes.map(c => c.sheetName)).toEqual(['First']);
+    const merged = mergeSpreadsheet(before, after, changes, new Set(changes.map(c => c.id)));
+    expect(Object.keys(sheetValues(merged))).toEqual(['First', 'Second']);
+    expect(sheetValues(merged).First).toEqual([['a']]);
+  });
+});
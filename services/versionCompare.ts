@@ -0,0 +1,163 @@
+import { RecallFile, RecallType } from "../types";
+import { Sheet, cellInput, isSpreadsheet, parseWorkbook, recalculate, serializeWorkbook } from "./spreadsheet";
+import { diffTokens, splitLines, splitWords } from "./textDiff";
+
+/**
+ * Diff models behind the history compare view. Every change is a hunk that can be kept
+ * (the newer version's text) or rejected (the older version's text), and the merge
+ * helpers rebuild content from those choices.
+ */
+export type CompareKind = 'text' | 'html' | 'spreadsheet' | 'image' | 'unsupported';
+export type Granularity = 'word' | 'line';
+
+export type DiffSegment =
+  | { type: 'equal'; tokens: string[] }
+  | { type: 'change'; hunkId: number; removed: string[]; added: string[] };
+
+export interface CellChange {
+  id: string;
+  sheetName: string; // sheets are matched by name between the versions
+  row: number;
+  col: number;
+  before: string | null; // null when the cell doesn't exist in that version
+  after: string | null;
+}
+
+export interface SheetGrid {
+  name: string;
+  rows: string[][];
+}
+
+const HTML_PATTERN = /<\/?[a-z][\s\S]*?>/i;
+const BLOCK_BREAK = /^<(\/(p|div|h[1-6]|li|tr|ul|ol|table|blockquote|pre)|br\s*\/?)\s*>$/i;
+
+export const isBlockBreak = (token: string) => BLOCK_BREAK.test(token);
+export const isTag = (token: string) => token.startsWith('<') && token.endsWith('>');
+
+export const compareKindOf = (memory: RecallFile, before: string, after: string): CompareKind => {
+  if (memory.type === RecallType.IMAGE) return 'image';
+  if (memory.type === RecallType.AUDIO || memory.type === RecallType.VIDEO) return 'unsupported';
+  if (before.startsWith('JVBER') || after.startsWith('JVBER')) return 'unsupported';
+  if (isSpreadsheet(before) && isSpreadsheet(after)) return 'spreadsheet';
+  if (HTML_PATTERN.test(before) || HTML_PATTERN.test(after)) return 'html';
+  return 'text';
+};
+
+/**
+ * Tags stay whole tokens so a hunk never splits one. At line granularity HTML is broken
+ * after block-closing tags, since most HTML content has few real newlines.
+ */
+const tokenize = (text: string, granularity: Granularity, html: boolean): string[] => {
+  if (!html) return granularity === 'line' ? splitLines(text) : splitWords(text);
+  const parts = text.match(/<[^>]*>|[^<]+/g) || [];
+  if (granularity === 'word') return parts.flatMap(p => (isTag(p) ? [p] : splitWords(p)));
+
+  const lines: string[] = [];
+  let current = '';
+  parts.forEach(p => {
+    if (isTag(p)) {
+      current += p;
+      if (isBlockBreak(p)) { lines.push(current); current = ''; }
+      return;
+    }
+    splitLines(p).forEach(chunk => {
+      current += chunk;
+      if (chunk.endsWith('\n')) { lines.push(current); current = ''; }
+    });
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+export const diffVersions = (before: string, after: string, granularity: Granularity, html: boolean): DiffSegment[] => {
+  const segments: DiffSegment[] = [];
+  let hunkId = 0;
+  diffTokens(tokenize(before, granularity, html), tokenize(after, granularity, html)).forEach(op => {
+    const last = segments[segments.length - 1];
+    if (op.type === 'equal') {
+      segments.push({ type: 'equal', tokens: op.tokens });
+    } else if (last && last.type === 'change') {
+      (op.type === 'delete' ? last.removed : last.added).push(...op.tokens);
+    } else {
+      segments.push({
+        type: 'change',
+        hunkId: hunkId++,
+        removed: op.type === 'delete' ? [...op.tokens] : [],
+        added: op.type === 'insert' ? [...op.tokens] : []
+      });
+    }
+  });
+  return segments;
+};
+
+/** Rebuilds the newer text, swapping rejected hunks back to the older text. */
+export const mergeSegments = (segments: DiffSegment[], rejected: Set<number>): string =>
+  segments.map(s => {
+    if (s.type === 'equal') return s.tokens.join('');
+    return (rejected.has(s.hunkId) ? s.removed : s.added).join('');
+  }).join('');
+
+/** Each sheet's cells as typed (formulas rather than their values), for comparing versions. */
+export const toGrids = (json: string): SheetGrid[] =>
+  (parseWorkbook(json)?.sheets || []).map(sheet => ({ name: sheet.name, rows: sheet.rows.map(row => row.map(cellInput)) }));
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Cell-by-cell comparison of sheets matched by name, so adding or removing a sheet doesn't
+ * shift the others; a sheet only in one version compares against an empty one. Cells are
+ * compared on their input, so a changed value shows up in the cell that was edited rather
+ * than in every formula using it.
+ */
+export const diffSpreadsheets = (before: string, after: string): CellChange[] => {
+  const a = toGrids(before);
+  const b = toGrids(after);
+  const sheets = [...b, ...a.filter(sheet => !b.some(other => sameName(other.name, sheet.name)))];
+  const changes: CellChange[] = [];
+  sheets.forEach(({ name }) => {
+    const rowsA = a.find(sheet => sameName(sheet.name, name))?.rows || [];
+    const rowsB = b.find(sheet => sameName(sheet.name, name))?.rows || [];
+    for (let r = 0; r < Math.max(rowsA.length, rowsB.length); r++) {
+      const cellsA = rowsA[r] || [];
+      const cellsB = rowsB[r] || [];
+      for (let c = 0; c < Math.max(cellsA.length, cellsB.length); c++) {
+        const va = c < cellsA.length ? cellsA[c] : null;
+        const vb = c < cellsB.length ? cellsB[c] : null;
+        if (va === vb) continue;
+        changes.push({ id: `${name.toLowerCase()}!${r}:${c}`, sheetName: name, row: r, col: c, before: va, after: vb });
+      }
+    }
+  });
+  return changes;
+};
+
+/**
+ * Applies rejected cell changes to the newer spreadsheet: modified and added cells take
+ * the older cell (or are cleared), and removed cells are recreated. A sheet the newer
+ * version removed comes back, at its old position, when changes on it are rejected. The
+ * result is recalculated.
+ */
+export const mergeSpreadsheet = (before: string, after: string, changes: CellChange[], rejected: Set<string>): string => {
+  const older = parseWorkbook(before);
+  const newer = parseWorkbook(after);
+  if (!older || !newer) return after;
+  const revert = (sheet: Sheet): Sheet => {
+    const reverts = changes.filter(c => sameName(c.sheetName, sheet.name) && rejected.has(c.id));
+    if (!reverts.length) return sheet;
+    const source = older.sheets.find(s => sameName(s.name, sheet.name));
+    const rows = sheet.rows.map(row => row.slice());
+    reverts.forEach(change => {
+      while (rows.length <= change.row) rows.push([]);
+      while (rows[change.row].length <= change.col) rows[change.row].push(null);
+      rows[change.row][change.col] = source?.rows[change.row]?.[change.col] ?? null;
+    });
+    return { ...sheet, rows };
+  };
+  const sheets = newer.sheets.map(revert);
+  older.sheets.forEach((sheet, index) => {
+    if (sheets.some(s => sameName(s.name, sheet.name))) return;
+    const restored = revert({ name: sheet.name, rows: [] });
+    if (restored.rows.length) sheets.splice(Math.min(index, sheets.length), 0, restored);
+  });
+  return serializeWorkbook(recalculate({ ...newer, sheets }));
+};
@@ -0,0 +1,200 @@
+import { HistoryBranch, RecallFile, SemanticDiff } from "../types";
+
+/**
+ * History as a tree. `history` stays an append-only, chronological array; each entry points
+ * at the entry it was derived from through `parentId` (entries without one follow the entry
+ * before them, which is how pre-branching histories read). Named branches mark heads in the
+ * tree, and the memory's content is always the head of its active branch.
+ */
+export const DEFAULT_BRANCH = 'main';
+
+export const getBranches = (memory: RecallFile): HistoryBranch[] => {
+  if (memory.branches?.length) return memory.branches;
+  const last = memory.history[memory.history.length - 1];
+  return last ? [{ name: DEFAULT_BRANCH, headId: last.id }] : [];
+};
+
+export const activeBranchOf = (memory: RecallFile): HistoryBranch | undefined => {
+  const branches = getBranches(memory);
+  return branches.find(b => b.name === memory.activeBranch) || branches[0];
+};
+
+const indexById = (history: SemanticDiff[]) => new Map<string, number>(history.map((d, i) => [d.id, i]));
+
+export const parentIndexOf = (history: SemanticDiff[], index: number, ids = indexById(history)): number => {
+  const entry = history[index];
+  if (!entry || index === 0) return -1;
+  if (entry.parentId === undefined) return index - 1;
+  return ids.get(entry.parentId) ?? -1;
+};
+
+/** Index of the entry the current content corresponds to. */
+export const headIndexOf = (memory: RecallFile): number => {
+  const head = activeBranchOf(memory);
+  const index = head ? memory.history.findIndex(d => d.id === head.headId) : -1;
+  return index >= 0 ? index : memory.history.length - 1;
+};
+
+/** Indexes from the root down to `index`. */
+export const ancestryOf = (history: SemanticDiff[], index: number): number[] => {
+  const ids = indexById(history);
+  const path: number[] = [];
+  for (let i = index; i >= 0 && path.length <= history.length; i = parentIndexOf(history, i, ids)) path.push(i);
+  return path.reverse();
+};
+
+/**
+ * Adds `entry` as a child of the active branch's head and advances that branch to it.
+ */
+export const appendToActiveBranch = (memory: RecallFile, entry: SemanticDiff): RecallFile => {
+  const head = memory.history[headIndexOf(memory)];
+  const active = activeBranchOf(memory);
+  const child: SemanticDiff = head ? { ...entry, parentId: head.id } : entry;
+  const name = active?.name || DEFAULT_BRANCH;
+  const branches = getBranches(memory).map(b => (b.name === name ? { ...b, headId: child.id } : b));
+  return {
+    ...memory,
+    history: [...memory.history, child],
+    branches: branches.length ? branches : [{ name, headId: child.id }],
+    activeBranch: name
+  };
+};
+
+/**
+ * The memory with new current content. Page text and the first-page thumbnail of a PDF,
+ * and the transcript of audio or video, were derived from the old content, so they are
+ * dropped and re-derived when needed.
+ */
+export const withContent = (memory: RecallFile, content: string, updatedAt = Date.now()): RecallFile => {
+  const { pages, transcript, ...rest } = memory;
+  return { ...rest, content, updatedAt, thumbnail: pages ? '' : memory.thumbnail };
+};
+
+const uniqueBranchName = (branches: HistoryBranch[], base: string) => {
+  const names = new Set(branches.map(b => b.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+/**
+ * Makes entry `index` the current content. Switches to a branch already headed there,
+ * otherwise starts a new branch at that entry so the line it leaves keeps its head.
+ */
+export const checkoutVersion = (memory: RecallFile, index: number, content: string): RecallFile => {
+  const entry = memory.history[index];
+  const branches = getBranches(memory);
+  const existing = branches.find(b => b.headId === entry.id);
+  const name = existing?.name || uniqueBranchName(branches, `v${index + 1}`);
+  return {
+    ...withContent(memory, content),
+    branches: existing ? branches : [...branches, { name, headId: entry.id }],
+    activeBranch: name
+  };
+};
+
+export const switchBranch = (memory: RecallFile, name: string, content: string): RecallFile => ({
+  ...withContent(memory, content),
+  branches: getBranches(memory),
+  activeBranch: name
+});
+
+/** Returns null when `next` is empty or taken. */
+export const renameBranch = (memory: RecallFile, name: string, next: string): RecallFile | null => {
+  const trimmed = next.trim();
+  const branches = getBranches(memory);
+  if (!trimmed || branches.some(b => b.name === trimmed)) return null;
+  return {
+    ...memory,
+    branches: branches.map(b => (b.name === name ? { ...b, name: trimmed } : b)),
+    activeBranch: activeBranchOf(memory)?.name === name ? trimmed : memory.activeBranch
+  };
+};
+
+/**
+ * Drops a branch label. Entries stay in the history; the active branch can't be deleted.
+ */
+export const deleteBranch = (memory: RecallFile, name: string): RecallFile => {
+  if (activeBranchOf(memory)?.name === name) return memory;
+  return { ...memory, branches: getBranches(memory).filter(b => b.name !== name) };
+};
+
+/**
+ * A standalone memory holding one branch's line of history, root to head, with
+ * `content` (the head's text) as its current state.
+ */
+export const forkBranch = (memory: RecallFile, name: string, content: string): RecallFile => {
+  const branch = getBranches(memory).find(b => b.name === name);
+  const headIndex = branch ? memory.history.findIndex(d => d.id === branch.headId) : memory.history.length - 1;
+  const history = ancestryOf(memory.history, headIndex).map((i, n, path) => {
+    const { parentId, ...entry } = memory.history[i];
+    return n === 0 ? entry : { ...entry, parentId: memory.history[path[n - 1]].id };
+  });
+  const now = Date.now();
+  const { vectorId, x, y, branches, activeBranch, ...rest } = memory;
+  return {
+    ...rest,
+    id: crypto.randomUUID(),
+    title: `${memory.title} (${name})`,
+    content,
+    createdAt: now,
+    updatedAt: now,
+    history
+  };
+};
+
+export interface VersionGraph {
+  lanes: number[]; // lane of each entry
+  laneCount: number;
+  parents: number[]; // parent index of each entry, -1 for a root
+  children: number[][]; // child indexes of each entry
+  passing: number[][]; // lanes with an edge running straight through each row
+}
+
+/**
+ * Assigns each entry a lane for drawing the tree, git-log style: an entry's first child
+ * continues its lane and later children open the leftmost lane free over their span.
+ * An edge parent → child occupies the child's lane for every row between the two.
+ */
+export const layoutVersionGraph = (history: SemanticDiff[]): VersionGraph => {
+  const ids = indexById(history);
+  const parents = history.map((_, i) => parentIndexOf(history, i, ids));
+  const children: number[][] = history.map(() => []);
+  parents.forEach((p, i) => { if (p >= 0) children[p].push(i); });
+
+  const lanes: number[] = [];
+  const occupied: [number, number][][] = []; // per lane, inclusive row ranges
+  const isFree = (lane: number, from: number, to: number) =>
+    !(occupied[lane] || []).some(([a, b]) => a <= to && from <= b);
+  const occupy = (lane: number, from: number, to: number) => {
+    (occupied[lane] = occupied[lane] || []).push([from, to]);
+  };
+
+  history.forEach((_, i) => {
+    const p = parents[i];
+    if (p < 0) {
+      let lane = 0;
+      while (!isFree(lane, i, i)) lane++;
+      lanes[i] = lane;
+      occupy(lane, i, i);
+      return;
+    }
+    if (children[p][0] === i && isFree(lanes[p], p + 1, i)) {
+      lanes[i] = lanes[p];
+      occupy(lanes[i], p + 1, i);
+      return;
+    }
+    let lane = 0;
+    while (!isFree(lane, p, i)) lane++;
+    lanes[i] = lane;
+    occupy(lane, p, i);
+  });
+
+  const passing: number[][] = history.map(() => []);
+  parents.forEach((p, c) => {
+    for (let row = p + 1; row < c && p >= 0; row++) passing[row].push(lanes[c]);
+  });
+
+  return { lanes, laneCount: Math.max(1, ...lanes.map(l => l + 1)), parents, children, passing };
+};
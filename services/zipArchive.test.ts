@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { crc32, deflateRawSync } from "zlib";
+import { readZip } from "./zipArchive";
+
+// A one-entry archive whose directory claims `declared` uncompressed bytes
+const zipOf = (name: string, content: Buffer, declared: number): ArrayBuffer => {
+  const data = deflateRawSync(content);
+  const fileName = Buffer.from(name);
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(crc32(content), 14);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(declared, 22);
+  local.writeUInt16LE(fileName.length, 26);
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(crc32(content), 16);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(declared, 24);
+  central.writeUInt16LE(fileName.length, 28);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(local.length + fileName.length + data.length, 16);
+  const zip = Buffer.concat([local, fileName, data, central, fileName, end]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length);
+};
+
+describe("readZip", () => {
+  const content = Buffer.alloc(200_000, "a");
+
+  it("inflates an entry to its declared size", async () => {
+    const [entry] = readZip(zipOf("a.txt", content, content.length));
+    expect(Buffer.from(await entry.bytes()).equals(content)).toBe(true);
+  });
+
+  it("stops inflating an entry that grows past its declared size", async () => {
+    const [entry] = readZip(zipOf("bomb.txt", content, 100));
+    await expect(entry.bytes()).rejects.toThrow("more than the 100 bytes");
+  });
+});
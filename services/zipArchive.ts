@@ -0,0 +1,167 @@
+/**
+ * Minimal ZIP reader for the archive and EPUB importers. Entries are listed from the central
+ * directory and inflated on demand with the browser's DecompressionStream, so no library
+ * is needed. Stored and deflated entries are supported; ZIP64 and encrypted archives are not.
+ * `writeZip` does the reverse for the DOCX exporter, without compression.
+ */
+export interface ZipEntry {
+  name: string; // path inside the archive, '/'-separated
+  size: number; // uncompressed bytes as declared; `bytes` fails rather than return more
+  isDirectory: boolean;
+  bytes: () => Promise<Uint8Array>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+/**
+ * Inflates a deflated entry, giving up as soon as the output exceeds `limit` bytes: the size
+ * the archive declares can't be trusted, and a small entry may inflate to gigabytes.
+ */
+const inflateRaw = async (data: Uint8Array, limit: number): Promise<Uint8Array | null> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    length += read.value.length;
+    if (length > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(read.value);
+  }
+  const out = new Uint8Array(length);
+  chunks.reduce((at, chunk) => (out.set(chunk, at), at + chunk.length), 0);
+  return out;
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const stop = Math.max(0, view.byteLength - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = view.byteLength - EOCD_MIN_SIZE; i >= stop; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  throw new Error('Not a ZIP archive');
+};
+
+export const readZip = (buffer: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      isDirectory: name.endsWith('/'),
+      bytes: async () => {
+        if (flags & 1) throw new Error(`${name} is encrypted`);
+        if (view.getUint32(localOffset, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry ${name}`);
+        // The local header's name and extra field lengths can differ from the central directory's
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        if (method !== 0 && method !== 8) throw new Error(`${name} uses unsupported compression method ${method}`);
+        const unpacked = method === 0 ? (data.length <= size ? data.slice() : null) : await inflateRaw(data, size);
+        if (!unpacked) throw new Error(`${name} unpacks to more than the ${size} bytes the archive declares`);
+        return unpacked;
+      }
+    });
+  }
+  return entries;
+};
+
+/** An entry's text, decoded as UTF-8. */
+export const readZipText = async (entry: ZipEntry): Promise<string> =>
+  new TextDecoder().decode(await entry.bytes());
+
+// --- Writing ---
+
+export interface ZipFile {
+  name: string;
+  data: Uint8Array | string; // strings are written as UTF-8
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** An archive of `files`, stored uncompressed. Names are flagged as UTF-8. */
+export const writeZip = (files: ZipFile[], type = 'application/zip'): Blob => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_SIGNATURE, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, CENTRAL_SIGNATURE, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, date, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(EOCD_MIN_SIZE));
+  end.setUint32(0, EOCD_SIGNATURE, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type });
+};
@@ -7,15 +7,29 @@ export enum RecallType {
   HYBRID = 'HYBRID'
 }
 
+export interface PatchHunk {
+  at: number; // Offset in the previous version's text
+  remove: string;
+  insert: string;
+}
+
 export interface SemanticDiff {
   id: string;
   timestamp: number;
   description: string; // "Changed style to cyberpunk"
-  previewImage?: string; // Snapshot of this state (for visual reference)
-  content?: string; // The full content snapshot for restoration
+  previewImage?: string; // Snapshot of this state (for visual reference), inline or blob reference
+  content?: string; // The full content snapshot for restoration, inline or blob reference
+  patch?: PatchHunk[]; // Edit from the previous entry's text, stored instead of `content` (see services/textHistory)
+  keyframe?: boolean; // `content` is a deliberate keyframe of a patch-based history
+  parentId?: string; // Entry this one was derived from; absent means the entry before it (see services/versionTree)
   author: 'user' | 'system' | 'gemini';
 }
 
+export interface HistoryBranch {
+  name: string;
+  headId: string; // Latest SemanticDiff on this line of history
+}
+
 export interface FinancialData {
   amount?: number;
   currency?: string;
@@ -23,8 +37,27 @@ export interface FinancialData {
   category?: string; // e.g., "Utility", "Tax", "Groceries"
   entity?: string; // Vendor, Sender, or Bank Name
   lineItems?: string[]; // Brief summary of what was bought
+  corrected?: boolean; // Values were edited by hand in the ledger
+  notDuplicateOf?: string[]; // Memories the user confirmed this bill is not a duplicate of
+}
+
+export type DeadlineKind = 'due' | 'renewal' | 'expiry' | 'other';
+
+export interface Deadline {
+  id: string;
+  title: string; // e.g. "Pay electricity bill", "Lease renewal notice"
+  date: string; // ISO Date YYYY-MM-DD
+  kind: DeadlineKind;
+  amount?: number;
+  currency?: string;
+  status: 'open' | 'done';
+  snoozedUntil?: number; // No reminders before this timestamp
+  notifiedAt?: number; // Last browser notification for this deadline
 }
 
+// How textual content is displayed (see services/contentFormat)
+export type ContentFormat = 'plain' | 'markdown' | 'html';
+
 export interface RecallMetadata {
   location?: string;
   weather?: string;
@@ -33,6 +66,15 @@ export interface RecallMetadata {
   sourceApp?: string; // e.g., "Chrome", "Camera"
   fileSize?: string;
   financial?: FinancialData; // New structured data field
+  deadlines?: Deadline[]; // Dated obligations found in the document
+  analysisError?: string; // Set when AI analysis failed at ingest; the memory can be re-analyzed
+}
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the media
+  end: number;
+  speaker?: string; // e.g. "Speaker 1", or a name when one is said
+  text: string;
 }
 
 export interface RecallFile {
@@ -40,21 +82,69 @@ export interface RecallFile {
   title: string;
   description: string; // Generated by Gemini
   type: RecallType;
-  content: string; // Base64 data or text content
-  thumbnail: string; // For docs/audio, this might be an icon or generated placeholder
+  content: string; // Base64 data, text content, or a blob reference (see services/blobStore)
+  contentFormat?: ContentFormat; // For textual content; absent on older memories, which are sniffed
+  thumbnail: string; // For docs/audio, this might be an icon or generated placeholder; may be a blob reference
+  pages?: string[]; // Extracted text of each page when the content is a PDF
+  transcript?: TranscriptSegment[]; // Timestamped speech when the content is audio or video (see services/mediaTranscript)
+  attachedTo?: string; // Memory this one was imported from, e.g. the email an attachment came with
+  sourceIds?: string[]; // Memories this one was built from, e.g. the ones an agent summary cites
   createdAt: number;
   updatedAt: number;
   metadata: RecallMetadata;
-  history: SemanticDiff[]; // Infinite undo stack
-  vectorId?: string; // For Qdrant/Vector search simulation
+  history: SemanticDiff[]; // Infinite undo stack; a tree through SemanticDiff.parentId
+  branches?: HistoryBranch[]; // Named heads in the history tree; absent means one "main" branch ending at the last entry
+  activeBranch?: string; // Branch whose head is the current content
+  vectorId?: string; // Fingerprint of this memory's entry in the local vector index (services/vectorIndex)
   
   // Spatial Coordinates for Canvas Mode
   x?: number;
   y?: number;
 }
 
+export interface AgentToolCall {
+  name: string;
+  args: Record<string, any>;
+  result?: unknown; // what was returned to the model
+  error?: string;
+  approval?: 'approved' | 'rejected'; // for calls that changed, or would have changed, the library
+}
+
+export interface AgentActionChange {
+  memoryId?: string; // absent for a memory the action creates
+  title: string;
+  before?: string; // excerpt of what is there now
+  after?: string; // excerpt of what it becomes
+}
+
+// A change the agent wants to make, waiting for the user to approve or reject it
+export interface AgentAction {
+  id: string;
+  tool: string;
+  summary: string; // e.g. "Delete 3 memories"
+  reasoning?: string;
+  destructive: boolean; // removes memories
+  changes: AgentActionChange[];
+}
+
+export interface AgentStep {
+  thought?: string; // text the model sent along with its tool calls
+  calls: AgentToolCall[];
+}
+
+// A retrieved passage the agent cited, as `[label]` in its reply
+export interface Citation {
+  label: string; // e.g. "S1"
+  memoryId: string;
+  title: string;
+  passage: string; // indexed text of the cited chunk
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  trace?: AgentStep[]; // tool steps the agent took before this reply
+  citations?: Citation[]; // sources cited in `text`
+  notice?: boolean; // an app status shown in the chat, kept out of the conversation replayed to the agent
 }
\ No newline at end of file